@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { StockData, getIndustryStocks } from '../../lib/stock-data';
 import IndustryPosition from './industry-position';
-import { getAdvancedMetricScore } from '../../lib/advanced-metric-scoring';
+import { getAdvancedMetricScore } from '@shared/scoring/advanced-metric-scoring';
 
 interface ComparativeAnalysisProps {
   currentStock: StockData;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { X } from 'lucide-react';
 import { StockData } from '../../lib/stock-data';
-import { getAdvancedMetricScore } from '../../lib/advanced-metric-scoring';
+import { getAdvancedMetricScore } from '@shared/scoring/advanced-metric-scoring';
 
 interface MetricRankingPopupProps {
   isOpen: boolean;
@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { StockData } from "../../lib/stock-data";
 import { getIndustryStocks } from "../../lib/stock-data";
-import { getAdvancedMetricScore } from "../../lib/advanced-metric-scoring";
-import { getIndustryAverages } from "../../lib/industry-data";
-import { marketAverages } from "../../lib/market-averages";
+import { getAdvancedMetricScore } from "@shared/scoring/advanced-metric-scoring";
+import { getIndustryAverages } from "@shared/scoring/industry-averages";
+import { marketAverages } from "@shared/scoring/market-averages";
 
 interface VerticalStockComparisonProps {
   currentStock: StockData;
@@ -0,0 +1,382 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CalendarClock, Pause, Play, Plus, Trash2, X } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import type { StockData } from '@/lib/stock-data';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import type { InvestmentPlan, PlanAllocation, PlanFrequency, PlanRunStatus } from '@shared/schema';
+import type { InvestmentPlanHistory } from '@shared/scoring/dollar-cost-averaging';
+
+const PLANS_QUERY_KEY = ['/api/portfolio/plans'];
+
+const frequencyLabels: Record<PlanFrequency, string> = {
+  weekly: 'Every week',
+  biweekly: 'Every two weeks',
+  monthly: 'Every month'
+};
+
+const runStatusStyles: Record<PlanRunStatus, string> = {
+  executed: 'bg-green-50 text-green-700',
+  partial: 'bg-amber-50 text-amber-700',
+  skipped: 'bg-slate-100 text-slate-600'
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+// Equal weights to two decimals, with the rounding left on the last stock so they add up to 100
+function equalWeights(tickers: string[]): PlanAllocation[] {
+  const weight = Math.floor(10000 / tickers.length) / 100;
+  return tickers.map((ticker, i) => ({
+    ticker,
+    weight: i === tickers.length - 1 ? Number((100 - weight * (tickers.length - 1)).toFixed(2)) : weight
+  }));
+}
+
+/**
+ * Recurring investment plans (dollar-cost averaging): a form to start one for a
+ * stock or a basket, the plans with pause, resume and delete, and each plan's
+ * runs next to what a lump sum on its first run would be worth.
+ * Only available to signed-in users, since plans run on the server.
+ */
+export default function InvestmentPlans() {
+  const { toast } = useToast();
+  const [allocations, setAllocations] = useState<PlanAllocation[]>([]);
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<PlanFrequency>('monthly');
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: plans } = useQuery<InvestmentPlan[] | null>({
+    queryKey: PLANS_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: universe } = useQuery<StockData[]>({
+    queryKey: ['/api/universe'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const tickers = (universe ?? [])
+    .map(stock => stock.ticker)
+    .filter(ticker => !allocations.some(allocation => allocation.ticker === ticker));
+  const weightTotal = allocations.reduce((total, allocation) => total + allocation.weight, 0);
+
+  const handleAddTicker = (ticker: string) =>
+    setAllocations(equalWeights([...allocations.map(allocation => allocation.ticker), ticker]));
+
+  const handleRemoveTicker = (ticker: string) =>
+    setAllocations(equalWeights(allocations.map(allocation => allocation.ticker).filter(t => t !== ticker)));
+
+  const handleWeightChange = (ticker: string, value: string) =>
+    setAllocations(allocations.map(allocation =>
+      allocation.ticker === ticker ? { ...allocation, weight: parseFloat(value) || 0 } : allocation
+    ));
+
+  const sendPlanRequest = async (failureTitle: string, request: () => Promise<Response>) => {
+    setIsSaving(true);
+    try {
+      await request();
+      queryClient.invalidateQueries({ queryKey: PLANS_QUERY_KEY });
+      return true;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await sendPlanRequest("Could not start plan", () => apiRequest("POST", "/api/portfolio/plans", {
+      allocations,
+      amount: parseFloat(amount),
+      frequency
+    }));
+    if (created) {
+      setAllocations([]);
+      setAmount('');
+    }
+  };
+
+  const handleToggle = (plan: InvestmentPlan) =>
+    sendPlanRequest(plan.active ? "Could not pause plan" : "Could not resume plan",
+      () => apiRequest("PATCH", `/api/portfolio/plans/${plan.id}`, { active: !plan.active }));
+
+  const handleDelete = async (plan: InvestmentPlan) => {
+    const deleted = await sendPlanRequest("Could not delete plan", () => apiRequest("DELETE", `/api/portfolio/plans/${plan.id}`));
+    if (deleted && selectedPlanId === plan.id) setSelectedPlanId(null);
+  };
+
+  if (plans === null) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 text-center">
+        <CalendarClock className="h-8 w-8 mx-auto mb-2 text-slate-300" />
+        <h3 className="text-sm font-medium text-slate-700 mb-1">Sign in to set up recurring investments</h3>
+        <p className="text-xs text-slate-500">Plans buy on a schedule from your cash, even while you're away</p>
+      </div>
+    );
+  }
+
+  const canCreate = allocations.length > 0 && Math.abs(weightTotal - 100) < 0.01 && parseFloat(amount) > 0 && !isSaving;
+
+  return (
+    <div className="space-y-4">
+      {/* New plan */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-medium text-slate-800">Start a Plan</h3>
+          <CalendarClock className="h-4 w-4 text-slate-400" />
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Buys the same dollar amount on a schedule, split across one or more stocks. The first buy is today.
+        </p>
+
+        {allocations.length > 0 && (
+          <div className="space-y-2 mb-3">
+            {allocations.map(allocation => (
+              <div key={allocation.ticker} className="flex items-center gap-2">
+                <span className="text-sm font-medium text-slate-700 w-16">{allocation.ticker}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={allocation.weight}
+                  onChange={e => handleWeightChange(allocation.ticker, e.target.value)}
+                  disabled={isSaving}
+                  className="w-24"
+                />
+                <span className="text-xs text-slate-500">%</span>
+                <Button variant="ghost" size="icon" onClick={() => handleRemoveTicker(allocation.ticker)} disabled={isSaving}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {Math.abs(weightTotal - 100) >= 0.01 && (
+              <p className="text-xs text-red-600">Weights add up to {weightTotal.toFixed(2)}%, not 100%</p>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <Select value="" onValueChange={handleAddTicker} disabled={isSaving || allocations.length >= 10}>
+            <SelectTrigger>
+              <SelectValue placeholder={allocations.length === 0 ? 'Stock' : 'Add a stock'} />
+            </SelectTrigger>
+            <SelectContent>
+              {tickers.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Amount per buy ($)"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            disabled={isSaving}
+          />
+          <Select value={frequency} onValueChange={value => setFrequency(value as PlanFrequency)} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue placeholder="Frequency" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(frequencyLabels) as PlanFrequency[]).map(option => (
+                <SelectItem key={option} value={option}>{frequencyLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={!canCreate}>
+            <Plus className="h-4 w-4 mr-1" />
+            {isSaving ? 'Saving...' : 'Start plan'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Plans */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <h3 className="text-lg font-medium text-slate-800 mb-3">Your Plans</h3>
+
+        {!plans ? (
+          <p className="text-sm text-slate-500 text-center py-2">Loading...</p>
+        ) : plans.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-2">No investment plans yet</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {plans.map(plan => (
+              <div key={plan.id} className="flex justify-between items-start py-3">
+                <button
+                  className="text-left"
+                  onClick={() => setSelectedPlanId(selectedPlanId === plan.id ? null : plan.id)}
+                >
+                  <p className="text-sm font-medium text-slate-700">
+                    {formatCurrency(plan.amount)} in {plan.name}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {frequencyLabels[plan.frequency as PlanFrequency]} • {plan.active
+                      ? `Next buy ${formatDate(plan.nextRunDate)}`
+                      : 'Paused'}
+                  </p>
+                </button>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" onClick={() => handleToggle(plan)} disabled={isSaving}>
+                    {plan.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(plan)} disabled={isSaving}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedPlanId !== null && <PlanHistory planId={selectedPlanId} />}
+    </div>
+  );
+}
+
+function PlanHistory({ planId }: { planId: number }) {
+  const { data: history, isLoading } = useQuery<InvestmentPlanHistory | null>({
+    queryKey: [`/api/portfolio/plans/${planId}/history`],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  if (isLoading || !history) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <p className="text-sm text-slate-500 text-center py-2">Loading plan history...</p>
+      </div>
+    );
+  }
+
+  const { plan, runs, comparison } = history;
+  const lumpSumDifference = comparison.lumpSum ? comparison.value - comparison.lumpSum.value : null;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-4">
+      <h3 className="text-lg font-medium text-slate-800">{plan.name}</h3>
+
+      {comparison.runs === 0 ? (
+        <p className="text-sm text-slate-500">No buys yet. The first is on {formatDate(plan.nextRunDate)}.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div>
+              <p className="text-xs text-slate-500">Invested</p>
+              <p className="text-sm font-medium text-slate-800">{formatCurrency(comparison.invested)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Worth now</p>
+              <p className="text-sm font-medium text-slate-800">{formatCurrency(comparison.value)}</p>
+              {comparison.return !== null && (
+                <p className={`text-xs ${comparison.return >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatPercent(comparison.return)}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Lump sum</p>
+              {comparison.lumpSum ? (
+                <>
+                  <p className="text-sm font-medium text-slate-800">{formatCurrency(comparison.lumpSum.value)}</p>
+                  <p className={`text-xs ${comparison.lumpSum.return >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatPercent(comparison.lumpSum.return)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-xs text-slate-400">No price history</p>
+              )}
+            </div>
+          </div>
+
+          {comparison.lumpSum && lumpSumDifference !== null && (
+            <p className="text-xs text-slate-500">
+              Spreading your buys out has {lumpSumDifference >= 0 ? 'gained' : 'cost'} {formatCurrency(Math.abs(lumpSumDifference))} compared
+              with investing it all on {formatDate(comparison.lumpSum.date)}.
+            </p>
+          )}
+
+          {comparison.timeline.length > 1 && (
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={comparison.timeline} margin={{ top: 5, right: 5, left: -10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 10, fill: '#64748b' }}
+                    tickFormatter={date => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                    minTickGap={30}
+                  />
+                  <YAxis tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={value => `$${Math.round(value)}`} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} labelFormatter={date => formatDate(date)} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line type="stepAfter" dataKey="invested" name="Invested" stroke="#94a3b8" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="value" name="Plan" stroke="#2563eb" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="lumpSumValue" name="Lump sum" stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="divide-y divide-slate-100">
+            {comparison.tickers.map(ticker => (
+              <div key={ticker.ticker} className="flex justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium text-slate-700">{ticker.ticker}</p>
+                  <p className="text-xs text-slate-500">
+                    {ticker.shares.toFixed(4)} shares at {formatCurrency(ticker.averageCost)} average cost
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-slate-700">{formatCurrency(ticker.value)}</p>
+                  {ticker.lumpSumValue !== null && (
+                    <p className="text-xs text-slate-500">Lump sum {formatCurrency(ticker.lumpSumValue)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {runs.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-2">Runs</h4>
+          <div className="divide-y divide-slate-100">
+            {[...runs].reverse().map(run => (
+              <div key={run.id} className="flex justify-between items-start py-2">
+                <div>
+                  <p className="text-sm text-slate-700">{formatDate(run.runDate)}</p>
+                  {run.reason && <p className="text-xs text-slate-500">{run.reason}</p>}
+                </div>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${runStatusStyles[run.status as PlanRunStatus]}`}>
+                  {run.status}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Clock, Pencil, X } from 'lucide-react';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import type { StockData } from '@/lib/stock-data';
+import { useLivePrice } from '@/hooks/use-price-stream';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import type { Order, OrderStatus, OrderTimeInForce, OrderType, PortfolioWithHoldings } from '@shared/schema';
+
+const ORDERS_QUERY_KEY = ['/api/portfolio/orders'];
+
+const orderTypeLabels: Record<OrderType, string> = {
+  limit_buy: 'Limit buy',
+  limit_sell: 'Limit sell',
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit'
+};
+
+const orderTypeHints: Record<OrderType, string> = {
+  limit_buy: 'Buys once the price falls to your limit or lower',
+  limit_sell: 'Sells once the price rises to your limit or higher',
+  stop_loss: 'Sells to cap your loss once the price falls to your stop',
+  take_profit: 'Sells to lock in gains once the price rises to your target'
+};
+
+const timeInForceLabels: Record<OrderTimeInForce, string> = {
+  gtc: 'Good til cancelled',
+  day: 'Today only'
+};
+
+const statusStyles: Record<OrderStatus, string> = {
+  open: 'bg-blue-50 text-blue-700',
+  filled: 'bg-green-50 text-green-700',
+  cancelled: 'bg-slate-100 text-slate-600',
+  expired: 'bg-slate-100 text-slate-600',
+  rejected: 'bg-red-50 text-red-700'
+};
+
+// Filled orders have traded, so everything built from the ledger is stale
+function invalidateAfterFills() {
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/transactions'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/gains'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/performance'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/risk'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/rebalance'] });
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const orderSize = (order: Order) =>
+  order.type === 'limit_buy' ? formatCurrency(order.amount ?? 0) : `${(order.shares ?? 0).toFixed(4)} shares`;
+
+/**
+ * Limit, stop-loss and take-profit orders: a form to place them, the open ones
+ * with amend and cancel, and what happened to the rest. Orders are filled on
+ * the server as prices come in, so the list refreshes itself.
+ * Only available to signed-in users, since guest portfolios live in the browser.
+ */
+export default function PendingOrders() {
+  const { toast } = useToast();
+  const [type, setType] = useState<OrderType>('limit_buy');
+  const [ticker, setTicker] = useState('');
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [size, setSize] = useState('');
+  const [timeInForce, setTimeInForce] = useState<OrderTimeInForce>('gtc');
+  const [editing, setEditing] = useState<{ id: number; triggerPrice: string; size: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: portfolio } = useQuery<PortfolioWithHoldings | null>({
+    queryKey: ['/api/portfolio'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: orders } = useQuery<Order[] | null>({
+    queryKey: ORDERS_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    refetchInterval: 60 * 1000, // The pending-orders job runs every few minutes
+  });
+
+  // Refresh the portfolio when the job fills an order in the background
+  const filledCount = (orders ?? []).filter(order => order.status === 'filled').length;
+  const lastFilledCount = useRef<number | null>(null);
+  useEffect(() => {
+    if (!orders) return;
+    if (lastFilledCount.current !== null && filledCount > lastFilledCount.current) invalidateAfterFills();
+    lastFilledCount.current = filledCount;
+  }, [orders, filledCount]);
+
+  const { data: universe } = useQuery<StockData[]>({
+    queryKey: ['/api/universe'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const isBuy = type === 'limit_buy';
+  const tickers = isBuy
+    ? (universe ?? []).map(stock => stock.ticker)
+    : (portfolio?.holdings ?? []).map(holding => holding.ticker);
+
+  // Start the trigger at the chosen stock's live price once its first tick arrives
+  const livePrice = useLivePrice(ticker || null);
+  const prefilledTicker = useRef<string | null>(null);
+  useEffect(() => {
+    if (!livePrice || prefilledTicker.current === ticker) return;
+    prefilledTicker.current = ticker;
+    if (!triggerPrice) setTriggerPrice(livePrice.price.toFixed(2));
+  }, [livePrice, ticker]);
+
+  const handleTypeChange = (value: string) => {
+    setType(value as OrderType);
+    setTicker('');
+    setSize('');
+  };
+
+  const sendOrderRequest = async (failureTitle: string, request: () => Promise<Response>) => {
+    setIsSaving(true);
+    try {
+      await request();
+      queryClient.invalidateQueries({ queryKey: ORDERS_QUERY_KEY });
+      return true;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePlace = async () => {
+    const placed = await sendOrderRequest("Could not place order", () => apiRequest("POST", "/api/portfolio/orders", {
+      ticker,
+      type,
+      triggerPrice: parseFloat(triggerPrice),
+      ...(isBuy ? { amount: parseFloat(size) } : { shares: parseFloat(size) }),
+      timeInForce
+    }));
+    if (placed) {
+      setTicker('');
+      setTriggerPrice('');
+      setSize('');
+    }
+  };
+
+  const handleAmend = async (order: Order) => {
+    if (!editing) return;
+    const amended = await sendOrderRequest("Could not amend order", () => apiRequest("PATCH", `/api/portfolio/orders/${order.id}`, {
+      triggerPrice: parseFloat(editing.triggerPrice),
+      ...(order.type === 'limit_buy' ? { amount: parseFloat(editing.size) } : { shares: parseFloat(editing.size) })
+    }));
+    if (amended) setEditing(null);
+  };
+
+  const handleCancel = (order: Order) =>
+    sendOrderRequest("Could not cancel order", () => apiRequest("DELETE", `/api/portfolio/orders/${order.id}`));
+
+  if (orders === null || portfolio === null) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 text-center">
+        <Clock className="h-8 w-8 mx-auto mb-2 text-slate-300" />
+        <h3 className="text-sm font-medium text-slate-700 mb-1">Sign in to place limit and stop orders</h3>
+        <p className="text-xs text-slate-500">Orders wait on the server until the price you set is reached</p>
+      </div>
+    );
+  }
+
+  const openOrders = (orders ?? []).filter(order => order.status === 'open');
+  const closedOrders = (orders ?? []).filter(order => order.status !== 'open').slice(0, 10);
+  const canPlace = ticker && parseFloat(triggerPrice) > 0 && parseFloat(size) > 0 && !isSaving;
+
+  return (
+    <div className="space-y-4">
+      {/* New order */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-medium text-slate-800">Place an Order</h3>
+          <Clock className="h-4 w-4 text-slate-400" />
+        </div>
+        <p className="text-xs text-slate-500 mb-3">{orderTypeHints[type]}</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Select value={type} onValueChange={handleTypeChange} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue placeholder="Order type" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(orderTypeLabels) as OrderType[]).map(option => (
+                <SelectItem key={option} value={option}>{orderTypeLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ticker} onValueChange={setTicker} disabled={isSaving || tickers.length === 0}>
+            <SelectTrigger>
+              <SelectValue placeholder={tickers.length === 0 ? 'No holdings to sell' : 'Stock'} />
+            </SelectTrigger>
+            <SelectContent>
+              {tickers.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder={isBuy ? 'Limit price' : type === 'stop_loss' ? 'Stop price' : 'Target price'}
+            value={triggerPrice}
+            onChange={e => setTriggerPrice(e.target.value)}
+            disabled={isSaving}
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder={isBuy ? 'Amount ($)' : 'Shares'}
+            value={size}
+            onChange={e => setSize(e.target.value)}
+            disabled={isSaving}
+          />
+          <Select value={timeInForce} onValueChange={value => setTimeInForce(value as OrderTimeInForce)} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue placeholder="Expiry" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(timeInForceLabels) as OrderTimeInForce[]).map(option => (
+                <SelectItem key={option} value={option}>{timeInForceLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handlePlace} disabled={!canPlace}>
+            {isSaving ? 'Saving...' : 'Place order'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Open orders */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <h3 className="text-lg font-medium text-slate-800 mb-3">Open Orders</h3>
+
+        {!orders ? (
+          <p className="text-sm text-slate-500 text-center py-2">Loading...</p>
+        ) : openOrders.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-2">No open orders</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {openOrders.map(order => (
+              <div key={order.id} className="py-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="text-sm font-medium text-slate-700">
+                      {orderTypeLabels[order.type as OrderType]} {order.ticker} at {formatCurrency(order.triggerPrice)}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {orderSize(order)} • {order.expiresAt
+                        ? `Expires ${new Date(order.expiresAt).toLocaleString()}`
+                        : timeInForceLabels.gtc}
+                    </p>
+                  </div>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditing({
+                        id: order.id,
+                        triggerPrice: String(order.triggerPrice),
+                        size: String(order.type === 'limit_buy' ? order.amount : order.shares)
+                      })}
+                      disabled={isSaving}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleCancel(order)} disabled={isSaving}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {editing?.id === order.id && (
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={editing.triggerPrice}
+                      onChange={e => setEditing({ ...editing, triggerPrice: e.target.value })}
+                      disabled={isSaving}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      value={editing.size}
+                      onChange={e => setEditing({ ...editing, size: e.target.value })}
+                      disabled={isSaving}
+                    />
+                    <Button size="sm" onClick={() => handleAmend(order)} disabled={isSaving}>
+                      Save
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Recently closed orders */}
+      {closedOrders.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+          <h3 className="text-lg font-medium text-slate-800 mb-3">Order History</h3>
+          <div className="divide-y divide-slate-100">
+            {closedOrders.map(order => (
+              <div key={order.id} className="flex justify-between items-start py-2">
+                <div>
+                  <p className="text-sm font-medium text-slate-700">
+                    {orderTypeLabels[order.type as OrderType]} {order.ticker} at {formatCurrency(order.triggerPrice)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {orderSize(order)}
+                    {order.fillPrice !== null && ` • Filled at ${formatCurrency(order.fillPrice)}`}
+                    {order.statusReason && ` • ${order.statusReason}`}
+                  </p>
+                </div>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${statusStyles[order.status as OrderStatus]}`}>
+                  {order.status}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
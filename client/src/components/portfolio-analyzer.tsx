@@ -1,11 +1,17 @@
-import { useState, useRef, useCallback } from "react";
-import { Send, Loader2, Maximize2, Minimize2, MessageSquare } from "lucide-react";
+import { useState, useRef, useCallback, useMemo } from "react";
+import { Send, Loader2, Maximize2, Minimize2, MessageSquare, ThumbsUp, AlertTriangle, ArrowRightLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { usePortfolio, PortfolioHolding } from "@/contexts/portfolio-context";
 import { useToast } from "@/hooks/use-toast";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { getAllStocks } from "@/lib/stock-data";
+import type { PortfolioAnalysis, SuggestedTrade } from "@shared/schema";
+
+type AnalyzerMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; analysis?: PortfolioAnalysis };
 
 /**
  * PortfolioAnalyzer component provides AI-powered portfolio analysis
@@ -21,7 +27,7 @@ export default function PortfolioAnalyzer() {
   const [query, setQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [conversation, setConversation] = useState<{ role: "user" | "assistant"; content: string }[]>([]);
+  const [conversation, setConversation] = useState<AnalyzerMessage[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -79,18 +85,21 @@ export default function PortfolioAnalyzer() {
       });
       
       if (!response.ok) {
-        throw new Error('Failed to get AI analysis');
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Failed to get AI analysis');
       }
       
-      const data = await response.json();
+      const data: { analysis: PortfolioAnalysis } = await response.json();
       
-      // Add the AI response to the conversation
-      setConversation(prev => [...prev, { role: "assistant", content: data.response }]);
+      // Add the structured analysis to the conversation; its summary doubles as the text
+      setConversation(prev => [...prev, { role: "assistant", content: data.analysis.summary, analysis: data.analysis }]);
     } catch (error) {
       console.error('Error fetching AI response:', error);
       toast({
         title: "Error",
-        description: "Unable to get AI analysis at this time. Please try again later.",
+        description: error instanceof Error && error.message !== 'Failed to get AI analysis'
+          ? error.message
+          : "Unable to get AI analysis at this time. Please try again later.",
         variant: "destructive",
       });
       
@@ -189,7 +198,11 @@ export default function PortfolioAnalyzer() {
           </div>
         ) : (
           <div className="space-y-4">
-            {conversation.map((message, index) => (
+            {conversation.map((message, index) => message.role === "assistant" && message.analysis ? (
+              <div key={index} className="assistant-message mr-auto">
+                <AnalysisView analysis={message.analysis} />
+              </div>
+            ) : (
               <div 
                 key={index} 
                 className={`message ${
@@ -291,4 +304,172 @@ function SuggestionButton({ text, onClick }: { text: string, onClick: () => void
       {text}
     </button>
   );
-}
\ No newline at end of file
+}
+const SENTIMENT_STYLES = {
+  positive: "bg-green-50 border-green-200 text-green-700",
+  neutral: "bg-slate-50 border-slate-200 text-slate-600",
+  negative: "bg-red-50 border-red-200 text-red-700"
+} as const;
+
+const SEVERITY_STYLES = {
+  low: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  medium: "bg-orange-50 text-orange-700 border-orange-200",
+  high: "bg-red-50 text-red-700 border-red-200"
+} as const;
+
+// Renders each section of a structured analysis as its own block
+function AnalysisView({ analysis }: { analysis: PortfolioAnalysis }) {
+  const score = Math.round(analysis.diversificationScore);
+  const scoreColor = score >= 70 ? "bg-green-500" : score >= 40 ? "bg-yellow-500" : "bg-red-500";
+
+  return (
+    <div className="space-y-3 max-w-[95%]">
+      {/* Summary and diversification score */}
+      <div className="bg-white border border-gray-200 rounded-xl p-4">
+        <p className="text-sm text-gray-800">{analysis.summary}</p>
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>Diversification</span>
+            <span className="font-semibold text-gray-700">{score}/100</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full ${scoreColor}`} style={{ width: `${score}%` }} />
+          </div>
+        </div>
+      </div>
+
+      {/* Per-holding notes */}
+      {analysis.holdingNotes.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Your holdings</h4>
+          <ul className="space-y-2">
+            {analysis.holdingNotes.map(note => (
+              <li key={note.ticker} className="flex items-start gap-2 text-sm">
+                <span className={`shrink-0 px-2 py-0.5 rounded-md border text-xs font-semibold ${SENTIMENT_STYLES[note.sentiment]}`}>
+                  {note.ticker}
+                </span>
+                <span className="text-gray-700">{note.note}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Strengths */}
+      {analysis.strengths.length > 0 && (
+        <div className="bg-green-50 border border-green-100 rounded-xl p-4">
+          <h4 className="text-sm font-semibold text-green-800 mb-2 flex items-center">
+            <ThumbsUp className="h-4 w-4 mr-1.5" />
+            Strengths
+          </h4>
+          <ul className="space-y-1 text-sm text-green-900">
+            {analysis.strengths.map((strength, index) => (
+              <li key={index}>• {strength}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Risks */}
+      {analysis.risks.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1.5 text-orange-500" />
+            Risks
+          </h4>
+          <ul className="space-y-2">
+            {analysis.risks.map((risk, index) => (
+              <li key={index} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-800">{risk.title}</span>
+                  <span className={`px-1.5 py-0.5 rounded border text-[10px] uppercase font-semibold ${SEVERITY_STYLES[risk.severity]}`}>
+                    {risk.severity}
+                  </span>
+                </div>
+                <p className="text-gray-600">{risk.detail}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Suggested trades with what each would do to the portfolio */}
+      {analysis.suggestedTrades.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+            <ArrowRightLeft className="h-4 w-4 mr-1.5 text-blue-500" />
+            Ideas to consider
+          </h4>
+          <div className="space-y-3">
+            {analysis.suggestedTrades.map((trade, index) => (
+              <TradePreview key={index} trade={trade} />
+            ))}
+          </div>
+          <p className="mt-3 text-[11px] text-gray-400">
+            Educational ideas for your practice portfolio, not financial advice.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const PREVIEW_METRICS = ["qualityScore", "performance", "stability", "value", "momentum"] as const;
+
+const PREVIEW_LABELS: Record<typeof PREVIEW_METRICS[number], string> = {
+  qualityScore: "Quality",
+  performance: "Performance",
+  stability: "Stability",
+  value: "Value",
+  momentum: "Momentum"
+};
+
+// A suggested trade with a calculateImpact preview of the portfolio metrics after it
+function TradePreview({ trade }: { trade: SuggestedTrade }) {
+  const portfolio = usePortfolio();
+  const stock = useMemo(() => getAllStocks().find(s => s.ticker.toUpperCase() === trade.ticker), [trade.ticker]);
+  const holding = portfolio?.holdings.find(h => h.stock.ticker.toUpperCase() === trade.ticker);
+
+  // Sells can't be bigger than the position; calculateImpact treats a negative amount as a sale
+  const amount = trade.action === "sell" ? Math.min(trade.amount, holding?.value ?? 0) : trade.amount;
+  const canPreview = !!portfolio && !!stock && amount > 0;
+  const preview = canPreview ? portfolio!.calculateImpact(stock!, trade.action === "sell" ? -amount : amount) : null;
+
+  return (
+    <div className="border border-gray-100 rounded-lg p-3 bg-gray-50">
+      <div className="flex items-center gap-2 text-sm">
+        <span className={`px-2 py-0.5 rounded-md text-xs font-semibold uppercase ${
+          trade.action === "buy" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+        }`}>
+          {trade.action}
+        </span>
+        <span className="font-semibold text-gray-800">{trade.ticker}</span>
+        <span className="text-gray-500">${amount.toFixed(2)}</span>
+      </div>
+      <p className="mt-1 text-sm text-gray-600">{trade.rationale}</p>
+
+      {preview ? (
+        <div className="mt-2 grid grid-cols-5 gap-1 text-center">
+          {PREVIEW_METRICS.map(metric => {
+            const change = preview.impact[metric];
+            return (
+              <div key={metric} className="bg-white rounded border border-gray-100 py-1">
+                <div className="text-[10px] text-gray-500">{PREVIEW_LABELS[metric]}</div>
+                <div className="text-xs font-semibold text-gray-800">{preview.newMetrics[metric].toFixed(0)}</div>
+                <div className={`text-[10px] ${change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "text-gray-400"}`}>
+                  {change > 0 ? "+" : ""}{change.toFixed(1)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="mt-2 text-[11px] text-gray-400">
+          {trade.action === "sell" && !holding
+            ? "You don't hold this stock, so there's nothing to preview."
+            : "No impact preview for this stock."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -45,7 +45,8 @@ export default function PortfolioDashboard() {
   // Calculate derived values
   const portfolioValue = useMemo(() => {
     console.log("Dashboard: Recalculating portfolioValue");
-    return holdings.reduce((total, h) => total + (h.shares * h.stock.price), 0);
+    // Holding values follow the live price stream
+    return holdings.reduce((total, h) => total + h.value, 0);
   }, [holdings]);
 
   const totalValue = useMemo(() => {
@@ -56,7 +57,7 @@ export default function PortfolioDashboard() {
   const totalReturn = useMemo(() => {
     console.log("Dashboard: Recalculating totalReturn");
     return holdings.reduce((total, h) => {
-      const currentValue = h.shares * h.stock.price;
+      const currentValue = h.value;
       const investedValue = h.shares * h.purchasePrice;
       if (!isNaN(currentValue) && !isNaN(investedValue)) {
         return total + (currentValue - investedValue);
@@ -121,12 +122,7 @@ export default function PortfolioDashboard() {
   // Prepare sorted holdings for the "Top Holdings" section
   const sortedHoldings = useMemo(() => {
     console.log("Dashboard: Recalculating sortedHoldings");
-    // Ensure holding.value is calculated correctly if not already present
-    const holdingsWithValue = holdings.map(h => ({
-      ...h,
-      value: h.shares * h.stock.price // Calculate current value here
-    }));
-    return [...holdingsWithValue] // Create a new array reference for sorting
+    return [...holdings] // Create a new array reference for sorting
       .sort((a, b) => b.value - a.value)
       .slice(0, 2);
   }, [holdings]);
@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { PerformanceRange } from '@shared/schema';
+import {
+  calculatePerformance,
+  growthCurve,
+  snapshotsToValuations,
+  type PerformanceMetrics,
+  type PortfolioPerformance,
+  type ValuationPoint
+} from '@shared/scoring/portfolio-performance';
+import { useSP500ChartData } from '@/lib/yahoo-finance-client';
+import { cn } from '@/lib/utils';
+
+const ranges: { label: string; range: PerformanceRange; timeFrame: string }[] = [
+  { label: '1M', range: '1mo', timeFrame: '1M' },
+  { label: '3M', range: '3mo', timeFrame: '3M' },
+  { label: '6M', range: '6mo', timeFrame: '6M' },
+  { label: '1Y', range: '1y', timeFrame: '1Y' },
+  { label: 'All', range: 'max', timeFrame: 'MAX' }
+];
+
+const portfolioColor = '#2563eb'; // blue-600
+const sp500Color = '#10b981'; // emerald-500
+
+const toIsoDate = (date: string | number) => new Date(date).toISOString().slice(0, 10);
+
+// For "All", the shortest S&P 500 chart that still reaches back to the portfolio's first day
+function benchmarkTimeFrame(timeFrame: string, startDate: string | null): string {
+  if (timeFrame !== 'MAX' || !startDate) return timeFrame;
+  const days = (Date.now() - new Date(startDate).getTime()) / (24 * 60 * 60 * 1000);
+  if (days <= 28) return '1M';
+  if (days <= 89) return '3M';
+  if (days <= 180) return '6M';
+  if (days <= 365) return '1Y';
+  return days <= 3 * 365 ? '3Y' : '5Y';
+}
+
+async function fetchPerformance(range: PerformanceRange): Promise<PortfolioPerformance | null> {
+  const response = await fetch(`/api/portfolio/performance?range=${range}`, { credentials: 'include' });
+  if (response.status === 401) return null;
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fetch portfolio performance');
+  }
+  return await response.json();
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Equity curve from the daily portfolio snapshots against the S&P 500 over the
+ * same days, with return and risk metrics for both.
+ * Only available to signed-in users, since guest portfolios are not snapshotted.
+ */
+export default function PortfolioPerformanceChart() {
+  const [selected, setSelected] = useState(ranges[1]);
+
+  const { data: performance, isLoading } = useQuery<PortfolioPerformance | null>({
+    queryKey: ['/api/portfolio/performance', selected.range],
+    queryFn: () => fetchPerformance(selected.range),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: (previousData) => previousData,
+  });
+
+  const startDate = performance?.metrics.startDate ?? null;
+  const { data: sp500Data } = useSP500ChartData(benchmarkTimeFrame(selected.timeFrame, startDate));
+
+  // The S&P 500 measured from the portfolio's first day, so both start at 0%
+  const benchmarkPoints: ValuationPoint[] = useMemo(() => {
+    if (!startDate || !sp500Data?.quotes) return [];
+    return sp500Data.quotes
+      .filter(quote => Number.isFinite(quote.close) && toIsoDate(quote.date) >= startDate)
+      .map(quote => ({ date: toIsoDate(quote.date), value: quote.close }));
+  }, [sp500Data, startDate]);
+
+  const benchmarkMetrics = useMemo(
+    () => benchmarkPoints.length >= 2 ? calculatePerformance(benchmarkPoints) : null,
+    [benchmarkPoints]
+  );
+
+  // Portfolio and S&P 500 returns by date; each line skips the other's missing days
+  const chartData = useMemo(() => {
+    const byDate = new Map<string, { date: string; portfolio?: number; sp500?: number }>();
+    const entry = (date: string) => {
+      if (!byDate.has(date)) byDate.set(date, { date });
+      return byDate.get(date)!;
+    };
+
+    growthCurve(snapshotsToValuations(performance?.snapshots ?? [])).forEach(point => {
+      entry(point.date).portfolio = Number(point.return.toFixed(2));
+    });
+    growthCurve(benchmarkPoints).forEach(point => {
+      entry(point.date).sp500 = Number(point.return.toFixed(2));
+    });
+
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }, [performance, benchmarkPoints]);
+
+  if (performance === null) {
+    return null;
+  }
+
+  const hasHistory = (performance?.snapshots.length ?? 0) >= 2;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-medium text-slate-800">Performance</h3>
+        <LineChartIcon className="h-4 w-4 text-slate-400" />
+      </div>
+
+      <div className="flex gap-1 mb-4">
+        {ranges.map(option => (
+          <button
+            key={option.range}
+            onClick={() => setSelected(option)}
+            className={cn(
+              'flex-1 text-xs font-medium py-1.5 rounded-md transition-colors',
+              option.range === selected.range
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500 text-center py-8">Loading...</p>
+      ) : !hasHistory ? (
+        <p className="text-sm text-slate-500 text-center py-8">
+          Your portfolio is valued once a day. Check back tomorrow to see how it's doing.
+        </p>
+      ) : (
+        <>
+          <div className="h-56 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 10, fill: '#64748b' }}
+                  tickFormatter={date => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                  minTickGap={30}
+                />
+                <YAxis tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={value => `${value}%`} />
+                <Tooltip
+                  formatter={(value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`}
+                  labelFormatter={date => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line type="monotone" dataKey="portfolio" name="Your portfolio" stroke={portfolioColor} strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="sp500" name="S&P 500" stroke={sp500Color} strokeWidth={2} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <MetricsTable portfolio={performance!.metrics} benchmark={benchmarkMetrics} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function MetricsTable({ portfolio, benchmark }: { portfolio: PerformanceMetrics; benchmark: PerformanceMetrics | null }) {
+  const rows: { label: string; hint: string; portfolio: string; benchmark: string }[] = [
+    {
+      label: 'Return',
+      hint: 'Time-weighted, ignores when cash was added',
+      portfolio: formatPercent(portfolio.timeWeightedReturn),
+      benchmark: formatPercent(benchmark?.timeWeightedReturn ?? null)
+    },
+    {
+      label: 'Your return',
+      hint: 'Money-weighted (IRR), counts when cash was added',
+      portfolio: formatPercent(portfolio.moneyWeightedReturn),
+      benchmark: '—'
+    },
+    {
+      label: 'Max drawdown',
+      hint: 'Largest fall from a high',
+      portfolio: formatPercent(portfolio.maxDrawdown),
+      benchmark: formatPercent(benchmark?.maxDrawdown ?? null)
+    },
+    {
+      label: 'Volatility',
+      hint: 'Annualized',
+      portfolio: portfolio.volatility === null ? '—' : `${portfolio.volatility.toFixed(1)}%`,
+      benchmark: benchmark?.volatility == null ? '—' : `${benchmark.volatility.toFixed(1)}%`
+    },
+    {
+      label: 'Sharpe ratio',
+      hint: 'Return per unit of risk above cash',
+      portfolio: portfolio.sharpeRatio === null ? '—' : portfolio.sharpeRatio.toFixed(2),
+      benchmark: benchmark?.sharpeRatio == null ? '—' : benchmark.sharpeRatio.toFixed(2)
+    }
+  ];
+
+  return (
+    <div className="text-xs">
+      <div className="grid grid-cols-3 gap-2 pb-2 border-b border-slate-100 text-slate-500">
+        <p></p>
+        <p className="text-right" style={{ color: portfolioColor }}>Portfolio</p>
+        <p className="text-right" style={{ color: sp500Color }}>S&amp;P 500</p>
+      </div>
+      {rows.map(row => (
+        <div key={row.label} className="grid grid-cols-3 gap-2 py-2 border-b border-slate-50 last:border-0">
+          <div>
+            <p className="font-medium text-slate-700">{row.label}</p>
+            <p className="text-slate-400">{row.hint}</p>
+          </div>
+          <p className="text-right font-medium text-slate-800">{row.portfolio}</p>
+          <p className="text-right font-medium text-slate-800">{row.benchmark}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { getQueryFn } from '@/lib/queryClient';
+import type { PortfolioRisk } from '@shared/scoring/portfolio-risk';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatNumber = (value: number | null, digits: number, suffix: string = '') =>
+  value === null ? '—' : `${value.toFixed(digits)}${suffix}`;
+
+// Red for holdings that move together, blue for ones that offset each other
+function correlationColor(value: number): string {
+  const alpha = Math.min(1, Math.abs(value)) * 0.85 + 0.05;
+  return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`;
+}
+
+/**
+ * How the portfolio's holdings move together: volatility, beta, value-at-risk,
+ * each holding's share of the risk and a correlation heatmap.
+ * Only available to signed-in users, since guest portfolios live in the browser.
+ */
+export default function PortfolioRiskPanel() {
+  const { data: risk, isLoading } = useQuery<PortfolioRisk | null>({
+    queryKey: ['/api/portfolio/risk'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  if (risk === null) {
+    return (
+      <div className="text-center py-10">
+        <ShieldAlert className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+        <h3 className="text-lg font-medium text-slate-700 mb-1">Sign in to see your portfolio's risk</h3>
+        <p className="text-sm text-slate-500">Risk is measured from the price history of the holdings saved to your account</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !risk) {
+    return <p className="text-sm text-slate-500 text-center py-10">Loading...</p>;
+  }
+
+  if (risk.holdings.length === 0 && risk.excluded.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <ShieldAlert className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+        <h3 className="text-lg font-medium text-slate-700 mb-1">No risk data yet</h3>
+        <p className="text-sm text-slate-500">Start investing to see how your holdings move together</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Portfolio-level risk */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-medium text-slate-800">Portfolio Risk</h3>
+          <ShieldAlert className="h-4 w-4 text-slate-400" />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <RiskSummary
+            label="Volatility"
+            value={formatNumber(risk.volatility, 1, '%')}
+            hint="Typical yearly swing"
+          />
+          <RiskSummary
+            label="Beta vs S&P 500"
+            value={formatNumber(risk.beta, 2)}
+            hint="1.0 moves with the market"
+          />
+          <RiskSummary
+            label="Historical VaR (95%)"
+            value={risk.valueAtRisk ? formatCurrency(risk.valueAtRisk.historical.amount) : '—'}
+            hint={risk.valueAtRisk ? `${risk.valueAtRisk.historical.percent.toFixed(2)}% on 1 day in 20` : 'Worst day in 20, from past days'}
+          />
+          <RiskSummary
+            label="Parametric VaR (95%)"
+            value={risk.valueAtRisk ? formatCurrency(risk.valueAtRisk.parametric.amount) : '—'}
+            hint={risk.valueAtRisk ? `${risk.valueAtRisk.parametric.percent.toFixed(2)}% assuming normal returns` : 'Worst day in 20, assuming normal returns'}
+          />
+        </div>
+
+        {risk.observations > 0 && (
+          <p className="text-xs text-slate-400 mt-3">
+            Based on {risk.observations} trading days of returns up to {risk.asOf}. Cash counts as riskless.
+          </p>
+        )}
+      </div>
+
+      {/* Per-holding contributions */}
+      {risk.holdings.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+          <h3 className="text-lg font-medium text-slate-800 mb-1">Where the Risk Comes From</h3>
+          <p className="text-xs text-slate-500 mb-3">A holding's share of risk can be far larger than its share of your money</p>
+
+          <div className="space-y-3">
+            {[...risk.holdings].sort((a, b) => b.riskContribution - a.riskContribution).map(holding => (
+              <div key={holding.ticker}>
+                <div className="flex justify-between text-sm mb-1">
+                  <p className="font-medium text-slate-700">{holding.ticker}</p>
+                  <p className="text-slate-500 text-xs">
+                    {holding.weight.toFixed(1)}% of value • <span className="font-medium text-slate-800">{holding.riskContribution.toFixed(1)}% of risk</span>
+                  </p>
+                </div>
+                <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-red-500 rounded-full"
+                    style={{ width: `${Math.min(100, Math.max(0, holding.riskContribution))}%` }}
+                  ></div>
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  Volatility {holding.volatility.toFixed(1)}% • Beta {formatNumber(holding.beta, 2)} • Marginal risk {holding.marginalContribution.toFixed(1)}%
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Correlation heatmap */}
+      {risk.tickers.length > 1 && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+          <h3 className="text-lg font-medium text-slate-800 mb-1">Correlation</h3>
+          <p className="text-xs text-slate-500 mb-3">
+            Red pairs rise and fall together, blue pairs offset each other
+          </p>
+
+          <div className="overflow-x-auto">
+            <div
+              className="grid gap-0.5 text-[10px] min-w-max"
+              style={{ gridTemplateColumns: `auto repeat(${risk.tickers.length}, minmax(2.25rem, 1fr))` }}
+            >
+              <div></div>
+              {risk.tickers.map(ticker => (
+                <div key={`col-${ticker}`} className="text-center font-medium text-slate-600 pb-1">{ticker}</div>
+              ))}
+              {risk.tickers.map((rowTicker, i) => (
+                <div key={`row-${rowTicker}`} className="contents">
+                  <div className="font-medium text-slate-600 pr-2 flex items-center">{rowTicker}</div>
+                  {risk.correlation[i].map((value, j) => (
+                    <div
+                      key={`${rowTicker}-${risk.tickers[j]}`}
+                      className="h-9 rounded flex items-center justify-center font-medium"
+                      style={{
+                        backgroundColor: correlationColor(value),
+                        color: Math.abs(value) > 0.5 ? 'white' : '#334155'
+                      }}
+                      title={`${rowTicker} / ${risk.tickers[j]}: ${value.toFixed(2)}`}
+                    >
+                      {value.toFixed(2)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {risk.excluded.length > 0 && (
+        <div className="bg-amber-50 rounded-xl border border-amber-200 p-4">
+          <p className="text-sm font-medium text-amber-800 mb-1 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1.5" />
+            Left out of the risk figures
+          </p>
+          <ul className="text-xs text-amber-700 space-y-0.5">
+            {risk.excluded.map(entry => (
+              <li key={entry.ticker}>{entry.ticker}: {entry.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RiskSummary({ label, value, hint }: { label: string; value: string; hint: string }) {
+  return (
+    <div className="bg-slate-50 rounded-lg p-3">
+      <p className="text-xs text-slate-500 mb-1">{label}</p>
+      <p className="text-lg font-semibold text-slate-800">{value}</p>
+      <p className="text-xs text-slate-400">{hint}</p>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowDown, ArrowUp, Plus, Scale, X } from 'lucide-react';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import type { StockData } from '@/lib/stock-data';
+import { useToast } from '@/hooks/use-toast';
+import { usePortfolio } from '@/contexts/portfolio-context';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import type { AllocationBasis, PortfolioWithHoldings, RebalanceTargets } from '@shared/schema';
+import type { RebalancePlan } from '@shared/scoring/rebalancing';
+
+const basisLabels: Record<AllocationBasis, string> = {
+  ticker: 'Per holding',
+  industry: 'Per industry'
+};
+
+const impactLabels = {
+  qualityScore: 'Quality Score',
+  performance: 'Performance',
+  stability: 'Stability',
+  value: 'Value',
+  momentum: 'Momentum',
+  roi: 'Projected ROI'
+} as const;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatSigned = (value: number, suffix: string = '') =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`;
+
+interface TargetRow {
+  key: string;
+  weight: string;
+}
+
+/**
+ * Target weights per holding or per industry with a drift tolerance, the
+ * trades that would bring the portfolio back to them, their effect on the
+ * portfolio's scores, and a button that places them all at once.
+ * Only available to signed-in users, since rebalancing trades go through the server.
+ */
+export default function RebalanceAssistant() {
+  const { toast } = useToast();
+  const { calculateTradesImpact, rebalancePortfolio, isLoading } = usePortfolio();
+  const [basis, setBasis] = useState<AllocationBasis>('industry');
+  const [rows, setRows] = useState<TargetRow[]>([]);
+  const [tolerance, setTolerance] = useState('5');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: portfolio } = useQuery<PortfolioWithHoldings | null>({
+    queryKey: ['/api/portfolio'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: targets, isLoading: isLoadingTargets } = useQuery<RebalanceTargets | null>({
+    queryKey: ['/api/portfolio/targets'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // The plan needs saved targets; without them the server answers 400
+  const { data: plan, isFetching: isPlanning } = useQuery<RebalancePlan | null>({
+    queryKey: ['/api/portfolio/rebalance'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!targets,
+  });
+
+  const { data: universe } = useQuery<StockData[]>({
+    queryKey: ['/api/universe'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const industriesByTicker = useMemo(
+    () => new Map((universe ?? []).map(stock => [stock.ticker, stock.industry])),
+    [universe]
+  );
+
+  // What the portfolio holds on the chosen basis, to suggest as targets
+  const heldKeys = (selected: AllocationBasis) => Array.from(new Set((portfolio?.holdings ?? []).map(holding =>
+    selected === 'ticker' ? holding.ticker : industriesByTicker.get(holding.ticker) ?? 'Other'
+  ))).sort();
+
+  // Start from the saved targets, or from what's held when there are none
+  useEffect(() => {
+    if (targets) {
+      setBasis(targets.basis);
+      setTolerance(String(targets.tolerance));
+      setRows(Object.entries(targets.weights).map(([key, weight]) => ({ key, weight: String(weight) })));
+    } else if (targets === null && portfolio && universe) {
+      setRows(heldKeys(basis).map(key => ({ key, weight: '' })));
+    }
+  }, [targets, portfolio, universe]);
+
+  const handleBasisChange = (value: string) => {
+    const selected = value as AllocationBasis;
+    setBasis(selected);
+    setRows(selected === targets?.basis
+      ? Object.entries(targets.weights).map(([key, weight]) => ({ key, weight: String(weight) }))
+      : heldKeys(selected).map(key => ({ key, weight: '' })));
+  };
+
+  const updateRow = (index: number, change: Partial<TargetRow>) =>
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...change } : row));
+
+  const totalWeight = rows.reduce((total, row) => total + (parseFloat(row.weight) || 0), 0);
+
+  const handleSave = async () => {
+    const weights = Object.fromEntries(rows
+      .filter(row => row.key.trim() && row.weight.trim())
+      .map(row => [row.key.trim(), parseFloat(row.weight)]));
+
+    setIsSaving(true);
+    try {
+      const res = await apiRequest("PUT", "/api/portfolio/targets", {
+        basis,
+        weights,
+        tolerance: parseFloat(tolerance) || 0
+      });
+      queryClient.setQueryData(['/api/portfolio/targets'], await res.json());
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolio/rebalance'] });
+    } catch (error) {
+      toast({
+        title: "Could not save targets",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (portfolio === null) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 text-center">
+        <Scale className="h-8 w-8 mx-auto mb-2 text-slate-300" />
+        <h3 className="text-sm font-medium text-slate-700 mb-1">Sign in to set target allocations</h3>
+        <p className="text-xs text-slate-500">Targets are saved to your account and rebalanced with real trades</p>
+      </div>
+    );
+  }
+
+  const trades = plan?.trades ?? [];
+  const preview = trades.length > 0 ? calculateTradesImpact(trades) : null;
+
+  return (
+    <div className="space-y-4">
+      {/* Targets */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-medium text-slate-800">Target Allocation</h3>
+          <Scale className="h-4 w-4 text-slate-400" />
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Weights are percentages of your whole portfolio; whatever they leave over stays in cash
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Targets</p>
+            <Select value={basis} onValueChange={handleBasisChange} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Basis" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(basisLabels) as AllocationBasis[]).map(option => (
+                  <SelectItem key={option} value={option}>{basisLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Drift tolerance (%)</p>
+            <Input
+              type="number"
+              min={0}
+              max={50}
+              value={tolerance}
+              onChange={e => setTolerance(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
+        {isLoadingTargets ? (
+          <p className="text-sm text-slate-500 text-center py-2">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  className="flex-1"
+                  placeholder={basis === 'ticker' ? 'Ticker' : 'Industry'}
+                  value={row.key}
+                  onChange={e => updateRow(index, { key: e.target.value })}
+                  disabled={isSaving}
+                />
+                <Input
+                  className="w-24"
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="%"
+                  value={row.weight}
+                  onChange={e => updateRow(index, { weight: e.target.value })}
+                  disabled={isSaving}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  disabled={isSaving}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mt-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRows(prev => [...prev, { key: '', weight: '' }])}
+            disabled={isSaving}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add target
+          </Button>
+          <p className={`text-xs ${totalWeight > 100 ? 'text-red-600' : 'text-slate-500'}`}>
+            {totalWeight.toFixed(1)}% allocated
+          </p>
+        </div>
+
+        <Button className="w-full mt-3" onClick={handleSave} disabled={isSaving || totalWeight > 100}>
+          {isSaving ? 'Saving...' : 'Save targets'}
+        </Button>
+      </div>
+
+      {/* Drift and proposed trades */}
+      {targets && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+          <h3 className="text-lg font-medium text-slate-800 mb-1">Rebalancing</h3>
+          <p className="text-xs text-slate-500 mb-3">
+            Only targets more than {targets.tolerance}% off are traded back
+          </p>
+
+          {isPlanning && !plan ? (
+            <p className="text-sm text-slate-500 text-center py-2">Loading...</p>
+          ) : plan ? (
+            <>
+              <div className="space-y-1 mb-4">
+                <div className="grid grid-cols-4 gap-2 text-xs text-slate-500">
+                  <p className="col-span-2">{basis === 'ticker' ? 'Holding' : 'Industry'}</p>
+                  <p className="text-right">Now / Target</p>
+                  <p className="text-right">Drift</p>
+                </div>
+                {plan.drift.map(entry => (
+                  <div key={entry.key} className="grid grid-cols-4 gap-2 text-sm">
+                    <p className="col-span-2 font-medium text-slate-700 truncate">{entry.key}</p>
+                    <p className="text-right text-slate-600">
+                      {entry.currentWeight.toFixed(1)}% / {entry.targetWeight === null ? '—' : `${entry.targetWeight.toFixed(1)}%`}
+                    </p>
+                    <p className={`text-right font-medium ${entry.outOfTolerance ? 'text-amber-600' : 'text-slate-500'}`}>
+                      {entry.drift === null ? '—' : formatSigned(entry.drift, '%')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {trades.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center py-2">Your portfolio is within its targets</p>
+              ) : (
+                <div className="divide-y divide-slate-100 mb-3">
+                  {trades.map(trade => (
+                    <div key={`${trade.side}-${trade.ticker}`} className="flex justify-between items-center py-2">
+                      <div className="flex items-center">
+                        {trade.side === 'buy'
+                          ? <ArrowUp className="h-4 w-4 mr-2 text-green-600" />
+                          : <ArrowDown className="h-4 w-4 mr-2 text-red-600" />}
+                        <div>
+                          <p className="text-sm font-medium text-slate-700">
+                            {trade.side === 'buy' ? 'Buy' : 'Sell'} {trade.ticker}
+                          </p>
+                          <p className="text-xs text-slate-500">
+                            {trade.shares.toFixed(4)} shares at {formatCurrency(trade.price)}
+                          </p>
+                        </div>
+                      </div>
+                      <p className={`text-sm font-medium ${trade.side === 'buy' ? 'text-slate-800' : 'text-green-600'}`}>
+                        {trade.side === 'buy' ? '-' : '+'}{formatCurrency(trade.amount)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {trades.length > 0 && (
+                <p className="text-xs text-slate-500 mb-3">
+                  Cash {formatCurrency(plan.cash)} → {formatCurrency(plan.cashAfter)}
+                </p>
+              )}
+
+              {plan.warnings.length > 0 && (
+                <div className="bg-amber-50 rounded-lg border border-amber-200 p-3 mb-3">
+                  {plan.warnings.map(warning => (
+                    <p key={warning} className="text-xs text-amber-700 flex items-start">
+                      <AlertTriangle className="h-3.5 w-3.5 mr-1.5 mt-0.5 shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {/* Impact on the portfolio's scores */}
+              {preview && (
+                <div className="bg-slate-50 rounded-lg p-3 mb-3">
+                  <p className="text-xs font-medium text-slate-600 mb-2">After rebalancing</p>
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    {(Object.keys(impactLabels) as (keyof typeof impactLabels)[]).map(metric => (
+                      <div key={metric} className="flex justify-between">
+                        <p className="text-slate-500">{impactLabels[metric]}</p>
+                        <p className="font-medium text-slate-700">
+                          {preview.newMetrics[metric].toFixed(metric === 'roi' ? 1 : 0)}{metric === 'roi' ? '%' : ''}
+                          <span className={`ml-1 ${preview.impact[metric] > 0 ? 'text-green-600' : preview.impact[metric] < 0 ? 'text-red-600' : 'text-slate-400'}`}>
+                            ({formatSigned(preview.impact[metric])})
+                          </span>
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Button
+                className="w-full"
+                onClick={() => rebalancePortfolio()}
+                disabled={trades.length === 0 || isLoading || isPlanning}
+              >
+                {isLoading ? 'Rebalancing...' : `Rebalance now (${trades.length} trade${trades.length === 1 ? '' : 's'})`}
+              </Button>
+            </>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
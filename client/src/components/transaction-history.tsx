@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, History, Layers } from 'lucide-react';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import { getAllStocks } from '@/lib/stock-data';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import type { LotMethod, PortfolioWithHoldings, TickerGains, Transaction } from '@shared/schema';
+
+const lotMethodLabels: Record<LotMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  average: 'Average cost'
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+/**
+ * Realized vs unrealized gains per ticker plus the full trade ledger.
+ * Only available to signed-in users, since guest trades are not recorded.
+ */
+export default function TransactionHistory() {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: portfolio } = useQuery<PortfolioWithHoldings | null>({
+    queryKey: ['/api/portfolio'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: transactions, isLoading: isLoadingTransactions } = useQuery<Transaction[] | null>({
+    queryKey: ['/api/portfolio/transactions'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: gains } = useQuery<TickerGains[] | null>({
+    queryKey: ['/api/portfolio/gains'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Unrealized gains are marked to the prices shown on the stock cards
+  const pricesByTicker = useMemo(
+    () => new Map(getAllStocks().map(stock => [stock.ticker, stock.price])),
+    []
+  );
+
+  const gainRows = (gains || []).map(entry => {
+    const price = pricesByTicker.get(entry.ticker);
+    const marketValue = price !== undefined ? entry.openShares * price : entry.costBasis;
+    return { ...entry, unrealizedGain: marketValue - entry.costBasis };
+  });
+
+  const totalRealized = gainRows.reduce((total, row) => total + row.realizedGain, 0);
+  const totalUnrealized = gainRows.reduce((total, row) => total + row.unrealizedGain, 0);
+
+  const handleLotMethodChange = async (lotMethod: string) => {
+    setIsSaving(true);
+    try {
+      const res = await apiRequest("PATCH", "/api/portfolio/settings", { lotMethod });
+      queryClient.setQueryData(['/api/portfolio'], await res.json());
+    } catch (error) {
+      toast({
+        title: "Could not update lot method",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (transactions === null || portfolio === null) {
+    return (
+      <div className="text-center py-10">
+        <History className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+        <h3 className="text-lg font-medium text-slate-700 mb-1">Sign in to track your trades</h3>
+        <p className="text-sm text-slate-500">Your trade history and gains are saved to your account</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Realized vs unrealized summary */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-medium text-slate-800">Gains</h3>
+          <Layers className="h-4 w-4 text-slate-400" />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <GainSummary label="Realized" value={totalRealized} />
+          <GainSummary label="Unrealized" value={totalUnrealized} />
+        </div>
+
+        {gainRows.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-2">No trades yet</p>
+        ) : (
+          <div className="space-y-2">
+            {gainRows.map(row => (
+              <div key={row.ticker} className="bg-slate-50 rounded-lg p-3">
+                <div className="flex justify-between items-center mb-1">
+                  <p className="font-medium text-slate-700">{row.ticker}</p>
+                  <p className="text-xs text-slate-500">
+                    {row.openShares.toFixed(4)} shares • {row.lots.length} open {row.lots.length === 1 ? 'lot' : 'lots'}
+                  </p>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div>
+                    <p className="text-slate-500">Cost Basis</p>
+                    <p className="font-medium text-slate-700">{formatCurrency(row.costBasis)}</p>
+                  </div>
+                  <div>
+                    <p className="text-slate-500">Realized</p>
+                    <GainValue value={row.realizedGain} />
+                  </div>
+                  <div>
+                    <p className="text-slate-500">Unrealized</p>
+                    <GainValue value={row.unrealizedGain} />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Lot relief method */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <h3 className="text-sm font-medium text-slate-800 mb-1">When selling, use</h3>
+        <p className="text-xs text-slate-500 mb-3">Decides which purchases a sale comes out of, which changes your realized gain</p>
+        <Select
+          value={portfolio?.lotMethod}
+          onValueChange={handleLotMethodChange}
+          disabled={!portfolio || isSaving}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Lot method" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(lotMethodLabels) as LotMethod[]).map(method => (
+              <SelectItem key={method} value={method}>{lotMethodLabels[method]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Trade ledger */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <h3 className="text-lg font-medium text-slate-800 mb-3">Transactions</h3>
+
+        {isLoadingTransactions ? (
+          <p className="text-sm text-slate-500 text-center py-2">Loading...</p>
+        ) : !transactions || transactions.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-2">Your trades will show up here</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {transactions.map(transaction => (
+              <div key={transaction.id} className="py-3 flex justify-between items-start">
+                <div>
+                  <p className="font-medium text-slate-800">
+                    <span className={transaction.side === 'buy' ? 'text-green-600' : 'text-red-600'}>
+                      {transaction.side === 'buy' ? 'Bought' : 'Sold'}
+                    </span>{' '}
+                    {transaction.ticker}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {transaction.shares.toFixed(4)} @ {formatCurrency(transaction.price)}
+                    {transaction.fees > 0 && ` • ${formatCurrency(transaction.fees)} fee`}
+                    {transaction.lotMethod && ` • ${transaction.lotMethod.toUpperCase()}`}
+                  </p>
+                  <p className="text-xs text-slate-400">{new Date(transaction.executedAt).toLocaleString()}</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-medium text-slate-800">{formatCurrency(transaction.amount)}</p>
+                  {transaction.realizedGain !== null && <GainValue value={transaction.realizedGain} />}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function GainSummary({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="bg-slate-50 rounded-lg p-3">
+      <p className="text-xs text-slate-500 mb-1">{label}</p>
+      <p className={`text-lg font-semibold ${value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {value >= 0 ? '+' : '-'}{formatCurrency(Math.abs(value))}
+      </p>
+    </div>
+  );
+}
+
+function GainValue({ value }: { value: number }) {
+  return (
+    <p className={`font-medium flex items-center justify-end sm:justify-start ${value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {value >= 0 ? <ArrowUp className="h-3 w-3 mr-1" /> : <ArrowDown className="h-3 w-3 mr-1" />}
+      {formatCurrency(Math.abs(value))}
+    </p>
+  );
+}
@@ -1,16 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Bot, X, Send, ChevronRight, Sparkles, Brain, MessageCircle, Share2, ArrowUp } from 'lucide-react';
-import axios from 'axios';
+import { useQuery } from '@tanstack/react-query';
+import { Bot, X, Send, ChevronRight, Sparkles, Brain, MessageCircle, Share2, ArrowUp, Square, SquarePen } from 'lucide-react';
 import { usePortfolio } from '@/contexts/portfolio-context';
+import { streamAIResponse } from '@/lib/ai-stream';
+import { getQueryFn, queryClient } from '@/lib/queryClient';
+import { StockData } from '@/lib/stock-data';
+import ToolsUsed from '@/components/ui/tools-used';
+import { GUEST_HISTORY_MESSAGES, GUEST_MESSAGE_MAX_LENGTH, type AIThreadWithMessages, type AssistantToolUse } from '@shared/schema';
 
 // Define message types
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  isStreaming?: boolean;
+  // Data the AI looked up for this answer
+  toolsUsed?: AssistantToolUse[];
 }
 
+interface AIAssistantProps {
+  // When set, questions are answered about this stock instead of the portfolio
+  stock?: StockData;
+}
+
+const createWelcomeMessage = (): Message => ({
+  role: 'assistant',
+  content: "👋 Hi there! I'm your AI investing assistant. I can help answer your questions about investing, stocks, and portfolio management. What would you like to know today?",
+  timestamp: new Date()
+});
+
 // Predefined questions for beginners
 const suggestedQuestions = [
   "How to start investing?",
@@ -22,35 +41,60 @@ const suggestedQuestions = [
   "Understanding market trends?"
 ];
 
-export default function AIAssistant() {
+export default function AIAssistant({ stock }: AIAssistantProps = {}) {
   const [isOpen, setIsOpen] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage()]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const portfolio = usePortfolio();
 
-  // Add welcome message when component mounts
+  // Signed-in users pick up their last saved conversation about this stock (or the portfolio)
+  const [threadId, setThreadId] = useState<number | null>(null);
+  const [threadTitle, setThreadTitle] = useState<string | null>(null);
+  const latestThreadUrl = stock
+    ? `/api/ai/threads/latest?scope=ticker&ticker=${encodeURIComponent(stock.ticker)}`
+    : '/api/ai/threads/latest?scope=portfolio';
+
+  const { data: latestThread } = useQuery<AIThreadWithMessages | null>({
+    queryKey: [latestThreadUrl],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  // Switching stocks starts from that stock's own conversation
   useEffect(() => {
-    if (messages.length === 0) {
-      setMessages([
-        {
-          role: 'assistant',
-          content: "👋 Hi there! I'm your AI investing assistant. I can help answer your questions about investing, stocks, and portfolio management. What would you like to know today?",
-          timestamp: new Date()
-        }
-      ]);
-    }
-  }, []);
+    resetConversation();
+  }, [latestThreadUrl]);
+
+  useEffect(() => {
+    if (!latestThread || abortControllerRef.current) return;
+
+    setThreadId(latestThread.id);
+    setThreadTitle(latestThread.title);
+    setMessages([
+      createWelcomeMessage(),
+      ...latestThread.messages.map(message => ({
+        role: message.role as Message['role'],
+        content: message.content,
+        timestamp: new Date(message.createdAt)
+      }))
+    ]);
+  }, [latestThread]);
 
   // Scroll to bottom of messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isExpanded]);
 
+  // Stop any in-flight answer when the assistant unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // We're deliberately NOT focusing the input when expanded to avoid iOS keyboard issues
   // This prevents the keyboard from automatically popping up on iOS
   
@@ -89,59 +133,132 @@ export default function AIAssistant() {
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim()) return;
+  // Update the assistant reply that is currently streaming (always the last message)
+  const updateReply = (update: (reply: Message) => Message) => {
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== 'assistant') return prev;
+      return [...prev.slice(0, -1), update(last)];
+    });
+  };
+
+  // Pick the streaming endpoint: questions about the open stock, otherwise about the portfolio
+  const buildStreamRequest = (question: string, previousMessages: { role: string; content: string }[]) => {
+    if (stock) {
+      return {
+        url: '/api/ai/ask-stock/stream',
+        body: {
+          userQuestion: question,
+          stockContext: {
+            name: stock.name,
+            ticker: stock.ticker,
+            description: stock.description,
+            price: stock.price,
+            industry: stock.industry,
+            metrics: {
+              performance: stock.metrics?.performance?.value,
+              value: stock.metrics?.value?.value
+            }
+          },
+          threadId: threadId ?? undefined,
+          previousMessages
+        }
+      };
+    }
+
+    return {
+      url: '/api/ai/portfolio-analysis/stream',
+      body: {
+        query: question,
+        portfolioData: (portfolio?.holdings || []).map(holding => ({
+          ticker: holding.stock.ticker,
+          name: holding.stock.name,
+          currentValue: holding.value,
+          return: ((holding.stock.price - holding.purchasePrice) / holding.purchasePrice) * 100
+        })),
+        totalValue: portfolio?.portfolioValue || 0,
+        overallReturn: portfolio?.portfolioMetrics.roi || 0,
+        portfolioQuality: portfolio?.portfolioMetrics.qualityScore || 0,
+        threadId: threadId ?? undefined,
+        previousMessages
+      }
+    };
+  };
+
+  const handleSendMessage = async (text: string = inputValue) => {
+    const question = text.trim();
+    if (!question || isLoading) return;
     
-    // Add user message
+    // Add user message and an empty reply that fills in as the answer streams
     const userMessage: Message = {
       role: 'user',
-      content: inputValue,
+      content: question,
       timestamp: new Date()
     };
+    // Only guests' history is used; the server caps how much they can send
+    const previousMessages = messages
+      .slice(-GUEST_HISTORY_MESSAGES)
+      .map(m => ({ role: m.role, content: m.content.slice(0, GUEST_MESSAGE_MAX_LENGTH) }));
     
-    setMessages(prev => [...prev, userMessage]);
+    setMessages(prev => [...prev, userMessage, { role: 'assistant', content: '', timestamp: new Date(), isStreaming: true }]);
     setInputValue('');
     setIsLoading(true);
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
     try {
-      // Get portfolio context data to provide to the AI
-      const portfolioContext = portfolio ? {
-        holdings: portfolio.holdings.length,
-        totalValue: portfolio.portfolioValue,
-        metrics: portfolio.portfolioMetrics,
-      } : { holdings: 0, totalValue: 0, metrics: null };
-      
-      // Make the API request
-      const response = await axios.post('/api/ai/chat', {
-        message: inputValue,
-        context: {
-          portfolio: portfolioContext,
-          previousMessages: messages.map(m => ({ role: m.role, content: m.content }))
-        }
+      const { url, body } = buildStreamRequest(question, previousMessages);
+      await streamAIResponse(url, body, {
+        signal: controller.signal,
+        onThread: id => {
+          if (threadId === null) setThreadTitle(question);
+          setThreadId(id);
+        },
+        onToolUse: tool => updateReply(reply => ({ ...reply, toolsUsed: [...(reply.toolsUsed || []), tool] })),
+        onDelta: delta => updateReply(reply => ({ ...reply, content: reply.content + delta }))
       });
-      
-      // Add AI response message
-      if (response.data && response.data.response) {
-        const aiMessage: Message = {
-          role: 'assistant',
-          content: response.data.response,
-          timestamp: new Date()
-        };
-        setMessages(prev => [...prev, aiMessage]);
-      }
     } catch (error) {
-      console.error('Error getting AI response:', error);
-      // Add error message
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: "I'm having trouble connecting right now. Please try again in a moment.",
-        timestamp: new Date()
-      }]);
+      if (!controller.signal.aborted) {
+        console.error('Error getting AI response:', error);
+        const rateLimited = error instanceof Error && error.message.startsWith('429:');
+        updateReply(reply => ({
+          ...reply,
+          content: reply.content || (rateLimited
+            ? "You've reached your AI limit for now. Please try again a little later."
+            : "I'm having trouble connecting right now. Please try again in a moment.")
+        }));
+      }
     } finally {
-      setIsLoading(false);
+      // Skip the cleanup if this reply was abandoned for a new conversation
+      if (abortControllerRef.current === controller) {
+        updateReply(reply => ({
+          ...reply,
+          content: reply.content || (controller.signal.aborted ? 'Stopped.' : reply.content),
+          isStreaming: false
+        }));
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        // The saved thread now has this turn; keep the cached copy in sync for when we come back
+        queryClient.invalidateQueries({ queryKey: [latestThreadUrl] });
+      }
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Leave the saved thread alone; the next question starts a fresh one
+  const resetConversation = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    setThreadId(null);
+    setThreadTitle(null);
+    setMessages([createWelcomeMessage()]);
+  };
+
   const handlePresetQuestion = (question: string) => {
     setSelectedPreset(question);
     setInputValue(question);
@@ -149,7 +266,7 @@ export default function AIAssistant() {
     
     // Slight delay to simulate user typing and then send
     setTimeout(() => {
-      handleSendMessage();
+      handleSendMessage(question);
     }, 300);
   };
 
@@ -213,22 +330,32 @@ export default function AIAssistant() {
                     <div className="w-8 h-8 rounded-full bg-white/20 flex items-center justify-center mr-2">
                       <Bot className="w-5 h-5 text-white" />
                     </div>
-                    <div>
+                    <div className="min-w-0">
                       <h3 className="font-bold text-white">AI Advisor</h3>
-                      <p className="text-xs text-white/80">Powered by AI</p>
+                      <p className="text-xs text-white/80 truncate">{threadTitle || 'Powered by AI'}</p>
                     </div>
                   </div>
-                  <button 
-                    onClick={toggleOpen}
-                    className="text-white/80 hover:text-white transition-colors"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={resetConversation}
+                      className="text-white/80 hover:text-white transition-colors"
+                      aria-label="New conversation"
+                      title="New conversation"
+                    >
+                      <SquarePen className="w-5 h-5" />
+                    </button>
+                    <button 
+                      onClick={toggleOpen}
+                      className="text-white/80 hover:text-white transition-colors"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
                 </div>
                 
                 {/* Messages container */}
                 <div className="flex-1 overflow-y-auto p-4 bg-slate-50">
-                  {messages.map((message, index) => (
+                  {messages.filter(message => message.content || !message.isStreaming).map((message, index) => (
                     <div
                       key={index}
                       className={`mb-4 max-w-[85%] ${
@@ -246,6 +373,9 @@ export default function AIAssistant() {
                           {renderMessageContent(message.content)}
                         </div>
                       </div>
+                      {message.toolsUsed && (
+                        <ToolsUsed tools={message.toolsUsed} className="mt-1" />
+                      )}
                       <div
                         className={`text-xs mt-1 text-slate-500 ${
                           message.role === 'user' ? 'text-right' : 'text-left'
@@ -255,7 +385,7 @@ export default function AIAssistant() {
                       </div>
                     </div>
                   ))}
-                  {isLoading && (
+                  {isLoading && !messages[messages.length - 1]?.content && (
                     <div className="flex items-center space-x-2 bg-white p-3 rounded-2xl rounded-tl-none border border-slate-200 shadow-sm mb-4 max-w-[85%]">
                       <div className="typing-indicator">
                         <span></span>
@@ -280,17 +410,27 @@ export default function AIAssistant() {
                       className="flex-1 bg-transparent border-none py-2 px-4 text-slate-800 placeholder-slate-400 focus:outline-none rounded-full"
                       disabled={isLoading}
                     />
-                    <button
-                      onClick={handleSendMessage}
-                      disabled={!inputValue.trim() || isLoading}
-                      className={`p-2 rounded-full ${
-                        inputValue.trim() && !isLoading
-                          ? 'text-indigo-500 hover:bg-indigo-100'
-                          : 'text-slate-400 cursor-not-allowed'
-                      }`}
-                    >
-                      <Send className="w-5 h-5" />
-                    </button>
+                    {isLoading ? (
+                      <button
+                        onClick={handleStop}
+                        className="p-2 rounded-full text-indigo-500 hover:bg-indigo-100"
+                        aria-label="Stop generating"
+                      >
+                        <Square className="w-5 h-5 fill-current" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleSendMessage()}
+                        disabled={!inputValue.trim()}
+                        className={`p-2 rounded-full ${
+                          inputValue.trim()
+                            ? 'text-indigo-500 hover:bg-indigo-100'
+                            : 'text-slate-400 cursor-not-allowed'
+                        }`}
+                      >
+                        <Send className="w-5 h-5" />
+                      </button>
+                    )}
                   </div>
                   
                   {/* Suggested queries */}
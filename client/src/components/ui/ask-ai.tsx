@@ -2,6 +2,8 @@ import { useState, FormEvent } from 'react';
 import { StockData } from '@/lib/stock-data';
 import { Loader2, Send, Sparkles } from 'lucide-react';
 import axios from 'axios';
+import ToolsUsed from '@/components/ui/tools-used';
+import type { AssistantToolUse } from '@shared/schema';
 
 interface AskAIProps {
   stock: StockData;
@@ -10,6 +12,7 @@ interface AskAIProps {
 export default function AskAI({ stock }: AskAIProps) {
   const [question, setQuestion] = useState('');
   const [answer, setAnswer] = useState('');
+  const [toolsUsed, setToolsUsed] = useState<AssistantToolUse[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -41,6 +44,7 @@ export default function AskAI({ stock }: AskAIProps) {
       });
       
       setAnswer(response.data.answer);
+      setToolsUsed(response.data.toolsUsed || []);
     } catch (err: any) {
       console.error('Error asking AI:', err);
       setError(err.response?.data?.message || 'Failed to get an answer. Please try again.');
@@ -67,6 +71,7 @@ export default function AskAI({ stock }: AskAIProps) {
             <div className="text-sm text-slate-700 bg-slate-50 p-3 rounded-lg border border-slate-100">
               {answer}
             </div>
+            <ToolsUsed tools={toolsUsed} className="mt-2" />
             <button 
               onClick={() => {
                 setAnswer('');
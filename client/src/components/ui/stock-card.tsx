@@ -27,7 +27,7 @@ import OverallAnalysisCard from "@/components/overall-analysis-card";
 import { Skeleton } from "@/components/ui/skeleton";
 import ComparativeAnalysis from "@/components/comparative-analysis";
 import AskAI from "./ask-ai";
-import { getIndustryAverages } from "@/lib/industry-data";
+import { getIndustryAverages } from "@shared/scoring/industry-averages";
 import StockNewsSection from "@/components/stock-news/StockNewsSection"; // Ensure import
 import AnalystRatings from "@/components/stock-detail/analyst-ratings"; // Legacy Analyst Ratings
 import ModernAnalystRatings from "@/components/stock-detail/modern-analyst-ratings"; // Modern Analyst Ratings
@@ -41,6 +41,7 @@ import {
   YahooChartResponse // Import the type
 } from "@/lib/yahoo-finance-client";
 import { cn } from "@/lib/utils"; // Make sure cn is imported
+import { useLivePrice } from "@/hooks/use-price-stream";
 
 // Define Metric structure used in handleMetricClick callback
 export interface MetricClickData {
@@ -182,15 +183,21 @@ export default function StockCard({
     return []; // Return empty array if no valid data
   }, [timeFrame, yahooChartData, stock.ticker]);
 
-  // --- Get current/closing price exclusively from Yahoo Finance data ---
+  // Streamed price, when the live price stream has one for this ticker
+  const livePrice = useLivePrice(stockTicker);
+
+  // --- Get current/closing price from the live stream, falling back to Yahoo Finance chart data ---
   const yahooCurrentPrice = useMemo(() => {
+    if (livePrice) {
+      return livePrice.price;
+    }
     if (yahooChartData?.quotes && yahooChartData.quotes.length > 0) {
       // Get the latest price from Yahoo Finance data
       const lastQuote = yahooChartData.quotes[yahooChartData.quotes.length - 1];
       return lastQuote.close || lastQuote.open || lastQuote.high || lastQuote.low || 0;
     }
     return 0; // Will only show if Yahoo data is not loaded yet
-  }, [yahooChartData]);
+  }, [livePrice, yahooChartData]);
   
   // Calculate day's price range strictly from Yahoo data
   const dayRange = useMemo(() => {
@@ -218,9 +225,9 @@ export default function StockCard({
       const firstQuote = yahooChartData.quotes[0];
       const lastQuote = yahooChartData.quotes[yahooChartData.quotes.length - 1];
       
-      // Get accurate open and close prices
+      // Get accurate open and close prices; the close follows the live price when streaming
       const openPrice = firstQuote.open || firstQuote.close || firstQuote.high || firstQuote.low || 0;
-      const closePrice = lastQuote.close || lastQuote.open || lastQuote.high || lastQuote.low || 0;
+      const closePrice = livePrice?.price || lastQuote.close || lastQuote.open || lastQuote.high || lastQuote.low || 0;
       
       if (openPrice > 0 && closePrice > 0) {
         // Calculate change amount
@@ -240,7 +247,7 @@ export default function StockCard({
       value: 0,
       percent: 0
     };
-  }, [yahooChartData]);
+  }, [livePrice, yahooChartData]);
   
   // Format for display - will only show valid data when Yahoo data is available
   const displayPrice = yahooCurrentPrice > 0 ? yahooCurrentPrice.toFixed(2) : "--";
@@ -0,0 +1,43 @@
+import { Wrench } from 'lucide-react';
+import type { AssistantToolUse } from '@shared/schema';
+
+interface ToolsUsedProps {
+  tools: AssistantToolUse[];
+  className?: string;
+}
+
+/**
+ * Shows which data sources the AI looked up for an answer, e.g. "Live quote · Analyst ratings"
+ */
+export default function ToolsUsed({ tools, className = '' }: ToolsUsedProps) {
+  if (tools.length === 0) return null;
+
+  // The same tool is often called more than once; list each source once
+  const labels = tools.reduce<{ label: string; ok: boolean }[]>((list, tool) => {
+    const existing = list.find(item => item.label === tool.label);
+    if (existing) {
+      existing.ok = existing.ok || tool.ok;
+    } else {
+      list.push({ label: tool.label, ok: tool.ok });
+    }
+    return list;
+  }, []);
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 text-[11px] text-slate-500 ${className}`}>
+      <Wrench className="w-3 h-3" />
+      <span>Looked up:</span>
+      {labels.map(({ label, ok }) => (
+        <span
+          key={label}
+          className={`px-1.5 py-0.5 rounded-full border ${
+            ok ? 'bg-indigo-50 border-indigo-100 text-indigo-600' : 'bg-slate-50 border-slate-200 text-slate-400 line-through'
+          }`}
+          title={ok ? undefined : 'Not available right now'}
+        >
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+}
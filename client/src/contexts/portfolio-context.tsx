@@ -1,10 +1,15 @@
-import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
-import { StockData, PerformanceDetails, StabilityDetails, ValueDetails, MomentumDetails } from '@/lib/stock-data';
+import React, { createContext, useState, useContext, ReactNode, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { StockData, PerformanceDetails, StabilityDetails, ValueDetails, MomentumDetails, getAllStocks } from '@/lib/stock-data';
 import { useToast } from '@/hooks/use-toast';
-import { getIndustryAverages } from '@/lib/industry-data';
-import { getAdvancedMetricScore, calculatePortfolioScore } from '@/lib/advanced-metric-scoring';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import type { PortfolioWithHoldings } from '@shared/schema';
+import type { RebalanceResult, RebalanceTrade } from '@shared/scoring/rebalancing';
+import { getIndustryAverages } from '@shared/scoring/industry-averages';
+import { getAdvancedMetricScore, calculatePortfolioScore } from '@shared/scoring/advanced-metric-scoring';
 import { getQualityScoreColor, getQualityScoreBgColor } from '@/data/leaderboard-data';
 import { portfolioContextInstance } from '@/lib/portfolio-context-instance';
+import { useLivePrices } from '@/hooks/use-price-stream';
 
 // Define types
 export interface PortfolioHolding {
@@ -31,8 +36,8 @@ export interface PortfolioContextProps {
     trades: number;
     roi: number;
   };
-  buyStock: (stock: StockData, amount: number) => void;
-  sellStock: (stockId: string, shares: number) => void;
+  buyStock: (stock: StockData, amount: number) => Promise<void>;
+  sellStock: (stockId: string, shares: number) => Promise<void>;
   calculateImpact: (stock: StockData, amount: number) => {
     currentMetrics: {
       performance: number;
@@ -63,9 +68,77 @@ export interface PortfolioContextProps {
     };
     industryAllocation: Record<string, { current: number; new: number }>;
   };
+  // Same comparison as calculateImpact, for a batch of buys and sells such as a rebalance
+  calculateTradesImpact: (trades: RebalanceTrade[]) => ReturnType<PortfolioContextProps['calculateImpact']>;
+  // Place the server's rebalancing trades; only for signed-in users
+  rebalancePortfolio: () => Promise<RebalanceResult | null>;
   isLoading: boolean;
 }
 
+const PORTFOLIO_QUERY_KEY = ['/api/portfolio'];
+
+// Refresh the ledger, performance and risk views after a trade has been written through
+function invalidateTradeHistory() {
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/transactions'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/gains'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/performance'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/risk'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/portfolio/rebalance'] });
+}
+
+// Projected one-year ROI percentage: each holding's one-year return weighted by its cost
+function calculateProjectedROI(holdings: PortfolioHolding[]): number {
+  const totalInvested = holdings.reduce((total, h) => total + (h.shares * h.purchasePrice), 0);
+  if (totalInvested <= 0) return 0;
+  
+  const oneYearReturnsValue = holdings.reduce((total, h) => {
+    const oneYearReturnPercentValue = 
+      typeof h.stock.oneYearReturn === 'number' ? h.stock.oneYearReturn :
+      typeof h.stock.oneYearReturn === 'string' ? parseFloat(h.stock.oneYearReturn.replace('%', '')) : 0;
+    
+    const stockValue = h.shares * h.purchasePrice;
+    const stockReturn = stockValue * (oneYearReturnPercentValue / 100);
+    return total + stockReturn;
+  }, 0);
+  
+  return (oneYearReturnsValue / totalInvested) * 100;
+}
+
+// Stand-in for a held stock with no card data, valued at its cost basis and left out of scoring
+function placeholderStock(ticker: string, price: number): StockData {
+  const metric = <T,>(details: T) => ({ value: 'N/A', color: 'gray', details, explanation: '' });
+  return {
+    name: ticker,
+    ticker,
+    price,
+    change: 0,
+    rating: 0,
+    description: '',
+    metrics: {
+      performance: metric({ revenueGrowth: 0, profitMargin: 0, returnOnCapital: 0 }),
+      stability: metric({ volatility: 0, beta: 0, dividendConsistency: 'N/A' }),
+      value: metric({ peRatio: 0, pbRatio: 0, dividendYield: 0 }),
+      momentum: metric({ threeMonthReturn: 0, relativePerformance: 0, rsi: 0 })
+    },
+    synopsis: { price: '', company: '', role: '' },
+    overallAnalysis: '',
+    chartData: [],
+    industry: 'Other'
+  };
+}
+
+// apiRequest errors look like `400: {"error":"...","message":"..."}`, so surface just the message
+function getTradeErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Unknown error occurred";
+  
+  const body = error.message.replace(/^\d{3}: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 // Create context
 export const PortfolioContext = createContext<PortfolioContextProps | null>(null);
 
@@ -80,30 +153,84 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
   const [version, setVersion] = useState<number>(1); // Add version counter for triggering updates
   const [lastUpdated, setLastUpdated] = useState<number>(Date.now()); // Timestamp for tracking updates
   
+  // Server-side portfolio for signed-in users. Null when signed out, in which
+  // case trades only live in this session's state.
+  const { data: serverPortfolio } = useQuery<PortfolioWithHoldings | null>({
+    queryKey: PORTFOLIO_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const isPersisted = !!serverPortfolio;
+  
+  // Held tickers outside the bundled stock list, e.g. bought from the universe or by a plan
+  const unlistedTickers = useMemo(() => {
+    if (!serverPortfolio) return [];
+    const listed = new Set(getAllStocks().map(stock => stock.ticker));
+    return serverPortfolio.holdings.map(holding => holding.ticker).filter(ticker => !listed.has(ticker));
+  }, [serverPortfolio]);
+  
+  // Card data for those tickers; ones the universe doesn't know are left out
+  const { data: unlistedStocks } = useQuery<Record<string, StockData>>({
+    queryKey: ['/api/universe', 'holdings', ...unlistedTickers],
+    queryFn: async () => {
+      const stocks: Record<string, StockData> = {};
+      await Promise.all(unlistedTickers.map(async ticker => {
+        const response = await fetch(`/api/universe/${encodeURIComponent(ticker)}`);
+        if (response.ok) stocks[ticker] = await response.json();
+      }));
+      return stocks;
+    },
+    enabled: unlistedTickers.length > 0,
+    staleTime: 60 * 1000,
+  });
+  
+  // Holdings hydrated from placeholders, which scoring skips
+  const [unscoredTickers, setUnscoredTickers] = useState<Set<string>>(new Set());
+  
+  // Hydrate cash and holdings whenever the server portfolio changes
+  useEffect(() => {
+    if (!serverPortfolio) return;
+    
+    const stocksByTicker = new Map(getAllStocks().map(stock => [stock.ticker, stock]));
+    const unscored = new Set<string>();
+    
+    setCash(serverPortfolio.cash);
+    setHoldings(serverPortfolio.holdings.map(holding => {
+      // Every holding is kept; without card data it is shown at its cost basis until a quote streams in
+      let stock = stocksByTicker.get(holding.ticker) ?? unlistedStocks?.[holding.ticker];
+      if (!stock) {
+        stock = placeholderStock(holding.ticker, holding.purchasePrice);
+        unscored.add(holding.ticker);
+      }
+      
+      return {
+        stock,
+        shares: holding.shares,
+        value: holding.shares * stock.price,
+        purchasePrice: holding.purchasePrice,
+        purchaseDate: new Date(holding.purchaseDate).toISOString().split('T')[0]
+      };
+    }));
+    setUnscoredTickers(unscored);
+    setVersion(prev => prev + 1);
+    setLastUpdated(Date.now());
+  }, [serverPortfolio, unlistedStocks]);
+  
+  // Holdings valued at live prices as they stream in
+  const livePrices = useLivePrices(holdings.map(holding => holding.stock.ticker));
+  const liveHoldings = useMemo(() => holdings.map(holding => {
+    const tick = livePrices[holding.stock.ticker];
+    return tick ? { ...holding, value: holding.shares * tick.price } : holding;
+  }), [holdings, livePrices]);
+  
   // Derived state
-  const portfolioValue = holdings.reduce((total, holding) => total + holding.value, 0);
+  const portfolioValue = liveHoldings.reduce((total, holding) => total + holding.value, 0);
   const totalValue = cash + portfolioValue;
   
   // Calculate trades count
   const trades = holdings.length;
 
   // Calculate projected ROI percentage
-  const totalInvestedForROI = holdings.reduce((total, h) => total + (h.shares * h.purchasePrice), 0);
-  let projectedROI = 0;
-  
-  if (totalInvestedForROI > 0) {
-    const oneYearReturnsValue = holdings.reduce((total, h) => {
-      const oneYearReturnPercentValue = 
-        typeof h.stock.oneYearReturn === 'number' ? h.stock.oneYearReturn :
-        typeof h.stock.oneYearReturn === 'string' ? parseFloat(h.stock.oneYearReturn.replace('%', '')) : 0;
-      
-      const stockValue = h.shares * h.purchasePrice;
-      const stockReturn = stockValue * (oneYearReturnPercentValue / 100);
-      return total + stockReturn;
-    }, 0);
-    
-    projectedROI = (oneYearReturnsValue / totalInvestedForROI) * 100;
-  }
+  const projectedROI = calculateProjectedROI(holdings);
 
   // Calculate individual metrics for quality score
   const performanceScore = calculatePortfolioMetric('performance');
@@ -132,7 +259,12 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     if (holdings.length === 0) return 0; // Empty portfolio starts at 0
     
     // Use the new advanced scoring system from the imported function
-    return calculatePortfolioScore(holdings, metricName);
+    return scorePortfolio(holdings, metricName);
+  }
+  
+  // Placeholder holdings have no real metrics, so they would drag every score toward zero
+  function scorePortfolio(scored: PortfolioHolding[], metricName: "performance" | "stability" | "value" | "momentum"): number {
+    return calculatePortfolioScore(scored.filter(holding => !unscoredTickers.has(holding.stock.ticker)), metricName);
   }
   
   // Helper to get numeric score from metric on a 0-100 scale
@@ -173,7 +305,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
   }
   
   // Buy a stock
-  const buyStock = (stock: StockData, amount: number) => {
+  const buyStock = async (stock: StockData, amount: number) => {
     setIsLoading(true);
     
     try {
@@ -186,47 +318,16 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         throw new Error("Not enough cash available");
       }
       
-      // Calculate shares
-      const shares = amount / stock.price;
-      
-      // Update state
-      setCash(prevCash => prevCash - amount);
-      
-      // Check if already holding this stock
-      const existingHoldingIndex = holdings.findIndex(h => h.stock.ticker === stock.ticker);
-      
-      if (existingHoldingIndex >= 0) {
-        // Update existing holding
-        setHoldings(prevHoldings => {
-          const updatedHoldings = [...prevHoldings];
-          const existing = updatedHoldings[existingHoldingIndex];
-          
-          // Calculate new average purchase price
-          const totalShares = existing.shares + shares;
-          const totalCost = (existing.shares * existing.purchasePrice) + amount;
-          const newAvgPrice = totalCost / totalShares;
-          
-          updatedHoldings[existingHoldingIndex] = {
-            ...existing,
-            shares: totalShares,
-            value: totalShares * stock.price,
-            purchasePrice: newAvgPrice
-          };
-          
-          return updatedHoldings;
+      if (isPersisted) {
+        // The server prices and re-validates the trade and returns the updated portfolio
+        const res = await apiRequest("POST", "/api/portfolio/buy", {
+          ticker: stock.ticker,
+          amount
         });
+        queryClient.setQueryData(PORTFOLIO_QUERY_KEY, await res.json());
+        invalidateTradeHistory();
       } else {
-        // Add new holding
-        setHoldings(prevHoldings => [
-          ...prevHoldings,
-          {
-            stock,
-            shares,
-            value: amount,
-            purchasePrice: stock.price,
-            purchaseDate: new Date().toISOString().split('T')[0]
-          }
-        ]);
+        buyLocally(stock, amount);
       }
       
       // Purchase success toast notification has been removed per request
@@ -241,7 +342,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       // Handle errors
       toast({
         title: "Transaction failed",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: getTradeErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -249,8 +350,54 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     }
   };
   
+  // Apply a purchase to session-only state when signed out
+  function buyLocally(stock: StockData, amount: number) {
+    // Calculate shares
+    const shares = amount / stock.price;
+    
+    // Update state
+    setCash(prevCash => prevCash - amount);
+    
+    // Check if already holding this stock
+    const existingHoldingIndex = holdings.findIndex(h => h.stock.ticker === stock.ticker);
+    
+    if (existingHoldingIndex >= 0) {
+      // Update existing holding
+      setHoldings(prevHoldings => {
+        const updatedHoldings = [...prevHoldings];
+        const existing = updatedHoldings[existingHoldingIndex];
+        
+        // Calculate new average purchase price
+        const totalShares = existing.shares + shares;
+        const totalCost = (existing.shares * existing.purchasePrice) + amount;
+        const newAvgPrice = totalCost / totalShares;
+        
+        updatedHoldings[existingHoldingIndex] = {
+          ...existing,
+          shares: totalShares,
+          value: totalShares * stock.price,
+          purchasePrice: newAvgPrice
+        };
+        
+        return updatedHoldings;
+      });
+    } else {
+      // Add new holding
+      setHoldings(prevHoldings => [
+        ...prevHoldings,
+        {
+          stock,
+          shares,
+          value: amount,
+          purchasePrice: stock.price,
+          purchaseDate: new Date().toISOString().split('T')[0]
+        }
+      ]);
+    }
+  }
+  
   // Sell a stock
-  const sellStock = (stockId: string, sharesToSell: number) => {
+  const sellStock = async (stockId: string, sharesToSell: number) => {
     setIsLoading(true);
     
     try {
@@ -275,28 +422,37 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       // Calculate sale amount
       const saleAmount = sharesToSell * holding.stock.price;
       
-      // Update cash
-      setCash(prevCash => prevCash + saleAmount);
-      
-      // Update holdings
-      setHoldings(prevHoldings => {
-        const updatedHoldings = [...prevHoldings];
-        const remainingShares = holding.shares - sharesToSell;
-        
-        if (remainingShares > 0.0001) { // Account for floating point errors
-          // Update holding
-          updatedHoldings[holdingIndex] = {
-            ...holding,
-            shares: remainingShares,
-            value: remainingShares * holding.stock.price
-          };
-        } else {
-          // Remove holding completely
-          updatedHoldings.splice(holdingIndex, 1);
-        }
+      if (isPersisted) {
+        const res = await apiRequest("POST", "/api/portfolio/sell", {
+          ticker: stockId,
+          shares: sharesToSell
+        });
+        queryClient.setQueryData(PORTFOLIO_QUERY_KEY, await res.json());
+        invalidateTradeHistory();
+      } else {
+        // Update cash
+        setCash(prevCash => prevCash + saleAmount);
         
-        return updatedHoldings;
-      });
+        // Update holdings
+        setHoldings(prevHoldings => {
+          const updatedHoldings = [...prevHoldings];
+          const remainingShares = holding.shares - sharesToSell;
+          
+          if (remainingShares > 0.0001) { // Account for floating point errors
+            // Update holding
+            updatedHoldings[holdingIndex] = {
+              ...holding,
+              shares: remainingShares,
+              value: remainingShares * holding.stock.price
+            };
+          } else {
+            // Remove holding completely
+            updatedHoldings.splice(holdingIndex, 1);
+          }
+          
+          return updatedHoldings;
+        });
+      }
       
       // Show success message
       toast({
@@ -313,7 +469,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       // Handle errors
       toast({
         title: "Transaction failed",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: getTradeErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -426,22 +582,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     const newTrades = existingHoldingIndex >= 0 ? portfolioMetrics.trades : portfolioMetrics.trades + 1;
     
     // Calculate new ROI for simulated portfolio
-    const simulatedTotalInvested = simulatedHoldings.reduce((total, h) => total + (h.shares * h.purchasePrice), 0);
-    let simulatedROI = 0;
-    
-    if (simulatedTotalInvested > 0) {
-      const simulatedReturnsValue = simulatedHoldings.reduce((total, h) => {
-        const oneYearReturnPercentValue = 
-          typeof h.stock.oneYearReturn === 'number' ? h.stock.oneYearReturn :
-          typeof h.stock.oneYearReturn === 'string' ? parseFloat(h.stock.oneYearReturn.replace('%', '')) : 0;
-        
-        const stockValue = h.shares * h.purchasePrice;
-        const stockReturn = stockValue * (oneYearReturnPercentValue / 100);
-        return total + stockReturn;
-      }, 0);
-      
-      simulatedROI = (simulatedReturnsValue / simulatedTotalInvested) * 100;
-    }
+    const simulatedROI = calculateProjectedROI(simulatedHoldings);
 
     const newMetrics = {
       performance: newPerformance,
@@ -534,6 +675,143 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     };
   };
   
+  // Calculate impact of a batch of trades, applied in order, on the same metrics as calculateImpact
+  const calculateTradesImpact = (batch: RebalanceTrade[]) => {
+    const stocksByTicker = new Map(getAllStocks().map(stock => [stock.ticker, stock]));
+    let simulatedHoldings = [...holdings];
+    
+    batch.forEach(trade => {
+      const index = simulatedHoldings.findIndex(h => h.stock.ticker === trade.ticker);
+      
+      if (trade.side === 'sell') {
+        if (index === -1) return;
+        const existing = simulatedHoldings[index];
+        const remainingShares = existing.shares - trade.shares;
+        simulatedHoldings = remainingShares > 0.0001
+          ? simulatedHoldings.map((h, i) => i === index
+            ? { ...h, shares: remainingShares, value: remainingShares * h.stock.price }
+            : h)
+          : simulatedHoldings.filter((_, i) => i !== index);
+      } else if (index >= 0) {
+        const existing = simulatedHoldings[index];
+        const totalShares = existing.shares + trade.shares;
+        simulatedHoldings = simulatedHoldings.map((h, i) => i === index
+          ? {
+            ...h,
+            shares: totalShares,
+            value: totalShares * h.stock.price,
+            purchasePrice: ((existing.shares * existing.purchasePrice) + trade.amount) / totalShares
+          }
+          : h);
+      } else {
+        // Stocks the client doesn't know can't be scored, so they are left out of the preview
+        const stock = stocksByTicker.get(trade.ticker);
+        if (!stock) return;
+        simulatedHoldings = [...simulatedHoldings, {
+          stock,
+          shares: trade.shares,
+          value: trade.shares * stock.price,
+          purchasePrice: trade.amount / trade.shares,
+          purchaseDate: new Date().toISOString().split('T')[0]
+        }];
+      }
+    });
+    
+    const hasExistingHoldings = holdings.length > 0;
+    const hasSimulatedHoldings = simulatedHoldings.length > 0;
+    
+    const currentMetrics = {
+      performance: hasExistingHoldings ? portfolioMetrics.performance : 0,
+      stability: hasExistingHoldings ? portfolioMetrics.stability : 0,
+      value: hasExistingHoldings ? portfolioMetrics.value : 0,
+      momentum: hasExistingHoldings ? portfolioMetrics.momentum : 0,
+      qualityScore: hasExistingHoldings ? portfolioMetrics.qualityScore : 0,
+      trades: portfolioMetrics.trades,
+      roi: portfolioMetrics.roi
+    };
+    
+    const newPerformance = hasSimulatedHoldings ? scorePortfolio(simulatedHoldings, 'performance') : 0;
+    const newStability = hasSimulatedHoldings ? scorePortfolio(simulatedHoldings, 'stability') : 0;
+    const newValue = hasSimulatedHoldings ? scorePortfolio(simulatedHoldings, 'value') : 0;
+    const newMomentum = hasSimulatedHoldings ? scorePortfolio(simulatedHoldings, 'momentum') : 0;
+    
+    const newMetrics = {
+      performance: newPerformance,
+      stability: newStability,
+      value: newValue,
+      momentum: newMomentum,
+      qualityScore: hasSimulatedHoldings ? Math.round((newPerformance + newStability + newValue + newMomentum) / 4) : 0,
+      trades: simulatedHoldings.length,
+      roi: calculateProjectedROI(simulatedHoldings)
+    };
+    
+    // Industry allocation of the invested part of the portfolio, before and after
+    const currentTotal = Math.max(holdings.reduce((total, h) => total + h.value, 0), 0.01);
+    const newTotal = Math.max(simulatedHoldings.reduce((total, h) => total + h.value, 0), 0.01);
+    const industryAllocation: Record<string, {current: number, new: number}> = {};
+    
+    holdings.forEach(h => {
+      industryAllocation[h.stock.industry] ??= { current: 0, new: 0 };
+      industryAllocation[h.stock.industry].current += (h.value / currentTotal) * 100;
+    });
+    simulatedHoldings.forEach(h => {
+      industryAllocation[h.stock.industry] ??= { current: 0, new: 0 };
+      industryAllocation[h.stock.industry].new += (h.value / newTotal) * 100;
+    });
+    
+    const impact = {
+      performance: parseFloat((newMetrics.performance - currentMetrics.performance).toFixed(1)),
+      stability: parseFloat((newMetrics.stability - currentMetrics.stability).toFixed(1)),
+      value: parseFloat((newMetrics.value - currentMetrics.value).toFixed(1)),
+      momentum: parseFloat((newMetrics.momentum - currentMetrics.momentum).toFixed(1)),
+      qualityScore: parseFloat((newMetrics.qualityScore - currentMetrics.qualityScore).toFixed(1)),
+      trades: newMetrics.trades - currentMetrics.trades,
+      roi: parseFloat((newMetrics.roi - currentMetrics.roi).toFixed(1))
+    };
+    
+    return {
+      currentMetrics,
+      newMetrics,
+      impact,
+      industryAllocation
+    };
+  };
+  
+  // Place the rebalancing trades the server plans from the saved targets
+  const rebalancePortfolio = async (): Promise<RebalanceResult | null> => {
+    if (!isPersisted) return null;
+    setIsLoading(true);
+    
+    try {
+      const res = await apiRequest("POST", "/api/portfolio/rebalance");
+      const result: RebalanceResult = await res.json();
+      queryClient.setQueryData(PORTFOLIO_QUERY_KEY, result.portfolio);
+      invalidateTradeHistory();
+      
+      toast({
+        title: "Portfolio rebalanced",
+        description: `Placed ${result.trades.length} trade${result.trades.length === 1 ? '' : 's'}`,
+        variant: "default",
+      });
+      
+      setVersion(prev => prev + 1);
+      setLastUpdated(Date.now());
+      return result;
+    } catch (error) {
+      // Some trades may have gone through before the failure
+      queryClient.invalidateQueries({ queryKey: PORTFOLIO_QUERY_KEY });
+      invalidateTradeHistory();
+      toast({
+        title: "Rebalance failed",
+        description: getTradeErrorMessage(error),
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
   function calculateNewMetricScore(
     metricName: "performance" | "stability" | "value" | "momentum",
     simulatedHoldings: PortfolioHolding[],
@@ -542,7 +820,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     console.log(`\nCalculating weighted ${metricName} score for portfolio with ${simulatedHoldings.length} holdings:`);
     
     // Use the advanced scoring system for combined portfolio scores
-    const score = calculatePortfolioScore(simulatedHoldings, metricName);
+    const score = scorePortfolio(simulatedHoldings, metricName);
     
     console.log(`Advanced portfolio ${metricName} score: ${score}`);
     
@@ -552,7 +830,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
   // Context value
   const contextValue: PortfolioContextProps = {
     cash,
-    holdings,
+    holdings: liveHoldings,
     portfolioValue,
     totalValue,
     version, // Include version counter in context
@@ -561,6 +839,8 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     buyStock,
     sellStock,
     calculateImpact,
+    calculateTradesImpact,
+    rebalancePortfolio,
     isLoading
   };
   
@@ -44,7 +44,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     dailyGoal: 5,
     interests: ["Tech", "Crypto", "ETFs"],
     experienceLevel: "intermediate",
-    onboarded: true
+    onboarded: true,
+    aiTier: "free"
   };
   
   // Use mock user instead of API call
@@ -1,7 +1,7 @@
 import { useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { getIndustryStocks } from '@/lib/stock-data';
-import { fetchStockChartData, timeFrameToRange } from '@/lib/yahoo-finance-client';
+import { prefetchChartBatch, timeFrameToRange } from '@/lib/yahoo-finance-client';
 
 /**
  * This hook aggressively preloads all first stock data in every industry
@@ -22,69 +22,34 @@ export function usePreloadStockData() {
           'Real Estate', 'ESG', 'Fintech', 'Automotive'
         ];
         
-        // For tracking preload progress
-        let preloadedCount = 0;
-        const totalToPreload = industries.length;
+        // The first stock in every industry, and the second one for 1D only
+        const firstSymbols: string[] = [];
+        const secondSymbols: string[] = [];
+        industries.forEach(industry => {
+          const stocks = getIndustryStocks(industry);
+          if (stocks?.[0]) firstSymbols.push(stocks[0].ticker);
+          if (stocks?.[1]) secondSymbols.push(stocks[1].ticker);
+        });
         
         // Timeframes to preload (most important ones first)
         const timeFramesToPreload = ['1D', '1M', '1Y'];
         
-        // Create a batch of preload promises to run simultaneously
-        const preloadPromises = industries.map(async (industry) => {
-          const stocks = getIndustryStocks(industry);
+        // One batch request per timeframe instead of one request per stock
+        for (const timeframe of timeFramesToPreload) {
+          const symbols = timeframe === '1D' ? [...firstSymbols, ...secondSymbols] : firstSymbols;
           
-          if (stocks && stocks.length > 0) {
-            const firstStock = stocks[0];
-            const symbol = firstStock.ticker;
+          try {
+            const errors = await prefetchChartBatch(queryClient, symbols, timeFrameToRange[timeframe]);
+            Object.entries(errors).forEach(([symbol, message]) => {
+              console.error(`Failed to preload ${symbol} (${timeframe}):`, message);
+            });
             
-            // Preload multiple timeframes for this stock
-            for (const timeframe of timeFramesToPreload) {
-              const range = timeFrameToRange[timeframe];
-              const queryKey = ['/api/yahoo-finance/chart', symbol, range];
-              
-              try {
-                // Prefetch data with longer staleTime to avoid refetching
-                await queryClient.prefetchQuery({
-                  queryKey,
-                  queryFn: async () => fetchStockChartData(symbol, range),
-                  staleTime: 5 * 60 * 1000, // 5 minutes
-                  gcTime: 30 * 60 * 1000    // 30 minutes
-                });
-                
-                console.log(`✅ Preloaded ${symbol} (${timeframe}) for ${industry}`);
-              } catch (error) {
-                console.error(`Failed to preload ${symbol} (${timeframe}):`, error);
-              }
-            }
-            
-            // Optionally preload the second stock as well
-            if (stocks.length > 1) {
-              const secondStock = stocks[1];
-              const secondSymbol = secondStock.ticker;
-              
-              // Only preload 1D for second stock to prioritize first stocks
-              const queryKey = ['/api/yahoo-finance/chart', secondSymbol, timeFrameToRange['1D']];
-              
-              try {
-                await queryClient.prefetchQuery({
-                  queryKey,
-                  queryFn: async () => fetchStockChartData(secondSymbol, timeFrameToRange['1D']),
-                  staleTime: 5 * 60 * 1000
-                });
-                
-                console.log(`✅ Preloaded ${secondSymbol} (1D) for ${industry}`);
-              } catch (error) {
-                console.error(`Failed to preload second stock ${secondSymbol}:`, error);
-              }
-            }
-            
-            preloadedCount++;
-            console.log(`Preload progress: ${preloadedCount}/${totalToPreload} industries`);
+            console.log(`✅ Preloaded ${symbols.length - Object.keys(errors).length}/${symbols.length} stocks (${timeframe})`);
+          } catch (error) {
+            console.error(`Failed to preload ${timeframe} charts:`, error);
           }
-        });
+        }
         
-        // Execute all preload operations
-        await Promise.all(preloadPromises);
         console.log('🎉 Finished preloading all first stock cards!');
         
       } catch (error) {
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import type { PriceStreamClientMessage, PriceStreamServerMessage, PriceTick } from "@shared/schema";
+
+// Reconnect delays double from the first to the last, plus up to a second of jitter
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+// The server accepts at most this many symbols per message
+const SUBSCRIBE_BATCH_SIZE = 50;
+
+// Kept open this long after the last unsubscribe, so switching cards doesn't reconnect
+const IDLE_CLOSE_MS = 10 * 1000;
+
+type TickListener = (symbols: string[]) => void;
+
+/**
+ * One WebSocket to /ws/prices shared by every component on the page. Symbols are
+ * reference counted, so the socket subscribes once however many cards show a ticker,
+ * and the socket is closed once nothing has been subscribed for a while.
+ */
+class PriceStreamConnection {
+  private socket: WebSocket | null = null;
+  private subscribers = new Map<string, number>();
+  private ticks = new Map<string, PriceTick>();
+  private listeners = new Set<TickListener>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start streaming symbols
+   * @returns a function that stops streaming them
+   */
+  subscribe(symbols: string[]): () => void {
+    const added = symbols.filter(symbol => {
+      const count = this.subscribers.get(symbol) ?? 0;
+      this.subscribers.set(symbol, count + 1);
+      return count === 0;
+    });
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (!this.socket && !this.reconnectTimer) {
+      this.connect();
+    } else if (added.length > 0) {
+      this.send("subscribe", added);
+    }
+
+    return () => {
+      const removed = symbols.filter(symbol => {
+        const count = (this.subscribers.get(symbol) ?? 1) - 1;
+        if (count > 0) {
+          this.subscribers.set(symbol, count);
+          return false;
+        }
+        this.subscribers.delete(symbol);
+        return true;
+      });
+
+      if (removed.length > 0) {
+        this.send("unsubscribe", removed);
+      }
+      if (this.subscribers.size === 0 && !this.idleTimer) {
+        this.idleTimer = setTimeout(() => this.disconnect(), IDLE_CLOSE_MS);
+      }
+    };
+  }
+
+  getTick(symbol: string): PriceTick | undefined {
+    return this.ticks.get(symbol);
+  }
+
+  /**
+   * Called with the symbols whose prices changed
+   */
+  onTicks(listener: TickListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private connect() {
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(`${protocol}://${window.location.host}/ws/prices`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.send("subscribe", Array.from(this.subscribers.keys()));
+    };
+
+    socket.onmessage = event => {
+      let message: PriceStreamServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+
+      if (message.type === "error") {
+        console.warn("Price stream error:", message.message);
+        return;
+      }
+      message.ticks.forEach(tick => this.ticks.set(tick.symbol, tick));
+      const symbols = message.ticks.map(tick => tick.symbol);
+      this.listeners.forEach(listener => listener(symbols));
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.subscribers.size > 0) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempts) + Math.random() * 1000;
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.subscribers.size > 0) this.connect();
+    }, delay);
+  }
+
+  private disconnect() {
+    this.idleTimer = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.reconnectAttempts = 0;
+  }
+
+  // Messages sent before the socket opens are covered by the subscribe sent on open
+  private send(type: PriceStreamClientMessage["type"], symbols: string[]) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    for (let start = 0; start < symbols.length; start += SUBSCRIBE_BATCH_SIZE) {
+      this.socket.send(JSON.stringify({ type, symbols: symbols.slice(start, start + SUBSCRIBE_BATCH_SIZE) }));
+    }
+  }
+}
+
+const priceStream = new PriceStreamConnection();
+
+/**
+ * Hook to stream live prices for several symbols
+ * @param symbols Stock ticker symbols
+ * @returns the latest tick for each symbol that has had one
+ */
+export function useLivePrices(symbols: string[]): Record<string, PriceTick> {
+  const symbolKey = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort().join(",");
+  const [prices, setPrices] = useState<Record<string, PriceTick>>({});
+
+  useEffect(() => {
+    const streamed = symbolKey ? symbolKey.split(",") : [];
+    if (streamed.length === 0) {
+      setPrices({});
+      return;
+    }
+
+    const readPrices = () => {
+      const latest: Record<string, PriceTick> = {};
+      streamed.forEach(symbol => {
+        const tick = priceStream.getTick(symbol);
+        if (tick) latest[symbol] = tick;
+      });
+      setPrices(latest);
+    };
+
+    readPrices();
+    const stopListening = priceStream.onTicks(changed => {
+      if (changed.some(symbol => streamed.includes(symbol))) readPrices();
+    });
+    const unsubscribe = priceStream.subscribe(streamed);
+
+    return () => {
+      stopListening();
+      unsubscribe();
+    };
+  }, [symbolKey]);
+
+  return prices;
+}
+
+/**
+ * Hook to stream the live price for one symbol
+ * @param symbol Stock ticker symbol
+ */
+export function useLivePrice(symbol: string | null): PriceTick | undefined {
+  const prices = useLivePrices(symbol ? [symbol] : []);
+  return symbol ? prices[symbol.toUpperCase()] : undefined;
+}
@@ -1,5 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
-import { getQueryFn } from "@/lib/queryClient";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
 
 // Interface for the real-time quote data
 export interface RealTimeQuote {
@@ -15,6 +15,12 @@ export interface RealTimeQuote {
   "10. change percent": string;
 }
 
+// Batch quotes from /api/quotes, with why each missing symbol failed
+export interface QuoteBatchResponse {
+  quotes: Record<string, RealTimeQuote>;
+  errors: Record<string, string>;
+}
+
 // Interface for a single intraday data point
 export interface IntradayDataPoint {
   timestamp: string;
@@ -66,6 +72,30 @@ export function useStockQuote(symbol: string | null) {
   });
 }
 
+/**
+ * Hook to fetch real-time quotes for several symbols in one request. Each quote is
+ * also stored under useStockQuote's key, so per-symbol hooks don't fetch it again.
+ * @param symbols Stock ticker symbols
+ */
+export function useStockQuotes(symbols: string[]) {
+  const queryClient = useQueryClient();
+  const uniqueSymbols = Array.from(new Set(symbols)).sort().join(',');
+
+  return useQuery<QuoteBatchResponse, Error>({
+    queryKey: ['/api/quotes', uniqueSymbols],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/quotes?symbols=${encodeURIComponent(uniqueSymbols)}`);
+      const batch: QuoteBatchResponse = await res.json();
+      Object.entries(batch.quotes).forEach(([symbol, quote]) => {
+        queryClient.setQueryData(['/api/stocks/quote', symbol], quote);
+      });
+      return batch;
+    },
+    enabled: uniqueSymbols.length > 0,
+    staleTime: 60000, // 1 minute
+  });
+}
+
 /**
  * Hook to fetch intraday stock data
  * @param symbol Stock ticker symbol
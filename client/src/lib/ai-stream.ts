@@ -0,0 +1,73 @@
+import type { AssistantToolUse } from "@shared/schema";
+
+interface StreamOptions {
+  // Called with each chunk of text as it arrives
+  onDelta: (text: string) => void;
+  // Called with the saved thread the answer belongs to (signed-in users only)
+  onThread?: (threadId: number) => void;
+  // Called each time the AI looks something up before answering
+  onToolUse?: (tool: AssistantToolUse) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * POST to one of the `/api/ai/.../stream` endpoints and read the Server-Sent
+ * Events it sends back. Resolves with the full text once the stream is done.
+ * Aborting the signal cancels the request, which also stops the server side.
+ */
+export async function streamAIResponse(url: string, body: unknown, { onDelta, onThread, onToolUse, signal }: StreamOptions): Promise<string> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+
+    for (const rawEvent of events) {
+      let event = "message";
+      let data = "";
+
+      rawEvent.split("\n").forEach(line => {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      });
+
+      if (!data) continue;
+      const payload = JSON.parse(data);
+
+      if (event === "delta") {
+        content += payload.text;
+        onDelta(payload.text);
+      } else if (event === "tool") {
+        onToolUse?.(payload);
+      } else if (event === "thread") {
+        onThread?.(payload.threadId);
+      } else if (event === "error") {
+        throw new Error(payload.message || "AI service error");
+      }
+    }
+  }
+
+  return content;
+}
@@ -1,110 +1,14 @@
-// Define the detail types for each metric category
-export interface PerformanceDetails {
-  revenueGrowth: number;
-  profitMargin: number;
-  returnOnCapital: number;
-  // Individual metric 1-liners
-  revenueGrowthExplanation?: string;
-  profitMarginExplanation?: string;
-  returnOnCapitalExplanation?: string;
-}
+import type {
+  PerformanceDetails,
+  StabilityDetails,
+  ValueDetails,
+  MomentumDetails,
+  PotentialDetails,
+  StockData
+} from '@shared/scoring/types';
 
-export interface StabilityDetails {
-  volatility: number;
-  beta: number;
-  dividendConsistency: string;
-  // Individual metric 1-liners
-  volatilityExplanation?: string;
-  betaExplanation?: string;
-  dividendConsistencyExplanation?: string;
-}
-
-export interface ValueDetails {
-  peRatio: number;
-  pbRatio: number;
-  dividendYield: number | string;
-  predictedUpside?: number; // Added for consistency with advanced metric scoring
-  // Individual metric 1-liners
-  peRatioExplanation?: string;
-  pbRatioExplanation?: string;
-  dividendYieldExplanation?: string;
-  predictedUpsideExplanation?: string;
-}
-
-export interface MomentumDetails {
-  threeMonthReturn: number;
-  relativePerformance: number;
-  rsi: number;
-  oneYearReturn?: number; // Added for consistency with advanced metric scoring
-  oneYearReturnAvg?: number; // Added for consistency with industry averages
-  // Individual metric 1-liners
-  threeMonthReturnExplanation?: string;
-  relativePerformanceExplanation?: string;
-  rsiExplanation?: string;
-  oneYearReturnExplanation?: string;
-}
-
-export interface PotentialDetails {
-  predictedUpside?: number;
-  revenueGrowth?: number;
-  relativePerformance?: number;
-  // Individual metric 1-liners
-  predictedUpsideExplanation?: string;
-  revenueGrowthExplanation?: string;
-  relativePerformanceExplanation?: string;
-}
-
-export interface StockData {
-  name: string;
-  ticker: string;
-  price: number;
-  change: number;
-  rating: number;
-  smartScore?: string;
-  description: string;
-  oneYearReturn?: string; // 1-year return percentage (e.g., "13.27%")
-  predictedPrice?: string; // Predicted future price (e.g., "$128.79")
-  metrics: {
-    performance: {
-      value: string;
-      color: string;
-      details: PerformanceDetails;
-      explanation: string;
-    };
-    stability: {
-      value: string;
-      color: string;
-      details: StabilityDetails;
-      explanation: string;
-    };
-    value: {
-      value: string;
-      color: string;
-      details: ValueDetails;
-      explanation: string;
-    };
-    momentum: {
-      value: string;
-      color: string;
-      details: MomentumDetails;
-      explanation: string;
-    };
-    potential?: {
-      value: string;
-      color: string;
-      details: PotentialDetails;
-      explanation: string;
-    };
-  };
-  synopsis: {
-    price: string;
-    company: string;
-    role: string;
-  };
-  overallAnalysis: string;
-  chartData: number[];
-  industry: string;
-}
+// The stock types live with the shared scoring engine
+export type { PerformanceDetails, StabilityDetails, ValueDetails, MomentumDetails, PotentialDetails, StockData };
 
 const hardcodedStocks: Record<string, StockData[]> = {
   
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, type QueryClient } from "@tanstack/react-query";
+import type { ChartSource } from "@shared/schema";
 
 // Type definitions
 export interface YahooChartQuote {
@@ -25,6 +26,8 @@ export interface YahooChartResponse {
     previousClose: number;
     dataGranularity: string;
     range: string;
+    // Set when the chart was served from imported price history
+    dataSource?: 'history';
   };
   quotes: YahooChartQuote[];
   events?: {
@@ -33,6 +36,14 @@ export interface YahooChartResponse {
   };
 }
 
+// GET /api/charts: charts and per-symbol errors, both keyed by symbol
+export interface ChartBatchResponse {
+  range: string;
+  interval: string;
+  charts: Record<string, YahooChartResponse>;
+  errors: Record<string, string>;
+}
+
 export interface AnalystRecommendation {
   buy: number;
   hold: number;
@@ -71,9 +82,16 @@ export const timeFrameToRange: Record<string, string> = {
   "MAX": "max"
 };
 
-export async function fetchStockChartData(symbol: string, range: string = "1mo", interval: string = "1d"): Promise<YahooChartResponse> {
+// "auto" lets the server use imported price history when it covers the range
+export async function fetchStockChartData(
+  symbol: string,
+  range: string = "1mo",
+  interval: string = "1d",
+  source: ChartSource = "auto"
+): Promise<YahooChartResponse> {
   try {
-    const response = await fetch(`/api/yahoo-finance/chart/${symbol}?interval=${interval}&range=${range}`);
+    const sourceParam = source === "auto" ? "" : `&source=${source}`;
+    const response = await fetch(`/api/yahoo-finance/chart/${symbol}?interval=${interval}&range=${range}${sourceParam}`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -89,13 +107,53 @@ export async function fetchStockChartData(symbol: string, range: string = "1mo",
   }
 }
 
-export function useYahooChartData(symbol: string, timeFrame: string) {
+// Most symbols the server accepts in one batch request
+const MAX_BATCH_SYMBOLS = 50;
+
+export async function fetchChartBatch(symbols: string[], range: string = "1mo", interval: string = "1d"): Promise<ChartBatchResponse> {
+  const params = new URLSearchParams({ symbols: symbols.join(","), range, interval });
+  const response = await fetch(`/api/charts?${params.toString()}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Failed to fetch charts for ${symbols.join(", ")}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Fetch the charts that aren't cached yet with one batch request per 50 symbols, and store
+ * each under the key useYahooChartData reads so cards render without their own request
+ * @returns why each symbol that couldn't be loaded failed
+ */
+export async function prefetchChartBatch(queryClient: QueryClient, symbols: string[], range: string): Promise<Record<string, string>> {
+  const missing = Array.from(new Set(symbols)).filter(symbol =>
+    !queryClient.getQueryData(['/api/yahoo-finance/chart', symbol, range])
+  );
+  const errors: Record<string, string> = {};
+
+  for (let start = 0; start < missing.length; start += MAX_BATCH_SYMBOLS) {
+    const batch = await fetchChartBatch(missing.slice(start, start + MAX_BATCH_SYMBOLS), range);
+    Object.entries(batch.charts).forEach(([symbol, chart]) => {
+      queryClient.setQueryData(['/api/yahoo-finance/chart', symbol, range], chart);
+    });
+    Object.assign(errors, batch.errors);
+  }
+
+  return errors;
+}
+
+export function useYahooChartData(symbol: string, timeFrame: string, source: ChartSource = "auto") {
   const range = timeFrameToRange[timeFrame] || "1mo";
-  const queryKey = ['/api/yahoo-finance/chart', symbol, range];
+  // Other sources get their own entries so they don't replace the default chart
+  const queryKey = source === "auto"
+    ? ['/api/yahoo-finance/chart', symbol, range]
+    : ['/api/yahoo-finance/chart', symbol, range, source];
   
   return useQuery<YahooChartResponse>({
     queryKey,
-    queryFn: async () => fetchStockChartData(symbol, range),
+    queryFn: async () => fetchStockChartData(symbol, range, "1d", source),
     staleTime: 5 * 60 * 1000, // 5 minutes
     enabled: !!symbol,
     
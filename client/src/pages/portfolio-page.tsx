@@ -10,7 +10,7 @@ import AppNavigation from '@/components/app-navigation';
 import { PortfolioContext, PortfolioHolding } from '@/contexts/portfolio-context';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { getIndustryAverages } from '@/lib/industry-data';
+import { getIndustryAverages } from '@shared/scoring/industry-averages';
 import { getQualityScoreColor, getQualityScoreBgColor } from '@/data/leaderboard-data';
 // import PortfolioAnalyzer from '@/components/portfolio-analyzer';
 import { 
@@ -24,9 +24,15 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue 
 } from '@/components/ui/select';
 import { StockData, getAllStocks, getIndustryStocks } from '@/lib/stock-data';
-import { getAdvancedMetricScore } from '@/lib/advanced-metric-scoring';
+import { getAdvancedMetricScore } from '@shared/scoring/advanced-metric-scoring';
 import { cn } from '@/lib/utils';
 import AIAssistant from '@/components/ui/ai-assistant';
+import TransactionHistory from '@/components/transaction-history';
+import PortfolioPerformanceChart from '@/components/portfolio-performance';
+import PortfolioRiskPanel from '@/components/portfolio-risk';
+import RebalanceAssistant from '@/components/rebalance-assistant';
+import PendingOrders from '@/components/pending-orders';
+import InvestmentPlans from '@/components/investment-plans';
 
 // Define interfaces for impact data
 interface ImpactMetrics {
@@ -361,7 +367,7 @@ export default function PortfolioPage() {
           onValueChange={setActiveTab}
           className="w-full"
         >
-          <TabsList className="grid w-full grid-cols-4 mb-6">
+          <TabsList className="grid w-full grid-cols-7 mb-6">
             <TabsTrigger value="metrics" className="text-sm">
               Metrics
             </TabsTrigger>
@@ -375,6 +381,15 @@ export default function PortfolioPage() {
             <TabsTrigger value="allocation" className="text-sm">
               Allocation
             </TabsTrigger>
+            <TabsTrigger value="risk" className="text-sm">
+              Risk
+            </TabsTrigger>
+            <TabsTrigger value="plans" className="text-sm">
+              Plans
+            </TabsTrigger>
+            <TabsTrigger value="history" className="text-sm">
+              History
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="holdings" className="space-y-4">
@@ -392,6 +407,8 @@ export default function PortfolioPage() {
                 />
               ))
             )}
+            
+            <PendingOrders />
           </TabsContent>
           
           <TabsContent value="allocation" className="space-y-4">
@@ -465,6 +482,8 @@ export default function PortfolioPage() {
                 </div>
               </>
             )}
+            
+            <RebalanceAssistant />
           </TabsContent>
           
           <TabsContent value="metrics" className="space-y-4">
@@ -491,6 +510,8 @@ export default function PortfolioPage() {
               </div>
             </div>
             
+            <PortfolioPerformanceChart />
+            
             <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
               <div className="flex justify-between items-center mb-3">
                 <p className="text-sm font-medium text-slate-700">Portfolio Metrics</p>
@@ -747,6 +768,18 @@ export default function PortfolioPage() {
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="risk" className="space-y-4">
+            <PortfolioRiskPanel />
+          </TabsContent>
+
+          <TabsContent value="plans" className="space-y-4">
+            <InvestmentPlans />
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-4">
+            <TransactionHistory />
+          </TabsContent>
         </Tabs>
       </main>
       
@@ -4,8 +4,8 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Stack } from "@shared/schema";
 import { ArrowLeft } from "lucide-react";
 import { getQueryFn } from "@/lib/queryClient";
-import { StockData, getIndustryStocks } from "@/lib/stock-data";
-import { fetchStockChartData, timeFrameToRange } from "@/lib/yahoo-finance-client";
+import { StockData } from "@/lib/stock-data";
+import { prefetchChartBatch, timeFrameToRange } from "@/lib/yahoo-finance-client";
 // Import StockCard and the data type for its callback
 import StockCard, { MetricClickData } from "@/components/ui/stock-card"; // Ensure path is correct
 import StackCompletedModal from "@/components/stack-completed-modal";    // Ensure path is correct
@@ -96,18 +96,15 @@ const [useRealTimeData] = useState(true); // Keep state if mode switching is pla
     enabled: !!stackId,
   });
 
-// Generate stocks data robustly
-  const stocks = useMemo(() => {
-    if (!stack?.industry) return []; // Check stack and industry exist
-    try {
-        const industryStocks = getIndustryStocks(stack.industry);
-        // Ensure the function actually returned an array
-        return Array.isArray(industryStocks) ? industryStocks : [];
-    } catch (err) {
-        console.error("Error getting industry stocks:", err);
-        return []; // Return empty array on error
-    }
-  }, [stack]);
+// Fetch the stack's stocks from the universe
+  const { data: industryStocks, isLoading: isLoadingStocks, error: stocksError } = useQuery<StockData[]>({
+    queryKey: [`/api/universe/industries/${encodeURIComponent(stack?.industry ?? '')}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!stack?.industry,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const stocks = useMemo(() => Array.isArray(industryStocks) ? industryStocks : [], [industryStocks]);
 
   // Motion value and controls (called unconditionally)
   const x = useMotionValue(0);
@@ -120,76 +117,70 @@ const [useRealTimeData] = useState(true); // Keep state if mode switching is pla
     cardControls.set({ x: 0 });
   }, [cardControls]);
   
-  // Function to preload data for a specific stock
-  const preloadStockData = useCallback(async (stock: StockData, priority: 'high' | 'medium' | 'low' = 'medium') => {
-    if (!stock?.ticker) return;
-    
-    const symbol = stock.ticker;
-    // Determine which timeframes to preload based on priority
-    const timeframes = priority === 'high' 
-      ? ["1D", "1W", "1M", "1Y"] // Preload all timeframes for high priority
-      : priority === 'medium'
-        ? ["1D", "1Y"] // Key timeframes for medium priority 
-        : ["1D"]; // Just default for low priority
-    
-    console.log(`Preloading ${priority} priority data for ${symbol} with ${timeframes.length} timeframes`);
-    
-    try {
-      // Load data for each timeframe in parallel
-      await Promise.all(timeframes.map(async (timeframe) => {
+  // Preload chart data for several stocks, with one batch request per timeframe
+  const preloadStockData = useCallback(async (entries: { stock: StockData; priority: 'high' | 'medium' | 'low' }[]) => {
+    const symbolsByRange = new Map<string, string[]>();
+
+    entries.forEach(({ stock, priority }) => {
+      if (!stock?.ticker) return;
+
+      // Determine which timeframes to preload based on priority
+      const timeframes = priority === 'high' 
+        ? ["1D", "1M", "1Y"] // Preload all timeframes for high priority
+        : priority === 'medium'
+          ? ["1D", "1Y"] // Key timeframes for medium priority 
+          : ["1D"]; // Just default for low priority
+
+      timeframes.forEach(timeframe => {
         const range = timeFrameToRange[timeframe];
-        const queryKey = ['/api/yahoo-finance/chart', symbol, range];
-        
-        // Check if data is already in cache
-        const existingData = queryClient.getQueryData(queryKey);
-        if (existingData) {
-          console.log(`Using cached data for ${symbol} (${timeframe})`);
-          return existingData;
-        }
-        
-        // Otherwise fetch it
-        return queryClient.prefetchQuery({
-          queryKey,
-          queryFn: async () => fetchStockChartData(symbol, range),
-          staleTime: 5 * 60 * 1000, // 5 minutes
+        symbolsByRange.set(range, [...(symbolsByRange.get(range) || []), stock.ticker]);
+      });
+    });
+
+    await Promise.all(Array.from(symbolsByRange.entries()).map(async ([range, symbols]) => {
+      try {
+        // Charts already in the cache are skipped
+        const errors = await prefetchChartBatch(queryClient, symbols, range);
+        Object.entries(errors).forEach(([symbol, message]) => {
+          console.error(`Error preloading chart data for ${symbol} (${range}):`, message);
         });
-      }));
-    } catch (error) {
-      console.error(`Error preloading chart data for ${symbol}:`, error);
-      // Don't throw - just log the error
-    }
+      } catch (error) {
+        console.error(`Error preloading ${range} chart data for ${symbols.join(', ')}:`, error);
+        // Don't throw - just log the error
+      }
+    }));
   }, [queryClient]);
   
   // Aggressively preload data for the first card immediately on load
   // This ensures it's ready for drawing animation instantly
   useEffect(() => {
-    // First render - aggressively preload first stock
-    if (stocks.length > 0) {
-      const firstStock = stocks[0];
-      
-      // For the first stock, immediately load with high priority
-      if (currentStockIndex === 0) {
-        preloadStockData(firstStock, 'high');
-      }
-      
-      // Also preload current stock if we've navigated to a different one
-      const currentStock = stocks[currentStockIndex];
-      if (currentStock && currentStock.ticker !== firstStock.ticker) {
-        preloadStockData(currentStock, 'high');
-      }
-      
-      // Preload next stock with medium priority
-      if (currentStockIndex + 1 < stocks.length) {
-        const nextStock = stocks[currentStockIndex + 1];
-        preloadStockData(nextStock, 'medium');
-      }
-      
-      // If we have capacity, preload one more stock ahead with low priority
-      if (currentStockIndex + 2 < stocks.length) {
-        const futureStock = stocks[currentStockIndex + 2];
-        preloadStockData(futureStock, 'low');
-      }
+    if (stocks.length === 0) return;
+
+    const entries: { stock: StockData; priority: 'high' | 'medium' | 'low' }[] = [];
+    const firstStock = stocks[0];
+    
+    // For the first stock, immediately load with high priority
+    if (currentStockIndex === 0) {
+      entries.push({ stock: firstStock, priority: 'high' });
     }
+    
+    // Also preload current stock if we've navigated to a different one
+    const currentStock = stocks[currentStockIndex];
+    if (currentStock && currentStock.ticker !== firstStock.ticker) {
+      entries.push({ stock: currentStock, priority: 'high' });
+    }
+    
+    // Preload next stock with medium priority
+    if (currentStockIndex + 1 < stocks.length) {
+      entries.push({ stock: stocks[currentStockIndex + 1], priority: 'medium' });
+    }
+    
+    // If we have capacity, preload one more stock ahead with low priority
+    if (currentStockIndex + 2 < stocks.length) {
+      entries.push({ stock: stocks[currentStockIndex + 2], priority: 'low' });
+    }
+
+    preloadStockData(entries);
   }, [stocks, currentStockIndex, preloadStockData]);
 
 // Navigation Handlers
@@ -252,7 +243,7 @@ const handlePreviousStock = useCallback(() => {
   }, [setLocation]);
 
   // --- Loading / Error / Empty States ---
-   if (isLoading) {
+   if (isLoading || isLoadingStocks) {
      return (
        <div className="flex items-center justify-center min-h-screen bg-black">
          <div className="animate-spin w-10 h-10 border-4 border-cyan-400 border-t-transparent rounded-full"></div>
@@ -261,9 +252,10 @@ const handlePreviousStock = useCallback(() => {
    }
 
    // Handle error or missing stack *after* loading is false
-   if (error || !stack) {
+   if (error || stocksError || !stack) {
      // Check if error is an instance of Error to display message
-     const errorMessage = error instanceof Error ? error.message : "Error loading stack data.";
+     const loadError = error || stocksError;
+     const errorMessage = loadError instanceof Error ? loadError.message : "Error loading stack data.";
      return (
        <div className="flex items-center justify-center flex-col min-h-screen bg-black text-white p-4">
          <p className="mb-4 text-center text-red-400">{errorMessage}</p>
@@ -428,7 +420,7 @@ const handlePreviousStock = useCallback(() => {
       
       {/* AI Assistant - position as needed, ensure z-index is appropriate */}
       <div className="absolute bottom-4 right-4 z-30">
-        <AIAssistant />
+        <AIAssistant stock={stocks[currentStockIndex]} />
       </div>
     </div>
  );
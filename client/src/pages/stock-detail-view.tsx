@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { ArrowLeft } from "lucide-react";
-import { StockData, getIndustryStocks } from "@/lib/stock-data";
+import { StockData } from "@/lib/stock-data";
 import StockChart from "@/components/stock-detail/stock-chart";
 import ComparativeAnalysis from "@/components/comparative-analysis";
 import OverallAnalysisCard from "@/components/overall-analysis-card";
@@ -21,14 +21,14 @@ export default function StockDetailView() {
   
   // Fetch the stock data using the symbol from the URL parameters
   const { data: stock, isLoading, error } = useQuery<StockData>({
-    queryKey: ['/api/stock', symbol],
+    queryKey: ['/api/universe', symbol],
     queryFn: async () => {
       // Check if symbol parameter exists
       if (!symbol) {
         throw new Error("Stock symbol not provided");
       }
       
-      const response = await fetch(`/api/stock/${symbol}`);
+      const response = await fetch(`/api/universe/${encodeURIComponent(symbol)}`);
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         throw new Error(
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { CompanyMetrics, EnhancedBoardRoomDecision } from '@/types/game';
+import { narrativeStages } from '@shared/schema';
 
 // Type for the decision history used for AI context
 interface DecisionHistory {
@@ -21,19 +22,8 @@ interface GameState {
   decisions: DecisionHistory[];
 }
 
-// Constants for the narrative arc
-export const NARRATIVE_STAGES = [
-  "Company Establishment",
-  "Market Expansion",
-  "Competitive Challenge",
-  "Innovation Decision",
-  "Economic Downturn",
-  "Regulatory Issue",
-  "Talent Management",
-  "Acquisition Opportunity",
-  "International Expansion",
-  "Legacy Planning"
-];
+// Constants for the narrative arc, shared with the server so prompts and validation agree
+export const NARRATIVE_STAGES = narrativeStages;
 
 // Fallback pre-written scenarios by stage
 const FALLBACK_SCENARIOS: Record<string, EnhancedBoardRoomDecision[]> = {
@@ -191,32 +181,15 @@ export async function generateInitialScenario(
   companyName: string,
   industry: string
 ): Promise<EnhancedBoardRoomDecision> {
-  const initialPrompt = `
-    Generate a business scenario for ${playerName}, the new CEO of ${companyName} in the ${industry} industry.
-    This is the beginning of their journey as CEO ("Company Establishment" stage). Create a compelling situation that involves
-    early leadership decisions that will affect the company's future.
-    
-    The scenario should impact metrics like EPS, Revenue Growth, and Stability.
-    
-    Format the response as a JSON object with these fields:
-    - id: unique ID string
-    - title: short title for the decision
-    - description: 1-2 paragraph scenario description
-    - stage: "Company Establishment"
-    - learningObjective: brief financial literacy concept being taught
-    - options: array of 2-3 options, each with:
-      - id: unique ID string
-      - text: description of the option
-      - impacts: array of impacts, each with:
-        - metric: name of the metric affected
-        - value: numeric value of impact (-30 to +30)
-        - category: one of "Growth", "Stability", "Momentum", or "Value"
-      - explanation: brief explanation of why this choice impacts the metrics
-  `;
-
   try {
+    // The server builds the prompt from the stage, industry and starting metrics
     const response = await axios.post('/api/ai-scenario', {
-      prompt: initialPrompt
+      playerName,
+      companyName,
+      industry,
+      stage: NARRATIVE_STAGES[0],
+      metrics: DEFAULT_COMPANY_METRICS,
+      decisions: []
     });
     
     if (response.data && response.data.scenario) {
@@ -238,51 +211,10 @@ export async function generateNextScenario(
   gameState: GameState,
   currentStage: string
 ): Promise<EnhancedBoardRoomDecision> {
-  // Convert decision history to a text format for the AI prompt
-  const decisionHistory = gameState.decisions.map(d => 
-    `Decision: ${d.title}, Choice: ${d.selectedOptionId}, Impacts: ${d.impacts.map(i => `${i.metric} ${i.value > 0 ? '+' : ''}${i.value}%`).join(', ')}`
-  ).join('\n');
-  
-  // Convert metrics to a readable format
-  const metricsText = Object.entries(gameState.metrics)
-    .map(([key, value]) => `${key}: ${value}`)
-    .join(', ');
-  
-  const nextPrompt = `
-    The player is ${gameState.playerName}, CEO of ${gameState.companyName} in the ${gameState.industry} industry.
-    
-    Their company currently has these metrics:
-    ${metricsText}
-    
-    Previous decisions:
-    ${decisionHistory}
-    
-    Current narrative stage: ${currentStage}
-    
-    Generate the next business scenario that logically follows from these decisions and fits the current
-    narrative stage. The scenario should affect 2-3 metrics and impact one or more core categories: Growth, Stability, Momentum, Value.
-    
-    Include a relevant financial literacy concept explanation.
-    
-    Format the response as a JSON object with these fields:
-    - id: unique ID string
-    - title: short title for the decision
-    - description: 1-2 paragraph scenario description
-    - stage: "${currentStage}"
-    - learningObjective: brief financial literacy concept being taught
-    - options: array of 2-3 options, each with:
-      - id: unique ID string
-      - text: description of the option
-      - impacts: array of impacts, each with:
-        - metric: name of the metric affected
-        - value: numeric value of impact (-30 to +30)
-        - category: one of "Growth", "Stability", "Momentum", or "Value"
-      - explanation: brief explanation of why this choice impacts the metrics
-  `;
-
   try {
     const response = await axios.post('/api/ai-scenario', {
-      prompt: nextPrompt
+      ...gameState,
+      stage: currentStage
     });
     
     if (response.data && response.data.scenario) {
@@ -314,16 +246,11 @@ export async function generateExplanation(
   change: number,
   playerChoice: string
 ): Promise<string> {
-  const prompt = `
-    Explain in 2-3 sentences why a CEO's decision to "${playerChoice}" 
-    would cause the company's ${metric} to change by ${change > 0 ? '+' : ''}${change}%.
-    Make this explanation educational but conversational, as if a financial advisor
-    is explaining it to a new investor.
-  `;
-
   try {
     const response = await axios.post('/api/ai-insight', {
-      prompt
+      metric,
+      change,
+      playerChoice
     });
     
     if (response.data && response.data.explanation) {
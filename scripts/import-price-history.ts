@@ -0,0 +1,74 @@
+/**
+ * Import Price History
+ *
+ * Reads daily OHLCV CSV files exported from Yahoo Finance (history or
+ * dividends) or downloaded from Stooq into stock_data.closing_history and
+ * stock_data.dividends, merging with what is already stored. Prints a summary
+ * per ticker with skipped rows, gaps and suspected splits.
+ *
+ * Usage: npm run price-history:import -- data/AAPL.csv data/aapl.us.txt
+ *        npm run price-history:import -- --ticker AAPL downloads/export.csv
+ * Single-ticker files are named after their ticker unless --ticker is given;
+ * Stooq bulk files carry the ticker on every row.
+ */
+
+import { readFileSync } from 'fs';
+import { priceHistoryService, type PriceHistoryImportSummary } from '../server/services/price-history-service';
+
+function printSummary(file: string, summary: PriceHistoryImportSummary) {
+  const range = summary.firstDate ? `${summary.firstDate} to ${summary.lastDate}` : 'no dates';
+  console.log(`${summary.ticker} (${file}, ${summary.format}): imported ${summary.imported} of ${summary.rows} rows, ${range}`);
+  if (summary.error) {
+    console.log(`  Not stored: ${summary.error}`);
+  }
+  if (summary.format !== 'yahoo-dividends' && summary.imported > 0) {
+    console.log(`  ${summary.storedDays} days of history stored`);
+  }
+  if (summary.dividends > 0) {
+    console.log(`  ${summary.dividends} dividends`);
+  }
+  if (summary.skipped > 0) {
+    console.log(`  Skipped ${summary.skipped} rows:`);
+    summary.problems.forEach(problem => console.log(`    ${problem}`));
+  }
+  summary.gaps.forEach(gap => console.log(`  Gap: ${gap.from} to ${gap.to} (${gap.calendarDays} days)`));
+  summary.splits.forEach(split =>
+    console.log(`  Possible ${split.ratio} split on ${split.date}: ${split.previousClose} -> ${split.close}`)
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const tickerIndex = args.indexOf('--ticker');
+  const ticker = tickerIndex >= 0 ? args[tickerIndex + 1] : undefined;
+  const files = args.filter((_, i) => tickerIndex < 0 || (i !== tickerIndex && i !== tickerIndex + 1));
+
+  if (files.length === 0) {
+    console.error('Usage: npm run price-history:import -- [--ticker SYMBOL] <file.csv>...');
+    process.exit(1);
+  }
+
+  let stored = 0;
+  let failed = 0;
+  for (const file of files) {
+    try {
+      const summaries = await priceHistoryService.importCsv(readFileSync(file, 'utf8'), { ticker, fileName: file });
+      summaries.forEach(summary => {
+        printSummary(file, summary);
+        if (summary.error) failed++;
+        else stored++;
+      });
+    } catch (error) {
+      console.error(`Failed to import ${file}:`, error instanceof Error ? error.message : error);
+      failed++;
+    }
+  }
+
+  console.log(`Imported history for ${stored} tickers${failed ? `, ${failed} failed` : ''}`);
+  process.exit(stored === 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Error importing price history:', error);
+  process.exit(1);
+});
@@ -3,12 +3,18 @@
  * 
  * This script pushes the Drizzle schema to the database.
  * It's used to initialize or update the database schema.
+ *
+ * Run it before `npm run db:push` on an existing database: it also clears
+ * stock_cache rows from before the cache was keyed by endpoint and params,
+ * which drizzle-kit can't give the new NOT NULL columns.
  */
 
-import { db } from '../server/db';
+import { createDatabase } from '../server/db';
 import { stocks, stockData, sectors, marketData } from '../shared/schema';
 import { sql } from 'drizzle-orm';
 
+const { db } = createDatabase();
+
 async function main() {
   try {
     console.log('Connecting to database...');
@@ -53,9 +59,11 @@ async function main() {
         upgrades_downgrades JSONB,
         financial_data JSONB,
         institutional_holders JSONB,
-        major_holders JSONB
+        major_holders JSONB,
+        swipe_card JSONB
       )
     `);
+    await db.execute(sql`ALTER TABLE ${stockData} ADD COLUMN IF NOT EXISTS swipe_card JSONB`);
     console.log('Created stock_data table');
     
     // Create sectors table
@@ -80,6 +88,20 @@ async function main() {
     `);
     console.log('Created market_data table');
     
+    // stock_cache only holds cached Yahoo Finance responses, so rows without a cache_key are
+    // dropped rather than backfilled; they are refetched on the next request
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF to_regclass('stock_cache') IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM information_schema.columns WHERE table_name = 'stock_cache' AND column_name = 'cache_key'
+        ) THEN
+          TRUNCATE stock_cache;
+        END IF;
+      END $$
+    `);
+    console.log('Cleared stock_cache rows from before cache keys');
+    
     console.log('Database schema push completed successfully!');
   } catch (error) {
     console.error('Error pushing schema to database:', error);
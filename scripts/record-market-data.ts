@@ -0,0 +1,66 @@
+/**
+ * Record Market Data Fixtures
+ *
+ * Calls Yahoo Finance the same way the stock detail page, news, analyst ratings
+ * and refresh jobs do, saving every response under server/fixtures/market-data
+ * (or MARKET_DATA_FIXTURES). Run the app with MARKET_DATA_PROVIDER=fixtures to
+ * serve them without a network connection.
+ *
+ * Usage: npm run market-data:record -- AAPL MSFT
+ * With no tickers, the whole stock universe is recorded.
+ */
+
+// Record everything: nothing may be answered from the response cache
+process.env.MARKET_DATA_PROVIDER = 'record';
+process.env.STORAGE_DRIVER = 'memory';
+
+const CHART_RANGES = ['1d', '5d', '1mo', '3mo', '6mo', '1y', '5y'];
+const BENCHMARK_SYMBOL = '^GSPC';
+
+async function main() {
+  const { yahooFinanceService } = await import('../server/services/yahoo-finance-service');
+  const { marketDataRefreshService } = await import('../server/services/market-data-refresh-service');
+  const { universeService } = await import('../server/services/universe-service');
+
+  const requested = process.argv.slice(2).map(ticker => ticker.trim().toUpperCase()).filter(Boolean);
+  const tickers = requested.length ? requested : await universeService.listTickers();
+  const failed: string[] = [];
+
+  for (const ticker of tickers) {
+    console.log(`Recording ${ticker}...`);
+    try {
+      await yahooFinanceService.getQuote(ticker);
+      await yahooFinanceService.getCompanyOverview(ticker);
+      await yahooFinanceService.getIntradayData(ticker);
+      for (const range of CHART_RANGES) {
+        await yahooFinanceService.getChartData(ticker, range, range === '5y' ? '1wk' : '1d');
+      }
+      await yahooFinanceService.getNewsData(ticker);
+      await yahooFinanceService.getRecommendations(ticker);
+      await yahooFinanceService.getUpgradeHistory(ticker);
+      await yahooFinanceService.getAnalystData(ticker);
+    } catch (error) {
+      console.error(`Failed to record ${ticker}:`, error instanceof Error ? error.message : error);
+      failed.push(ticker);
+    }
+  }
+
+  // The benchmark chart, and the modules the refresh jobs read for the whole universe
+  for (const range of CHART_RANGES) {
+    await yahooFinanceService.getChartData(BENCHMARK_SYMBOL, range, range === '5y' ? '1wk' : '1d');
+  }
+  if (!requested.length) {
+    await marketDataRefreshService.refreshPrices();
+    await marketDataRefreshService.refreshFundamentals();
+    await marketDataRefreshService.refreshAnalystData();
+    await marketDataRefreshService.refreshEarningsDates();
+  }
+
+  console.log(`Recorded ${tickers.length - failed.length} of ${tickers.length} tickers${failed.length ? `; failed: ${failed.join(', ')}` : ''}`);
+  process.exit(failed.length === tickers.length ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Error recording market data:', error);
+  process.exit(1);
+});
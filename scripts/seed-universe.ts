@@ -0,0 +1,26 @@
+/**
+ * Seed Stock Universe
+ *
+ * Loads the hardcoded swipe cards from client/src/lib/stock-data.ts into the
+ * stocks and stock_data tables. Existing tickers are updated in place, so it
+ * can be re-run after editing the cards.
+ *
+ * Usage: npm run db:seed-universe
+ */
+
+import { seedUniverse } from '../server/services/universe-service';
+
+async function main() {
+  try {
+    console.log('Seeding stock universe...');
+    const result = await seedUniverse();
+    console.log(`Seeded ${result.stocks} stocks across ${result.industries.length} industries: ${result.industries.join(', ')}`);
+  } catch (error) {
+    console.error('Error seeding stock universe:', error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+main();
@@ -1,31 +1,46 @@
-import axios from 'axios';
-
-interface Message {
-  role: string;
-  content: string;
-}
+import { llmProvider, type ChatCompletion, type ChatMessage } from './llm-provider';
 
 interface AIRequestContext {
   portfolio?: {
     holdings: number;
     totalValue: number;
-    metrics: any;
+    metrics?: {
+      qualityScore: number;
+      performance: number;
+      stability: number;
+      value: number;
+      momentum: number;
+    };
   };
-  previousMessages?: Message[];
+  previousMessages?: ChatMessage[];
   gameMode?: boolean; // Flag for game scenarios vs advisory mode
   gameRole?: string; // Role for game scenarios (e.g., "CEO Simulator")
 }
 
-export async function getAIResponse(message: string, context?: AIRequestContext): Promise<string> {
-  try {
-    let systemMessage = '';
-    
-    // Different system prompts based on context
-    if (context?.gameMode) {
-      systemMessage = getGameSystemPrompt(context.gameRole);
-    } else {
-      // Default financial advisor mode
-      systemMessage = `You are an AI financial advisor in the Swipefolio app, helping users understand investments in a fun, engaging way.
+/**
+ * Answers a message in advisory or game mode. Errors from the provider are
+ * passed on so callers can report them.
+ */
+export async function getAICompletion(message: string, context?: AIRequestContext): Promise<ChatCompletion> {
+  return llmProvider.complete(buildAIMessages(message, context), {
+    maxTokens: 800, // Increased for game scenarios which might need more tokens
+    temperature: context?.gameMode ? 0.8 : 0.7, // Slightly higher temperature for creative game content
+  });
+}
+
+/**
+ * Builds the chat messages for a request: the system prompt for the mode,
+ * optional portfolio context, recent conversation and the user's message
+ */
+export function buildAIMessages(message: string, context?: AIRequestContext): ChatMessage[] {
+  let systemMessage = '';
+  
+  // Different system prompts based on context
+  if (context?.gameMode) {
+    systemMessage = getGameSystemPrompt(context.gameRole);
+  } else {
+    // Default financial advisor mode
+    systemMessage = `You are an AI financial advisor in the Swipefolio app, helping users understand investments in a fun, engaging way.
 
 Your role is to:
 - Provide clear, actionable insights based on stock metrics and market data
@@ -44,16 +59,16 @@ When discussing stocks:
 - Always note that past performance doesn't guarantee future results
 
 Keep responses engaging and under 150 words. Use data to back up your points!`;
-    }
+  }
 
-    // Construct messages array
-    const messages: Message[] = [
-      { role: 'system', content: systemMessage }
-    ];
+  // Construct messages array
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemMessage }
+  ];
 
-    // Add context about the user's portfolio if available
-    if (context && context.portfolio) {
-      const portfolioContext = `
+  // Add context about the user's portfolio if available
+  if (context && context.portfolio) {
+    const portfolioContext = `
 Current portfolio context:
 - Holdings: ${context.portfolio.holdings || 'None'} 
 - Total portfolio value: ${context.portfolio.totalValue ? `$${context.portfolio.totalValue.toFixed(2)}` : '$0.00'}
@@ -63,53 +78,156 @@ ${context.portfolio.metrics ? `- Quality score: ${context.portfolio.metrics.qual
 - Value: ${context.portfolio.metrics.value}
 - Momentum: ${context.portfolio.metrics.momentum}` : ''}
 `;
-      messages.push({ role: 'system', content: portfolioContext });
-    }
-
-    // Add previous messages for context if available
-    if (context && context.previousMessages && context.previousMessages.length > 0) {
-      // Only include the last few messages to avoid token limits
-      const recentMessages = context.previousMessages.slice(-4);
-      messages.push(...recentMessages);
-    }
-
-    // Add the current user message
-    messages.push({ role: 'user', content: message });
-
-    // Make the API request to OpenRouter
-    const response = await axios.post(
-      'https://openrouter.ai/api/v1/chat/completions',
-      {
-        model: 'deepseek/deepseek-chat-v3-0324:free',
-        messages: messages,
-        max_tokens: 800, // Increased for game scenarios which might need more tokens
-        temperature: context?.gameMode ? 0.8 : 0.7, // Slightly higher temperature for creative game content
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          'HTTP-Referer': 'https://swipefolio.replit.app',
-          'X-Title': 'Swipefolio',
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    // Extract the assistant's response
-    if (
-      response.data &&
-      response.data.choices &&
-      response.data.choices.length > 0 &&
-      response.data.choices[0].message
-    ) {
-      return response.data.choices[0].message.content || "I'm sorry, I couldn't generate a response.";
-    } else {
-      throw new Error('Unexpected API response format');
-    }
-  } catch (error) {
-    console.error('Error generating AI response:', error);
-    return "I'm having trouble connecting right now. Please try again later.";
+    messages.push({ role: 'system', content: portfolioContext });
   }
+
+  // Add previous messages for context if available
+  if (context && context.previousMessages && context.previousMessages.length > 0) {
+    // Only include the last few messages to avoid token limits
+    const recentMessages = context.previousMessages.slice(-4);
+    messages.push(...recentMessages);
+  }
+
+  // Add the current user message
+  messages.push({ role: 'user', content: message });
+
+  return messages;
+}
+
+const ASK_STOCK_SYSTEM_PROMPT = "You're a knowledgeable and friendly financial guide helping users understand stocks in the Swipefolio app. " +
+  "Use a conversational, slightly casual tone with simple language that Gen Z users will connect with. " +
+  "You have tools for live quotes, price history, Swipefolio scores, analyst ratings, industry comparisons and the user's holdings. " +
+  "Call them whenever an answer depends on numbers that aren't in the context below, and never make numbers up. " +
+  "When discussing stocks, you should: " +
+  "- Explain key metrics, financials, and industry context in plain language " +
+  "- Compare the stock to industry standards and competitors when relevant " +
+  "- Highlight potential strengths, weaknesses, and interesting aspects based on the data " +
+  "- Use occasional emojis for emphasis, but not excessively " +
+  "- Make qualitative assessments based on the data (like 'strong fundamentals' or 'higher volatility') " +
+  "- Feel free to note if the stock appears overvalued or undervalued based on metrics " +
+  "- You can discuss whether the stock fits particular investment strategies (growth, value, etc.) " +
+  "While you can provide educated perspectives, always make clear: " +
+  "- You're not giving direct buy/sell recommendations but its okay to be suggestive in one way (not TOO explicit) based on the discussion " +
+  "- Past performance doesn't guarantee future results " +
+  "- You're providing education, and to a certain extent personalized financial advice (on the app specific situation) " +
+  "Keep responses concise (1 paragraph max) and conversational, feel free to follow up question to continue the convrseation. Be helpful and informative! ";
+
+const PORTFOLIO_COACH_SYSTEM_PROMPT = " You're a savvy financial coach for Gen Z investors using Swipefolio. Make investing accessible and engaging! " +
+  "When analyzing portfolios: " +
+  "- Be direct and conversational - talk like a knowledgeable friend, not a textbook " +
+  "- Give specific feedback about their actual holdings and allocation " +
+  "- Point out potential strengths ('Your tech picks are diversified across different segments 👍') " +
+  "- Highlight issues clearly ('Your portfolio is heavily weighted toward tech, which increases risk') " +
+  "- Suggest specific improvements they could consider " +
+  "- Use 1-2 emojis strategically to emphasize key points " +
+  "- Acknowledge both good moves and areas for improvement " +
+  "- Break down complex concepts into simple terms " +
+  "- Give them actionable next steps they could take " +
+  "Format your response with: " +
+  "- A quick assessment of their current situation " +
+  "- 2-3 specific insights about their holdings or strategy " +
+  "- 1-2 clear suggestions they could implement " +
+  "Keep it under 200 words total, using short paragraphs with natural breaks. " +
+  "You can make qualitative judgments about their portfolio composition, diversification, risk level, " +
+  "and alignment with common investment strategies. Just avoid specific buy/sell recommendations (its okay to be pretty suggestive but do not EXPLCIITLY say a name) for individual stocks.";
+
+export interface StockQuestionContext {
+  name: string;
+  ticker: string;
+  description?: string;
+  price?: number;
+  industry?: string;
+  metrics?: {
+    performance?: number | string;
+    value?: number | string;
+  };
+}
+
+/**
+ * One holding as sent by the portfolio page (symbol/value/allocation) or the analyzer (ticker/currentValue)
+ */
+export interface PortfolioAnalysisHolding {
+  name?: string;
+  symbol?: string;
+  ticker?: string;
+  value?: number | string;
+  currentValue?: number | string;
+  allocation?: number | string;
+  return?: number | string;
+}
+
+export interface PortfolioAnalysisRequest {
+  query: string;
+  portfolioData: PortfolioAnalysisHolding[];
+  totalValue?: number;
+  overallReturn?: number;
+  portfolioQuality?: number;
+}
+
+/**
+ * Builds the messages for a question about a single stock. previousMessages
+ * should already be trimmed to fit the context window.
+ */
+export function buildAskStockMessages(
+  userQuestion: string,
+  stockContext: StockQuestionContext,
+  previousMessages: ChatMessage[] = []
+): ChatMessage[] {
+  // Build context string with stock information
+  const contextString = `
+    Stock Name: ${stockContext.name}
+    Ticker: ${stockContext.ticker}
+    ${stockContext.description ? `Description: ${stockContext.description}` : ''}
+    ${stockContext.price ? `Current Price: $${stockContext.price}` : ''}
+    ${stockContext.metrics && stockContext.metrics.performance ? `Performance Score: ${stockContext.metrics.performance}` : ''}
+    ${stockContext.metrics && stockContext.metrics.value ? `Value Score: ${stockContext.metrics.value}` : ''}
+    ${stockContext.industry ? `Industry: ${stockContext.industry}` : ''}
+  `;
+
+  return [
+    { role: 'system', content: ASK_STOCK_SYSTEM_PROMPT },
+    ...previousMessages,
+    { role: 'user', content: `Context: ${contextString.trim()}\n\nQuestion: ${userQuestion}` }
+  ];
+}
+
+/**
+ * Builds the messages for a portfolio coaching question. Holdings may come from
+ * either the portfolio page (symbol/value/allocation) or the analyzer (ticker/currentValue).
+ */
+export function buildPortfolioAnalysisMessages(
+  request: PortfolioAnalysisRequest,
+  previousMessages: ChatMessage[] = []
+): ChatMessage[] {
+  return [
+    { role: 'system', content: PORTFOLIO_COACH_SYSTEM_PROMPT },
+    ...previousMessages,
+    { role: 'user', content: `${formatPortfolioContext(request)}\n\nQuery: ${request.query}` }
+  ];
+}
+
+/**
+ * Describes the portfolio totals and each holding's value, weight and return for a prompt
+ */
+export function formatPortfolioContext({ portfolioData, totalValue, overallReturn, portfolioQuality }: PortfolioAnalysisRequest): string {
+  const holdingsValue = portfolioData.reduce((sum, stock) => sum + (Number(stock.value ?? stock.currentValue) || 0), 0);
+  const holdingsText = portfolioData.map(stock => {
+    const value = Number(stock.value ?? stock.currentValue) || 0;
+    const allocation = stock.allocation ?? (holdingsValue > 0 ? (value / holdingsValue) * 100 : 0);
+    return `${stock.name} (${stock.symbol || stock.ticker}): $${value.toFixed(2)} (${Number(allocation).toFixed(2)}% of portfolio) | Return: ${(Number(stock.return) || 0).toFixed(2)}%`;
+  }).join('\n');
+
+  // Prepare portfolio context
+  const portfolioContext = `
+    Total Value: $${totalValue ? totalValue.toFixed(2) : '0.00'}
+    Overall Return: ${overallReturn ? overallReturn.toFixed(2) : '0.00'}%
+    Portfolio Quality Score: ${portfolioQuality || 0}/100
+    
+    Holdings:
+    ${holdingsText}
+  `;
+
+  return portfolioContext.trim();
 }
 
 /**
@@ -0,0 +1,76 @@
+import { Router, type Response } from 'express';
+import { jobScheduler, JobError } from '../services/job-scheduler';
+
+const router = Router();
+
+/**
+ * Usernames allowed to use the admin routes, from ADMIN_USERNAMES (comma separated)
+ */
+const ADMIN_USERNAMES = new Set(
+  (process.env.ADMIN_USERNAMES || '').split(',').map(username => username.trim()).filter(Boolean)
+);
+
+// All admin routes require a signed-in admin
+router.use((req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (!ADMIN_USERNAMES.has(req.user!.username)) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+});
+
+/**
+ * GET /api/admin/jobs
+ * Each market data job with its schedule, whether it is running and its last run
+ */
+router.get('/jobs', async (req, res) => {
+  try {
+    res.json(await jobScheduler.listJobs());
+  } catch (error) {
+    handleJobError(res, 'Failed to fetch jobs', error);
+  }
+});
+
+/**
+ * GET /api/admin/jobs/runs?job=fundamentals&limit=50
+ * Run history, newest first, with status, duration and what each run updated
+ */
+router.get('/jobs/runs', async (req, res) => {
+  const job = typeof req.query.job === 'string' ? req.query.job : undefined;
+  const limit = parseInt(String(req.query.limit), 10) || undefined;
+
+  try {
+    res.json(await jobScheduler.getRuns(job, limit));
+  } catch (error) {
+    handleJobError(res, 'Failed to fetch job runs', error);
+  }
+});
+
+/**
+ * POST /api/admin/jobs/:job/run
+ * Start a job now. Responds 202 with the run; poll the run history for its result.
+ */
+router.post('/jobs/:job/run', async (req, res) => {
+  try {
+    const run = await jobScheduler.triggerJob(req.params.job);
+    res.status(202).json(run);
+  } catch (error) {
+    handleJobError(res, 'Failed to start job', error);
+  }
+});
+
+function handleJobError(res: Response, errorLabel: string, error: unknown) {
+  if (error instanceof JobError) {
+    return res.status(error.status).json({ error: errorLabel, message: error.message });
+  }
+
+  console.error(`[admin] ${errorLabel}:`, error);
+  res.status(500).json({
+    error: errorLabel,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
@@ -0,0 +1,227 @@
+import { Router, type Request, type Response } from 'express';
+import axios from 'axios';
+import {
+  askStockRequestSchema,
+  guestMessagesSchema,
+  portfolioAnalysisRequestSchema,
+  type AIThread,
+  type AIThreadScope
+} from '@shared/schema';
+import { buildAskStockMessages, buildPortfolioAnalysisMessages } from '../ai-service';
+import { llmProvider, type ChatMessage } from '../llm-provider';
+import { aiThreadService, AIThreadError } from '../services/ai-thread-service';
+import { assistantService } from '../services/assistant-service';
+import { aiUsageService, aiRateLimit, type AICaller } from '../services/ai-usage-service';
+
+const router = Router();
+
+interface ThreadContext {
+  thread: AIThread | null;
+  history: ChatMessage[];
+}
+
+/**
+ * Work out the conversation history for a question. Signed-in users talk in a
+ * saved thread (the one given by threadId, or a new one in the route's scope)
+ * and the question is recorded there; guests fall back to previousMessages.
+ * Responds with an error and returns undefined if the thread can't be used.
+ */
+async function loadThreadContext(
+  req: Request,
+  res: Response,
+  question: string,
+  scope: AIThreadScope,
+  ticker?: string
+): Promise<ThreadContext | undefined> {
+  if (!req.isAuthenticated()) {
+    const parsed = guestMessagesSchema.safeParse(req.body.previousMessages ?? []);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Invalid previousMessages',
+        message: parsed.error.errors[0]?.message || 'Invalid previous messages'
+      });
+      return undefined;
+    }
+    return { thread: null, history: parsed.data };
+  }
+
+  const { threadId } = req.body;
+  if (threadId !== undefined && (!Number.isInteger(threadId) || threadId <= 0)) {
+    res.status(400).json({ error: 'Invalid thread', message: 'threadId must be a positive integer' });
+    return undefined;
+  }
+
+  try {
+    const thread = await aiThreadService.resolveThread(req.user!.id, threadId, { scope, ticker }, question);
+    const history = await aiThreadService.getContextMessages(thread);
+    await aiThreadService.addMessage(thread.id, 'user', question);
+    return { thread, history };
+  } catch (error) {
+    if (error instanceof AIThreadError) {
+      res.status(error.status).json({ error: 'Invalid thread', message: error.message });
+    } else {
+      console.error('[ai-stream] Failed to load thread:', error);
+      res.status(500).json({ error: 'Failed to load thread', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Stream a completion to the client as Server-Sent Events:
+ *   event: thread data: { threadId }          (signed-in users only, sent first)
+ *   event: tool   data: { name, label, arguments, ok }   (tool-using answers only)
+ *   event: delta  data: { text }
+ *   event: done   data: { content, model, usage, toolsUsed? }
+ *   event: error  data: { error, message }
+ * The upstream request is aborted as soon as the client disconnects. Replies
+ * are saved to the thread before `done`, including partial ones that were stopped.
+ */
+async function streamCompletion(
+  res: Response,
+  messages: ChatMessage[],
+  endpoint: string,
+  { thread, useTools = false }: { thread: AIThread | null; useTools?: boolean }
+) {
+  const caller: AICaller = res.locals.aiCaller;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop proxies from buffering the stream
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log(`[ai-stream] Client disconnected, cancelling ${endpoint}`);
+      controller.abort();
+    }
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  if (thread) {
+    send('thread', { threadId: thread.id });
+  }
+
+  let content = '';
+  try {
+    const onDelta = (text: string) => {
+      content += text;
+      send('delta', { text });
+    };
+
+    if (useTools) {
+      const { completion, toolsUsed } = await assistantService.answer(messages, {
+        userId: caller.userId,
+        signal: controller.signal,
+        onDelta,
+        onToolUse: use => send('tool', use)
+      });
+      await aiUsageService.record(caller, endpoint, completion);
+      await saveReply(thread, completion.content);
+      send('done', { ...completion, toolsUsed });
+    } else {
+      const completion = await llmProvider.stream(messages, onDelta, { signal: controller.signal });
+      await aiUsageService.record(caller, endpoint, completion);
+      await saveReply(thread, completion.content);
+      send('done', completion);
+    }
+  } catch (error) {
+    if (controller.signal.aborted || axios.isCancel(error)) {
+      await saveReply(thread, content);
+      return;
+    }
+    console.error(`[ai-stream] Error streaming ${endpoint}:`, error);
+    send('error', {
+      error: 'AI_SERVICE_ERROR',
+      message: error instanceof Error ? error.message : 'Failed to get AI response'
+    });
+  } finally {
+    res.end();
+  }
+
+  if (thread) {
+    // Runs after the response so summarizing never delays the answer
+    aiThreadService.summarizeIfNeeded(thread.id, caller).catch(error => {
+      console.error('[ai-stream] Failed to summarize thread:', error);
+    });
+  }
+}
+
+async function saveReply(thread: AIThread | null, content: string) {
+  if (!thread || !content.trim()) return;
+
+  try {
+    await aiThreadService.addMessage(thread.id, 'assistant', content);
+  } catch (error) {
+    console.error(`[ai-stream] Failed to save reply to thread ${thread.id}:`, error);
+  }
+}
+
+/**
+ * POST /api/ai/ask-stock/stream
+ * Streaming version of /api/ai/ask-stock: { userQuestion, stockContext, threadId?, previousMessages? }
+ * The model can call the assistant tools for live data. New threads are scoped to the stock's ticker.
+ */
+router.post('/ask-stock/stream', aiRateLimit, async (req, res) => {
+  const parsed = askStockRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Missing required fields",
+      message: parsed.error.errors[0]?.message || "Both userQuestion and stockContext are required"
+    });
+  }
+  const { userQuestion, stockContext } = parsed.data;
+
+  const context = await loadThreadContext(req, res, userQuestion, 'ticker', stockContext.ticker.toUpperCase());
+  if (!context) return;
+
+  let messages: ChatMessage[];
+  try {
+    messages = buildAskStockMessages(userQuestion, stockContext, context.history);
+  } catch (error) {
+    console.error('[ai-stream] Failed to build ask-stock prompt:', error);
+    return res.status(500).json({ error: 'Failed to build prompt', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  await streamCompletion(res, messages, 'ask-stock/stream', { thread: context.thread, useTools: true });
+});
+
+/**
+ * POST /api/ai/portfolio-analysis/stream
+ * Streaming version of /api/ai/portfolio-analysis:
+ * { query, portfolioData, totalValue, overallReturn, portfolioQuality, threadId?, previousMessages? }
+ * New threads are scoped to the portfolio.
+ */
+router.post('/portfolio-analysis/stream', aiRateLimit, async (req, res) => {
+  const parsed = portfolioAnalysisRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "INVALID_REQUEST",
+      message: parsed.error.errors[0]?.message || "Query and portfolio data are required"
+    });
+  }
+
+  const context = await loadThreadContext(req, res, parsed.data.query, 'portfolio');
+  if (!context) return;
+
+  let messages: ChatMessage[];
+  try {
+    messages = buildPortfolioAnalysisMessages(parsed.data, context.history);
+  } catch (error) {
+    console.error('[ai-stream] Failed to build portfolio prompt:', error);
+    return res.status(500).json({ error: 'Failed to build prompt', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  await streamCompletion(res, messages, 'portfolio-analysis/stream', { thread: context.thread });
+});
+
+export default router;
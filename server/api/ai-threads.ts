@@ -0,0 +1,163 @@
+import { Router, type Request, type Response } from 'express';
+import { aiThreadScopeSchema, createAIThreadSchema, renameAIThreadSchema } from '@shared/schema';
+import { aiThreadService, AIThreadError } from '../services/ai-thread-service';
+import type { AIThreadFilter } from '../storage';
+
+const router = Router();
+
+// Saved conversations belong to a user, so every thread route needs one
+router.use((req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+});
+
+/**
+ * GET /api/ai/threads
+ * List the user's threads, most recently active first. Optional ?scope=&ticker= filter.
+ */
+router.get('/', async (req, res) => {
+  const filter = parseFilter(req, res);
+  if (!filter) return;
+
+  try {
+    const threads = await aiThreadService.listThreads(req.user!.id, filter);
+    res.json(threads);
+  } catch (error) {
+    handleThreadError(res, 'Failed to fetch threads', error);
+  }
+});
+
+/**
+ * GET /api/ai/threads/latest
+ * The most recently active thread (with messages) for ?scope=&ticker=, or null
+ */
+router.get('/latest', async (req, res) => {
+  const filter = parseFilter(req, res);
+  if (!filter) return;
+
+  try {
+    const thread = await aiThreadService.getLatestThread(req.user!.id, filter);
+    res.json(thread);
+  } catch (error) {
+    handleThreadError(res, 'Failed to fetch thread', error);
+  }
+});
+
+/**
+ * GET /api/ai/threads/:id
+ * Resume a thread: the thread with all of its messages
+ */
+router.get('/:id', async (req, res) => {
+  const threadId = parseThreadId(req, res);
+  if (threadId === undefined) return;
+
+  try {
+    const thread = await aiThreadService.getThread(req.user!.id, threadId);
+    res.json(thread);
+  } catch (error) {
+    handleThreadError(res, 'Failed to fetch thread', error);
+  }
+});
+
+/**
+ * POST /api/ai/threads
+ * Start an empty thread: { scope: "general" | "portfolio" | "ticker", ticker?, title? }
+ */
+router.post('/', async (req, res) => {
+  const parsed = createAIThreadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid thread',
+      message: parsed.error.errors[0]?.message || 'Invalid thread request'
+    });
+  }
+
+  try {
+    const thread = await aiThreadService.createThread(req.user!.id, parsed.data);
+    res.status(201).json(thread);
+  } catch (error) {
+    handleThreadError(res, 'Failed to create thread', error);
+  }
+});
+
+/**
+ * PATCH /api/ai/threads/:id
+ * Rename a thread: { title }
+ */
+router.patch('/:id', async (req, res) => {
+  const threadId = parseThreadId(req, res);
+  if (threadId === undefined) return;
+
+  const parsed = renameAIThreadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid thread',
+      message: parsed.error.errors[0]?.message || 'Invalid thread title'
+    });
+  }
+
+  try {
+    const thread = await aiThreadService.renameThread(req.user!.id, threadId, parsed.data.title);
+    res.json(thread);
+  } catch (error) {
+    handleThreadError(res, 'Failed to rename thread', error);
+  }
+});
+
+/**
+ * DELETE /api/ai/threads/:id
+ * Delete a thread and its messages
+ */
+router.delete('/:id', async (req, res) => {
+  const threadId = parseThreadId(req, res);
+  if (threadId === undefined) return;
+
+  try {
+    await aiThreadService.deleteThread(req.user!.id, threadId);
+    res.status(204).end();
+  } catch (error) {
+    handleThreadError(res, 'Failed to delete thread', error);
+  }
+});
+
+function parseFilter(req: Request, res: Response): AIThreadFilter | undefined {
+  // No scope means all of the user's threads
+  if (!req.query.scope) {
+    return {};
+  }
+
+  const parsed = aiThreadScopeSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: 'Invalid thread filter',
+      message: parsed.error.errors[0]?.message || 'Invalid scope or ticker'
+    });
+    return undefined;
+  }
+  return { scope: parsed.data.scope, ticker: parsed.data.ticker };
+}
+
+function parseThreadId(req: Request, res: Response): number | undefined {
+  const threadId = Number(req.params.id);
+  if (!Number.isInteger(threadId) || threadId <= 0) {
+    res.status(400).json({ error: 'Invalid thread', message: 'Thread id must be a positive integer' });
+    return undefined;
+  }
+  return threadId;
+}
+
+function handleThreadError(res: Response, errorLabel: string, error: unknown) {
+  if (error instanceof AIThreadError) {
+    return res.status(error.status).json({ error: errorLabel, message: error.message });
+  }
+
+  console.error(`[ai-threads] ${errorLabel}:`, error);
+  res.status(500).json({
+    error: errorLabel,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { aiUsageService } from '../services/ai-usage-service';
+
+const router = Router();
+
+/**
+ * GET /api/ai/usage
+ * Remaining daily token allowance and request rate for the current user, or for a guest's IP
+ */
+router.get('/', async (req, res) => {
+  try {
+    const allowance = await aiUsageService.getAllowance(aiUsageService.getCaller(req));
+    res.json(allowance);
+  } catch (error) {
+    console.error('[ai-usage] Failed to fetch allowance:', error);
+    res.status(500).json({
+      error: 'Failed to fetch AI usage',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { aiScenarioRequestSchema, aiInsightRequestSchema } from '@shared/schema';
+import { boardRoomService } from '../services/board-room-service';
+import { aiRateLimit } from '../services/ai-usage-service';
+
+const router = Router();
+
+/**
+ * POST /api/ai-scenario
+ * Generate the next Board Room decision for a narrative stage:
+ * { playerName, companyName, industry, stage, metrics, decisions }
+ */
+router.post('/ai-scenario', aiRateLimit, async (req, res) => {
+  const parsed = aiScenarioRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid scenario request',
+      message: parsed.error.errors[0]?.message || 'Invalid scenario request'
+    });
+  }
+
+  try {
+    const result = await boardRoomService.generateScenario(parsed.data, res.locals.aiCaller);
+    res.json(result);
+  } catch (error) {
+    console.error('[board-room] Failed to generate scenario:', error);
+    res.status(500).json({
+      error: 'Failed to generate scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/ai-insight
+ * Explain why a decision changed a metric: { metric, change, playerChoice }
+ */
+router.post('/ai-insight', aiRateLimit, async (req, res) => {
+  const parsed = aiInsightRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid insight request',
+      message: parsed.error.errors[0]?.message || 'Invalid insight request'
+    });
+  }
+
+  try {
+    const result = await boardRoomService.generateInsight(parsed.data, res.locals.aiCaller);
+    res.json(result);
+  } catch (error) {
+    console.error('[board-room] Failed to generate insight:', error);
+    res.status(500).json({
+      error: 'Failed to generate insight',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router, type Response } from 'express';
+import { chartSources, type ChartSource } from '@shared/schema';
+import { marketDataBatchService, MarketDataBatchError } from '../services/market-data-batch-service';
+
+const router = Router();
+
+const parseSymbols = (symbols: unknown) => typeof symbols === 'string' ? symbols.split(',') : [];
+
+/**
+ * GET /api/quotes?symbols=AAPL,MSFT
+ * Real-time quotes for several symbols at once: { quotes, errors }, both keyed by
+ * symbol, where errors says why a symbol has no quote
+ */
+router.get('/quotes', async (req, res) => {
+  try {
+    res.json(await marketDataBatchService.getQuotes(parseSymbols(req.query.symbols)));
+  } catch (error) {
+    handleBatchError(res, 'Failed to fetch quotes', error);
+  }
+});
+
+/**
+ * GET /api/charts?symbols=AAPL,MSFT&range=1mo&interval=1d&source=auto
+ * Charts for several symbols over one range: { range, interval, charts, errors }.
+ * Each chart is what GET /api/yahoo-finance/chart/:symbol returns for it.
+ */
+router.get('/charts', async (req, res) => {
+  const { range = '1mo', interval = '1d', source = 'auto' } = req.query;
+
+  if (!chartSources.includes(source as ChartSource)) {
+    return res.status(400).json({
+      error: 'Invalid source',
+      message: `source must be one of ${chartSources.join(', ')}`
+    });
+  }
+
+  try {
+    res.json(await marketDataBatchService.getCharts(
+      parseSymbols(req.query.symbols),
+      String(range),
+      String(interval),
+      source as ChartSource
+    ));
+  } catch (error) {
+    handleBatchError(res, 'Failed to fetch charts', error);
+  }
+});
+
+function handleBatchError(res: Response, errorLabel: string, error: unknown) {
+  if (error instanceof MarketDataBatchError) {
+    return res.status(error.status).json({ error: errorLabel, message: error.message });
+  }
+
+  console.error(`[market-data] ${errorLabel}:`, error);
+  res.status(500).json({
+    error: errorLabel,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
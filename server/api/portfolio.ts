@@ -0,0 +1,405 @@
+import { Router, type Response } from 'express';
+import {
+  buyStockSchema,
+  sellStockSchema,
+  portfolioSettingsSchema,
+  rebalanceTargetsSchema,
+  placeOrderSchema,
+  amendOrderSchema,
+  createInvestmentPlanSchema,
+  updateInvestmentPlanSchema,
+  performanceRanges,
+  type PerformanceRange
+} from '@shared/schema';
+import { portfolioService, PortfolioError } from '../services/portfolio-service';
+import { orderService } from '../services/order-service';
+import { investmentPlanService } from '../services/investment-plan-service';
+
+const router = Router();
+
+// All portfolio routes require an authenticated user
+router.use((req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+});
+
+/**
+ * GET /api/portfolio
+ * Get the current user's cash balance and holdings
+ */
+router.get('/', async (req, res) => {
+  try {
+    const portfolio = await portfolioService.getPortfolio(req.user!.id);
+    res.json(portfolio);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch portfolio', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/transactions
+ * Get the current user's trade history, newest first
+ */
+router.get('/transactions', async (req, res) => {
+  try {
+    const transactions = await portfolioService.getTransactions(req.user!.id);
+    res.json(transactions);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch transactions', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/gains
+ * Get realized gains, open cost basis and tax lots per ticker
+ */
+router.get('/gains', async (req, res) => {
+  try {
+    const gains = await portfolioService.getGains(req.user!.id);
+    res.json(gains);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch gains', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/performance?range=1mo|3mo|6mo|1y|max
+ * Get daily valuations over the range with time- and money-weighted returns,
+ * max drawdown, volatility and Sharpe ratio
+ */
+router.get('/performance', async (req, res) => {
+  const { range = '3mo' } = req.query;
+
+  if (!performanceRanges.includes(range as PerformanceRange)) {
+    return res.status(400).json({
+      error: 'Invalid range',
+      message: `range must be one of ${performanceRanges.join(', ')}`
+    });
+  }
+
+  try {
+    const performance = await portfolioService.getPerformance(req.user!.id, range as PerformanceRange);
+    res.json(performance);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch performance', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/risk
+ * Get portfolio volatility, beta vs the S&P 500, 95% one-day value-at-risk,
+ * each holding's risk contribution and the correlation matrix of their returns
+ */
+router.get('/risk', async (req, res) => {
+  try {
+    const risk = await portfolioService.getRisk(req.user!.id);
+    res.json(risk);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch risk', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/targets
+ * Get the rebalancing targets, or null if none are set
+ */
+router.get('/targets', async (req, res) => {
+  try {
+    const targets = await portfolioService.getTargets(req.user!.id);
+    res.json(targets);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch targets', error);
+  }
+});
+
+/**
+ * PUT /api/portfolio/targets
+ * Replace the rebalancing targets: { basis: "ticker" | "industry", weights: { [key]: percent }, tolerance? }
+ */
+router.put('/targets', async (req, res) => {
+  const parsed = rebalanceTargetsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid targets',
+      message: parsed.error.errors[0]?.message || 'Invalid rebalancing targets'
+    });
+  }
+
+  try {
+    const targets = await portfolioService.setTargets(req.user!.id, parsed.data);
+    res.json(targets);
+  } catch (error) {
+    handleTradeError(res, 'Failed to update targets', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/rebalance
+ * Preview rebalancing: each target's drift and the trades that would bring it back
+ */
+router.get('/rebalance', async (req, res) => {
+  try {
+    const plan = await portfolioService.previewRebalance(req.user!.id);
+    res.json(plan);
+  } catch (error) {
+    handleTradeError(res, 'Failed to plan rebalance', error);
+  }
+});
+
+/**
+ * POST /api/portfolio/rebalance
+ * Place the previewed trades as one batch, sells first, and return the updated portfolio
+ */
+router.post('/rebalance', async (req, res) => {
+  try {
+    const result = await portfolioService.rebalance(req.user!.id);
+    res.json(result);
+  } catch (error) {
+    handleTradeError(res, 'Failed to rebalance', error);
+  }
+});
+
+/**
+ * PATCH /api/portfolio/settings
+ * Change the default lot relief method: { lotMethod: "fifo" | "lifo" | "average" }
+ */
+router.patch('/settings', async (req, res) => {
+  const parsed = portfolioSettingsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid settings',
+      message: parsed.error.errors[0]?.message || 'Invalid portfolio settings'
+    });
+  }
+
+  try {
+    const portfolio = await portfolioService.updateLotMethod(req.user!.id, parsed.data.lotMethod);
+    res.json(portfolio);
+  } catch (error) {
+    handleTradeError(res, 'Failed to update portfolio settings', error);
+  }
+});
+
+/**
+ * POST /api/portfolio/buy
+ * Buy a dollar amount of a stock at the current market price: { ticker, amount }
+ */
+router.post('/buy', async (req, res) => {
+  const parsed = buyStockSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid trade',
+      message: parsed.error.errors[0]?.message || 'Invalid buy request'
+    });
+  }
+
+  try {
+    const { portfolio } = await portfolioService.buy(req.user!.id, parsed.data);
+    res.json(portfolio);
+  } catch (error) {
+    handleTradeError(res, 'Failed to buy stock', error);
+  }
+});
+
+/**
+ * POST /api/portfolio/sell
+ * Sell shares of a held stock at the current market price: { ticker, shares, lotMethod? }
+ */
+router.post('/sell', async (req, res) => {
+  const parsed = sellStockSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid trade',
+      message: parsed.error.errors[0]?.message || 'Invalid sell request'
+    });
+  }
+
+  try {
+    const { portfolio } = await portfolioService.sell(req.user!.id, parsed.data);
+    res.json(portfolio);
+  } catch (error) {
+    handleTradeError(res, 'Failed to sell stock', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/orders
+ * Get the current user's pending and closed orders, newest first
+ */
+router.get('/orders', async (req, res) => {
+  try {
+    const orders = await orderService.getOrders(req.user!.id);
+    res.json(orders);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch orders', error);
+  }
+});
+
+/**
+ * POST /api/portfolio/orders
+ * Place a pending order: { ticker, type, triggerPrice, amount (limit_buy) | shares, timeInForce? }
+ */
+router.post('/orders', async (req, res) => {
+  const parsed = placeOrderSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid order',
+      message: parsed.error.errors[0]?.message || 'Invalid order request'
+    });
+  }
+
+  try {
+    const order = await orderService.placeOrder(req.user!.id, parsed.data);
+    res.status(201).json(order);
+  } catch (error) {
+    handleTradeError(res, 'Failed to place order', error);
+  }
+});
+
+/**
+ * PATCH /api/portfolio/orders/:id
+ * Amend an open order: { triggerPrice?, amount?, shares?, timeInForce? }
+ */
+router.patch('/orders/:id', async (req, res) => {
+  const orderId = Number(req.params.id);
+  const parsed = amendOrderSchema.safeParse(req.body);
+  if (!Number.isInteger(orderId) || !parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid order',
+      message: parsed.success ? 'Invalid order id' : parsed.error.errors[0]?.message || 'Invalid order changes'
+    });
+  }
+
+  try {
+    const order = await orderService.amendOrder(req.user!.id, orderId, parsed.data);
+    res.json(order);
+  } catch (error) {
+    handleTradeError(res, 'Failed to amend order', error);
+  }
+});
+
+/**
+ * DELETE /api/portfolio/orders/:id
+ * Cancel an open order
+ */
+router.delete('/orders/:id', async (req, res) => {
+  const orderId = Number(req.params.id);
+  if (!Number.isInteger(orderId)) {
+    return res.status(400).json({ error: 'Invalid order', message: 'Invalid order id' });
+  }
+
+  try {
+    const order = await orderService.cancelOrder(req.user!.id, orderId);
+    res.json(order);
+  } catch (error) {
+    handleTradeError(res, 'Failed to cancel order', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/plans
+ * Get the current user's recurring investment plans, oldest first
+ */
+router.get('/plans', async (req, res) => {
+  try {
+    const plans = await investmentPlanService.getPlans(req.user!.id);
+    res.json(plans);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch investment plans', error);
+  }
+});
+
+/**
+ * POST /api/portfolio/plans
+ * Start a recurring investment plan: { name?, allocations: [{ ticker, weight }], amount, frequency, startDate? }
+ */
+router.post('/plans', async (req, res) => {
+  const parsed = createInvestmentPlanSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid investment plan',
+      message: parsed.error.errors[0]?.message || 'Invalid investment plan request'
+    });
+  }
+
+  try {
+    const plan = await investmentPlanService.createPlan(req.user!.id, parsed.data);
+    res.status(201).json(plan);
+  } catch (error) {
+    handleTradeError(res, 'Failed to create investment plan', error);
+  }
+});
+
+/**
+ * PATCH /api/portfolio/plans/:id
+ * Change a plan, or pause and resume it: { name?, allocations?, amount?, frequency?, active? }
+ */
+router.patch('/plans/:id', async (req, res) => {
+  const planId = Number(req.params.id);
+  const parsed = updateInvestmentPlanSchema.safeParse(req.body);
+  if (!Number.isInteger(planId) || !parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid investment plan',
+      message: parsed.success ? 'Invalid plan id' : parsed.error.errors[0]?.message || 'Invalid plan changes'
+    });
+  }
+
+  try {
+    const plan = await investmentPlanService.updatePlan(req.user!.id, planId, parsed.data);
+    res.json(plan);
+  } catch (error) {
+    handleTradeError(res, 'Failed to update investment plan', error);
+  }
+});
+
+/**
+ * DELETE /api/portfolio/plans/:id
+ * Delete a plan and its run history
+ */
+router.delete('/plans/:id', async (req, res) => {
+  const planId = Number(req.params.id);
+  if (!Number.isInteger(planId)) {
+    return res.status(400).json({ error: 'Invalid investment plan', message: 'Invalid plan id' });
+  }
+
+  try {
+    await investmentPlanService.deletePlan(req.user!.id, planId);
+    res.status(204).end();
+  } catch (error) {
+    handleTradeError(res, 'Failed to delete investment plan', error);
+  }
+});
+
+/**
+ * GET /api/portfolio/plans/:id/history
+ * Get a plan's runs and how its buys compare with a lump sum on its first run date
+ */
+router.get('/plans/:id/history', async (req, res) => {
+  const planId = Number(req.params.id);
+  if (!Number.isInteger(planId)) {
+    return res.status(400).json({ error: 'Invalid investment plan', message: 'Invalid plan id' });
+  }
+
+  try {
+    const history = await investmentPlanService.getHistory(req.user!.id, planId);
+    res.json(history);
+  } catch (error) {
+    handleTradeError(res, 'Failed to fetch investment plan history', error);
+  }
+});
+
+function handleTradeError(res: Response, errorLabel: string, error: unknown) {
+  if (error instanceof PortfolioError) {
+    return res.status(error.status).json({ error: errorLabel, message: error.message });
+  }
+
+  console.error(`[portfolio] ${errorLabel}:`, error);
+  res.status(500).json({
+    error: errorLabel,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
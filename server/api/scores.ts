@@ -0,0 +1,45 @@
+import { Router, type Response } from 'express';
+import { scoringService, ScoringError } from '../services/scoring-service';
+
+const router = Router();
+
+/**
+ * GET /api/scores?tickers=AAPL,MSFT
+ * Scores for several stocks at once: { scores, missing }, where missing lists
+ * tickers Swipefolio doesn't score
+ */
+router.get('/', async (req, res) => {
+  const tickers = typeof req.query.tickers === 'string' ? req.query.tickers.split(',') : [];
+
+  try {
+    res.json(await scoringService.getBatchScores(tickers));
+  } catch (error) {
+    handleScoringError(res, 'Failed to score stocks', error);
+  }
+});
+
+/**
+ * GET /api/scores/:ticker
+ * The category scores, overall Swipefolio score and the inputs used for one stock
+ */
+router.get('/:ticker', async (req, res) => {
+  try {
+    res.json(await scoringService.getScores(req.params.ticker));
+  } catch (error) {
+    handleScoringError(res, 'Failed to score stock', error);
+  }
+});
+
+function handleScoringError(res: Response, errorLabel: string, error: unknown) {
+  if (error instanceof ScoringError) {
+    return res.status(error.status).json({ error: errorLabel, message: error.message });
+  }
+
+  console.error(`[scores] ${errorLabel}:`, error);
+  res.status(500).json({
+    error: errorLabel,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { yahooFinanceService } from '../services/yahoo-finance-service';
+
+const router = Router();
+
+/**
+ * GET /api/stocks/quote?symbol=
+ * Get the latest real-time quote for a stock symbol
+ */
+router.get('/quote', (req, res) => {
+  yahooFinanceService.handleQuoteRequest(req, res);
+});
+
+/**
+ * GET /api/stocks/intraday?symbol=&interval=
+ * Get intraday bars for the latest trading session (interval: 1min, 5min, 15min, 30min, 60min)
+ */
+router.get('/intraday', (req, res) => {
+  yahooFinanceService.handleIntradayRequest(req, res);
+});
+
+/**
+ * GET /api/stocks/overview?symbol=
+ * Get the company profile and key fundamentals for a stock symbol
+ */
+router.get('/overview', (req, res) => {
+  yahooFinanceService.handleOverviewRequest(req, res);
+});
+
+/**
+ * GET /api/stocks/search?keywords=
+ * Search for stock symbols by ticker or company name
+ */
+router.get('/search', (req, res) => {
+  yahooFinanceService.handleSearchRequest(req, res);
+});
+
+export default router;
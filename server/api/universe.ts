@@ -0,0 +1,66 @@
+import { Router, type Response } from 'express';
+import { universeService, UniverseError } from '../services/universe-service';
+
+const router = Router();
+
+/**
+ * GET /api/universe
+ * Every stock in the Swipefolio universe as swipe card data
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await universeService.listStocks());
+  } catch (error) {
+    handleUniverseError(res, 'Failed to fetch stocks', error);
+  }
+});
+
+/**
+ * GET /api/universe/industries
+ * The industries in the universe with their stock counts
+ */
+router.get('/industries', async (req, res) => {
+  try {
+    res.json(await universeService.listIndustries());
+  } catch (error) {
+    handleUniverseError(res, 'Failed to fetch industries', error);
+  }
+});
+
+/**
+ * GET /api/universe/industries/:industry
+ * The stocks in one industry, e.g. /api/universe/industries/Tech
+ */
+router.get('/industries/:industry', async (req, res) => {
+  try {
+    res.json(await universeService.listStocks(req.params.industry));
+  } catch (error) {
+    handleUniverseError(res, 'Failed to fetch stocks', error);
+  }
+});
+
+/**
+ * GET /api/universe/:ticker
+ * One stock's swipe card data
+ */
+router.get('/:ticker', async (req, res) => {
+  try {
+    res.json(await universeService.getStock(req.params.ticker));
+  } catch (error) {
+    handleUniverseError(res, 'Failed to fetch stock', error);
+  }
+});
+
+function handleUniverseError(res: Response, errorLabel: string, error: unknown) {
+  if (error instanceof UniverseError) {
+    return res.status(error.status).json({ error: errorLabel, message: error.message });
+  }
+
+  console.error(`[universe] ${errorLabel}:`, error);
+  res.status(500).json({
+    error: errorLabel,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
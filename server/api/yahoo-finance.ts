@@ -1,6 +1,5 @@
 import { Router } from 'express';
 import { yahooFinanceService } from '../services/yahoo-finance-service';
-import { getAnalystData } from '../../shared/services/analystRatingsService';
 
 const router = Router();
 
@@ -46,7 +45,7 @@ router.get('/analyst-data/:symbol', async (req, res) => {
     const { symbol } = req.params;
     console.log(`Fetching comprehensive analyst data for ${symbol}`);
     
-    const data = await getAnalystData(symbol);
+    const data = await yahooFinanceService.getAnalystData(symbol);
     
     if (!data) {
       return res.status(404).json({
@@ -2,7 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { yahooFinanceService } from "./services/yahoo-finance-service";
-import cron from 'node-cron';
+import { jobScheduler } from "./services/job-scheduler";
 
 const app = express();
 app.use(express.json());
@@ -68,5 +68,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    jobScheduler.start();
   });
 })();
@@ -0,0 +1,133 @@
+/**
+ * Canned responses for the mock LLM provider. Fixtures are checked in order
+ * and matched case-insensitively against the last user message; a fixture with
+ * no keywords matches anything. Set LLM_MOCK_FIXTURES to a JSON file of the
+ * same shape to replace these.
+ */
+export interface LLMFixture {
+  name: string;
+  match: string[];
+  // Only used for JSON mode requests
+  json?: boolean;
+  // Tools to call before answering, if the request offers them. String
+  // arguments may use "{{field}}" placeholders, see MockLLMProvider.
+  toolCalls?: { name: string; arguments: Record<string, string> }[];
+  response: string;
+}
+
+const boardRoomScenario = {
+  id: "supplier_contract",
+  title: "Key Supplier Contract",
+  description: "Your biggest supplier wants a three-year contract with a 10% price increase. Competitors are already negotiating with them, and the board wants a decision this week.",
+  stage: "Company Establishment",
+  learningObjective: "How input costs and long-term contracts affect profit margins and risk.",
+  options: [
+    {
+      id: "sign_long_term",
+      text: "Sign the three-year contract to lock in supply",
+      impacts: [
+        { metric: "ProfitMargin", value: -3, category: "Value" },
+        { metric: "Volatility", value: -4, category: "Stability" }
+      ],
+      explanation: "Locking in supply costs more but makes future costs predictable, which lowers risk."
+    },
+    {
+      id: "find_new_supplier",
+      text: "Switch to a cheaper but unproven supplier",
+      impacts: [
+        { metric: "ProfitMargin", value: 4, category: "Value" },
+        { metric: "Volatility", value: 5, category: "Stability" }
+      ],
+      explanation: "A cheaper supplier improves margins, but any disruption could hurt sales."
+    },
+    {
+      id: "build_in_house",
+      text: "Borrow to build the capability in-house",
+      impacts: [
+        { metric: "DebtLoad", value: 10, category: "Stability" },
+        { metric: "ReturnOnCapital", value: 3, category: "Growth" }
+      ],
+      explanation: "Owning production removes supplier risk over time, but the debt adds pressure now."
+    }
+  ]
+};
+
+const portfolioAnalysis = {
+  summary: "Your portfolio has a solid core, but a few positions make up most of its value. Returns are decent, and spreading new money more widely would make them steadier.",
+  diversificationScore: 45,
+  holdingNotes: [],
+  strengths: [
+    "The picks themselves score well on quality",
+    "Overall return is positive"
+  ],
+  risks: [
+    {
+      title: "Concentration",
+      detail: "The largest holdings drive most of the returns, so a rough patch in one of them hits the whole portfolio.",
+      severity: "high"
+    },
+    {
+      title: "Few industries",
+      detail: "Most of the money sits in a small number of industries that tend to move together.",
+      severity: "medium"
+    }
+  ],
+  suggestedTrades: [
+    {
+      action: "buy",
+      ticker: "MDT",
+      amount: 200,
+      rationale: "A steady medical devices name adds an industry the portfolio doesn't own yet."
+    }
+  ]
+};
+
+export const defaultLLMFixtures: LLMFixture[] = [
+  {
+    name: "board-room-scenario",
+    match: ["business scenario"],
+    json: true,
+    response: JSON.stringify(boardRoomScenario)
+  },
+  {
+    name: "board-room-insight",
+    match: ["explain in 2-3 sentences"],
+    response: "Big decisions ripple through the numbers. Spending now usually lowers short-term profits, while choices that cut risk or costs tend to steady the metrics investors watch most."
+  },
+  {
+    name: "thread-summary",
+    match: ["summarize this conversation"],
+    response: "The user has been asking how their holdings and the stocks they are researching compare on value and growth. They prefer short, plain-language answers."
+  },
+  {
+    name: "portfolio-analysis-structured",
+    match: ["holdings:"],
+    json: true,
+    response: JSON.stringify(portfolioAnalysis)
+  },
+  {
+    name: "portfolio-analysis",
+    match: ["holdings:"],
+    response: "Quick take: your portfolio has a solid core, but a few positions make up most of its value 📊\n\nThe biggest holdings are doing the heavy lifting on returns, so a rough patch in one of them would hit the whole portfolio. Your quality score shows the picks themselves are reasonable.\n\nConsider spreading new money across an industry you don't own yet, and set a rough cap on how big any single position can get."
+  },
+  {
+    name: "market-analysis",
+    match: ["market data:"],
+    response: "Markets are mixed right now. Growth names are moving on rate expectations while defensive sectors hold steady. Watch earnings guidance and inflation data for the next big move. 📈"
+  },
+  {
+    name: "ask-stock",
+    match: ["ticker:"],
+    toolCalls: [
+      { name: "get_quote", arguments: { symbol: "{{ticker}}" } },
+      { name: "get_swipefolio_scores", arguments: { ticker: "{{ticker}}" } },
+      { name: "compare_with_industry", arguments: { ticker: "{{ticker}}" } }
+    ],
+    response: "Good question! Based on the numbers here, this company looks solid on fundamentals, but its valuation already prices in a fair amount of growth 🤔 Compare it with others in the same industry before deciding, and remember past performance doesn't guarantee future results. Want me to break down any specific metric?"
+  },
+  {
+    name: "default",
+    match: [],
+    response: "This is a mock response from the offline AI provider. Set LLM_PROVIDER=openai with an API key to get real answers."
+  }
+];
@@ -0,0 +1,436 @@
+import axios from "axios";
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { defaultLLMFixtures, type LLMFixture } from "./llm-fixtures";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  // Assistant turns that asked for tools
+  toolCalls?: ToolCall[];
+  // Tool turns: which call this is the result of
+  toolCallId?: string;
+}
+
+/**
+ * A function the model may call, described with a JSON Schema for its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatCompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model for a single JSON object instead of prose
+  json?: boolean;
+  // Tools the model may call instead of answering
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletion {
+  content: string;
+  // Set when the model wants tool results before it answers
+  toolCalls?: ToolCall[];
+  model: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * Error raised when the LLM backend rejects or fails a request
+ */
+export class LLMProviderError extends Error {
+  constructor(message: string, public status?: number, public details?: unknown) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+export interface ILLMProvider {
+  readonly name: string;
+  complete(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletion>;
+  // Calls onDelta with each piece of text as it arrives, then resolves with the full completion
+  stream(
+    messages: ChatMessage[],
+    onDelta: (text: string) => void,
+    options?: ChatCompletionOptions
+  ): Promise<ChatCompletion>;
+}
+
+/**
+ * Pull the first JSON object out of a model response, ignoring code fences and surrounding prose
+ */
+export function extractJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("No JSON object found in AI response");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+// Rough token estimate for providers that don't report usage
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Completion content is either a string or an array of typed content parts
+function extractContent(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .filter(part => part && part.type === "text")
+      .map(part => part.text)
+      .join("\n");
+  }
+  return "";
+}
+
+// Tool arguments arrive as a JSON string that models occasionally get wrong
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === "object") {
+    return raw as Record<string, unknown>;
+  }
+  try {
+    const parsed = JSON.parse(String(raw || "{}"));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// The parts of an OpenAI-compatible /chat/completions response that are read
+const chatCompletionResponseSchema = z.object({
+  model: z.string().nullish(),
+  choices: z.array(z.object({
+    message: z.object({
+      content: z.unknown(),
+      tool_calls: z.array(z.object({
+        id: z.string(),
+        function: z.object({ name: z.string(), arguments: z.unknown() })
+      })).nullish()
+    })
+  })).min(1),
+  usage: z.object({ prompt_tokens: z.number(), completion_tokens: z.number() }).nullish()
+});
+
+function toWireMessage(message: ChatMessage) {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+export class OpenAICompatibleProvider implements ILLMProvider {
+  readonly name = "openai";
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | undefined,
+    private model: string
+  ) {}
+
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<ChatCompletion> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        this.buildRequest(messages, options, false),
+        { headers: this.getHeaders(), signal: options.signal }
+      );
+
+      const parsed = chatCompletionResponseSchema.safeParse(response.data);
+      if (!parsed.success) {
+        throw new LLMProviderError("Unexpected API response format", 502, response.data);
+      }
+
+      const { message } = parsed.data.choices[0];
+      const content = extractContent(message.content);
+      const toolCalls: ToolCall[] = (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments)
+      }));
+
+      return {
+        content,
+        ...(toolCalls.length ? { toolCalls } : {}),
+        model: parsed.data.model || options.model || this.model,
+        usage: {
+          promptTokens: parsed.data.usage?.prompt_tokens ?? estimateTokens(messages.map(m => m.content).join("\n")),
+          completionTokens: parsed.data.usage?.completion_tokens ?? estimateTokens(content)
+        }
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async stream(
+    messages: ChatMessage[],
+    onDelta: (text: string) => void,
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletion> {
+    let content = "";
+    let model = options.model || this.model;
+    let usage: ChatCompletion["usage"] | undefined;
+    // Tool calls stream in pieces keyed by index; arguments arrive as string fragments
+    const partialCalls: { id: string; name: string; arguments: string }[] = [];
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        this.buildRequest(messages, options, true),
+        { headers: this.getHeaders(), responseType: "stream", signal: options.signal }
+      );
+
+      // Server-sent events: one "data: {json}" frame per line, finished by "data: [DONE]"
+      await new Promise<void>((resolve, reject) => {
+        let buffer = "";
+
+        response.data.on("data", (chunk: Buffer) => {
+          buffer += chunk.toString("utf8");
+          const lines = buffer.split("\n");
+          buffer = lines.pop() || "";
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith("data:")) continue;
+
+            const payload = trimmed.slice(5).trim();
+            if (payload === "[DONE]") continue;
+
+            try {
+              const frame = JSON.parse(payload);
+              const delta = extractContent(frame.choices?.[0]?.delta?.content);
+              if (frame.model) model = frame.model;
+              if (frame.usage) {
+                usage = { promptTokens: frame.usage.prompt_tokens, completionTokens: frame.usage.completion_tokens };
+              }
+              if (delta) {
+                content += delta;
+                onDelta(delta);
+              }
+              for (const callDelta of frame.choices?.[0]?.delta?.tool_calls || []) {
+                const call = partialCalls[callDelta.index ?? 0] ||= { id: "", name: "", arguments: "" };
+                if (callDelta.id) call.id = callDelta.id;
+                if (callDelta.function?.name) call.name += callDelta.function.name;
+                if (callDelta.function?.arguments) call.arguments += callDelta.function.arguments;
+              }
+            } catch {
+              // Ignore keep-alive comments and malformed frames
+            }
+          }
+        });
+
+        response.data.on("end", () => resolve());
+        response.data.on("error", reject);
+      });
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    const toolCalls: ToolCall[] = partialCalls
+      .filter(call => call && call.name)
+      .map(call => ({ id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) }));
+
+    return {
+      content,
+      ...(toolCalls.length ? { toolCalls } : {}),
+      model,
+      usage: usage ?? {
+        promptTokens: estimateTokens(messages.map(m => m.content).join("\n")),
+        completionTokens: estimateTokens(content)
+      }
+    };
+  }
+
+  private buildRequest(messages: ChatMessage[], options: ChatCompletionOptions, stream: boolean) {
+    return {
+      model: options.model || this.model,
+      messages: messages.map(toWireMessage),
+      ...(options.tools?.length ? {
+        tools: options.tools.map(tool => ({ type: "function", function: tool }))
+      } : {}),
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stream,
+      ...(options.json ? { response_format: { type: "json_object" } } : {})
+    };
+  }
+
+  private getHeaders() {
+    return {
+      "Authorization": `Bearer ${this.apiKey}`,
+      "HTTP-Referer": "https://swipefolio.replit.app", // Site URL for OpenRouter rankings
+      "X-Title": "Swipefolio", // Site name for OpenRouter rankings
+      "Content-Type": "application/json"
+    };
+  }
+
+  private toProviderError(error: unknown): Error {
+    if (error instanceof LLMProviderError || axios.isCancel(error)) {
+      return error as Error;
+    }
+    if (axios.isAxiosError(error)) {
+      return new LLMProviderError(error.message, error.response?.status, error.response?.data);
+    }
+    return error instanceof Error ? error : new LLMProviderError(String(error));
+  }
+}
+
+/**
+ * Offline provider that answers from a list of fixtures. The first fixture whose
+ * keywords appear in the last user message wins, so responses are deterministic.
+ * When tools are offered, a fixture's toolCalls are made first and its response
+ * is given once the tool results are in.
+ */
+export class MockLLMProvider implements ILLMProvider {
+  readonly name = "mock";
+
+  constructor(private fixtures: LLMFixture[]) {}
+
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<ChatCompletion> {
+    const fixture = this.findFixture(messages, !!options.json);
+    const toolCalls = this.planToolCalls(fixture, messages, options.tools);
+    const content = toolCalls.length ? "" : this.getResponse(fixture, !!options.json);
+
+    return {
+      content,
+      ...(toolCalls.length ? { toolCalls } : {}),
+      model: "mock",
+      usage: {
+        promptTokens: estimateTokens(messages.map(m => m.content).join("\n")),
+        completionTokens: estimateTokens(content)
+      }
+    };
+  }
+
+  async stream(
+    messages: ChatMessage[],
+    onDelta: (text: string) => void,
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletion> {
+    const completion = await this.complete(messages, options);
+
+    // Emit word by word so streaming clients see incremental output
+    const pieces = completion.content.match(/\S+\s*|\s+/g) || [];
+    for (const piece of pieces) {
+      if (options.signal?.aborted) break;
+      onDelta(piece);
+    }
+
+    return completion;
+  }
+
+  private findFixture(messages: ChatMessage[], json: boolean): LLMFixture | undefined {
+    const text = this.getLastUserMessage(messages).toLowerCase();
+
+    return this.fixtures.find(f =>
+      !!f.json === json &&
+      (f.match.length === 0 || f.match.some(keyword => text.includes(keyword.toLowerCase())))
+    );
+  }
+
+  private getResponse(fixture: LLMFixture | undefined, json: boolean): string {
+    if (fixture) {
+      return fixture.response;
+    }
+    return json ? "{}" : "This is a mock response from the offline AI provider.";
+  }
+
+  /**
+   * Tool calls are only made once per question: after the results come back the
+   * fixture's response is used. "{{field}}" in an argument is filled from a
+   * "Field: value" line of the question, e.g. {{ticker}} from "Ticker: AAPL".
+   */
+  private planToolCalls(
+    fixture: LLMFixture | undefined,
+    messages: ChatMessage[],
+    tools: ToolDefinition[] = []
+  ): ToolCall[] {
+    if (!fixture?.toolCalls || tools.length === 0) {
+      return [];
+    }
+
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf("user");
+    if (messages.slice(lastUserIndex + 1).some(m => m.role === "tool")) {
+      return [];
+    }
+
+    const question = this.getLastUserMessage(messages);
+    const fillPlaceholders = (value: string) => value.replace(/\{\{(\w+)\}\}/g, (_, field: string) => {
+      const line = new RegExp(`^\\s*${field}:\\s*(.+)$`, "im").exec(question);
+      return line ? line[1].trim() : "";
+    });
+
+    return fixture.toolCalls
+      .filter(call => tools.some(tool => tool.name === call.name))
+      .map((call, index) => ({
+        id: `mock_call_${index + 1}`,
+        name: call.name,
+        arguments: Object.fromEntries(
+          Object.entries(call.arguments).map(([key, value]) => [key, fillPlaceholders(value)])
+        )
+      }));
+  }
+
+  private getLastUserMessage(messages: ChatMessage[]): string {
+    const lastUserMessage = [...messages].reverse().find(m => m.role === "user");
+    return lastUserMessage?.content || "";
+  }
+}
+
+function loadFixtures(): LLMFixture[] {
+  const fixturePath = process.env.LLM_MOCK_FIXTURES;
+  if (!fixturePath) {
+    return defaultLLMFixtures;
+  }
+  return JSON.parse(readFileSync(fixturePath, "utf8")) as LLMFixture[];
+}
+
+function createLLMProvider(): ILLMProvider {
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENROUTER_API_KEY;
+  const provider = process.env.LLM_PROVIDER || (apiKey ? "openai" : "mock");
+
+  if (provider === "mock") {
+    return new MockLLMProvider(loadFixtures());
+  }
+
+  if (provider !== "openai") {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}", expected "openai" or "mock"`);
+  }
+
+  return new OpenAICompatibleProvider(
+    (process.env.LLM_BASE_URL || "https://openrouter.ai/api/v1").replace(/\/+$/, ""),
+    apiKey,
+    process.env.LLM_MODEL || "deepseek/deepseek-chat-v3-0324:free"
+  );
+}
+
+export const llmProvider = createLLMProvider();
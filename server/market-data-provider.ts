@@ -0,0 +1,274 @@
+import yahooFinance from "yahoo-finance2";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+// Charts always come back as arrays of quotes
+export type ChartRequest = Omit<Parameters<typeof yahooFinance.chart>[1], "return">;
+export type SearchRequest = NonNullable<Parameters<typeof yahooFinance.search>[1]>;
+export type QuoteSummaryModule = Extract<
+  NonNullable<Parameters<typeof yahooFinance.quoteSummary>[1]>["modules"],
+  unknown[]
+>[number];
+
+// yahoo-finance2 only resolves its typed (validated) overloads at a call site,
+// so the result types are taken from these calls
+const fetchChart = (symbol: string, options: ChartRequest) => yahooFinance.chart(symbol, options);
+const fetchQuote = (symbol: string) => yahooFinance.quote(symbol);
+const fetchQuotes = (symbols: string[]) => yahooFinance.quote(symbols);
+const fetchQuoteSummary = (symbol: string, modules: QuoteSummaryModule[]) => yahooFinance.quoteSummary(symbol, { modules });
+const fetchSearch = (query: string, options?: SearchRequest) => yahooFinance.search(query, options);
+
+export type ChartResult = Awaited<ReturnType<typeof fetchChart>>;
+export type Quote = Awaited<ReturnType<typeof fetchQuote>>;
+export type QuoteSummaryResult = Awaited<ReturnType<typeof fetchQuoteSummary>>;
+export type SearchResult = Awaited<ReturnType<typeof fetchSearch>>;
+
+/**
+ * The market data calls the server makes. Every Yahoo Finance request goes
+ * through the provider selected by MARKET_DATA_PROVIDER.
+ */
+export interface MarketDataProvider {
+  chart(symbol: string, options: ChartRequest): Promise<ChartResult>;
+  quote(symbol: string): Promise<Quote>;
+  quotes(symbols: string[]): Promise<Quote[]>;
+  quoteSummary(symbol: string, modules: QuoteSummaryModule[]): Promise<QuoteSummaryResult>;
+  search(query: string, options?: SearchRequest): Promise<SearchResult>;
+}
+
+type MarketDataMethod = keyof MarketDataProvider;
+
+/**
+ * Live data from Yahoo Finance
+ */
+export class YahooMarketDataProvider implements MarketDataProvider {
+  chart(symbol: string, options: ChartRequest) {
+    return fetchChart(symbol, options);
+  }
+
+  quote(symbol: string) {
+    return fetchQuote(symbol);
+  }
+
+  quotes(symbols: string[]) {
+    return fetchQuotes(symbols);
+  }
+
+  quoteSummary(symbol: string, modules: QuoteSummaryModule[]) {
+    return fetchQuoteSummary(symbol, modules);
+  }
+
+  search(query: string, options?: SearchRequest) {
+    return fetchSearch(query, options);
+  }
+}
+
+/**
+ * Error raised in fixture mode when no response was recorded for a request
+ */
+export class MissingFixtureError extends Error {
+  constructor(method: MarketDataMethod, symbol: string) {
+    super(`No recorded ${method} response for ${symbol}. Record one with MARKET_DATA_PROVIDER=record.`);
+    this.name = "MissingFixtureError";
+  }
+}
+
+interface MarketDataFixture {
+  method: MarketDataMethod;
+  symbol: string;
+  args: unknown;
+  recordedAt: string;
+  response: unknown;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Request dates are relative to now (e.g. one month back), so they are keyed by how many days ago they are
+function normalizeArgs(value: unknown): unknown {
+  if (value instanceof Date) {
+    return `${Math.round((Date.now() - value.getTime()) / DAY_MS)}d ago`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeArgs);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, normalizeArgs((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// Dates were serialized as ISO strings; revive them so responses match what yahoo-finance2 returns
+function reviveDates(value: unknown): unknown {
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return new Date(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveDates);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reviveDates(item)]));
+  }
+  return value;
+}
+
+/**
+ * Recorded responses on disk, one JSON file per request:
+ * <dir>/<SYMBOL>/<method>-<hash of the request>.json
+ */
+export class MarketDataFixtureStore {
+  constructor(private dir: string) {}
+
+  /**
+   * The response recorded for this exact request, if any
+   */
+  read<T>(method: MarketDataMethod, symbol: string, args: unknown): T | undefined {
+    const file = this.getFixturePath(method, symbol, args);
+    return existsSync(file) ? this.load(file).response as T : undefined;
+  }
+
+  /**
+   * Every response recorded for a method and symbol, newest first
+   */
+  readAll<T>(method: MarketDataMethod, symbol: string): T[] {
+    const symbolDir = path.dirname(this.getFixturePath(method, symbol, null));
+    if (!existsSync(symbolDir)) return [];
+
+    return readdirSync(symbolDir)
+      .filter(file => file.startsWith(`${method}-`))
+      .map(file => this.load(path.join(symbolDir, file)))
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+      .map(fixture => fixture.response as T);
+  }
+
+  write(method: MarketDataMethod, symbol: string, args: unknown, response: unknown) {
+    const file = this.getFixturePath(method, symbol, args);
+    mkdirSync(path.dirname(file), { recursive: true });
+
+    const fixture: MarketDataFixture = {
+      method,
+      symbol,
+      args: normalizeArgs(args),
+      recordedAt: new Date().toISOString(),
+      response
+    };
+    writeFileSync(file, JSON.stringify(fixture, null, 2));
+  }
+
+  private getFixturePath(method: MarketDataMethod, symbol: string, args: unknown): string {
+    const hash = createHash("sha256").update(JSON.stringify(normalizeArgs(args))).digest("hex").slice(0, 12);
+    const symbolDir = symbol.toUpperCase().replace(/[^A-Z0-9.=-]/g, "_");
+    return path.join(this.dir, symbolDir, `${method}-${hash}.json`);
+  }
+
+  private load(file: string): MarketDataFixture {
+    const fixture = JSON.parse(readFileSync(file, "utf8")) as MarketDataFixture;
+    return { ...fixture, response: reviveDates(fixture.response) };
+  }
+}
+
+/**
+ * Serves recorded responses from disk, for working offline. Requests that weren't
+ * recorded exactly fall back to the closest recording so pages still render.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  constructor(private store: MarketDataFixtureStore) {}
+
+  // Another range or interval's chart is better than none
+  async chart(symbol: string, options: ChartRequest) {
+    const result = this.store.read<ChartResult>("chart", symbol, options)
+      ?? this.store.readAll<ChartResult>("chart", symbol)[0];
+    if (!result) throw new MissingFixtureError("chart", symbol);
+    return result;
+  }
+
+  async quote(symbol: string) {
+    const result = this.store.read<Quote>("quote", symbol, {});
+    if (!result) throw new MissingFixtureError("quote", symbol);
+    return result;
+  }
+
+  // Like Yahoo Finance, symbols without a quote are left out of the batch
+  async quotes(symbols: string[]) {
+    return symbols
+      .map(symbol => this.store.read<Quote>("quote", symbol, {}))
+      .filter((quote): quote is Quote => !!quote);
+  }
+
+  // Modules can be answered from any recording that included them
+  async quoteSummary(symbol: string, modules: QuoteSummaryModule[]) {
+    const exact = this.store.read<QuoteSummaryResult>("quoteSummary", symbol, [...modules].sort());
+    if (exact) return exact;
+
+    const recorded = Object.assign({}, ...this.store.readAll<QuoteSummaryResult>("quoteSummary", symbol).reverse());
+    const result = Object.fromEntries(modules.filter(module => module in recorded).map(module => [module, recorded[module]]));
+    if (Object.keys(result).length === 0) throw new MissingFixtureError("quoteSummary", symbol);
+    return result as QuoteSummaryResult;
+  }
+
+  async search(query: string, options?: SearchRequest) {
+    const result = this.store.read<SearchResult>("search", query, options ?? {});
+    if (!result) throw new MissingFixtureError("search", query);
+    return result;
+  }
+}
+
+/**
+ * Passes requests through to another provider and records each response as a fixture
+ */
+export class RecordingMarketDataProvider implements MarketDataProvider {
+  constructor(private upstream: MarketDataProvider, private store: MarketDataFixtureStore) {}
+
+  async chart(symbol: string, options: ChartRequest) {
+    const result = await this.upstream.chart(symbol, options);
+    this.store.write("chart", symbol, options, result);
+    return result;
+  }
+
+  async quote(symbol: string) {
+    const result = await this.upstream.quote(symbol);
+    this.store.write("quote", symbol, {}, result);
+    return result;
+  }
+
+  // Recorded per symbol, so a replayed batch can be any mix of recorded symbols
+  async quotes(symbols: string[]) {
+    const results = await this.upstream.quotes(symbols);
+    results.forEach(result => this.store.write("quote", result.symbol, {}, result));
+    return results;
+  }
+
+  async quoteSummary(symbol: string, modules: QuoteSummaryModule[]) {
+    const result = await this.upstream.quoteSummary(symbol, modules);
+    this.store.write("quoteSummary", symbol, [...modules].sort(), result);
+    return result;
+  }
+
+  async search(query: string, options?: SearchRequest) {
+    const result = await this.upstream.search(query, options);
+    this.store.write("search", query, options ?? {}, result);
+    return result;
+  }
+}
+
+function createMarketDataProvider(): MarketDataProvider {
+  const provider = process.env.MARKET_DATA_PROVIDER || "yahoo";
+  const fixtureDir = path.resolve(process.env.MARKET_DATA_FIXTURES || "server/fixtures/market-data");
+
+  switch (provider) {
+    case "yahoo":
+      return new YahooMarketDataProvider();
+    case "fixtures":
+      console.log(`[market-data] Serving recorded responses from ${fixtureDir}`);
+      return new FixtureMarketDataProvider(new MarketDataFixtureStore(fixtureDir));
+    case "record":
+      console.log(`[market-data] Recording Yahoo Finance responses to ${fixtureDir}`);
+      return new RecordingMarketDataProvider(new YahooMarketDataProvider(), new MarketDataFixtureStore(fixtureDir));
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${provider}", expected "yahoo", "fixtures" or "record"`);
+  }
+}
+
+export const marketDataProvider = createMarketDataProvider();
@@ -2,10 +2,24 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import axios from "axios";
-import { getAIResponse } from "./ai-service";
+import { getAICompletion, buildAskStockMessages } from "./ai-service";
+import { LLMProviderError } from "./llm-provider";
 
 import yahooFinanceRoutes from "./api/yahoo-finance";
+import portfolioRoutes from "./api/portfolio";
+import stocksRoutes from "./api/stocks";
+import marketDataRoutes from "./api/market-data";
+import boardRoomRoutes from "./api/board-room";
+import aiStreamRoutes from "./api/ai-stream";
+import aiThreadRoutes from "./api/ai-threads";
+import { assistantService } from "./services/assistant-service";
+import { portfolioAnalysisService, PortfolioAnalysisError } from "./services/portfolio-analysis-service";
+import { aiUsageService, aiRateLimit, type AICaller } from "./services/ai-usage-service";
+import aiUsageRoutes from "./api/ai-usage";
+import scoresRoutes from "./api/scores";
+import universeRoutes from "./api/universe";
+import adminRoutes from "./api/admin";
+import { priceStreamService } from "./services/price-stream-service";
 import { yahooFinanceService } from "./services/yahoo-finance-service";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -190,8 +204,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(dailyProgress);
   });
 
+  // Streaming (Server-Sent Events) variants of the AI endpoints
+  app.use("/api/ai", aiStreamRoutes);
+
+  // Saved assistant conversations
+  app.use("/api/ai/threads", aiThreadRoutes);
+
+  // Remaining AI allowance for the current user or guest
+  app.use("/api/ai/usage", aiUsageRoutes);
+
   // Ask AI endpoint
-  app.post("/api/ai/ask-stock", async (req, res) => {
+  app.post("/api/ai/ask-stock", aiRateLimit, async (req, res) => {
     try {
       console.log("Received AI request with body:", JSON.stringify(req.body, null, 2));
       const { userQuestion, stockContext } = req.body;
@@ -204,121 +227,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Try to ensure we have the latest environment variable value
-      const apiKey = process.env.OPENROUTER_API_KEY;
-      console.log("Using OpenRouter API key (first 5 chars):", apiKey ? apiKey.substring(0, 5) + "..." : "undefined");
+      const messages = buildAskStockMessages(userQuestion, stockContext);
       
-      if (!apiKey) {
-        console.error("OpenRouter API key is missing");
-        return res.status(500).json({ 
-          error: "API key missing", 
-          message: "OpenRouter API key is not configured" 
-        });
-      }
+      console.log("Asking the LLM provider with prompt:", messages[messages.length - 1].content);
       
-      // Construct the system prompt and user message
-      const systemPrompt = "You're a knowledgeable and friendly financial guide helping users understand stocks in the Swipefolio app. " +
-        "Use a conversational, slightly casual tone with simple language that Gen Z users will connect with. " +
-        "When discussing stocks, you should: " +
-        "- Explain key metrics, financials, and industry context in plain language " +
-        "- Compare the stock to industry standards and competitors when relevant " +
-        "- Highlight potential strengths, weaknesses, and interesting aspects based on the data " +
-        "- Use occasional emojis for emphasis, but not excessively " +
-        "- Make qualitative assessments based on the data (like 'strong fundamentals' or 'higher volatility') " +
-        "- Feel free to note if the stock appears overvalued or undervalued based on metrics " +
-        "- You can discuss whether the stock fits particular investment strategies (growth, value, etc.) " +
-        "While you can provide educated perspectives, always make clear: " +
-        "- You're not giving direct buy/sell recommendations but its okay to be suggestive in one way (not TOO explicit) based on the discussion " +
-        "- Past performance doesn't guarantee future results " +
-        "- You're providing education, and to a certain extent personalized financial advice (on the app specific situation) " +
-        "Keep responses concise (1 paragraph max) and conversational, feel free to follow up question to continue the convrseation. Be helpful and informative! ";;
-      
-      // Build context string with stock information
-      const contextString = `
-        Stock Name: ${stockContext.name}
-        Ticker: ${stockContext.ticker}
-        ${stockContext.description ? `Description: ${stockContext.description}` : ''}
-        ${stockContext.price ? `Current Price: $${stockContext.price}` : ''}
-        ${stockContext.metrics && stockContext.metrics.performance ? `Performance Score: ${stockContext.metrics.performance}` : ''}
-        ${stockContext.metrics && stockContext.metrics.value ? `Value Score: ${stockContext.metrics.value}` : ''}
-        ${stockContext.industry ? `Industry: ${stockContext.industry}` : ''}
-      `;
-      
-      const userMessage = `Context: ${contextString.trim()}\n\nQuestion: ${userQuestion}`;
-      
-      console.log("Making API call to OpenRouter with prompt:", userMessage);
-      console.log("Using API key:", apiKey.substring(0, 5) + "..." + apiKey.substring(apiKey.length - 4));
-      
-      // Make the API call to OpenRouter following their documentation exactly
-      const openRouterUrl = 'https://openrouter.ai/api/v1/chat/completions';
-      const requestData = {
-        model: "google/gemini-2.0-flash-lite-001", // Using correct model ID from documentation
-        messages: [
-          { role: "system", content: systemPrompt },
-          { 
-            role: "user", 
-            content: [
-              {
-                type: "text",
-                text: userMessage
-              }
-            ]
-          }
-        ]
-      };
-      
-      // Ensure we're using the correct API key format
-      const apiKeyValue = process.env.OPENROUTER_API_KEY;
-      console.log("Sending request to OpenRouter with API key starting with:", 
-        apiKeyValue ? apiKeyValue.substring(0, 8) + "..." : "undefined");
-      
-      // Following the example in the OpenRouter documentation exactly
-      const response = await axios.post(
-        openRouterUrl,
-        requestData,
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKeyValue}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': 'https://swipefolio.replit.app', // Site URL for OpenRouter rankings
-            'X-Title': 'Swipefolio Finance' // Site name for OpenRouter rankings
-          }
-        }
+      // The model may look things up with the assistant tools before answering. Tools can
+      // read the user's holdings, so cached answers are per user.
+      const caller: AICaller = res.locals.aiCaller;
+      const { value, cached } = await aiUsageService.withCache(
+        "ask-stock",
+        { messages, userId: caller.userId },
+        () => assistantService.answer(messages, { userId: caller.userId })
       );
+      await aiUsageService.record(caller, "ask-stock", value.completion, cached);
+      const { completion, toolsUsed } = value;
       
-      console.log("OpenRouter API response status:", response.status);
-      console.log("OpenRouter API response data:", JSON.stringify(response.data, null, 2));
-      
-      // Extract the AI's response - handling both formats (string or array of content objects)
-      if (response.data && response.data.choices && response.data.choices.length > 0) {
-        let answer;
-        const content = response.data.choices[0].message.content;
-        
-        // Handle different response formats
-        if (typeof content === 'string') {
-          answer = content;
-        } else if (Array.isArray(content) && content.length > 0) {
-          // Extract from content array structure (if API returns in this format)
-          const textContents = content
-            .filter(item => item.type === 'text')
-            .map(item => item.text)
-            .join('\n');
-          answer = textContents || 'No text content found in response';
-        } else {
-          // Fallback - try to stringify the content if it's neither string nor array
-          answer = JSON.stringify(content);
-        }
-        
-        console.log("Successfully extracted answer:", answer.substring(0, 50) + "...");
-        return res.json({ answer });
-      } else {
-        console.error("Invalid API response format:", response.data);
-        return res.status(500).json({ 
-          error: "Invalid API response", 
-          message: "The AI service returned an unexpected response format",
-          data: response.data
-        });
-      }
+      const answer = completion.content || "No text content found in response";
+      console.log("Successfully extracted answer:", answer.substring(0, 50) + "...");
+      return res.json({ answer, toolsUsed });
     } catch (error: any) {
       console.error("Error in AI request:", error);
       
@@ -338,17 +264,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       // Add more detailed error information if available
-      if (error.response) {
-        console.error("Error response status:", error.response.status);
-        console.error("Error response data:", error.response.data);
+      if (error instanceof LLMProviderError && error.status) {
+        console.error("Error response status:", error.status);
+        console.error("Error response data:", error.details);
         
         // Create a new custom error response with additional details
         errorResponse = {
           error: "AI service error", 
-          message: error instanceof Error ? error.message : "Unknown error occurred",
+          message: error.message,
           details: {
-            status: error.response.status,
-            data: error.response.data
+            status: error.status,
+            data: error.details
           }
         };
       }
@@ -358,7 +284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Portfolio Analysis AI endpoint
-  app.post("/api/ai/portfolio-analysis", async (req, res) => {
+  app.post("/api/ai/portfolio-analysis", aiRateLimit, async (req, res) => {
     try {
       console.log("Received portfolio analysis request");
       const { query, portfolioData, totalValue, overallReturn, portfolioQuality } = req.body;
@@ -371,62 +297,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Prepare system message with instructions
-      const systemPrompt = " You're a savvy financial coach for Gen Z investors using Swipefolio. Make investing accessible and engaging! " +
-        "When analyzing portfolios: " +
-        "- Be direct and conversational - talk like a knowledgeable friend, not a textbook " +
-        "- Give specific feedback about their actual holdings and allocation " +
-        "- Point out potential strengths ('Your tech picks are diversified across different segments 👍') " +
-        "- Highlight issues clearly ('Your portfolio is heavily weighted toward tech, which increases risk') " +
-        "- Suggest specific improvements they could consider " +
-        "- Use 1-2 emojis strategically to emphasize key points " +
-        "- Acknowledge both good moves and areas for improvement " +
-        "- Break down complex concepts into simple terms " +
-        "- Give them actionable next steps they could take " +
-        "Format your response with: " +
-        "- A quick assessment of their current situation " +
-        "- 2-3 specific insights about their holdings or strategy " +
-        "- 1-2 clear suggestions they could implement " +
-        "Keep it under 200 words total, using short paragraphs with natural breaks. " +
-        "You can make qualitative judgments about their portfolio composition, diversification, risk level, " +
-        "and alignment with common investment strategies. Just avoid specific buy/sell recommendations (its okay to be pretty suggestive but do not EXPLCIITLY say a name) for individual stocks.";;
-      
-      // Prepare portfolio context
-      const portfolioContext = `
-        Total Value: $${totalValue ? totalValue.toFixed(2) : '0.00'}
-        Overall Return: ${overallReturn ? overallReturn.toFixed(2) : '0.00'}%
-        Portfolio Quality Score: ${portfolioQuality || 0}/100
-        
-        Holdings:
-        ${portfolioData.map((stock: any) => 
-          `${stock.name} (${stock.symbol}): $${stock.value.toFixed(2)} (${stock.allocation.toFixed(2)}% of portfolio) | Return: ${stock.return.toFixed(2)}%`
-        ).join('\n')}
-      `;
-      
-      const userMessage = `${portfolioContext.trim()}\n\nQuery: ${query}`;
-      
       console.log("Calling AI API for portfolio analysis...");
       
       // Get the portfolio advice
       try {
-        const answer = await getAIResponse(userMessage, {
-          portfolio: {
-            holdings: portfolioData.length,
-            totalValue: totalValue || 0,
-            metrics: {
-              overallReturn: overallReturn || 0,
-              portfolioQuality: portfolioQuality || 0,
-            }
-          },
-          gameMode: false
-        });
+        const caller: AICaller = res.locals.aiCaller;
+        const request = { query, portfolioData, totalValue, overallReturn, portfolioQuality };
+        const { value: result, cached } = await aiUsageService.withCache(
+          "portfolio-analysis",
+          request,
+          () => portfolioAnalysisService.analyze(request)
+        );
+        await aiUsageService.record(caller, "portfolio-analysis", result.completion, cached);
         
-        console.log("Successfully got portfolio analysis:", answer.substring(0, 50) + "...");
-        return res.json({ analysis: answer });
+        console.log("Successfully got portfolio analysis:", result.analysis.summary.substring(0, 50) + "...");
+        return res.json({ analysis: result.analysis });
       } catch (aiError: any) {
         console.error("Error getting AI response:", aiError);
         
-        return res.status(500).json({
+        // Attempts that never produced a valid analysis still used tokens
+        if (aiError instanceof PortfolioAnalysisError && aiError.completion) {
+          await aiUsageService.record(res.locals.aiCaller, "portfolio-analysis", aiError.completion);
+        }
+        
+        return res.status(aiError instanceof PortfolioAnalysisError ? aiError.status : 500).json({
           error: "AI_SERVICE_ERROR",
           message: aiError instanceof Error ? aiError.message : "Failed to get AI response"
         });
@@ -454,7 +348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Financial Game AI endpoint
-  app.post("/api/ai/financial-game", async (req, res) => {
+  app.post("/api/ai/financial-game", aiRateLimit, async (req, res) => {
     try {
       console.log("Received financial game request");
       const { gameContext, playerInput, gameMode } = req.body;
@@ -471,11 +365,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const gameRole = gameMode || "Financial Advisor";
       
       try {
-        const response = await getAIResponse(playerInput, {
+        const caller: AICaller = res.locals.aiCaller;
+        const context = {
           gameMode: true,
           gameRole: gameRole,
           previousMessages: gameContext.messages || []
-        });
+        };
+        const { value: completion, cached } = await aiUsageService.withCache(
+          "financial-game",
+          { playerInput, context },
+          () => getAICompletion(playerInput, context)
+        );
+        await aiUsageService.record(caller, "financial-game", completion, cached);
+        const response = completion.content;
         
         console.log("Successfully got game response:", response.substring(0, 50) + "...");
         return res.json({ 
@@ -515,7 +417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Market Analysis AI endpoint
-  app.post("/api/ai/market-analysis", async (req, res) => {
+  app.post("/api/ai/market-analysis", aiRateLimit, async (req, res) => {
     try {
       console.log("Received market analysis request");
       const { query, marketData } = req.body;
@@ -535,9 +437,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userMessage = `${marketContext}\n\nQuery: ${query}`;
       
       try {
-        const answer = await getAIResponse(userMessage, {
-          gameMode: false
-        });
+        const caller: AICaller = res.locals.aiCaller;
+        const { value: completion, cached } = await aiUsageService.withCache(
+          "market-analysis",
+          userMessage,
+          () => getAICompletion(userMessage, { gameMode: false })
+        );
+        await aiUsageService.record(caller, "market-analysis", completion, cached);
+        const answer = completion.content;
         
         console.log("Successfully got market analysis:", answer.substring(0, 50) + "...");
         return res.json({ analysis: answer });
@@ -599,7 +506,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/stock/:symbol/history", async (req, res) => {
     try {
       const { symbol } = req.params;
-      const { range, interval } = req.query;
+      const { range, interval, source } = req.query;
       
       if (!symbol) {
         return res.status(400).json({ error: "Symbol is required" });
@@ -611,7 +518,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[API] Getting history for ${normalizedSymbol}, range: ${range}, interval: ${interval}`);
       
       // Redirect to Yahoo Finance API with query parameters
-      const redirectUrl = `/api/yahoo-finance/chart/${normalizedSymbol}?range=${range || '1mo'}&interval=${interval || '1d'}`;
+      const redirectUrl = `/api/yahoo-finance/chart/${normalizedSymbol}?range=${range || '1mo'}&interval=${interval || '1d'}${source ? `&source=${source}` : ''}`;
       return res.redirect(redirectUrl);
     } catch (error: any) {
       console.error(`[API] Error getting history:`, error);
@@ -625,8 +532,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register Yahoo Finance routes
   app.use('/api/yahoo-finance', yahooFinanceRoutes);
   
+  // Register real-time quote, intraday, overview and search routes
+  app.use('/api/stocks', stocksRoutes);
+  
+  // Register batch quote and chart routes (/api/quotes, /api/charts)
+  app.use('/api', marketDataRoutes);
+  
+  // Register Board Room game AI routes (/api/ai-scenario, /api/ai-insight)
+  app.use('/api', boardRoomRoutes);
+  
+  // Register paper-trading portfolio routes
+  app.use('/api/portfolio', portfolioRoutes);
+  
+  // Register Swipefolio score routes
+  app.use('/api/scores', scoresRoutes);
+  
+  // Register stock universe routes
+  app.use('/api/universe', universeRoutes);
+  
+  // Register admin routes (market data jobs)
+  app.use('/api/admin', adminRoutes);
+  
   // Create an HTTP server for the Express app
   const server = createServer(app);
   
+  // Stream live prices over WebSocket (/ws/prices)
+  priceStreamService.attach(server);
+  
   return server;
 }
\ No newline at end of file
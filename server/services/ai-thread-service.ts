@@ -0,0 +1,205 @@
+import { storage, type AIThreadFilter } from '../storage';
+import { llmProvider, type ChatMessage } from '../llm-provider';
+import { aiUsageService, type AICaller } from './ai-usage-service';
+import type { AIThread, AIMessage, AIThreadScope, AIThreadWithMessages } from '@shared/schema';
+
+/**
+ * Most recent messages that are always sent to the model word for word
+ */
+const KEEP_RECENT_MESSAGES = 6;
+
+/**
+ * Once a thread has more unsummarized messages than this, everything but the
+ * most recent ones is folded into the thread's rolling summary
+ */
+const SUMMARIZE_AFTER_MESSAGES = 12;
+
+/**
+ * Longest title generated from a thread's first question
+ */
+const MAX_TITLE_LENGTH = 60;
+
+const SUMMARY_SYSTEM_PROMPT =
+  "You keep notes for an investing assistant. Write a short, factual summary of the conversation so far: " +
+  "what the user asked, what they own or are considering, and any answers or preferences worth remembering. " +
+  "Use plain sentences and stay under 120 words.";
+
+/**
+ * Error raised for thread requests that can't be served, carrying the HTTP status to respond with
+ */
+export class AIThreadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AIThreadError';
+  }
+}
+
+interface NewThread {
+  scope: AIThreadScope;
+  ticker?: string;
+  title?: string;
+}
+
+function defaultTitle({ scope, ticker }: NewThread): string {
+  if (scope === 'ticker' && ticker) return `${ticker} conversation`;
+  if (scope === 'portfolio') return 'Portfolio conversation';
+  return 'New conversation';
+}
+
+// Use the opening question as the title, cut at a word boundary
+function titleFromQuestion(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 20 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+export class AIThreadService {
+  async listThreads(userId: number, filter: AIThreadFilter = {}): Promise<AIThread[]> {
+    return storage.getAIThreadsByUserId(userId, filter);
+  }
+
+  async getThread(userId: number, threadId: number): Promise<AIThreadWithMessages> {
+    const thread = await this.getOwnedThread(userId, threadId);
+    return this.withMessages(thread);
+  }
+
+  /**
+   * The thread the user most recently talked in for a scope, so the assistant
+   * can pick up where they left off
+   */
+  async getLatestThread(userId: number, filter: AIThreadFilter = {}): Promise<AIThreadWithMessages | null> {
+    const [thread] = await storage.getAIThreadsByUserId(userId, filter);
+    return thread ? this.withMessages(thread) : null;
+  }
+
+  async createThread(userId: number, newThread: NewThread): Promise<AIThread> {
+    const now = new Date();
+    return storage.createAIThread({
+      userId,
+      scope: newThread.scope,
+      ticker: newThread.scope === 'ticker' ? newThread.ticker ?? null : null,
+      title: newThread.title || defaultTitle(newThread),
+      summary: null,
+      summarizedCount: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async renameThread(userId: number, threadId: number, title: string): Promise<AIThread> {
+    await this.getOwnedThread(userId, threadId);
+    const thread = await storage.updateAIThread(threadId, { title });
+    if (!thread) {
+      throw new AIThreadError('Thread not found', 404);
+    }
+    return thread;
+  }
+
+  async deleteThread(userId: number, threadId: number): Promise<void> {
+    await this.getOwnedThread(userId, threadId);
+    await storage.deleteAIThread(threadId);
+  }
+
+  /**
+   * Find the thread a new question belongs to: the given thread if the user
+   * owns it, otherwise a new one in the requested scope titled after the question
+   */
+  async resolveThread(
+    userId: number,
+    threadId: number | undefined,
+    newThread: NewThread,
+    question: string
+  ): Promise<AIThread> {
+    if (threadId !== undefined) {
+      return this.getOwnedThread(userId, threadId);
+    }
+    return this.createThread(userId, { ...newThread, title: titleFromQuestion(question) });
+  }
+
+  /**
+   * The conversation so far, trimmed to fit the model's context window: the
+   * rolling summary of older turns followed by the recent messages verbatim
+   */
+  async getContextMessages(thread: AIThread): Promise<ChatMessage[]> {
+    const messages = await storage.getAIMessagesByThreadId(thread.id);
+    // If summarizing has fallen behind, still cap how much history is sent
+    const recent = messages.slice(thread.summarizedCount).slice(-SUMMARIZE_AFTER_MESSAGES);
+
+    const context: ChatMessage[] = recent.map(message => ({
+      role: message.role as ChatMessage['role'],
+      content: message.content
+    }));
+
+    if (thread.summary) {
+      context.unshift({ role: 'system', content: `Summary of the earlier conversation: ${thread.summary}` });
+    }
+    return context;
+  }
+
+  async addMessage(threadId: number, role: 'user' | 'assistant', content: string): Promise<AIMessage> {
+    const now = new Date();
+    const message = await storage.createAIMessage({ threadId, role, content, createdAt: now });
+    await storage.updateAIThread(threadId, { updatedAt: now });
+    return message;
+  }
+
+  /**
+   * Fold older turns into the thread's summary once it grows past
+   * SUMMARIZE_AFTER_MESSAGES. A failed summary is retried on the next turn.
+   * The summary's tokens count toward the caller's daily allowance.
+   */
+  async summarizeIfNeeded(threadId: number, caller: AICaller): Promise<void> {
+    const thread = await storage.getAIThread(threadId);
+    if (!thread) return;
+
+    const messages = await storage.getAIMessagesByThreadId(threadId);
+    const unsummarized = messages.slice(thread.summarizedCount);
+    if (unsummarized.length <= SUMMARIZE_AFTER_MESSAGES) return;
+
+    const toSummarize = unsummarized.slice(0, unsummarized.length - KEEP_RECENT_MESSAGES);
+    const transcript = toSummarize
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n');
+
+    try {
+      const completion = await llmProvider.complete([
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Summarize this conversation.\n\n` +
+            (thread.summary ? `Earlier summary: ${thread.summary}\n\n` : '') +
+            `New messages:\n${transcript}`
+        }
+      ], { maxTokens: 250, temperature: 0.2 });
+      await aiUsageService.record(caller, 'thread-summary', completion);
+
+      const summary = completion.content.trim();
+      if (!summary) return;
+
+      await storage.updateAIThread(threadId, {
+        summary,
+        summarizedCount: thread.summarizedCount + toSummarize.length
+      });
+    } catch (error) {
+      console.error(`[ai-threads] Failed to summarize thread ${threadId}:`, error);
+    }
+  }
+
+  private async getOwnedThread(userId: number, threadId: number): Promise<AIThread> {
+    const thread = await storage.getAIThread(threadId);
+    if (!thread || thread.userId !== userId) {
+      throw new AIThreadError('Thread not found', 404);
+    }
+    return thread;
+  }
+
+  private async withMessages(thread: AIThread): Promise<AIThreadWithMessages> {
+    const messages = await storage.getAIMessagesByThreadId(thread.id);
+    return { ...thread, messages };
+  }
+}
+
+export const aiThreadService = new AIThreadService();
@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { aiTiers, type AITier, type AIAllowance } from '@shared/schema';
+import { storage } from '../storage';
+import { llmProvider, type ChatCompletion } from '../llm-provider';
+
+export interface AITierLimits {
+  // Steady request rate the token bucket refills at
+  requestsPerMinute: number;
+  // Bucket size: how many requests can be made back to back
+  burst: number;
+  // Prompt + completion tokens per UTC day
+  dailyTokens: number;
+}
+
+const DEFAULT_TIER_LIMITS: Record<AITier, AITierLimits> = {
+  guest: { requestsPerMinute: 3, burst: 5, dailyTokens: 20000 },
+  free: { requestsPerMinute: 6, burst: 10, dailyTokens: 100000 },
+  plus: { requestsPerMinute: 20, burst: 30, dailyTokens: 1000000 }
+};
+
+/**
+ * How long identical prompts are answered from the cache
+ */
+const CACHE_TTL_MS = (Number(process.env.AI_CACHE_TTL_MINUTES) || 60) * 60 * 1000;
+
+/**
+ * Cached responses kept in memory; the oldest are dropped first
+ */
+const CACHE_MAX_ENTRIES = 500;
+
+/**
+ * How often buckets that have refilled are dropped, so callers who stop
+ * making requests don't stay in memory
+ */
+const BUCKET_PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Tier limits, with per-tier overrides from AI_TIER_LIMITS, e.g.
+ * {"guest":{"dailyTokens":5000},"plus":{"burst":50}}
+ */
+function loadTierLimits(): Record<AITier, AITierLimits> {
+  const overrides = process.env.AI_TIER_LIMITS ? JSON.parse(process.env.AI_TIER_LIMITS) : {};
+  const limits = { ...DEFAULT_TIER_LIMITS };
+
+  for (const tier of Object.keys(overrides)) {
+    if (!aiTiers.includes(tier as AITier)) {
+      throw new Error(`Unknown tier "${tier}" in AI_TIER_LIMITS, expected one of ${aiTiers.join(', ')}`);
+    }
+    limits[tier as AITier] = { ...limits[tier as AITier], ...overrides[tier] };
+  }
+  return limits;
+}
+
+/**
+ * Who is making an AI request. Signed-in users are limited by account, guests by IP.
+ */
+export interface AICaller {
+  key: string;
+  tier: AITier;
+  userId?: number;
+  ip?: string;
+}
+
+/**
+ * Error raised when a caller is over one of their limits, carrying how long until they can retry
+ */
+export class AIRateLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = 'AIRateLimitError';
+  }
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket will be full again, after which it is no different from a new one
+  fullAt: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Midnight UTC at the start of the current day and the next one
+function getUsageDay(now: Date = new Date()) {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { start, end };
+}
+
+export class AIUsageService {
+  private tierLimits = loadTierLimits();
+  private buckets = new Map<string, Bucket>();
+  private bucketsPrunedAt = Date.now();
+  private cache = new Map<string, CacheEntry>();
+
+  getCaller(req: Request): AICaller {
+    if (req.isAuthenticated()) {
+      const tier = aiTiers.includes(req.user!.aiTier as AITier) ? req.user!.aiTier as AITier : 'free';
+      return { key: `user:${req.user!.id}`, tier, userId: req.user!.id };
+    }
+
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    return { key: `ip:${ip}`, tier: 'guest', ip };
+  }
+
+  /**
+   * Check the caller's daily allowance, then take a request from their token bucket
+   * @throws AIRateLimitError if either limit is used up
+   */
+  async consume(caller: AICaller): Promise<void> {
+    const limits = this.tierLimits[caller.tier];
+    const { start, end } = getUsageDay();
+
+    const used = await storage.getAITokensUsedSince(this.getOwner(caller), start);
+    if (used >= limits.dailyTokens) {
+      throw new AIRateLimitError(
+        'Daily AI allowance used up. It resets at midnight UTC.',
+        Math.ceil((end.getTime() - Date.now()) / 1000)
+      );
+    }
+
+    const bucket = this.refillBucket(caller);
+    if (bucket.tokens < 1) {
+      const secondsPerRequest = 60 / limits.requestsPerMinute;
+      throw new AIRateLimitError(
+        'Too many AI requests. Please slow down.',
+        Math.ceil((1 - bucket.tokens) * secondsPerRequest)
+      );
+    }
+    bucket.tokens -= 1;
+    bucket.fullAt = bucket.updatedAt + ((limits.burst - bucket.tokens) / limits.requestsPerMinute) * 60000;
+  }
+
+  async getAllowance(caller: AICaller): Promise<AIAllowance> {
+    const limits = this.tierLimits[caller.tier];
+    const { start, end } = getUsageDay();
+    const used = await storage.getAITokensUsedSince(this.getOwner(caller), start);
+
+    return {
+      tier: caller.tier,
+      daily: {
+        limit: limits.dailyTokens,
+        used,
+        remaining: Math.max(0, limits.dailyTokens - used),
+        resetsAt: end.toISOString()
+      },
+      rate: {
+        requestsPerMinute: limits.requestsPerMinute,
+        burst: limits.burst,
+        available: Math.floor(this.refillBucket(caller).tokens)
+      }
+    };
+  }
+
+  async record(
+    caller: AICaller,
+    endpoint: string,
+    completion: Pick<ChatCompletion, 'model' | 'usage'>,
+    cached: boolean = false
+  ): Promise<void> {
+    try {
+      await storage.createAIUsage({
+        userId: caller.userId ?? null,
+        ip: caller.userId === undefined ? caller.ip ?? null : null,
+        endpoint,
+        model: completion.model,
+        promptTokens: completion.usage.promptTokens,
+        completionTokens: completion.usage.completionTokens,
+        cached,
+        createdAt: new Date()
+      });
+    } catch (error) {
+      // A lost usage row shouldn't fail the answer the user already has
+      console.error(`[ai-usage] Failed to record usage for ${caller.key}:`, error);
+    }
+  }
+
+  /**
+   * Answer identical requests from a cache keyed by a hash of the endpoint,
+   * provider and input. Anything user-specific the answer depends on must be
+   * part of the input.
+   */
+  async withCache<T>(endpoint: string, input: unknown, compute: () => Promise<T>): Promise<{ value: T; cached: boolean }> {
+    const key = createHash('sha256')
+      .update(JSON.stringify({ endpoint, provider: llmProvider.name, input }))
+      .digest('hex');
+
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return { value: entry.value as T, cached: true };
+    }
+
+    const value = await compute();
+
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    if (this.cache.size > CACHE_MAX_ENTRIES) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return { value, cached: false };
+  }
+
+  private refillBucket(caller: AICaller): Bucket {
+    const limits = this.tierLimits[caller.tier];
+    const now = Date.now();
+    this.pruneBuckets(now);
+    const bucket = this.buckets.get(caller.key) || { tokens: limits.burst, updatedAt: now, fullAt: now };
+
+    const refill = ((now - bucket.updatedAt) / 60000) * limits.requestsPerMinute;
+    bucket.tokens = Math.min(limits.burst, bucket.tokens + refill);
+    bucket.updatedAt = now;
+    this.buckets.set(caller.key, bucket);
+    return bucket;
+  }
+
+  private pruneBuckets(now: number) {
+    if (now - this.bucketsPrunedAt < BUCKET_PRUNE_INTERVAL_MS) return;
+    this.bucketsPrunedAt = now;
+
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    });
+  }
+
+  private getOwner(caller: AICaller) {
+    return caller.userId !== undefined ? { userId: caller.userId } : { ip: caller.ip };
+  }
+}
+
+export const aiUsageService = new AIUsageService();
+
+/**
+ * Middleware for AI routes: rejects callers over their limits with 429 and a
+ * Retry-After header, otherwise leaves the caller on res.locals.aiCaller
+ */
+export function aiRateLimit(req: Request, res: Response, next: NextFunction) {
+  const caller = aiUsageService.getCaller(req);
+
+  aiUsageService.consume(caller)
+    .then(() => {
+      res.locals.aiCaller = caller;
+      next();
+    })
+    .catch(error => {
+      if (error instanceof AIRateLimitError) {
+        res.set('Retry-After', String(error.retryAfterSeconds));
+        return res.status(429).json({
+          error: 'RATE_LIMITED',
+          message: error.message,
+          retryAfter: error.retryAfterSeconds
+        });
+      }
+      next(error);
+    });
+}
@@ -0,0 +1,63 @@
+import type { AssistantToolUse } from '@shared/schema';
+import { llmProvider, type ChatCompletion, type ChatMessage } from '../llm-provider';
+import { assistantToolDefinitions, runAssistantTool, type ToolContext } from './assistant-tools';
+
+/**
+ * Rounds of tool calls allowed per question. The round after that is asked
+ * without tools so the model has to answer with what it has.
+ */
+const MAX_TOOL_ROUNDS = 4;
+
+export interface AssistantRunOptions extends ToolContext {
+  signal?: AbortSignal;
+  // Stream answer text as it arrives instead of waiting for the full answer
+  onDelta?: (text: string) => void;
+  onToolUse?: (use: AssistantToolUse) => void;
+}
+
+export interface AssistantAnswer {
+  completion: ChatCompletion;
+  toolsUsed: AssistantToolUse[];
+}
+
+export class AssistantService {
+  /**
+   * Answer the conversation, letting the model call the assistant tools until
+   * it has what it needs. Token usage is summed over every round.
+   */
+  async answer(messages: ChatMessage[], options: AssistantRunOptions = {}): Promise<AssistantAnswer> {
+    const { userId, signal, onDelta, onToolUse } = options;
+    const conversation = [...messages];
+    const toolsUsed: AssistantToolUse[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0 };
+
+    for (let round = 0; ; round++) {
+      const tools = round < MAX_TOOL_ROUNDS ? assistantToolDefinitions : undefined;
+      const completion = onDelta
+        ? await llmProvider.stream(conversation, onDelta, { tools, signal })
+        : await llmProvider.complete(conversation, { tools, signal });
+
+      usage.promptTokens += completion.usage.promptTokens;
+      usage.completionTokens += completion.usage.completionTokens;
+
+      if (!completion.toolCalls?.length) {
+        return { completion: { ...completion, usage }, toolsUsed };
+      }
+
+      conversation.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+
+      const results = await Promise.all(completion.toolCalls.map(async call => {
+        const outcome = await runAssistantTool(call, { userId });
+        onToolUse?.(outcome.use);
+        return { call, ...outcome };
+      }));
+
+      results.forEach(({ call, use, result }) => {
+        toolsUsed.push(use);
+        conversation.push({ role: 'tool', toolCallId: call.id, content: result });
+      });
+    }
+  }
+}
+
+export const assistantService = new AssistantService();
@@ -0,0 +1,267 @@
+import type { AssistantToolUse } from '@shared/schema';
+import type { ToolCall, ToolDefinition } from '../llm-provider';
+import { yahooFinanceService } from './yahoo-finance-service';
+import { portfolioService } from './portfolio-service';
+import { scoringService } from './scoring-service';
+import type { StockData } from '@shared/scoring/types';
+import { getIndustryAverages } from '@shared/scoring/industry-averages';
+
+/**
+ * Longest tool result handed back to the model, in characters
+ */
+const MAX_TOOL_RESULT_LENGTH = 4000;
+
+/**
+ * Most points of price history handed back to the model
+ */
+const MAX_HISTORY_POINTS = 20;
+
+const PRICE_HISTORY_RANGES = ['5d', '1mo', '3mo', '6mo', '1y', '5y'] as const;
+
+/**
+ * Who the assistant is answering for. Guests have no userId.
+ */
+export interface ToolContext {
+  userId?: number;
+}
+
+interface AssistantTool {
+  definition: ToolDefinition;
+  // Short description shown to the user, e.g. "Live quote"
+  label: string;
+  run(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+}
+
+/**
+ * Error raised for bad tool arguments; its message is shown to the model so it can recover
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+function requireSymbol(args: Record<string, unknown>, key: string): string {
+  const value = typeof args[key] === 'string' ? (args[key] as string).trim().toUpperCase() : '';
+  if (!value) {
+    throw new ToolError(`"${key}" is required`);
+  }
+  return value;
+}
+
+const round = (value: number, decimals: number = 2) => Number(value.toFixed(decimals));
+
+async function findStock(ticker: string): Promise<StockData> {
+  const stock = await scoringService.findStock(ticker);
+  if (!stock) {
+    throw new ToolError(`${ticker} is not one of the stocks Swipefolio scores`);
+  }
+  return stock;
+}
+
+const tools: AssistantTool[] = [
+  {
+    label: 'Live quote',
+    definition: {
+      name: 'get_quote',
+      description: 'Get the latest price, daily change and volume for a stock symbol.',
+      parameters: {
+        type: 'object',
+        properties: { symbol: { type: 'string', description: 'Ticker symbol, e.g. AAPL' } },
+        required: ['symbol']
+      }
+    },
+    async run(args) {
+      const quote = await yahooFinanceService.getQuote(requireSymbol(args, 'symbol'));
+      return {
+        symbol: quote["01. symbol"],
+        price: Number(quote["05. price"]),
+        open: Number(quote["02. open"]),
+        high: Number(quote["03. high"]),
+        low: Number(quote["04. low"]),
+        previousClose: Number(quote["08. previous close"]),
+        change: Number(quote["09. change"]),
+        changePercent: quote["10. change percent"],
+        volume: Number(quote["06. volume"]),
+        latestTradingDay: quote["07. latest trading day"]
+      };
+    }
+  },
+  {
+    label: 'Price history',
+    definition: {
+      name: 'get_price_history',
+      description: 'Get closing prices for a stock over a time range, with the overall change, high and low.',
+      parameters: {
+        type: 'object',
+        properties: {
+          symbol: { type: 'string', description: 'Ticker symbol, e.g. AAPL' },
+          range: { type: 'string', enum: [...PRICE_HISTORY_RANGES], description: 'Time range, defaults to 1y' }
+        },
+        required: ['symbol']
+      }
+    },
+    async run(args) {
+      const symbol = requireSymbol(args, 'symbol');
+      const range = PRICE_HISTORY_RANGES.find(r => r === args.range) || '1y';
+      const { data: chart } = await yahooFinanceService.getChartData(symbol, range, range === '5y' ? '1wk' : '1d');
+
+      const closes = (chart.quotes || [])
+        .filter(quote => typeof quote.close === 'number')
+        .map(quote => ({ date: new Date(quote.date).toISOString().slice(0, 10), close: round(quote.close as number) }));
+      if (closes.length === 0) {
+        throw new ToolError(`No price history found for ${symbol}`);
+      }
+
+      const first = closes[0].close;
+      const last = closes[closes.length - 1].close;
+      const step = Math.max(1, Math.ceil(closes.length / MAX_HISTORY_POINTS));
+
+      return {
+        symbol,
+        range,
+        start: first,
+        end: last,
+        changePercent: round(((last - first) / first) * 100),
+        high: Math.max(...closes.map(c => c.close)),
+        low: Math.min(...closes.map(c => c.close)),
+        points: closes.filter((_, i) => i % step === 0 || i === closes.length - 1)
+      };
+    }
+  },
+  {
+    label: 'Swipefolio scores',
+    definition: {
+      name: 'get_swipefolio_scores',
+      description: 'Get the Swipefolio overall score and the performance, stability, value, momentum and potential category scores (0-100) for a stock.',
+      parameters: {
+        type: 'object',
+        properties: { ticker: { type: 'string', description: 'Ticker symbol, e.g. AAPL' } },
+        required: ['ticker']
+      }
+    },
+    async run(args) {
+      const stock = await findStock(requireSymbol(args, 'ticker'));
+      const { overall, scores } = await scoringService.getScores(stock.ticker);
+      return {
+        ticker: stock.ticker,
+        name: stock.name,
+        industry: stock.industry,
+        overall,
+        ...scores
+      };
+    }
+  },
+  {
+    label: 'Your holdings',
+    definition: {
+      name: 'get_portfolio_holdings',
+      description: "Get the user's paper-trading cash balance and holdings with shares and average cost.",
+      parameters: { type: 'object', properties: {} }
+    },
+    async run(_args, context) {
+      if (context.userId === undefined) {
+        throw new ToolError('The user is not signed in, so their holdings are not available');
+      }
+
+      const portfolio = await portfolioService.getPortfolio(context.userId);
+      return {
+        cash: round(portfolio.cash),
+        holdings: portfolio.holdings.map(holding => ({
+          ticker: holding.ticker,
+          shares: round(holding.shares, 4),
+          averageCost: round(holding.purchasePrice),
+          costBasis: round(holding.shares * holding.purchasePrice)
+        }))
+      };
+    }
+  },
+  {
+    label: 'Analyst ratings',
+    definition: {
+      name: 'get_analyst_data',
+      description: 'Get the analyst consensus rating, number of analysts, rating distribution and recent upgrades or downgrades for a stock.',
+      parameters: {
+        type: 'object',
+        properties: { symbol: { type: 'string', description: 'Ticker symbol, e.g. AAPL' } },
+        required: ['symbol']
+      }
+    },
+    async run(args) {
+      const symbol = requireSymbol(args, 'symbol');
+      const data = await yahooFinanceService.getAnalystData(symbol);
+      if (!data) {
+        throw new ToolError(`No analyst data found for ${symbol}`);
+      }
+
+      return {
+        symbol,
+        consensus: data.consensusKey,
+        consensusMean: data.consensusMean,
+        numberOfAnalysts: data.numberOfAnalysts,
+        currentDistribution: data.distributionOverTime?.['0m'] ?? null,
+        recentChanges: (data.ratingHistoryForChart || []).slice(-5)
+      };
+    }
+  },
+  {
+    label: 'Industry comparison',
+    definition: {
+      name: 'compare_with_industry',
+      description: "Compare a stock's performance, stability, value and momentum metrics with its industry averages.",
+      parameters: {
+        type: 'object',
+        properties: { ticker: { type: 'string', description: 'Ticker symbol, e.g. AAPL' } },
+        required: ['ticker']
+      }
+    },
+    async run(args) {
+      const stock = await findStock(requireSymbol(args, 'ticker'));
+      const averages = getIndustryAverages(stock.industry);
+
+      return {
+        ticker: stock.ticker,
+        industry: stock.industry,
+        stock: {
+          performance: stock.metrics.performance.details,
+          stability: stock.metrics.stability.details,
+          value: stock.metrics.value.details,
+          momentum: stock.metrics.momentum.details
+        },
+        industryAverage: averages
+      };
+    }
+  }
+];
+
+export const assistantToolDefinitions: ToolDefinition[] = tools.map(tool => tool.definition);
+
+/**
+ * Run one tool call. Failures are returned to the model as { error } rather
+ * than thrown, so it can explain or try something else.
+ */
+export async function runAssistantTool(call: ToolCall, context: ToolContext): Promise<{ use: AssistantToolUse; result: string }> {
+  const tool = tools.find(t => t.definition.name === call.name);
+  const use: AssistantToolUse = { name: call.name, label: tool?.label || call.name, arguments: call.arguments, ok: false };
+
+  let output: unknown;
+  try {
+    if (!tool) {
+      throw new ToolError(`Unknown tool "${call.name}"`);
+    }
+    output = await tool.run(call.arguments || {}, context);
+    use.ok = true;
+  } catch (error) {
+    if (!(error instanceof ToolError)) {
+      console.error(`[assistant-tools] ${call.name} failed:`, error);
+    }
+    output = { error: error instanceof Error ? error.message : 'Tool failed' };
+  }
+
+  const result = JSON.stringify(output);
+  return {
+    use,
+    result: result.length > MAX_TOOL_RESULT_LENGTH ? `${result.slice(0, MAX_TOOL_RESULT_LENGTH)}…(truncated)` : result
+  };
+}
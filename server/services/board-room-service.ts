@@ -0,0 +1,585 @@
+import { buildAIMessages } from '../ai-service';
+import { llmProvider, extractJson } from '../llm-provider';
+import { aiUsageService, type AICaller } from './ai-usage-service';
+import {
+  boardRoomDecisionSchema,
+  narrativeStages,
+  metricCategories,
+  type AIScenarioRequest,
+  type AIInsightRequest,
+  type BoardRoomDecisionPayload,
+  type NarrativeStage
+} from '@shared/schema';
+
+type ContentSource = 'ai' | 'fallback';
+
+export interface ScenarioResult {
+  scenario: BoardRoomDecisionPayload;
+  source: ContentSource;
+}
+
+export interface InsightResult {
+  explanation: string;
+  source: ContentSource;
+}
+
+type Category = typeof metricCategories[number];
+type FallbackOption = BoardRoomDecisionPayload['options'][number];
+
+interface FallbackTemplate {
+  title: string;
+  situation: string;
+  learningObjective: string;
+  options: FallbackOption[];
+}
+
+/**
+ * What each narrative stage is about, used to steer the AI prompt
+ */
+const STAGE_BRIEFS: Record<NarrativeStage, string> = {
+  "Company Establishment": "The CEO has just taken over and must set the company's financial foundations.",
+  "Market Expansion": "The company is ready to grow beyond its first customers and markets.",
+  "Competitive Challenge": "A rival is threatening market share and margins.",
+  "Innovation Decision": "The company must decide how much to bet on new technology or products.",
+  "Economic Downturn": "A recession is squeezing demand and tightening credit.",
+  "Regulatory Issue": "New regulation or an investigation puts pressure on the business.",
+  "Talent Management": "Hiring, retention and compensation are becoming strategic problems.",
+  "Acquisition Opportunity": "A chance to buy another company or be bought has come up.",
+  "International Expansion": "The company is considering moving into overseas markets.",
+  "Legacy Planning": "The CEO is thinking about the long-term future and succession of the company."
+};
+
+/**
+ * Metrics the game applies directly, so the AI should prefer these names
+ */
+const GAME_METRICS = [
+  'EPS', 'PE_Ratio', 'DebtLoad', 'PB_Ratio', 'Beta', 'Volatility', 'RevenueGrowth',
+  'ProfitMargin', 'RSI', 'ROI', 'ReturnOnCapital', 'DividendYield'
+];
+
+/**
+ * Pre-written scenarios used when the AI is unavailable or returns something unusable.
+ * Impacts use the game's own metric names so choices still move the dashboard.
+ */
+const FALLBACK_TEMPLATES: Record<NarrativeStage, FallbackTemplate> = {
+  "Company Establishment": {
+    title: "Initial Funding Strategy",
+    situation: "needs money to fund its first year of operations and growth.",
+    learningObjective: "Equity vs. debt funding and how each affects ownership, risk and returns.",
+    options: [
+      {
+        id: "venture_capital",
+        text: "Raise venture capital by selling a 30% equity stake",
+        impacts: [
+          { metric: "RevenueGrowth", value: 8, category: "Growth" },
+          { metric: "EPS", value: -1, category: "Value" },
+          { metric: "Volatility", value: 5, category: "Momentum" }
+        ],
+        explanation: "Equity funding brings cash without debt, but new shares dilute earnings per share and investors expect fast growth."
+      },
+      {
+        id: "bank_loan",
+        text: "Take out a bank loan and keep full ownership",
+        impacts: [
+          { metric: "DebtLoad", value: 15, category: "Stability" },
+          { metric: "ReturnOnCapital", value: 4, category: "Value" },
+          { metric: "RevenueGrowth", value: 4, category: "Growth" }
+        ],
+        explanation: "Debt keeps ownership intact and can boost returns on capital, but interest payments add risk if growth disappoints."
+      },
+      {
+        id: "bootstrap",
+        text: "Bootstrap from revenue and grow slowly",
+        impacts: [
+          { metric: "ProfitMargin", value: 4, category: "Stability" },
+          { metric: "RevenueGrowth", value: -4, category: "Growth" },
+          { metric: "DebtLoad", value: -5, category: "Stability" }
+        ],
+        explanation: "Self-funding avoids debt and dilution, but limits how quickly the company can invest in growth."
+      }
+    ]
+  },
+  "Market Expansion": {
+    title: "Market Expansion Strategy",
+    situation: "has outgrown its first market and the board wants a growth plan.",
+    learningObjective: "How different growth strategies trade off revenue growth against cost and risk.",
+    options: [
+      {
+        id: "new_regions",
+        text: "Take existing products into new regions",
+        impacts: [
+          { metric: "RevenueGrowth", value: 10, category: "Growth" },
+          { metric: "ProfitMargin", value: -3, category: "Value" },
+          { metric: "Volatility", value: 3, category: "Stability" }
+        ],
+        explanation: "Proven products lower the risk of expansion, but marketing and logistics costs eat into margins at first."
+      },
+      {
+        id: "new_products",
+        text: "Build new product lines for current customers",
+        impacts: [
+          { metric: "RevenueGrowth", value: 6, category: "Growth" },
+          { metric: "ROI", value: -3, category: "Value" },
+          { metric: "RSI", value: 4, category: "Momentum" }
+        ],
+        explanation: "Selling more to existing customers uses what you already know, but R&D spending lowers returns until the products pay off."
+      },
+      {
+        id: "deepen_core",
+        text: "Double down on the core market and win share",
+        impacts: [
+          { metric: "ProfitMargin", value: 3, category: "Stability" },
+          { metric: "RevenueGrowth", value: 3, category: "Growth" },
+          { metric: "Beta", value: -1, category: "Stability" }
+        ],
+        explanation: "Focusing on the core market is lower risk and protects margins, but growth is slower."
+      }
+    ]
+  },
+  "Competitive Challenge": {
+    title: "Responding to a Price War",
+    situation: "is facing a well-funded competitor that just cut prices by 20%.",
+    learningObjective: "Pricing power, profit margins and how competition affects valuation.",
+    options: [
+      {
+        id: "match_prices",
+        text: "Match the competitor's price cuts",
+        impacts: [
+          { metric: "ProfitMargin", value: -6, category: "Value" },
+          { metric: "RevenueGrowth", value: 2, category: "Growth" },
+          { metric: "RSI", value: -5, category: "Momentum" }
+        ],
+        explanation: "Matching prices protects market share, but every sale now earns less and investors notice shrinking margins."
+      },
+      {
+        id: "differentiate",
+        text: "Keep prices and invest in product quality and brand",
+        impacts: [
+          { metric: "ProfitMargin", value: 2, category: "Value" },
+          { metric: "RevenueGrowth", value: -2, category: "Growth" },
+          { metric: "PE_Ratio", value: 3, category: "Momentum" }
+        ],
+        explanation: "Differentiation defends pricing power, which investors reward with a higher valuation even if some customers leave."
+      },
+      {
+        id: "cut_costs",
+        text: "Cut operating costs to stay profitable at lower prices",
+        impacts: [
+          { metric: "ProfitMargin", value: 3, category: "Stability" },
+          { metric: "ReturnOnCapital", value: 3, category: "Value" },
+          { metric: "RevenueGrowth", value: -3, category: "Growth" }
+        ],
+        explanation: "Running leaner keeps margins healthy, but cost cuts can slow future growth."
+      }
+    ]
+  },
+  "Innovation Decision": {
+    title: "Betting on a New Technology",
+    situation: "has a chance to invest heavily in a technology that could transform the industry.",
+    learningObjective: "Capital expenditure, R&D and why investors pay for future growth.",
+    options: [
+      {
+        id: "all_in",
+        text: "Commit a large share of the budget to the new technology",
+        impacts: [
+          { metric: "RevenueGrowth", value: 10, category: "Growth" },
+          { metric: "EPS", value: -1, category: "Value" },
+          { metric: "Volatility", value: 8, category: "Stability" }
+        ],
+        explanation: "Big R&D bets can unlock growth, but they reduce near-term earnings and make results less predictable."
+      },
+      {
+        id: "pilot",
+        text: "Run a small pilot before committing",
+        impacts: [
+          { metric: "RevenueGrowth", value: 3, category: "Growth" },
+          { metric: "Volatility", value: 1, category: "Stability" },
+          { metric: "RSI", value: 2, category: "Momentum" }
+        ],
+        explanation: "A pilot limits downside while testing the idea, though a competitor could move faster."
+      },
+      {
+        id: "license",
+        text: "License the technology from another company",
+        impacts: [
+          { metric: "ProfitMargin", value: -2, category: "Value" },
+          { metric: "RevenueGrowth", value: 5, category: "Growth" },
+          { metric: "DebtLoad", value: 2, category: "Stability" }
+        ],
+        explanation: "Licensing gets the technology quickly without the R&D risk, but royalty payments reduce margins."
+      }
+    ]
+  },
+  "Economic Downturn": {
+    title: "Weathering a Recession",
+    situation: "is seeing sales fall as a recession hits customers.",
+    learningObjective: "Cash flow, leverage and defensive strategies in a downturn.",
+    options: [
+      {
+        id: "layoffs",
+        text: "Reduce headcount to protect cash",
+        impacts: [
+          { metric: "ProfitMargin", value: 4, category: "Stability" },
+          { metric: "RevenueGrowth", value: -4, category: "Growth" },
+          { metric: "RSI", value: -3, category: "Momentum" }
+        ],
+        explanation: "Cutting costs protects profits in the short term, but it can hurt morale and the ability to grow in the recovery."
+      },
+      {
+        id: "invest_counter_cyclically",
+        text: "Borrow to invest while competitors pull back",
+        impacts: [
+          { metric: "DebtLoad", value: 12, category: "Stability" },
+          { metric: "RevenueGrowth", value: 6, category: "Growth" },
+          { metric: "Beta", value: 1, category: "Momentum" }
+        ],
+        explanation: "Investing in a downturn can win market share cheaply, but extra debt is dangerous if the recession drags on."
+      },
+      {
+        id: "cut_dividend",
+        text: "Suspend the dividend to preserve cash",
+        impacts: [
+          { metric: "DividendYield", value: -2, category: "Value" },
+          { metric: "DebtLoad", value: -4, category: "Stability" },
+          { metric: "RSI", value: -4, category: "Momentum" }
+        ],
+        explanation: "Keeping cash strengthens the balance sheet, but income investors often sell when dividends are cut."
+      }
+    ]
+  },
+  "Regulatory Issue": {
+    title: "New Regulations",
+    situation: "must respond to new rules that raise compliance costs across the industry.",
+    learningObjective: "How regulatory risk affects costs, valuation and investor confidence.",
+    options: [
+      {
+        id: "full_compliance",
+        text: "Invest in full compliance ahead of the deadline",
+        impacts: [
+          { metric: "ProfitMargin", value: -3, category: "Value" },
+          { metric: "Volatility", value: -3, category: "Stability" },
+          { metric: "Beta", value: -1, category: "Stability" }
+        ],
+        explanation: "Compliance costs money now, but lowers legal risk, which makes the stock less volatile."
+      },
+      {
+        id: "lobby",
+        text: "Lobby for changes and delay spending",
+        impacts: [
+          { metric: "ProfitMargin", value: 2, category: "Value" },
+          { metric: "Volatility", value: 5, category: "Stability" },
+          { metric: "PE_Ratio", value: -2, category: "Momentum" }
+        ],
+        explanation: "Delaying saves money in the short run, but the uncertainty makes investors value the company less."
+      },
+      {
+        id: "turn_into_advantage",
+        text: "Turn compliance into a selling point for customers",
+        impacts: [
+          { metric: "RevenueGrowth", value: 3, category: "Growth" },
+          { metric: "ProfitMargin", value: -2, category: "Value" },
+          { metric: "RSI", value: 3, category: "Momentum" }
+        ],
+        explanation: "Marketing compliance as trustworthiness can win customers, offsetting some of the extra cost."
+      }
+    ]
+  },
+  "Talent Management": {
+    title: "Keeping Key Talent",
+    situation: "is losing top engineers and managers to better-paying rivals.",
+    learningObjective: "Stock-based compensation, dilution and the cost of employee turnover.",
+    options: [
+      {
+        id: "stock_options",
+        text: "Offer generous stock options to key staff",
+        impacts: [
+          { metric: "EPS", value: -1, category: "Value" },
+          { metric: "RevenueGrowth", value: 4, category: "Growth" },
+          { metric: "RSI", value: 2, category: "Momentum" }
+        ],
+        explanation: "Stock options align employees with shareholders, but issuing new shares dilutes earnings per share."
+      },
+      {
+        id: "raise_salaries",
+        text: "Raise salaries across the board",
+        impacts: [
+          { metric: "ProfitMargin", value: -4, category: "Value" },
+          { metric: "Volatility", value: -2, category: "Stability" },
+          { metric: "RevenueGrowth", value: 2, category: "Growth" }
+        ],
+        explanation: "Higher pay keeps the team stable but is a permanent increase in operating costs."
+      },
+      {
+        id: "train_internally",
+        text: "Build an internal training program to grow talent",
+        impacts: [
+          { metric: "ProfitMargin", value: -1, category: "Value" },
+          { metric: "ReturnOnCapital", value: 2, category: "Stability" },
+          { metric: "RevenueGrowth", value: -1, category: "Growth" }
+        ],
+        explanation: "Training is cheaper long term, but it takes time before new talent is productive."
+      }
+    ]
+  },
+  "Acquisition Opportunity": {
+    title: "Acquiring a Competitor",
+    situation: "has the chance to acquire a smaller competitor with complementary products.",
+    learningObjective: "Mergers and acquisitions, synergies and how deals are financed.",
+    options: [
+      {
+        id: "debt_financed_deal",
+        text: "Buy the competitor with borrowed money",
+        impacts: [
+          { metric: "DebtLoad", value: 18, category: "Stability" },
+          { metric: "RevenueGrowth", value: 8, category: "Growth" },
+          { metric: "EPS", value: 1, category: "Value" }
+        ],
+        explanation: "Debt-financed deals can add to earnings right away, but they leave the company more leveraged."
+      },
+      {
+        id: "stock_deal",
+        text: "Pay for the deal with company shares",
+        impacts: [
+          { metric: "EPS", value: -1, category: "Value" },
+          { metric: "RevenueGrowth", value: 7, category: "Growth" },
+          { metric: "PB_Ratio", value: -1, category: "Value" }
+        ],
+        explanation: "Paying in stock avoids debt, but the extra shares dilute existing shareholders."
+      },
+      {
+        id: "walk_away",
+        text: "Walk away and buy back shares instead",
+        impacts: [
+          { metric: "EPS", value: 1, category: "Value" },
+          { metric: "RevenueGrowth", value: -2, category: "Growth" },
+          { metric: "RSI", value: 3, category: "Momentum" }
+        ],
+        explanation: "Buybacks reduce the share count and lift EPS, but give up the growth the acquisition could have brought."
+      }
+    ]
+  },
+  "International Expansion": {
+    title: "Going Global",
+    situation: "is considering its first major move into overseas markets.",
+    learningObjective: "Currency risk, international growth and the cost of entering new markets.",
+    options: [
+      {
+        id: "direct_entry",
+        text: "Open offices and operate directly abroad",
+        impacts: [
+          { metric: "RevenueGrowth", value: 9, category: "Growth" },
+          { metric: "Volatility", value: 5, category: "Stability" },
+          { metric: "ProfitMargin", value: -3, category: "Value" }
+        ],
+        explanation: "Direct entry captures the most upside, but brings currency swings and high set-up costs."
+      },
+      {
+        id: "joint_venture",
+        text: "Form a joint venture with a local partner",
+        impacts: [
+          { metric: "RevenueGrowth", value: 5, category: "Growth" },
+          { metric: "ProfitMargin", value: -1, category: "Value" },
+          { metric: "Volatility", value: 2, category: "Stability" }
+        ],
+        explanation: "A local partner reduces risk and speeds up entry, but profits are shared."
+      },
+      {
+        id: "export_only",
+        text: "Sell abroad through distributors only",
+        impacts: [
+          { metric: "RevenueGrowth", value: 3, category: "Growth" },
+          { metric: "ProfitMargin", value: 1, category: "Value" },
+          { metric: "Beta", value: -1, category: "Stability" }
+        ],
+        explanation: "Exporting is low cost and low risk, but gives the company little control over its brand abroad."
+      }
+    ]
+  },
+  "Legacy Planning": {
+    title: "Planning for the Future",
+    situation: "is mature and the board wants a long-term plan for shareholders.",
+    learningObjective: "Capital allocation: dividends, buybacks and reinvestment.",
+    options: [
+      {
+        id: "raise_dividend",
+        text: "Commit to a rising dividend",
+        impacts: [
+          { metric: "DividendYield", value: 2, category: "Value" },
+          { metric: "Volatility", value: -3, category: "Stability" },
+          { metric: "RevenueGrowth", value: -2, category: "Growth" }
+        ],
+        explanation: "Reliable dividends attract long-term investors and steady the stock, but leave less money for growth."
+      },
+      {
+        id: "reinvest",
+        text: "Reinvest profits into new ventures",
+        impacts: [
+          { metric: "RevenueGrowth", value: 6, category: "Growth" },
+          { metric: "DividendYield", value: -1, category: "Value" },
+          { metric: "Volatility", value: 3, category: "Stability" }
+        ],
+        explanation: "Reinvesting can keep the company growing, but results are less certain than paying shareholders directly."
+      },
+      {
+        id: "pay_down_debt",
+        text: "Pay down debt to strengthen the balance sheet",
+        impacts: [
+          { metric: "DebtLoad", value: -12, category: "Stability" },
+          { metric: "Beta", value: -1, category: "Stability" },
+          { metric: "ROI", value: -1, category: "Value" }
+        ],
+        explanation: "Less debt means less risk in bad years, though returns on equity dip without leverage."
+      }
+    ]
+  }
+};
+
+/**
+ * Lower-case, underscore separated id fragment
+ */
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+class BoardRoomService {
+  /**
+   * Generate the next Board Room scenario for the given stage, falling back to
+   * pre-written content when the AI is unavailable or returns an invalid decision
+   */
+  async generateScenario(request: AIScenarioRequest, caller: AICaller): Promise<ScenarioResult> {
+    try {
+      const completion = await llmProvider.complete(
+        buildAIMessages(this.buildScenarioPrompt(request), { gameMode: true, gameRole: 'CEO Simulator' }),
+        { json: true, maxTokens: 800, temperature: 0.8 }
+      );
+      await aiUsageService.record(caller, 'ai-scenario', completion);
+
+      const candidate = extractJson(completion.content) as Record<string, unknown>;
+      // The stage is decided by the game, not the model
+      const parsed = boardRoomDecisionSchema.safeParse({ ...candidate, stage: request.stage });
+
+      if (!parsed.success) {
+        console.warn('[board-room] AI scenario failed validation:', parsed.error.errors[0]?.message);
+        return { scenario: this.buildFallbackScenario(request), source: 'fallback' };
+      }
+
+      return { scenario: parsed.data, source: 'ai' };
+    } catch (error) {
+      console.warn('[board-room] Falling back to pre-written scenario:', error instanceof Error ? error.message : error);
+      return { scenario: this.buildFallbackScenario(request), source: 'fallback' };
+    }
+  }
+
+  /**
+   * Explain why a decision moved a metric, falling back to a templated explanation
+   */
+  async generateInsight(request: AIInsightRequest, caller: AICaller): Promise<InsightResult> {
+    const { metric, change, playerChoice } = request;
+    const prompt = `Explain in 2-3 sentences why a CEO's decision to "${playerChoice}" ` +
+      `would cause the company's ${metric} to change by ${change > 0 ? '+' : ''}${change}%. ` +
+      `Make this explanation educational but conversational, as if a financial advisor ` +
+      `is explaining it to a new investor. Respond with plain text only.`;
+
+    try {
+      const completion = await llmProvider.complete(buildAIMessages(prompt), { maxTokens: 300 });
+      await aiUsageService.record(caller, 'ai-insight', completion);
+      const explanation = completion.content.trim();
+      if (!explanation) {
+        return { explanation: this.buildFallbackInsight(request), source: 'fallback' };
+      }
+      return { explanation, source: 'ai' };
+    } catch (error) {
+      console.warn('[board-room] Falling back to templated insight:', error instanceof Error ? error.message : error);
+      return { explanation: this.buildFallbackInsight(request), source: 'fallback' };
+    }
+  }
+
+  /**
+   * Build the scenario prompt from the narrative stage, industry, metrics and decision history
+   */
+  buildScenarioPrompt({ playerName, companyName, industry, stage, metrics, decisions }: AIScenarioRequest): string {
+    const stageNumber = narrativeStages.indexOf(stage) + 1;
+    const metricsText = Object.entries(metrics)
+      .map(([key, value]) => `${key}: ${Number(value.toFixed(2))}`)
+      .join(', ');
+    const historyText = decisions.length > 0
+      ? decisions.map(d =>
+          `- ${d.title} (chose ${d.selectedOptionId}): ${d.impacts.map(i => `${i.metric} ${i.value > 0 ? '+' : ''}${i.value}`).join(', ')}`
+        ).join('\n')
+      : '- None yet, this is the first decision';
+    const { weakest, strongest } = this.rankCategories(metrics);
+
+    return `
+The player is ${playerName}, CEO of ${companyName} in the ${industry} industry.
+
+Narrative stage ${stageNumber} of ${narrativeStages.length}: "${stage}". ${STAGE_BRIEFS[stage]}
+
+Current company metrics:
+${metricsText}
+
+The company is strongest in ${strongest} and weakest in ${weakest}.
+
+Previous decisions:
+${historyText}
+
+Generate the next business scenario. It must fit the "${stage}" stage, be specific to the ${industry} industry,
+follow logically from the previous decisions, and give the player a real trade-off involving ${weakest}.
+
+Respond with ONLY a JSON object with these fields:
+- id: unique snake_case ID string
+- title: short title for the decision
+- description: 1-2 paragraph scenario description
+- stage: "${stage}"
+- learningObjective: brief financial literacy concept being taught
+- options: array of 2-3 options, each with:
+  - id: unique snake_case ID string
+  - text: description of the option
+  - impacts: array of 1-4 impacts, each with:
+    - metric: one of ${GAME_METRICS.join(', ')}
+    - value: integer impact between -30 and 30
+    - category: one of ${metricCategories.map(c => `"${c}"`).join(', ')}
+  - explanation: brief explanation of why this choice impacts the metrics
+`.trim();
+  }
+
+  /**
+   * Deterministic scenario for a stage, personalised with the company and its weakest area
+   */
+  buildFallbackScenario({ companyName, industry, stage, metrics, decisions }: AIScenarioRequest): BoardRoomDecisionPayload {
+    const template = FALLBACK_TEMPLATES[stage];
+    const { weakest } = this.rankCategories(metrics);
+    const round = decisions.length + 1;
+
+    return {
+      id: `${slugify(stage)}_${round}`,
+      title: template.title,
+      description: `${companyName}, your ${industry.toLowerCase()} company, ${template.situation} ` +
+        `With ${weakest} currently the company's weakest area at ${Math.round(metrics[weakest])}/100, ` +
+        `the board is watching how this decision affects it.`,
+      stage,
+      learningObjective: template.learningObjective,
+      options: template.options.map(option => ({
+        ...option,
+        id: `${option.id}_${round}`,
+        impacts: option.impacts.map(impact => ({ ...impact }))
+      }))
+    };
+  }
+
+  /**
+   * Templated explanation based on the direction of the change
+   */
+  buildFallbackInsight({ metric, change, playerChoice }: AIInsightRequest): string {
+    const choice = playerChoice.charAt(0).toLowerCase() + playerChoice.slice(1);
+    return change > 0
+      ? `Choosing to ${choice} typically improves ${metric} by increasing efficiency and creating new opportunities.`
+      : `While choosing to ${choice} may serve other strategic goals, it often negatively impacts ${metric} due to increased costs or market adjustments.`;
+  }
+
+  private rankCategories(metrics: AIScenarioRequest['metrics']): { weakest: Category; strongest: Category } {
+    const ranked = [...metricCategories].sort((a, b) => metrics[a] - metrics[b]);
+    return { weakest: ranked[0], strongest: ranked[ranked.length - 1] };
+  }
+}
+
+export const boardRoomService = new BoardRoomService();
@@ -0,0 +1,246 @@
+import { storage } from '../storage';
+import { portfolioService, PortfolioError, TRADE_FEE } from './portfolio-service';
+import { marketPriceService } from './market-price-service';
+import type { RefreshSummary } from './market-data-refresh-service';
+import type {
+  CreateInvestmentPlanRequest,
+  InvestmentPlan,
+  InvestmentPlanRun,
+  PlanAllocation,
+  PlanFrequency,
+  PlanPurchase,
+  PlanRunStatus,
+  UpdateInvestmentPlanRequest
+} from '@shared/schema';
+import { toClosingHistory } from '@shared/scoring/statement-metrics';
+import {
+  compareWithLumpSum,
+  nextScheduledDate,
+  type InvestmentPlanHistory
+} from '@shared/scoring/dollar-cost-averaging';
+
+/**
+ * Most plans one user can have
+ */
+const MAX_PLANS = 10;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const dayBefore = (date: string) => toIsoDate(new Date(new Date(`${date}T00:00:00Z`).getTime() - 24 * 60 * 60 * 1000));
+
+/**
+ * Recurring buys (dollar-cost averaging). The investment-plans job runs every
+ * plan that has come due, buying through the portfolio service at market
+ * prices so each buy follows the same rules as a manual one, and records what
+ * each run bought.
+ */
+export class InvestmentPlanService {
+  /**
+   * Get the user's plans, oldest first
+   */
+  async getPlans(userId: number): Promise<InvestmentPlan[]> {
+    const portfolio = await portfolioService.getPortfolio(userId);
+    return storage.getInvestmentPlansByPortfolioId(portfolio.id);
+  }
+
+  /**
+   * Start a plan. Its first run is on the start date, today if none is given.
+   */
+  async createPlan(userId: number, request: CreateInvestmentPlanRequest): Promise<InvestmentPlan> {
+    const portfolio = await portfolioService.getPortfolio(userId);
+    const existing = await storage.getInvestmentPlansByPortfolioId(portfolio.id);
+    if (existing.length >= MAX_PLANS) {
+      throw new PortfolioError(`You can have at most ${MAX_PLANS} investment plans`);
+    }
+
+    const today = toIsoDate(new Date());
+    const startDate = request.startDate ?? today;
+    if (startDate < today) {
+      throw new PortfolioError("Start date can't be in the past");
+    }
+    this.checkAmount(request.amount, request.allocations);
+
+    const now = new Date();
+    const plan = await storage.createInvestmentPlan({
+      portfolioId: portfolio.id,
+      name: request.name ?? request.allocations.map(allocation => allocation.ticker).join(', '),
+      allocations: request.allocations,
+      amount: request.amount,
+      frequency: request.frequency,
+      startDate,
+      nextRunDate: startDate,
+      active: true,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    console.log(`[plans] User ${userId} started ${plan.frequency} plan ${plan.id} of $${plan.amount} in ${plan.name}`);
+    return plan;
+  }
+
+  /**
+   * Change a plan's stocks, amount or frequency, or pause and resume it.
+   * A new frequency or a resumed plan runs next on the schedule's first date after today.
+   */
+  async updatePlan(userId: number, planId: number, changes: UpdateInvestmentPlanRequest): Promise<InvestmentPlan> {
+    const plan = await this.getOwnPlan(userId, planId);
+    const allocations = changes.allocations ?? (plan.allocations as PlanAllocation[]);
+    this.checkAmount(changes.amount ?? plan.amount, allocations);
+
+    const frequency = (changes.frequency ?? plan.frequency) as PlanFrequency;
+    const reschedule = (changes.frequency && changes.frequency !== plan.frequency) || (changes.active && !plan.active);
+    const today = toIsoDate(new Date());
+    // A plan that already ran today doesn't run again until a later date
+    const after = plan.nextRunDate > today ? today : dayBefore(today);
+
+    // A plan that hasn't made its first run stays on its start date
+    const started = plan.startDate < today || plan.nextRunDate !== plan.startDate;
+
+    const updated = await storage.updateInvestmentPlan(plan.id, {
+      ...changes,
+      nextRunDate: reschedule && started
+        ? nextScheduledDate(plan.startDate, frequency, after)
+        : plan.nextRunDate,
+      updatedAt: new Date()
+    });
+    return updated ?? plan;
+  }
+
+  /**
+   * Delete a plan and its run history. Its buys stay in the trade ledger.
+   */
+  async deletePlan(userId: number, planId: number): Promise<void> {
+    const plan = await this.getOwnPlan(userId, planId);
+    await storage.deleteInvestmentPlan(plan.id);
+  }
+
+  /**
+   * A plan's runs and how its buys compare with a lump sum on the first run date
+   */
+  async getHistory(userId: number, planId: number): Promise<InvestmentPlanHistory> {
+    const plan = await this.getOwnPlan(userId, planId);
+    const runs = await storage.getInvestmentPlanRuns(plan.id);
+
+    const tickers = Array.from(new Set(runs.flatMap(run => (run.purchases as PlanPurchase[]).map(purchase => purchase.ticker))));
+    const [stocks, detailedData] = await Promise.all([
+      Promise.all(tickers.map(ticker => storage.getStock(ticker))),
+      storage.getStockDetailedData(tickers)
+    ]);
+
+    const prices: Record<string, number> = {};
+    stocks.forEach(stock => {
+      const price = Number(stock?.currentPrice);
+      if (stock && stock.currentPrice !== null && price > 0) prices[stock.ticker] = price;
+    });
+    const history = Object.fromEntries(detailedData.map(data => [data.ticker, toClosingHistory(data.closingHistory)]));
+
+    return { plan, runs, comparison: compareWithLumpSum({ runs, history, prices, tradeFee: TRADE_FEE }) };
+  }
+
+  /**
+   * Run every active plan that has come due, for the investment-plans job.
+   * A plan that missed several dates while the server was down runs once.
+   */
+  async runDuePlans(): Promise<RefreshSummary> {
+    const today = toIsoDate(new Date());
+    const [plans, portfolios] = await Promise.all([storage.getDueInvestmentPlans(today), storage.getPortfolios()]);
+    const userIds = new Map(portfolios.map(portfolio => [portfolio.id, portfolio.userId]));
+    const summary: RefreshSummary = { updated: 0, failed: [] };
+
+    for (const plan of plans) {
+      const userId = userIds.get(plan.portfolioId);
+      if (userId === undefined) continue;
+
+      try {
+        if (await this.runPlan(plan, userId, today)) summary.updated++;
+      } catch (error) {
+        console.error(`[plans] Failed to run plan ${plan.id}:`, error);
+        summary.failed.push(`plan ${plan.id}`);
+      }
+    }
+
+    return summary;
+  }
+
+  // Buy each ticker's share of the amount; a run without the cash for all of it buys nothing.
+  // Claiming the run, its buys and its record commit together, so a run happens exactly once
+  // and a failure part way leaves the plan due to run again. Undefined if the run was already claimed.
+  private async runPlan(plan: InvestmentPlan, userId: number, today: string): Promise<InvestmentPlanRun | undefined> {
+    const allocations = plan.allocations as PlanAllocation[];
+    const prices = await marketPriceService.getPrices(allocations.map(allocation => allocation.ticker));
+
+    const { result: run } = await portfolioService.transact(userId, async trades => {
+      const claimed = await trades.storage.updateDueInvestmentPlan(plan.id, plan.nextRunDate, {
+        nextRunDate: nextScheduledDate(plan.startDate, plan.frequency as PlanFrequency, today),
+        updatedAt: new Date()
+      });
+      if (!claimed) return undefined;
+
+      const purchases: PlanPurchase[] = [];
+      const skipped: string[] = [];
+      const record = (status: PlanRunStatus, reason: string | null) => trades.storage.createInvestmentPlanRun({
+        planId: plan.id,
+        runDate: plan.nextRunDate,
+        status,
+        purchases,
+        reason,
+        executedAt: new Date()
+      });
+
+      const cash = (await trades.storage.getPortfolioByUserId(userId))?.cash ?? 0;
+      if (plan.amount > cash) {
+        console.log(`[plans] Skipped plan ${plan.id}: not enough cash`);
+        return record('skipped', `Not enough cash: $${cash.toFixed(2)} available`);
+      }
+
+      for (const allocation of allocations) {
+        const amount = Math.floor(plan.amount * allocation.weight) / 100;
+        const price = prices.get(allocation.ticker);
+        if (price === undefined) {
+          skipped.push(`${allocation.ticker}: no current price`);
+          continue;
+        }
+
+        try {
+          const transaction = await trades.buy({ ticker: allocation.ticker, amount }, price);
+          purchases.push({
+            ticker: allocation.ticker,
+            amount,
+            shares: transaction.shares,
+            price: transaction.price,
+            transactionId: transaction.id
+          });
+        } catch (error) {
+          if (!(error instanceof PortfolioError)) throw error;
+          skipped.push(`${allocation.ticker}: ${error.message}`);
+        }
+      }
+
+      const status: PlanRunStatus = skipped.length === 0 ? 'executed' : purchases.length > 0 ? 'partial' : 'skipped';
+      console.log(`[plans] Ran plan ${plan.id} for user ${userId}: ${purchases.length} buys, ${skipped.length} skipped`);
+      return record(status, skipped.length > 0 ? skipped.join('; ') : null);
+    });
+
+    return run;
+  }
+
+  // Every ticker's share has to cover the trade fee
+  private checkAmount(amount: number, allocations: PlanAllocation[]) {
+    const smallest = Math.min(...allocations.map(allocation => (amount * allocation.weight) / 100));
+    if (smallest <= TRADE_FEE) {
+      throw new PortfolioError(`Each stock's share of the amount must be more than the $${TRADE_FEE.toFixed(2)} trade fee`);
+    }
+  }
+
+  private async getOwnPlan(userId: number, planId: number): Promise<InvestmentPlan> {
+    const portfolio = await portfolioService.getPortfolio(userId);
+    const plan = await storage.getInvestmentPlan(planId);
+
+    if (!plan || plan.portfolioId !== portfolio.id) {
+      throw new PortfolioError('Investment plan not found', 404);
+    }
+    return plan;
+  }
+}
+
+export const investmentPlanService = new InvestmentPlanService();
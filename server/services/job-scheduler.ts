@@ -0,0 +1,220 @@
+import cron from 'node-cron';
+import { jobNames, type JobName, type JobRun, type JobTrigger } from '@shared/schema';
+import { storage } from '../storage';
+import { marketDataRefreshService, type RefreshSummary } from './market-data-refresh-service';
+import { portfolioPerformanceService } from './portfolio-performance-service';
+import { orderService } from './order-service';
+import { investmentPlanService } from './investment-plan-service';
+
+/**
+ * Schedules run in US market time
+ */
+const JOB_TIMEZONE = 'America/New_York';
+
+/**
+ * Most job runs returned by one history request
+ */
+export const MAX_JOB_RUNS = 200;
+
+interface JobDefinition {
+  // node-cron expression, in JOB_TIMEZONE
+  schedule: string;
+  description: string;
+  run: () => Promise<RefreshSummary>;
+  // Rebuild sector metrics after the run, for jobs that change stock prices or fundamentals
+  recomputesSectors?: boolean;
+}
+
+const JOBS: Record<JobName, JobDefinition> = {
+  'intraday-prices': {
+    schedule: '*/15 9-16 * * 1-5',
+    description: 'Latest prices for the universe and the S&P 500, every 15 minutes during US market hours',
+    run: () => marketDataRefreshService.refreshPrices(),
+    recomputesSectors: true
+  },
+  'fundamentals': {
+    schedule: '0 1 * * 2-6',
+    description: 'Key statistics, company profiles and annual statements, nightly after each trading day',
+    run: () => marketDataRefreshService.refreshFundamentals(),
+    recomputesSectors: true
+  },
+  'analyst-data': {
+    schedule: '0 2 * * *',
+    description: 'Analyst recommendation trends and upgrades/downgrades, nightly',
+    run: () => marketDataRefreshService.refreshAnalystData()
+  },
+  'earnings-dates': {
+    schedule: '30 2 * * *',
+    description: 'Upcoming earnings dates, earnings history and estimate trends, nightly',
+    run: () => marketDataRefreshService.refreshEarningsDates()
+  },
+  'portfolio-snapshots': {
+    schedule: '0 17 * * 1-5',
+    description: 'Values every portfolio at the closing prices for performance reporting, after each trading day',
+    run: () => portfolioPerformanceService.snapshotAll()
+  },
+  'pending-orders': {
+    schedule: '*/5 9-16 * * 1-5',
+    description: 'Fills limit, stop-loss and take-profit orders their latest price triggers and expires day orders, every 5 minutes during US market hours',
+    run: () => orderService.evaluateOrders()
+  },
+  'investment-plans': {
+    schedule: '30 10 * * 1-5',
+    description: 'Makes the recurring buys of every investment plan that has come due, each weekday morning',
+    run: () => investmentPlanService.runDuePlans()
+  }
+};
+
+/**
+ * Error raised for job requests that can't be served, carrying the HTTP status to respond with
+ */
+export class JobError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+export interface JobStatus {
+  job: JobName;
+  description: string;
+  schedule: string;
+  timezone: string;
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+export class JobScheduler {
+  private tasks: cron.ScheduledTask[] = [];
+  // Jobs with a run in progress; a job never runs twice at once
+  private running = new Set<JobName>();
+
+  /**
+   * Schedule every job. Set DISABLE_MARKET_DATA_JOBS=true to leave them to manual runs.
+   */
+  start() {
+    if (process.env.DISABLE_MARKET_DATA_JOBS === 'true' || this.tasks.length > 0) return;
+
+    for (const job of jobNames) {
+      this.tasks.push(cron.schedule(JOBS[job].schedule, () => {
+        this.runJob(job, 'schedule').catch(error => {
+          console.error(`[jobs] Scheduled ${job} run failed to start:`, error);
+        });
+      }, { timezone: JOB_TIMEZONE }));
+    }
+    console.log(`[jobs] Scheduled ${jobNames.length} market data jobs (${JOB_TIMEZONE})`);
+  }
+
+  stop() {
+    this.tasks.forEach(task => task.stop());
+    this.tasks = [];
+  }
+
+  async listJobs(): Promise<JobStatus[]> {
+    return Promise.all(jobNames.map(async job => {
+      const [lastRun] = await storage.getJobRuns(job, 1);
+      return {
+        job,
+        description: JOBS[job].description,
+        schedule: JOBS[job].schedule,
+        timezone: JOB_TIMEZONE,
+        running: this.running.has(job),
+        lastRun: lastRun ?? null
+      };
+    }));
+  }
+
+  /**
+   * Recent runs, newest first, optionally for one job
+   * @throws JobError (404) if the job doesn't exist
+   */
+  async getRuns(job?: string, limit: number = 50): Promise<JobRun[]> {
+    if (job) this.getJobName(job);
+    return storage.getJobRuns(job, Math.min(Math.max(1, limit), MAX_JOB_RUNS));
+  }
+
+  /**
+   * Start a job now without waiting for it to finish
+   * @returns the new run, still marked running
+   * @throws JobError (404) if the job doesn't exist, (409) if it is already running
+   */
+  async triggerJob(job: string): Promise<JobRun> {
+    const { run, finished } = await this.startRun(this.getJobName(job), 'manual');
+    finished.catch(error => console.error(`[jobs] Manual ${job} run failed:`, error));
+    return run;
+  }
+
+  /**
+   * Run a job to completion
+   * @returns the finished run, with its status and duration
+   */
+  async runJob(job: JobName, trigger: JobTrigger): Promise<JobRun> {
+    const { finished } = await this.startRun(job, trigger);
+    return finished;
+  }
+
+  private getJobName(job: string): JobName {
+    if (!jobNames.includes(job as JobName)) {
+      throw new JobError(`Unknown job "${job}", expected one of ${jobNames.join(', ')}`, 404);
+    }
+    return job as JobName;
+  }
+
+  private async startRun(job: JobName, trigger: JobTrigger): Promise<{ run: JobRun; finished: Promise<JobRun> }> {
+    if (this.running.has(job)) {
+      throw new JobError(`${job} is already running`, 409);
+    }
+    this.running.add(job);
+
+    try {
+      const run = await storage.createJobRun({
+        job,
+        trigger,
+        status: 'running',
+        startedAt: new Date(),
+        finishedAt: null,
+        durationMs: null,
+        summary: null,
+        error: null
+      });
+      return { run, finished: this.execute(job, run) };
+    } catch (error) {
+      this.running.delete(job);
+      throw error;
+    }
+  }
+
+  // Run the job and any sector recompute, then record how it went
+  private async execute(job: JobName, run: JobRun): Promise<JobRun> {
+    let result: Partial<JobRun>;
+    try {
+      let summary: object = await JOBS[job].run();
+      if (JOBS[job].recomputesSectors) summary = { ...summary, ...await this.recomputeSectors() };
+      result = { status: 'succeeded', summary };
+    } catch (error) {
+      console.error(`[jobs] ${job} failed:`, error);
+      result = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.running.delete(job);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - run.startedAt.getTime();
+    const updated = await storage.updateJobRun(run.id, { ...result, finishedAt, durationMs });
+    console.log(`[jobs] ${job} ${result.status} in ${durationMs}ms`);
+    return updated ?? run;
+  }
+
+  // The job's own work has already been saved, so a failed recompute is noted in its summary
+  // instead of failing the run
+  private async recomputeSectors(): Promise<{ sectors: number } | { sectorsError: string }> {
+    try {
+      return { sectors: await marketDataRefreshService.recomputeSectorMetrics() };
+    } catch (error) {
+      console.error('[jobs] Sector recompute failed:', error);
+      return { sectorsError: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,139 @@
+import type { ChartSource } from '@shared/schema';
+import { yahooFinanceService, type RealTimeQuote } from './yahoo-finance-service';
+
+/**
+ * Most symbols one batch request can ask for
+ */
+export const MAX_BATCH_SYMBOLS = 50;
+
+/**
+ * Charts fetched from upstream at the same time for one batch request
+ */
+const CHART_CONCURRENCY = 4;
+
+/**
+ * Most symbols requested in one Yahoo Finance quote call
+ */
+const QUOTE_BATCH_SIZE = 25;
+const QUOTE_CONCURRENCY = 2;
+
+// Tickers like AAPL, BRK-B, ^GSPC or EURUSD=X
+const SYMBOL_PATTERN = /^[A-Z0-9.^=-]{1,15}$/;
+
+/**
+ * Error raised for batch requests that can't be served, carrying the HTTP status to respond with
+ */
+export class MarketDataBatchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MarketDataBatchError';
+  }
+}
+
+/**
+ * Results keyed by symbol. A symbol that failed is in errors, with why, instead of in the results.
+ */
+export interface QuoteBatch {
+  quotes: Record<string, RealTimeQuote>;
+  errors: Record<string, string>;
+}
+
+export interface ChartBatch {
+  range: string;
+  interval: string;
+  charts: Record<string, unknown>;
+  errors: Record<string, string>;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Run task over every item with at most `limit` running at once, keeping the results in order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export class MarketDataBatchService {
+  /**
+   * Real-time quotes for several symbols, fetched in a few upstream calls
+   * @throws MarketDataBatchError if the symbol list is empty, too long or malformed
+   */
+  async getQuotes(symbols: string[]): Promise<QuoteBatch> {
+    const unique = this.normalizeSymbols(symbols);
+    const batch: QuoteBatch = { quotes: {}, errors: {} };
+
+    const chunks: string[][] = [];
+    for (let start = 0; start < unique.length; start += QUOTE_BATCH_SIZE) {
+      chunks.push(unique.slice(start, start + QUOTE_BATCH_SIZE));
+    }
+
+    await mapWithConcurrency(chunks, QUOTE_CONCURRENCY, async chunk => {
+      try {
+        const quotes = await yahooFinanceService.getQuotes(chunk);
+        chunk.forEach(symbol => {
+          const quote = quotes.get(symbol);
+          if (quote) batch.quotes[symbol] = quote;
+          else batch.errors[symbol] = `No data found for symbol ${symbol}`;
+        });
+      } catch (error) {
+        console.error(`[market-data-batch] Failed to fetch quotes for ${chunk.join(', ')}:`, error);
+        chunk.forEach(symbol => { batch.errors[symbol] = errorMessage(error); });
+      }
+    });
+
+    return batch;
+  }
+
+  /**
+   * Charts for several symbols over the same range, each served like GET /api/yahoo-finance/chart/:symbol
+   * @throws MarketDataBatchError if the symbol list is empty, too long or malformed
+   */
+  async getCharts(symbols: string[], range: string, interval: string, source: ChartSource): Promise<ChartBatch> {
+    const unique = this.normalizeSymbols(symbols);
+    const batch: ChartBatch = { range, interval, charts: {}, errors: {} };
+
+    await mapWithConcurrency(unique, CHART_CONCURRENCY, async symbol => {
+      try {
+        const chart = await yahooFinanceService.getChartFromSource(symbol, range, interval, source);
+        if (!chart) {
+          batch.errors[symbol] = `No imported price history for ${symbol}`;
+        } else {
+          batch.charts[symbol] = chart.source === 'history' ? chart.data : chart.result.data;
+        }
+      } catch (error) {
+        batch.errors[symbol] = errorMessage(error);
+      }
+    });
+
+    return batch;
+  }
+
+  private normalizeSymbols(symbols: string[]): string[] {
+    const unique = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    if (unique.length === 0) {
+      throw new MarketDataBatchError('At least one symbol is required');
+    }
+    if (unique.length > MAX_BATCH_SYMBOLS) {
+      throw new MarketDataBatchError(`At most ${MAX_BATCH_SYMBOLS} symbols can be requested at once`);
+    }
+    const invalid = unique.filter(symbol => !SYMBOL_PATTERN.test(symbol));
+    if (invalid.length > 0) {
+      throw new MarketDataBatchError(`Invalid symbols: ${invalid.join(', ')}`);
+    }
+    return unique;
+  }
+}
+
+export const marketDataBatchService = new MarketDataBatchService();
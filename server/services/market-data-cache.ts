@@ -0,0 +1,109 @@
+import { storage } from '../storage';
+
+/**
+ * Yahoo Finance endpoints served through the cache
+ */
+export type MarketDataEndpoint = 'chart' | 'chart-intraday' | 'news' | 'recommendations' | 'upgrade-history';
+
+/**
+ * How long each endpoint's responses are served without refetching
+ */
+export const MARKET_DATA_TTLS_MS: Record<MarketDataEndpoint, number> = {
+  'chart': 15 * 60 * 1000,
+  'chart-intraday': 60 * 1000,
+  'news': 15 * 60 * 1000,
+  'recommendations': 6 * 60 * 60 * 1000,
+  'upgrade-history': 12 * 60 * 60 * 1000
+};
+
+/**
+ * hit: served from a fresh cache entry; miss: fetched from upstream;
+ * stale: upstream failed, so an expired entry was served instead
+ */
+export type CacheStatus = 'hit' | 'miss' | 'stale';
+
+export interface CachedData<T> {
+  data: T;
+  status: CacheStatus;
+  // When the data was fetched from upstream
+  updatedAt: Date;
+}
+
+export class MarketDataCache {
+  // Reads in progress, so concurrent requests for the same key share one upstream call
+  private inFlight = new Map<string, Promise<CachedData<unknown>>>();
+
+  /**
+   * Serve a fresh cache entry, or fetch, store and return the upstream data.
+   * If the fetch fails and an expired entry exists, that entry is returned as stale.
+   */
+  read<T>(
+    endpoint: MarketDataEndpoint,
+    symbol: string,
+    params: Record<string, string | number>,
+    fetchData: () => Promise<T>
+  ): Promise<CachedData<T>> {
+    const cacheKey = this.getCacheKey(endpoint, symbol, params);
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending as Promise<CachedData<T>>;
+    }
+
+    const request = this.readThrough(cacheKey, endpoint, symbol, fetchData)
+      .finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Key entries by endpoint, symbol and params sorted by name, e.g. chart:AAPL:interval=1d&range=1y
+   */
+  getCacheKey(endpoint: MarketDataEndpoint, symbol: string, params: Record<string, string | number>): string {
+    const query = Object.keys(params)
+      .sort()
+      .map(name => `${name}=${params[name]}`)
+      .join('&');
+    return `${endpoint}:${symbol.trim().toUpperCase()}:${query}`;
+  }
+
+  private async readThrough<T>(
+    cacheKey: string,
+    endpoint: MarketDataEndpoint,
+    symbol: string,
+    fetchData: () => Promise<T>
+  ): Promise<CachedData<T>> {
+    // A cache that can't be read shouldn't stop the request
+    const entry = await storage.getStockCacheEntry(cacheKey).catch(error => {
+      console.error(`[market-data-cache] Failed to read ${cacheKey}:`, error);
+      return undefined;
+    });
+
+    if (entry && Date.now() - entry.updatedAt.getTime() < MARKET_DATA_TTLS_MS[endpoint]) {
+      return { data: JSON.parse(entry.data) as T, status: 'hit', updatedAt: entry.updatedAt };
+    }
+
+    let data: T;
+    try {
+      data = await fetchData();
+    } catch (error) {
+      if (!entry) throw error;
+      console.warn(`[market-data-cache] Serving stale ${cacheKey} after upstream error:`, error);
+      return { data: JSON.parse(entry.data) as T, status: 'stale', updatedAt: entry.updatedAt };
+    }
+
+    const updatedAt = new Date();
+    await storage.setStockCacheEntry({
+      cacheKey,
+      symbol: symbol.trim().toUpperCase(),
+      endpoint,
+      data: JSON.stringify(data),
+      updatedAt
+    }).catch(error => {
+      console.error(`[market-data-cache] Failed to store ${cacheKey}:`, error);
+    });
+
+    return { data, status: 'miss', updatedAt };
+  }
+}
+
+export const marketDataCache = new MarketDataCache();
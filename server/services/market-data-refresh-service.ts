@@ -0,0 +1,235 @@
+import type { Stock } from '@shared/schema';
+import { storage } from '../storage';
+import { marketDataProvider, type Quote } from '../market-data-provider';
+import { universeService } from './universe-service';
+
+/**
+ * Index refreshed alongside the universe's prices, stored in market_data
+ */
+const BENCHMARK = { symbol: '^GSPC', market: 'SP500', name: 'S&P 500' };
+
+/**
+ * Most symbols requested in one Yahoo Finance quote call
+ */
+const QUOTE_BATCH_SIZE = 50;
+
+/**
+ * What a refresh changed, stored as the job run's summary
+ */
+export interface RefreshSummary {
+  updated: number;
+  // Tickers that couldn't be refreshed
+  failed: string[];
+}
+
+// Yahoo Finance returns Dates inside its modules, which are stored as JSON
+const toJson = (value: unknown) => value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+const toNumeric = (value: number | null | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? String(value) : null;
+
+// Only the fields Yahoo Finance returned, so a missing value doesn't clear the stored one
+function definedFields<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== null && value !== undefined)) as Partial<T>;
+}
+
+const average = (values: number[]) =>
+  values.length ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2)) : null;
+
+export class MarketDataRefreshService {
+  /**
+   * Latest price and market cap for every stock in the universe, plus the S&P 500
+   */
+  async refreshPrices(): Promise<RefreshSummary> {
+    const tickers = await universeService.listTickers();
+    const symbols = [...tickers, BENCHMARK.symbol];
+    const summary: RefreshSummary = { updated: 0, failed: [] };
+
+    for (let start = 0; start < symbols.length; start += QUOTE_BATCH_SIZE) {
+      const batch = symbols.slice(start, start + QUOTE_BATCH_SIZE);
+      let quotes: Quote[];
+      try {
+        quotes = await marketDataProvider.quotes(batch);
+      } catch (error) {
+        console.warn(`[market-data-refresh] Failed to fetch quotes for ${batch.join(', ')}:`, error instanceof Error ? error.message : error);
+        summary.failed.push(...batch);
+        continue;
+      }
+      const quotesBySymbol = new Map(quotes.map(quote => [quote.symbol, quote]));
+
+      for (const symbol of batch) {
+        const quote = quotesBySymbol.get(symbol);
+        if (!quote || quote.regularMarketPrice === undefined) {
+          summary.failed.push(symbol);
+          continue;
+        }
+
+        if (symbol === BENCHMARK.symbol) {
+          await storage.upsertMarketData({
+            market: BENCHMARK.market,
+            name: BENCHMARK.name,
+            metrics: {
+              price: quote.regularMarketPrice,
+              change: quote.regularMarketChange ?? null,
+              changePercent: quote.regularMarketChangePercent ?? null,
+              previousClose: quote.regularMarketPreviousClose ?? null
+            },
+            lastUpdated: new Date()
+          });
+          continue;
+        }
+
+        await storage.updateStock(symbol, definedFields({
+          currentPrice: toNumeric(quote.regularMarketPrice),
+          marketCap: toNumeric(quote.marketCap)
+        }));
+        summary.updated++;
+      }
+    }
+
+    return this.checkSummary(summary);
+  }
+
+  /**
+   * Key statistics, company profile and annual statements for every stock in the universe
+   */
+  async refreshFundamentals(): Promise<RefreshSummary> {
+    return this.refreshEach(async ticker => {
+      const result = await marketDataProvider.quoteSummary(ticker, [
+        'summaryDetail', 'defaultKeyStatistics', 'financialData', 'assetProfile',
+        'incomeStatementHistory', 'balanceSheetHistory', 'cashflowStatementHistory',
+        'institutionOwnership', 'majorHoldersBreakdown'
+      ]);
+      const { summaryDetail, defaultKeyStatistics, assetProfile } = result;
+      const dividendYield = summaryDetail?.dividendYield;
+
+      await storage.updateStock(ticker, definedFields({
+        sector: assetProfile?.sector,
+        marketCap: toNumeric(summaryDetail?.marketCap),
+        // Stored as a percentage, like the swipe cards
+        dividendYield: toNumeric(typeof dividendYield === 'number' ? dividendYield * 100 : null),
+        beta: toNumeric(summaryDetail?.beta),
+        peRatio: toNumeric(summaryDetail?.trailingPE),
+        eps: toNumeric(defaultKeyStatistics?.trailingEps),
+        fiftyTwoWeekHigh: toNumeric(summaryDetail?.fiftyTwoWeekHigh),
+        fiftyTwoWeekLow: toNumeric(summaryDetail?.fiftyTwoWeekLow),
+        averageVolume: toNumeric(summaryDetail?.averageVolume)
+      }));
+      await storage.upsertStockDetailedData({
+        ticker,
+        incomeStatement: toJson(result.incomeStatementHistory?.incomeStatementHistory),
+        balanceSheet: toJson(result.balanceSheetHistory?.balanceSheetStatements),
+        cashFlow: toJson(result.cashflowStatementHistory?.cashflowStatements),
+        financialData: toJson(result.financialData),
+        institutionalHolders: toJson(result.institutionOwnership?.ownershipList),
+        majorHolders: toJson(result.majorHoldersBreakdown)
+      });
+    });
+  }
+
+  /**
+   * Recommendation trends and upgrade/downgrade history for every stock in the universe
+   */
+  async refreshAnalystData(): Promise<RefreshSummary> {
+    return this.refreshEach(async ticker => {
+      const result = await marketDataProvider.quoteSummary(ticker, ['recommendationTrend', 'upgradeDowngradeHistory']);
+      await storage.upsertStockDetailedData({
+        ticker,
+        recommendations: toJson(result.recommendationTrend?.trend),
+        upgradesDowngrades: toJson(result.upgradeDowngradeHistory?.history)
+      });
+    });
+  }
+
+  /**
+   * Upcoming earnings dates, past surprises and estimate trends for every stock in the universe
+   */
+  async refreshEarningsDates(): Promise<RefreshSummary> {
+    return this.refreshEach(async ticker => {
+      const result = await marketDataProvider.quoteSummary(ticker, ['calendarEvents', 'earningsHistory', 'earningsTrend']);
+      await storage.upsertStockDetailedData({
+        ticker,
+        earningsDates: toJson(result.calendarEvents?.earnings?.earningsDate),
+        earningsHistory: toJson(result.earningsHistory?.history),
+        earningsTrend: toJson(result.earningsTrend?.trend)
+      });
+    });
+  }
+
+  /**
+   * Rebuild each sector's metrics from its stocks. Stocks without a sector are grouped by industry.
+   * @returns how many sectors were updated
+   */
+  async recomputeSectorMetrics(): Promise<number> {
+    const stocksBySector = new Map<string, Stock[]>();
+    (await storage.getStocks()).forEach(stock => {
+      const name = stock.sector || stock.industry || 'Other';
+      const stocks = stocksBySector.get(name);
+      if (stocks) stocks.push(stock);
+      else stocksBySector.set(name, [stock]);
+    });
+
+    const existing = new Map((await storage.getSectors()).map(sector => [sector.sectorKey, sector]));
+    const updatedAt = new Date().toISOString();
+
+    for (const [name, sectorStocks] of Array.from(stocksBySector.entries())) {
+      const sectorKey = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+      const values = (field: keyof Stock) => sectorStocks
+        .filter(stock => stock[field] !== null)
+        .map(stock => Number(stock[field]))
+        .filter(value => Number.isFinite(value));
+
+      await storage.upsertSector({
+        sectorKey,
+        name,
+        description: existing.get(sectorKey)?.description ?? null,
+        metrics: {
+          stockCount: sectorStocks.length,
+          tickers: sectorStocks.map(stock => stock.ticker),
+          averagePeRatio: average(values('peRatio').filter(value => value > 0)),
+          averageDividendYield: average(values('dividendYield')),
+          averageBeta: average(values('beta')),
+          totalMarketCap: values('marketCap').reduce((sum, value) => sum + value, 0) || null,
+          updatedAt
+        }
+      });
+      existing.delete(sectorKey);
+    }
+
+    // Sectors whose stocks have all moved elsewhere are emptied rather than left with old numbers
+    for (const sector of Array.from(existing.values())) {
+      await storage.upsertSector({ ...sector, metrics: { stockCount: 0, tickers: [], updatedAt } });
+    }
+
+    return stocksBySector.size;
+  }
+
+  /**
+   * Refresh tickers one at a time so one bad symbol doesn't stop the rest
+   */
+  private async refreshEach(refresh: (ticker: string) => Promise<void>): Promise<RefreshSummary> {
+    const summary: RefreshSummary = { updated: 0, failed: [] };
+
+    for (const ticker of await universeService.listTickers()) {
+      try {
+        await refresh(ticker);
+        summary.updated++;
+      } catch (error) {
+        console.warn(`[market-data-refresh] Failed to refresh ${ticker}:`, error instanceof Error ? error.message : error);
+        summary.failed.push(ticker);
+      }
+    }
+
+    return this.checkSummary(summary);
+  }
+
+  // A refresh where every ticker failed is most likely an upstream outage, so the run fails
+  private checkSummary(summary: RefreshSummary): RefreshSummary {
+    if (summary.updated === 0 && summary.failed.length > 0) {
+      throw new Error(`All ${summary.failed.length} symbols failed to refresh`);
+    }
+    return summary;
+  }
+}
+
+export const marketDataRefreshService = new MarketDataRefreshService();
@@ -0,0 +1,53 @@
+import { storage } from '../storage';
+import { marketDataProvider } from '../market-data-provider';
+
+/**
+ * Most symbols requested in one Yahoo Finance quote call
+ */
+const QUOTE_BATCH_SIZE = 50;
+
+/**
+ * Prices that trades are placed at. Clients never send a price, so every
+ * market trade, order fill and plan buy is priced here on the server.
+ */
+export class MarketPriceService {
+  /**
+   * Fresh quotes, falling back to the stored prices when Yahoo Finance can't be
+   * reached. Tickers with neither are left out.
+   */
+  async getPrices(tickers: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    try {
+      for (let start = 0; start < tickers.length; start += QUOTE_BATCH_SIZE) {
+        const quotes = await marketDataProvider.quotes(tickers.slice(start, start + QUOTE_BATCH_SIZE));
+        quotes.forEach(quote => {
+          if (typeof quote.regularMarketPrice === 'number' && quote.regularMarketPrice > 0) {
+            prices.set(quote.symbol, quote.regularMarketPrice);
+          }
+        });
+      }
+    } catch (error) {
+      console.warn('[prices] Failed to fetch quotes, using stored prices:', error instanceof Error ? error.message : error);
+    }
+
+    const missing = tickers.filter(ticker => !prices.has(ticker));
+    const stocks = await Promise.all(missing.map(ticker => storage.getStock(ticker)));
+    stocks.forEach(stock => {
+      const price = Number(stock?.currentPrice);
+      if (stock && stock.currentPrice !== null && price > 0) prices.set(stock.ticker, price);
+    });
+
+    return prices;
+  }
+
+  /**
+   * The price one ticker trades at right now, or undefined if there is none
+   */
+  async getPrice(ticker: string): Promise<number | undefined> {
+    const prices = await this.getPrices([ticker]);
+    return prices.get(ticker);
+  }
+}
+
+export const marketPriceService = new MarketPriceService();
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { isMarketOpen, isTriggered, nextMarketClose } from "./order-service";
+
+/**
+ * New York is UTC-5 until daylight saving starts on 2024-03-10 and again from
+ * 2024-11-03, and UTC-4 in between, so the session moves an hour in UTC.
+ */
+describe("isMarketOpen", () => {
+  it("follows the 9:30 to 16:00 session in winter time", () => {
+    // Friday 2024-03-08, EST
+    expect(isMarketOpen(new Date("2024-03-08T14:29:00Z"))).toBe(false);
+    expect(isMarketOpen(new Date("2024-03-08T14:30:00Z"))).toBe(true);
+    expect(isMarketOpen(new Date("2024-03-08T20:59:00Z"))).toBe(true);
+    expect(isMarketOpen(new Date("2024-03-08T21:00:00Z"))).toBe(false);
+  });
+
+  it("moves an hour earlier in UTC once daylight saving starts", () => {
+    // Monday 2024-03-11, EDT
+    expect(isMarketOpen(new Date("2024-03-11T13:29:00Z"))).toBe(false);
+    expect(isMarketOpen(new Date("2024-03-11T13:30:00Z"))).toBe(true);
+    expect(isMarketOpen(new Date("2024-03-11T19:59:00Z"))).toBe(true);
+    expect(isMarketOpen(new Date("2024-03-11T20:00:00Z"))).toBe(false);
+  });
+
+  it("is closed on weekends", () => {
+    expect(isMarketOpen(new Date("2024-03-09T15:00:00Z"))).toBe(false);
+    expect(isMarketOpen(new Date("2024-03-10T15:00:00Z"))).toBe(false);
+  });
+});
+
+describe("nextMarketClose", () => {
+  it("is today's close during the session", () => {
+    expect(nextMarketClose(new Date("2024-03-11T15:00:00Z")).toISOString()).toBe("2024-03-11T20:00:00.000Z");
+  });
+
+  it("skips to the next weekday from the close or a weekend", () => {
+    expect(nextMarketClose(new Date("2024-03-11T20:00:00Z")).toISOString()).toBe("2024-03-12T20:00:00.000Z");
+    expect(nextMarketClose(new Date("2024-03-09T15:00:00Z")).toISOString()).toBe("2024-03-11T20:00:00.000Z");
+  });
+
+  it("uses the offset of the closing day across a daylight saving change", () => {
+    // Friday evening in EST to Monday's close in EDT, and back again in November
+    expect(nextMarketClose(new Date("2024-03-08T22:00:00Z")).toISOString()).toBe("2024-03-11T20:00:00.000Z");
+    expect(nextMarketClose(new Date("2024-11-01T21:00:00Z")).toISOString()).toBe("2024-11-04T21:00:00.000Z");
+  });
+});
+
+describe("isTriggered", () => {
+  it("fires buys and stop-losses at or below the trigger, sells at or above it", () => {
+    expect(isTriggered("limit_buy", 100, 100)).toBe(true);
+    expect(isTriggered("limit_buy", 100, 100.01)).toBe(false);
+    expect(isTriggered("stop_loss", 100, 99)).toBe(true);
+    expect(isTriggered("limit_sell", 100, 100)).toBe(true);
+    expect(isTriggered("take_profit", 100, 99.99)).toBe(false);
+  });
+});
@@ -0,0 +1,290 @@
+import { storage, type IStorage } from '../storage';
+import { portfolioService, PortfolioError } from './portfolio-service';
+import { marketPriceService } from './market-price-service';
+import type { RefreshSummary } from './market-data-refresh-service';
+import type {
+  AmendOrderRequest,
+  Order,
+  OrderTimeInForce,
+  OrderType,
+  PlaceOrderRequest,
+  PortfolioWithHoldings
+} from '@shared/schema';
+
+/**
+ * US market hours. Orders only fill during the regular session, and day orders
+ * lapse at its close.
+ */
+const MARKET_TIMEZONE = 'America/New_York';
+const MARKET_OPEN_MINUTES = 9 * 60 + 30;
+const MARKET_CLOSE_HOUR = 16;
+
+const marketClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIMEZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23',
+  weekday: 'short'
+});
+
+// The market's calendar date, wall clock time and UTC offset at an instant
+function marketTime(at: Date) {
+  const parts = Object.fromEntries(marketClock.formatToParts(at).map(part => [part.type, part.value]));
+  const year = Number(parts.year);
+  const month = Number(parts.month) - 1;
+  const day = Number(parts.day);
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+  const offsetMs = Date.UTC(year, month, day, hour, minute) - Math.floor(at.getTime() / 60000) * 60000;
+  return { year, month, day, hour, minute, weekday: parts.weekday, offsetMs };
+}
+
+/**
+ * Whether the regular session, 9:30 to 16:00 New York time on weekdays, is open
+ * at an instant. Like nextMarketClose, exchange holidays count as trading days.
+ */
+export function isMarketOpen(at: Date): boolean {
+  const { hour, minute, weekday } = marketTime(at);
+  const minutes = hour * 60 + minute;
+  return weekday !== 'Sat' && weekday !== 'Sun' && minutes >= MARKET_OPEN_MINUTES && minutes < MARKET_CLOSE_HOUR * 60;
+}
+
+/**
+ * The next weekday market close after an instant. Exchange holidays aren't
+ * known, so an order placed on one lapses at that day's would-be close.
+ */
+export function nextMarketClose(from: Date): Date {
+  let probe = from;
+  for (let i = 0; i < 7; i++) {
+    const { year, month, day, weekday, offsetMs } = marketTime(probe);
+    const close = new Date(Date.UTC(year, month, day, MARKET_CLOSE_HOUR) - offsetMs);
+    if (weekday !== 'Sat' && weekday !== 'Sun' && close > from) return close;
+    // Midday of the next market day, clear of any daylight saving change
+    probe = new Date(Date.UTC(year, month, day + 1, 12) - offsetMs);
+  }
+  throw new Error('No market close within a week');
+}
+
+/**
+ * Whether a price reaches an order's trigger: buys and stop-losses fire at or
+ * below it, limit sells and take-profits at or above it
+ */
+export function isTriggered(type: OrderType, triggerPrice: number, price: number): boolean {
+  return type === 'limit_buy' || type === 'stop_loss' ? price <= triggerPrice : price >= triggerPrice;
+}
+
+// An amend moved the order's trigger away from the price between the check and the fill
+class NotTriggeredError extends Error {}
+
+const expiryFor = (timeInForce: OrderTimeInForce, from: Date) =>
+  timeInForce === 'day' ? nextMarketClose(from) : null;
+
+/**
+ * Pending limit, stop-loss and take-profit orders. The pending-orders job
+ * checks open orders against fresh quotes and fills triggered ones through the
+ * portfolio service at the quoted price, so fills follow the same rules as
+ * market trades and post to the same trade ledger.
+ */
+export class OrderService {
+  /**
+   * Get the user's orders, newest first
+   */
+  async getOrders(userId: number): Promise<Order[]> {
+    const portfolio = await portfolioService.getPortfolio(userId);
+    return storage.getOrdersByPortfolioId(portfolio.id);
+  }
+
+  /**
+   * Place a pending order. Cash and shares aren't set aside, so they are checked
+   * again when the order fills.
+   */
+  async placeOrder(userId: number, request: PlaceOrderRequest): Promise<Order> {
+    const portfolio = await portfolioService.getPortfolio(userId);
+    this.checkFunds(portfolio, request.type, request.ticker, request.amount, request.shares);
+
+    const now = new Date();
+    const order = await storage.createOrder({
+      portfolioId: portfolio.id,
+      ticker: request.ticker,
+      type: request.type,
+      triggerPrice: request.triggerPrice,
+      amount: request.type === 'limit_buy' ? request.amount! : null,
+      shares: request.type === 'limit_buy' ? null : request.shares!,
+      timeInForce: request.timeInForce,
+      status: 'open',
+      statusReason: null,
+      expiresAt: expiryFor(request.timeInForce, now),
+      fillPrice: null,
+      transactionId: null,
+      createdAt: now,
+      updatedAt: now,
+      closedAt: null
+    });
+
+    console.log(`[orders] User ${userId} placed ${order.type} order ${order.id} for ${order.ticker} at $${order.triggerPrice}`);
+    return order;
+  }
+
+  /**
+   * Change an open order's trigger price, size or expiry
+   */
+  async amendOrder(userId: number, orderId: number, changes: AmendOrderRequest): Promise<Order> {
+    const { portfolio, order } = await this.getOpenOrder(userId, orderId);
+    const type = order.type as OrderType;
+
+    if (type === 'limit_buy' && changes.shares !== undefined) {
+      throw new PortfolioError('Limit buys are sized by amount, not shares');
+    }
+    if (type !== 'limit_buy' && changes.amount !== undefined) {
+      throw new PortfolioError('Sell orders are sized by shares, not amount');
+    }
+    this.checkFunds(portfolio, type, order.ticker, changes.amount, changes.shares);
+
+    const now = new Date();
+    const updated = await storage.updateOpenOrder(order.id, {
+      ...changes,
+      // Switching to a day order starts its day now
+      expiresAt: changes.timeInForce ? expiryFor(changes.timeInForce, now) : order.expiresAt,
+      updatedAt: now
+    });
+    if (!updated) {
+      throw new PortfolioError('Order was closed before it could be changed', 409);
+    }
+    return updated;
+  }
+
+  /**
+   * Cancel an open order
+   */
+  async cancelOrder(userId: number, orderId: number): Promise<Order> {
+    const { order } = await this.getOpenOrder(userId, orderId);
+    const cancelled = await this.closeOrder(storage, order, { status: 'cancelled' });
+    if (!cancelled) {
+      throw new PortfolioError('Order was closed before it could be cancelled', 409);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Expire lapsed day orders and, while the market is open, fill every open
+   * order its latest price triggers, for the pending-orders job
+   */
+  async evaluateOrders(): Promise<RefreshSummary> {
+    const summary: RefreshSummary = { updated: 0, failed: [] };
+    const now = new Date();
+    const open: Order[] = [];
+
+    for (const order of await storage.getOpenOrders()) {
+      if (order.expiresAt && order.expiresAt <= now) {
+        if (await this.closeOrder(storage, order, { status: 'expired' })) summary.updated++;
+      } else {
+        open.push(order);
+      }
+    }
+    // The job's schedule starts on the hour, before the 9:30 open
+    if (open.length === 0 || !isMarketOpen(now)) return summary;
+
+    const [portfolios, prices] = await Promise.all([
+      storage.getPortfolios(),
+      marketPriceService.getPrices(Array.from(new Set(open.map(order => order.ticker))))
+    ]);
+    const userIds = new Map(portfolios.map(portfolio => [portfolio.id, portfolio.userId]));
+
+    for (const order of open) {
+      const price = prices.get(order.ticker);
+      const userId = userIds.get(order.portfolioId);
+      if (price === undefined || userId === undefined) continue;
+      if (!isTriggered(order.type as OrderType, order.triggerPrice, price)) continue;
+
+      try {
+        if (await this.fillOrder(order, userId, price)) summary.updated++;
+      } catch (error) {
+        console.error(`[orders] Failed to fill order ${order.id}:`, error);
+        summary.failed.push(`order ${order.id}`);
+      }
+    }
+
+    return summary;
+  }
+
+  // Trade the order at the triggering price; trades the portfolio can't make reject the order.
+  // The order is claimed in the same transaction as the trade, so it fills at most once and
+  // never over a cancel that got there first. The trade uses the claimed row, so an amend
+  // made since the order was read decides the size and the trigger. Resolves whether this
+  // closed the order.
+  private async fillOrder(order: Order, userId: number, price: number): Promise<boolean> {
+    let filled: Order | undefined;
+    try {
+      ({ result: filled } = await portfolioService.transact(userId, async trades => {
+        const claimed = await this.closeOrder(trades.storage, order, { status: 'filled' });
+        if (!claimed) return undefined;
+        // Throwing rolls the claim back and leaves the order open
+        if (!isTriggered(claimed.type as OrderType, claimed.triggerPrice, price)) throw new NotTriggeredError();
+
+        const transaction = claimed.type === 'limit_buy'
+          ? await trades.buy({ ticker: claimed.ticker, amount: claimed.amount! }, price)
+          : await trades.sell({ ticker: claimed.ticker, shares: claimed.shares! }, price);
+        return trades.storage.updateOrder(claimed.id, { fillPrice: transaction.price, transactionId: transaction.id });
+      }));
+    } catch (error) {
+      if (error instanceof NotTriggeredError) return false;
+      if (!(error instanceof PortfolioError)) throw error;
+      const rejected = await this.closeOrder(storage, order, { status: 'rejected', statusReason: error.message });
+      if (rejected) console.log(`[orders] Rejected order ${order.id}: ${error.message}`);
+      return !!rejected;
+    }
+
+    if (filled) {
+      console.log(`[orders] Filled ${filled.type} order ${filled.id} for ${filled.ticker} at $${filled.fillPrice}`);
+    }
+    return !!filled;
+  }
+
+  // Close the order if it is still open; undefined if something else closed it first
+  private async closeOrder(store: IStorage, order: Order, changes: Partial<Order>): Promise<Order | undefined> {
+    const now = new Date();
+    return store.updateOpenOrder(order.id, { ...changes, updatedAt: now, closedAt: now });
+  }
+
+  private async getOpenOrder(userId: number, orderId: number) {
+    const portfolio = await portfolioService.getPortfolio(userId);
+    const order = await storage.getOrder(orderId);
+
+    if (!order || order.portfolioId !== portfolio.id) {
+      throw new PortfolioError('Order not found', 404);
+    }
+    if (order.status !== 'open') {
+      throw new PortfolioError(`Order is already ${order.status}`, 409);
+    }
+    return { portfolio, order };
+  }
+
+  // Turn away orders the portfolio couldn't fill right now; the fill checks again
+  private checkFunds(
+    portfolio: PortfolioWithHoldings,
+    type: OrderType,
+    ticker: string,
+    amount?: number,
+    shares?: number
+  ) {
+    if (type === 'limit_buy') {
+      if (amount !== undefined && amount > portfolio.cash) {
+        throw new PortfolioError('Not enough cash available');
+      }
+      return;
+    }
+
+    const holding = portfolio.holdings.find(h => h.ticker === ticker);
+    if (!holding) {
+      throw new PortfolioError('Stock not found in portfolio', 404);
+    }
+    if (shares !== undefined && shares > holding.shares + 0.0001) {
+      throw new PortfolioError('Not enough shares to sell');
+    }
+  }
+}
+
+export const orderService = new OrderService();
@@ -0,0 +1,108 @@
+import { portfolioAnalysisSchema, type PortfolioAnalysis } from '@shared/schema';
+import { formatPortfolioContext, type PortfolioAnalysisRequest } from '../ai-service';
+import { llmProvider, extractJson, type ChatCompletion, type ChatMessage } from '../llm-provider';
+
+/**
+ * Extra attempts after the first when the model's JSON doesn't parse or validate.
+ * Each one shows the model its previous output and what was wrong with it.
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const PORTFOLIO_ANALYSIS_SYSTEM_PROMPT =
+  "You're a savvy financial coach for Gen Z investors using Swipefolio. Analyze the user's paper-trading portfolio " +
+  "and answer their query. Be direct and plain-spoken, and refer to their actual holdings. " +
+  "Respond with a single JSON object and nothing else, in exactly this shape: " +
+  '{"summary": string (2-3 sentences), ' +
+  '"diversificationScore": number from 0 (one position) to 100 (well spread across industries and positions), ' +
+  '"holdingNotes": [{"ticker": string, "note": string (one sentence), "sentiment": "positive" | "neutral" | "negative"}] with one entry per holding, ' +
+  '"strengths": [string] (1-3 items), ' +
+  '"risks": [{"title": string, "detail": string (one sentence), "severity": "low" | "medium" | "high"}] (1-3 items), ' +
+  '"suggestedTrades": [{"action": "buy" | "sell", "ticker": string, "amount": number of dollars, "rationale": string (one sentence)}] (0-3 items)}. ' +
+  "Suggested sells must be holdings the user owns and no larger than the position. Keep buys in proportion to the portfolio's size. " +
+  "These are educational ideas for a practice portfolio, not financial advice.";
+
+/**
+ * Error raised when no valid analysis could be produced, carrying the HTTP status to respond with
+ * and the tokens the failed attempts used
+ */
+export class PortfolioAnalysisError extends Error {
+  constructor(
+    message: string,
+    public status: number = 502,
+    public completion?: Pick<ChatCompletion, 'model' | 'usage'>
+  ) {
+    super(message);
+    this.name = 'PortfolioAnalysisError';
+  }
+}
+
+export interface PortfolioAnalysisResult {
+  analysis: PortfolioAnalysis;
+  // Token usage is summed over every attempt
+  completion: ChatCompletion;
+}
+
+type ParseOutcome = { success: true; analysis: PortfolioAnalysis } | { success: false; problem: string };
+
+export class PortfolioAnalysisService {
+  /**
+   * Ask for a JSON analysis and validate it, asking the model to repair invalid
+   * output before giving up
+   * @throws PortfolioAnalysisError if every attempt is invalid
+   */
+  async analyze(request: PortfolioAnalysisRequest): Promise<PortfolioAnalysisResult> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: PORTFOLIO_ANALYSIS_SYSTEM_PROMPT },
+      { role: 'user', content: `${formatPortfolioContext(request)}\n\nQuery: ${request.query}` }
+    ];
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    let model = '';
+    let problem = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const completion = await llmProvider.complete(messages, { json: true, maxTokens: 1200, temperature: 0.4 });
+      usage.promptTokens += completion.usage.promptTokens;
+      usage.completionTokens += completion.usage.completionTokens;
+      model = completion.model;
+
+      const outcome = this.parse(completion.content);
+      if (outcome.success) {
+        return { analysis: outcome.analysis, completion: { ...completion, usage } };
+      }
+
+      problem = outcome.problem;
+      console.warn(`[portfolio-analysis] Attempt ${attempt + 1} returned invalid output: ${problem}`);
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        {
+          role: 'user',
+          content: `That response was not valid: ${problem}. ` +
+            'Reply again with only the corrected JSON object in the shape described, keeping the same analysis.'
+        }
+      );
+    }
+
+    throw new PortfolioAnalysisError(`The AI did not return a valid portfolio analysis (${problem})`, 502, { model, usage });
+  }
+
+  private parse(content: string): ParseOutcome {
+    let candidate: unknown;
+    try {
+      candidate = extractJson(content);
+    } catch (error) {
+      return { success: false, problem: error instanceof Error ? error.message : 'Response is not JSON' };
+    }
+
+    const parsed = portfolioAnalysisSchema.safeParse(candidate);
+    if (!parsed.success) {
+      const problem = parsed.error.errors
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+        .join('; ');
+      return { success: false, problem };
+    }
+    return { success: true, analysis: parsed.data };
+  }
+}
+
+export const portfolioAnalysisService = new PortfolioAnalysisService();
@@ -0,0 +1,99 @@
+import { storage } from '../storage';
+import type { Portfolio, PerformanceRange, PortfolioSnapshot, Stock } from '@shared/schema';
+import {
+  calculatePerformance,
+  snapshotsToValuations,
+  type PortfolioPerformance
+} from '@shared/scoring/portfolio-performance';
+import { getRangeStart } from './price-history-service';
+import type { RefreshSummary } from './market-data-refresh-service';
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Values portfolios at the universe's stored prices (kept current by the
+ * intraday-prices job) and keeps one snapshot per portfolio per day, which the
+ * performance report is built from.
+ */
+export class PortfolioPerformanceService {
+  /**
+   * Value the portfolio now and store it as today's snapshot, replacing an earlier
+   * one from today. Holdings without a stored price are valued at their cost.
+   * @param flow Cash deposited (+) or withdrawn (-), added to today's net flow
+   */
+  async recordSnapshot(portfolio: Portfolio, flow: number = 0, prices?: Map<string, number>): Promise<PortfolioSnapshot> {
+    const date = toIsoDate(new Date());
+    const [holdings, [existing]] = await Promise.all([
+      storage.getHoldingsByPortfolioId(portfolio.id),
+      storage.getPortfolioSnapshots(portfolio.id, date)
+    ]);
+    const priceByTicker = prices ?? await this.getPrices(holdings.map(holding => holding.ticker));
+
+    const holdingsValue = holdings.reduce(
+      (total, holding) => total + holding.shares * (priceByTicker.get(holding.ticker) ?? holding.purchasePrice),
+      0
+    );
+
+    return storage.upsertPortfolioSnapshot({
+      portfolioId: portfolio.id,
+      date,
+      cash: portfolio.cash,
+      holdingsValue,
+      totalValue: portfolio.cash + holdingsValue,
+      netFlow: (existing?.netFlow ?? 0) + flow,
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * Snapshot every portfolio, for the daily portfolio-snapshots job
+   */
+  async snapshotAll(): Promise<RefreshSummary> {
+    const [portfolios, stocks] = await Promise.all([storage.getPortfolios(), storage.getStocks()]);
+    const prices = this.toPriceMap(stocks);
+    const summary: RefreshSummary = { updated: 0, failed: [] };
+
+    for (const portfolio of portfolios) {
+      try {
+        await this.recordSnapshot(portfolio, 0, prices);
+        summary.updated++;
+      } catch (error) {
+        console.error(`[portfolio-performance] Failed to snapshot portfolio ${portfolio.id}:`, error);
+        summary.failed.push(`portfolio ${portfolio.id}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Snapshots and return metrics over a range, after refreshing today's valuation.
+   * The last snapshot before the range starts is kept as the starting value.
+   */
+  async getPerformance(portfolio: Portfolio, range: PerformanceRange): Promise<PortfolioPerformance> {
+    await this.recordSnapshot(portfolio);
+
+    const all = await storage.getPortfolioSnapshots(portfolio.id);
+    const from = getRangeStart(range);
+    const firstInRange = from ? all.findIndex(snapshot => snapshot.date >= from) : 0;
+    const snapshots = firstInRange < 0 ? all.slice(-1) : all.slice(Math.max(0, firstInRange - 1));
+
+    return { range, snapshots, metrics: calculatePerformance(snapshotsToValuations(snapshots)) };
+  }
+
+  private async getPrices(tickers: string[]): Promise<Map<string, number>> {
+    const stocks = await Promise.all(tickers.map(ticker => storage.getStock(ticker)));
+    return this.toPriceMap(stocks.flatMap(stock => stock ?? []));
+  }
+
+  private toPriceMap(stocks: Stock[]): Map<string, number> {
+    const prices = new Map<string, number>();
+    stocks.forEach(stock => {
+      const price = Number(stock.currentPrice);
+      if (stock.currentPrice !== null && Number.isFinite(price) && price > 0) prices.set(stock.ticker, price);
+    });
+    return prices;
+  }
+}
+
+export const portfolioPerformanceService = new PortfolioPerformanceService();
@@ -0,0 +1,61 @@
+import { storage } from '../storage';
+import type { ClosingPricePoint, Portfolio } from '@shared/schema';
+import { toClosingHistory } from '@shared/scoring/statement-metrics';
+import { calculatePortfolioRisk, type PortfolioRisk } from '@shared/scoring/portfolio-risk';
+import { yahooFinanceService } from './yahoo-finance-service';
+
+/**
+ * Benchmark for portfolio beta
+ */
+const BENCHMARK_SYMBOL = '^GSPC';
+
+// Closes from a chart in the Yahoo Finance layout, whether live or served from imported history
+function chartToClosingHistory(chart: unknown): ClosingPricePoint[] {
+  const quotes = (chart as { quotes?: { date: Date | string; close: number | null }[] } | null)?.quotes ?? [];
+  return quotes.flatMap(quote => typeof quote.close === 'number'
+    ? [{ date: new Date(quote.date).toISOString().slice(0, 10), close: quote.close }]
+    : []);
+}
+
+/**
+ * Measures portfolio risk from the price history stored for each holding
+ * (stock_data.closing_history), valuing holdings at their latest stored price.
+ */
+export class PortfolioRiskService {
+  async getRisk(portfolio: Portfolio): Promise<PortfolioRisk> {
+    const holdings = await storage.getHoldingsByPortfolioId(portfolio.id);
+    const tickers = holdings.map(holding => holding.ticker);
+
+    const [stocks, detailedData, benchmark] = await Promise.all([
+      Promise.all(tickers.map(ticker => storage.getStock(ticker))),
+      storage.getStockDetailedData(tickers),
+      holdings.length > 0 ? this.getBenchmarkHistory() : Promise.resolve([])
+    ]);
+    const historyByTicker = new Map(detailedData.map(data => [data.ticker, toClosingHistory(data.closingHistory)]));
+
+    const positions = holdings.map((holding, i) => {
+      const history = historyByTicker.get(holding.ticker) ?? [];
+      const storedPrice = Number(stocks[i]?.currentPrice);
+      const price = stocks[i]?.currentPrice !== null && storedPrice > 0
+        ? storedPrice
+        : history[history.length - 1]?.close ?? holding.purchasePrice;
+      return { ticker: holding.ticker, value: holding.shares * price, history };
+    });
+
+    return calculatePortfolioRisk({ positions, cash: portfolio.cash, benchmark });
+  }
+
+  // A year of S&P 500 closes; beta is left out if they can't be loaded
+  private async getBenchmarkHistory(): Promise<ClosingPricePoint[]> {
+    try {
+      const chart = await yahooFinanceService.getChartFromSource(BENCHMARK_SYMBOL, '1y', '1d', 'auto');
+      if (!chart) return [];
+      return chartToClosingHistory(chart.source === 'history' ? chart.data : chart.result.data);
+    } catch (error) {
+      console.warn('[portfolio-risk] Failed to load S&P 500 history for beta:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
+
+export const portfolioRiskService = new PortfolioRiskService();
@@ -0,0 +1,536 @@
+import { storage, type IStorage } from '../storage';
+import { marketPriceService } from './market-price-service';
+import { portfolioPerformanceService } from './portfolio-performance-service';
+import { portfolioRiskService } from './portfolio-risk-service';
+import { rebalancingService } from './rebalancing-service';
+import type { PortfolioPerformance } from '@shared/scoring/portfolio-performance';
+import type { PortfolioRisk } from '@shared/scoring/portfolio-risk';
+import { MIN_TRADE_VALUE, type RebalancePlan, type RebalanceResult, type RebalanceTrade } from '@shared/scoring/rebalancing';
+import { rebalanceTargetsSchema } from '@shared/schema';
+import type {
+  Portfolio,
+  PerformanceRange,
+  PortfolioWithHoldings,
+  RebalanceTargets,
+  BuyStockRequest,
+  SellStockRequest,
+  TaxLot,
+  Transaction,
+  LotMethod,
+  TickerGains,
+  TradeResult
+} from '@shared/schema';
+
+/**
+ * Every new paper-trading portfolio starts with this much cash
+ */
+const STARTING_CASH = 100;
+
+/**
+ * Remaining share counts below this are treated as a fully closed position
+ * to absorb floating point drift from fractional trades
+ */
+const SHARE_EPSILON = 0.0001;
+
+/**
+ * Flat commission charged on every trade. Paper trades are free by default.
+ */
+export const TRADE_FEE = Number(process.env.PAPER_TRADE_FEE) || 0;
+
+/**
+ * Error raised for trades that fail validation, carrying the HTTP status to respond with
+ */
+export class PortfolioError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PortfolioError';
+  }
+}
+
+/**
+ * Books trades inside PortfolioService.transact, writing through the locked storage
+ */
+export interface PortfolioTrades {
+  storage: IStorage;
+  buy(request: BuyStockRequest, price: number): Promise<Transaction>;
+  sell(request: SellStockRequest, price: number): Promise<Transaction>;
+}
+
+/**
+ * Works out how many shares to take from each open lot.
+ * FIFO and LIFO exhaust lots in acquisition order; average cost relieves
+ * every lot proportionally so they all keep the same average basis.
+ * @returns Shares relieved keyed by lot id
+ */
+function planLotRelief(lots: TaxLot[], sharesToSell: number, method: LotMethod): Map<number, number> {
+  const relief = new Map<number, number>();
+  const openShares = lots.reduce((total, lot) => total + lot.remainingShares, 0);
+
+  if (method === 'average') {
+    const fraction = Math.min(1, sharesToSell / openShares);
+    lots.forEach(lot => relief.set(lot.id, lot.remainingShares * fraction));
+    return relief;
+  }
+
+  const ordered = method === 'lifo' ? [...lots].reverse() : lots;
+  let remaining = sharesToSell;
+
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.remainingShares, remaining);
+    relief.set(lot.id, taken);
+    remaining -= taken;
+  }
+
+  return relief;
+}
+
+class PortfolioService {
+  /**
+   * Get a user's portfolio with its holdings, creating it on first access
+   */
+  async getPortfolio(userId: number): Promise<PortfolioWithHoldings> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    return this.withHoldings(portfolio);
+  }
+
+  /**
+   * Change the default lot relief method used for sells
+   */
+  async updateLotMethod(userId: number, lotMethod: LotMethod): Promise<PortfolioWithHoldings> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    const updated = await storage.updatePortfolio(portfolio.id, { lotMethod, updatedAt: new Date() });
+    return this.withHoldings(updated ?? portfolio);
+  }
+
+  /**
+   * Buy a dollar amount of a stock at the current market price
+   */
+  async buy(userId: number, request: BuyStockRequest): Promise<TradeResult> {
+    const price = await this.getMarketPrice(request.ticker);
+    const { result, portfolio } = await this.transact(userId, trades => trades.buy(request, price));
+    return { portfolio, transaction: result };
+  }
+
+  /**
+   * Sell shares of a held stock at the current market price
+   */
+  async sell(userId: number, request: SellStockRequest): Promise<TradeResult> {
+    const price = await this.getMarketPrice(request.ticker);
+    const { result, portfolio } = await this.transact(userId, trades => trades.sell(request, price));
+    return { portfolio, transaction: result };
+  }
+
+  /**
+   * Run trades against the user's portfolio while it is locked, so concurrent
+   * requests can't both spend the same cash or sell the same lots. On Postgres
+   * everything work writes through trades.storage commits or rolls back together.
+   * @returns What work returned and the portfolio after it committed
+   */
+  async transact<T>(
+    userId: number,
+    work: (trades: PortfolioTrades) => Promise<T>
+  ): Promise<{ result: T; portfolio: PortfolioWithHoldings }> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+
+    const result = await storage.withPortfolioLock(portfolio.id, store => work({
+      storage: store,
+      buy: (request, price) => this.bookBuy(store, userId, request, price),
+      sell: (request, price) => this.bookSell(store, userId, request, price)
+    }));
+
+    const updated = (await storage.getPortfolioByUserId(userId)) ?? portfolio;
+    await this.recordSnapshot(updated);
+    return { result, portfolio: await this.withHoldings(updated) };
+  }
+
+  /**
+   * Book a buy at the given price.
+   * Records the trade and opens a new tax lot; the fee is part of the lot's cost.
+   */
+  private async bookBuy(
+    store: IStorage,
+    userId: number,
+    { ticker, amount }: BuyStockRequest,
+    price: number
+  ): Promise<Transaction> {
+    const portfolio = await this.getLockedPortfolio(store, userId);
+
+    if (amount > portfolio.cash) {
+      throw new PortfolioError('Not enough cash available');
+    }
+
+    if (amount <= TRADE_FEE) {
+      throw new PortfolioError(`Investment amount must be more than the $${TRADE_FEE.toFixed(2)} trade fee`);
+    }
+
+    // Make sure any pre-ledger position has its lot before adding a new one
+    await this.getOpenLots(store, portfolio.id, ticker);
+
+    const shares = (amount - TRADE_FEE) / price;
+    const executedAt = new Date();
+
+    const transaction = await store.createTransaction({
+      portfolioId: portfolio.id,
+      ticker,
+      side: 'buy',
+      shares,
+      price,
+      fees: TRADE_FEE,
+      amount,
+      costBasis: null,
+      realizedGain: null,
+      lotMethod: null,
+      executedAt
+    });
+
+    await store.createTaxLot({
+      portfolioId: portfolio.id,
+      ticker,
+      transactionId: transaction.id,
+      shares,
+      remainingShares: shares,
+      costPerShare: amount / shares,
+      acquiredAt: executedAt
+    });
+
+    await this.syncHolding(store, portfolio.id, ticker);
+    await store.updatePortfolio(portfolio.id, {
+      cash: portfolio.cash - amount,
+      updatedAt: executedAt
+    });
+
+    console.log(`[portfolio] User ${userId} bought ${shares.toFixed(4)} ${ticker} for $${amount.toFixed(2)}`);
+    return transaction;
+  }
+
+  /**
+   * Book a sell at the given price, relieving tax lots with the requested
+   * method (or the portfolio default) and recording the realized gain
+   */
+  private async bookSell(
+    store: IStorage,
+    userId: number,
+    { ticker, shares, lotMethod }: SellStockRequest,
+    price: number
+  ): Promise<Transaction> {
+    const portfolio = await this.getLockedPortfolio(store, userId);
+    const method = lotMethod ?? (portfolio.lotMethod as LotMethod);
+    const lots = await this.getOpenLots(store, portfolio.id, ticker);
+    const openShares = lots.reduce((total, lot) => total + lot.remainingShares, 0);
+
+    if (lots.length === 0) {
+      throw new PortfolioError('Stock not found in portfolio', 404);
+    }
+
+    if (shares > openShares + SHARE_EPSILON) {
+      throw new PortfolioError('Not enough shares to sell');
+    }
+
+    // Selling (almost) everything closes every lot outright
+    const closesPosition = openShares - shares <= SHARE_EPSILON;
+    const sharesSold = closesPosition ? openShares : shares;
+    const grossProceeds = sharesSold * price;
+
+    if (grossProceeds <= TRADE_FEE) {
+      throw new PortfolioError(`Sale proceeds must be more than the $${TRADE_FEE.toFixed(2)} trade fee`);
+    }
+
+    const relief = closesPosition
+      ? new Map(lots.map(lot => [lot.id, lot.remainingShares]))
+      : planLotRelief(lots, sharesSold, method);
+
+    let costBasis = 0;
+    for (const lot of lots) {
+      const relieved = relief.get(lot.id) ?? 0;
+      if (relieved <= 0) continue;
+
+      costBasis += relieved * lot.costPerShare;
+      const remainingShares = lot.remainingShares - relieved;
+      await store.updateTaxLot(lot.id, {
+        remainingShares: remainingShares > SHARE_EPSILON ? remainingShares : 0
+      });
+    }
+
+    const proceeds = grossProceeds - TRADE_FEE;
+    const executedAt = new Date();
+
+    const transaction = await store.createTransaction({
+      portfolioId: portfolio.id,
+      ticker,
+      side: 'sell',
+      shares: sharesSold,
+      price,
+      fees: TRADE_FEE,
+      amount: proceeds,
+      costBasis,
+      realizedGain: proceeds - costBasis,
+      lotMethod: method,
+      executedAt
+    });
+
+    await this.syncHolding(store, portfolio.id, ticker);
+    await store.updatePortfolio(portfolio.id, {
+      cash: portfolio.cash + proceeds,
+      updatedAt: executedAt
+    });
+
+    console.log(`[portfolio] User ${userId} sold ${sharesSold.toFixed(4)} ${ticker} for $${proceeds.toFixed(2)} (${method})`);
+    return transaction;
+  }
+
+  /**
+   * Get the user's trade history, newest first
+   */
+  async getTransactions(userId: number): Promise<Transaction[]> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    return storage.getTransactionsByPortfolioId(portfolio.id);
+  }
+
+  /**
+   * Get realized gains and open cost basis for every ticker the user has traded
+   */
+  async getGains(userId: number): Promise<TickerGains[]> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    const [ledger, lots] = await Promise.all([
+      storage.getTransactionsByPortfolioId(portfolio.id),
+      storage.getTaxLotsByPortfolioId(portfolio.id)
+    ]);
+
+    const gainsByTicker = new Map<string, TickerGains>();
+    const getEntry = (ticker: string) => {
+      let entry = gainsByTicker.get(ticker);
+      if (!entry) {
+        entry = { ticker, openShares: 0, costBasis: 0, realizedGain: 0, fees: 0, lots: [] };
+        gainsByTicker.set(ticker, entry);
+      }
+      return entry;
+    };
+
+    ledger.forEach(transaction => {
+      const entry = getEntry(transaction.ticker);
+      entry.fees += transaction.fees;
+      entry.realizedGain += transaction.realizedGain ?? 0;
+    });
+
+    lots.filter(lot => lot.remainingShares > 0).forEach(lot => {
+      const entry = getEntry(lot.ticker);
+      entry.openShares += lot.remainingShares;
+      entry.costBasis += lot.remainingShares * lot.costPerShare;
+      entry.lots.push(lot);
+    });
+
+    return Array.from(gainsByTicker.values()).sort((a, b) => a.ticker.localeCompare(b.ticker));
+  }
+
+  /**
+   * Get daily valuations and return metrics over a range
+   */
+  async getPerformance(userId: number, range: PerformanceRange): Promise<PortfolioPerformance> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    return portfolioPerformanceService.getPerformance(portfolio, range);
+  }
+
+  /**
+   * Get volatility, beta, value-at-risk and correlations from the holdings' price history
+   */
+  async getRisk(userId: number): Promise<PortfolioRisk> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    return portfolioRiskService.getRisk(portfolio);
+  }
+
+  /**
+   * Get the user's rebalancing targets, or null if none are set
+   */
+  async getTargets(userId: number): Promise<RebalanceTargets | null> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    return this.parseTargets(portfolio);
+  }
+
+  /**
+   * Replace the user's rebalancing targets
+   */
+  async setTargets(userId: number, targets: RebalanceTargets): Promise<RebalanceTargets> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    await storage.updatePortfolio(portfolio.id, { rebalanceTargets: targets, updatedAt: new Date() });
+    return targets;
+  }
+
+  /**
+   * Get each target's drift and the trades that would rebalance the portfolio, without placing them
+   */
+  async previewRebalance(userId: number): Promise<RebalancePlan> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    return this.planRebalance(portfolio);
+  }
+
+  /**
+   * Place the trades that rebalance the portfolio: sells first, so their
+   * proceeds pay for the buys. The plan is recalculated at current prices
+   * rather than trusting an earlier preview, and the trades are booked
+   * together, so if any one fails none of them are placed.
+   */
+  async rebalance(userId: number): Promise<RebalanceResult> {
+    const portfolio = await this.getOrCreatePortfolio(userId);
+    const plan = await this.planRebalance(portfolio);
+
+    if (plan.trades.length === 0) {
+      throw new PortfolioError('Portfolio is already within its target allocation');
+    }
+
+    const { result: booked, portfolio: updated } = await this.transact(userId, async trades => {
+      const booked: RebalanceTrade[] = [];
+      for (const trade of plan.trades) {
+        try {
+          let transaction: Transaction;
+          if (trade.side === 'sell') {
+            transaction = await trades.sell({ ticker: trade.ticker, shares: trade.shares }, trade.price);
+          } else {
+            // Sell proceeds are rounded in the plan, so never ask for more than is there,
+            // and skip a buy that has shrunk too small to be worth its fee
+            const { cash } = await this.getLockedPortfolio(trades.storage, userId);
+            const amount = Math.min(trade.amount, cash);
+            if (amount - TRADE_FEE < MIN_TRADE_VALUE) continue;
+            transaction = await trades.buy({ ticker: trade.ticker, amount }, trade.price);
+          }
+          booked.push({
+            ticker: trade.ticker,
+            side: trade.side,
+            shares: transaction.shares,
+            price: transaction.price,
+            amount: transaction.amount
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          throw new PortfolioError(
+            `Rebalance failed at the ${trade.side} of ${trade.ticker}: ${reason}. No trades were placed.`,
+            error instanceof PortfolioError ? error.status : 500
+          );
+        }
+      }
+      return booked;
+    });
+
+    console.log(`[portfolio] User ${userId} rebalanced with ${booked.length} trades`);
+    return { portfolio: updated, trades: booked };
+  }
+
+  /**
+   * Open lots for a ticker. Holdings bought before the ledger existed have no
+   * lots, so they are backfilled as a single lot at their average cost.
+   */
+  private async getOpenLots(store: IStorage, portfolioId: number, ticker: string): Promise<TaxLot[]> {
+    const lots = await store.getOpenTaxLots(portfolioId, ticker);
+    if (lots.length > 0) return lots;
+
+    const holding = await store.getHolding(portfolioId, ticker);
+    if (!holding) return [];
+
+    const backfilled = await store.createTaxLot({
+      portfolioId,
+      ticker,
+      transactionId: null,
+      shares: holding.shares,
+      remainingShares: holding.shares,
+      costPerShare: holding.purchasePrice,
+      acquiredAt: holding.purchaseDate
+    });
+    return [backfilled];
+  }
+
+  /**
+   * Rebuild the aggregate holding row for a ticker from its open lots
+   */
+  private async syncHolding(store: IStorage, portfolioId: number, ticker: string) {
+    const lots = await store.getOpenTaxLots(portfolioId, ticker);
+    const holding = await store.getHolding(portfolioId, ticker);
+    const shares = lots.reduce((total, lot) => total + lot.remainingShares, 0);
+
+    if (shares <= SHARE_EPSILON) {
+      if (holding) await store.deleteHolding(holding.id);
+      return;
+    }
+
+    const totalCost = lots.reduce((total, lot) => total + lot.remainingShares * lot.costPerShare, 0);
+    const purchasePrice = totalCost / shares;
+
+    if (holding) {
+      await store.updateHolding(holding.id, { shares, purchasePrice });
+    } else {
+      await store.createHolding({
+        portfolioId,
+        ticker,
+        shares,
+        purchasePrice,
+        purchaseDate: lots[0].acquiredAt
+      });
+    }
+  }
+
+  // Trades are only ever priced on the server
+  private async getMarketPrice(ticker: string): Promise<number> {
+    const price = await marketPriceService.getPrice(ticker);
+    if (price === undefined) {
+      throw new PortfolioError(`No price available for ${ticker}`, 404);
+    }
+    return price;
+  }
+
+  // The portfolio as it stands under the lock, not as it was read before taking it
+  private async getLockedPortfolio(store: IStorage, userId: number): Promise<Portfolio> {
+    const portfolio = await store.getPortfolioByUserId(userId);
+    if (!portfolio) {
+      throw new PortfolioError('Portfolio not found', 404);
+    }
+    return portfolio;
+  }
+
+  private async planRebalance(portfolio: Portfolio): Promise<RebalancePlan> {
+    const targets = this.parseTargets(portfolio);
+    if (!targets) {
+      throw new PortfolioError('Set target weights before rebalancing');
+    }
+    return rebalancingService.getPlan(portfolio, targets, TRADE_FEE);
+  }
+
+  // Stored targets are re-validated so rows written by an older schema read as unset
+  private parseTargets(portfolio: Portfolio): RebalanceTargets | null {
+    if (!portfolio.rebalanceTargets) return null;
+    const parsed = rebalanceTargetsSchema.safeParse(portfolio.rebalanceTargets);
+    return parsed.success ? parsed.data : null;
+  }
+
+  private async getOrCreatePortfolio(userId: number): Promise<Portfolio> {
+    const existing = await storage.getPortfolioByUserId(userId);
+    if (existing) return existing;
+
+    const now = new Date();
+    const created = await storage.createPortfolio({
+      userId,
+      cash: STARTING_CASH,
+      lotMethod: 'fifo',
+      rebalanceTargets: null,
+      createdAt: now,
+      updatedAt: now
+    });
+    // The starting cash is the portfolio's first deposit
+    await this.recordSnapshot(created, STARTING_CASH);
+    return created;
+  }
+
+  // A failed snapshot is filled in by the next one, so it never fails the trade
+  private async recordSnapshot(portfolio: Portfolio, flow: number = 0) {
+    try {
+      await portfolioPerformanceService.recordSnapshot(portfolio, flow);
+    } catch (error) {
+      console.error(`[portfolio] Failed to snapshot portfolio ${portfolio.id}:`, error);
+    }
+  }
+
+  private async withHoldings(portfolio: Portfolio): Promise<PortfolioWithHoldings> {
+    const holdings = await storage.getHoldingsByPortfolioId(portfolio.id);
+    return { ...portfolio, holdings };
+  }
+}
+
+export const portfolioService = new PortfolioService();
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { priceHistoryService, PriceHistoryError } from "./price-history-service";
+
+const YAHOO_HEADER = "Date,Open,High,Low,Close,Adj Close,Volume";
+
+describe("parseCsv", () => {
+  it("reads a Yahoo Finance export into date-ordered bars for the file's ticker", () => {
+    const csv = [
+      YAHOO_HEADER,
+      "2024-03-05,101,103,100,102,101.5,1200",
+      "2024-03-04,100,102,99,101,100.5,1000"
+    ].join("\n");
+
+    const { format, series } = priceHistoryService.parseCsv(csv, { fileName: "aapl.csv" });
+
+    expect(format).toBe("yahoo");
+    expect(series).toHaveLength(1);
+    expect(series[0].ticker).toBe("AAPL");
+    expect(series[0].bars).toEqual([
+      { date: "2024-03-04", open: 100, high: 102, low: 99, close: 101, adjClose: 100.5, volume: 1000 },
+      { date: "2024-03-05", open: 101, high: 103, low: 100, close: 102, adjClose: 101.5, volume: 1200 }
+    ]);
+  });
+
+  it("splits a Stooq bulk file by ticker and skips bars that aren't daily", () => {
+    const csv = [
+      "<TICKER>,<PER>,<DATE>,<TIME>,<OPEN>,<HIGH>,<LOW>,<CLOSE>,<VOL>,<OPENINT>",
+      "AAPL.US,D,20240304,000000,100,102,99,101,1000,0",
+      "MSFT.US,D,20240304,000000,400,405,398,402,2000,0",
+      "AAPL.US,W,20240308,000000,101,104,99,103,5000,0"
+    ].join("\n");
+
+    const { format, series } = priceHistoryService.parseCsv(csv);
+
+    expect(format).toBe("stooq-bulk");
+    expect(series.map(s => [s.ticker, s.bars.length, s.skipped])).toEqual([["AAPL", 1, 1], ["MSFT", 1, 0]]);
+    expect(series[0].problems).toEqual(["Line 4: not a daily bar (period W)"]);
+  });
+
+  it("skips invalid rows and reports why, keeping the last of duplicate dates", () => {
+    const csv = [
+      YAHOO_HEADER,
+      "2024-02-30,100,102,99,101,101,1000",
+      "2024-03-04,null,null,null,null,null,null",
+      "2024-03-05,100,98,99,101,101,1000",
+      "2024-03-06,100,102,99,101,101,1000",
+      "2024-03-06,100,102,99,105,105,1000"
+    ].join("\n");
+
+    const [series] = priceHistoryService.parseCsv(csv, { ticker: "AAPL" }).series;
+
+    expect(series.bars.map(bar => [bar.date, bar.close])).toEqual([["2024-03-06", 105]]);
+    expect(series.problems).toEqual([
+      'Line 2: invalid date "2024-02-30"',
+      "Line 3: missing or non-positive price on 2024-03-04",
+      "Line 4: high 98 is below low 99 on 2024-03-05",
+      "Line 6: duplicate date 2024-03-06, kept this row"
+    ]);
+  });
+
+  it("rejects unknown headers and files without a ticker", () => {
+    expect(() => priceHistoryService.parseCsv("Day,Price\n2024-03-04,1", { ticker: "AAPL" })).toThrow(PriceHistoryError);
+    expect(() => priceHistoryService.parseCsv(`${YAHOO_HEADER}\n2024-03-04,1,1,1,1,1,1`)).toThrow(PriceHistoryError);
+  });
+});
+
+describe("detectGaps", () => {
+  const bar = (date: string, close: number = 100) => ({ date, open: close, high: close, low: close, close });
+
+  it("reports gaps longer than a holiday weekend", () => {
+    const bars = [bar("2024-03-28"), bar("2024-04-01"), bar("2024-04-02"), bar("2024-04-12")];
+    expect(priceHistoryService.detectGaps(bars)).toEqual([{ from: "2024-04-02", to: "2024-04-12", calendarDays: 10 }]);
+  });
+});
+
+describe("detectSplits", () => {
+  const bar = (date: string, close: number) => ({ date, open: close, high: close, low: close, close });
+
+  it("flags moves close to a split ratio in either direction", () => {
+    const bars = [bar("2024-06-07", 1200), bar("2024-06-10", 121), bar("2024-06-11", 118), bar("2024-06-12", 2400)];
+    expect(priceHistoryService.detectSplits(bars)).toEqual([
+      { date: "2024-06-10", ratio: "10:1", previousClose: 1200, close: 121 },
+      { date: "2024-06-12", ratio: "1:20", previousClose: 118, close: 2400 }
+    ]);
+  });
+
+  it("leaves ordinary moves alone", () => {
+    expect(priceHistoryService.detectSplits([bar("2024-06-07", 100), bar("2024-06-10", 130), bar("2024-06-11", 80)])).toEqual([]);
+  });
+});
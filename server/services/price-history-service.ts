@@ -0,0 +1,501 @@
+import path from 'path';
+import type { ClosingPricePoint, DividendPoint } from '@shared/schema';
+import { toClosingHistory, toDividendHistory } from '@shared/scoring/statement-metrics';
+import { storage } from '../storage';
+import { universeService } from './universe-service';
+
+/**
+ * CSV layouts the importer understands:
+ * - yahoo: Yahoo Finance history export, Date,Open,High,Low,Close,Adj Close,Volume
+ * - yahoo-dividends: Yahoo Finance dividend export, Date,Dividends
+ * - stooq: Stooq daily download, Date,Open,High,Low,Close,Volume
+ * - stooq-bulk: Stooq bulk data, <TICKER>,<PER>,<DATE>,<TIME>,<OPEN>,<HIGH>,<LOW>,<CLOSE>,<VOL>,<OPENINT>
+ */
+export type PriceHistoryFormat = 'yahoo' | 'yahoo-dividends' | 'stooq' | 'stooq-bulk';
+
+/**
+ * Error raised for price history files or requests that can't be used, carrying the HTTP status to respond with
+ */
+export class PriceHistoryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PriceHistoryError';
+  }
+}
+
+/**
+ * Consecutive rows further apart than a long weekend
+ */
+export interface PriceGap {
+  from: string;
+  to: string;
+  calendarDays: number;
+}
+
+/**
+ * A day-over-day jump close to a common split ratio, e.g. "2:1" or "1:10" for a reverse split
+ */
+export interface SuspectedSplit {
+  date: string;
+  ratio: string;
+  previousClose: number;
+  close: number;
+}
+
+export interface PriceHistoryImportSummary {
+  ticker: string;
+  format: PriceHistoryFormat;
+  // Data rows in the file for this ticker
+  rows: number;
+  // Price bars, or dividend payments for a dividend file, written to stock_data
+  imported: number;
+  skipped: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  gaps: PriceGap[];
+  splits: SuspectedSplit[];
+  dividends: number;
+  // Days of closing history stored after merging with what was there
+  storedDays: number;
+  // Why rows were skipped, up to MAX_PROBLEMS of them
+  problems: string[];
+  // Set when nothing could be stored for the ticker
+  error?: string;
+}
+
+export interface ImportOptions {
+  // Ticker for single-ticker files; otherwise taken from the file name
+  ticker?: string;
+  fileName?: string;
+}
+
+export interface StoredChartQuote {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  adjclose: number;
+}
+
+/**
+ * Imported history in the layout of a Yahoo Finance chart response
+ */
+export interface StoredChartData {
+  meta: {
+    currency: string;
+    symbol: string;
+    regularMarketPrice: number;
+    chartPreviousClose: number;
+    previousClose: number;
+    dataGranularity: string;
+    range: string;
+    dataSource: 'history';
+  };
+  quotes: StoredChartQuote[];
+  events: {
+    dividends: { date: Date; amount: number }[];
+  };
+}
+
+interface ParsedSeries {
+  ticker: string;
+  rows: number;
+  bars: ClosingPricePoint[];
+  dividends: DividendPoint[];
+  skipped: number;
+  problems: string[];
+}
+
+type Row = Record<string, string>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Friday to Tuesday over a holiday weekend; anything longer is reported as a gap
+const MAX_NORMAL_GAP_DAYS = 4;
+
+// A close-to-close move within this much of a split ratio is reported as a suspected split
+const SPLIT_TOLERANCE = 0.05;
+const SPLIT_RATIOS: { factor: number; label: [number, number] }[] = [
+  { factor: 1.5, label: [3, 2] },
+  { factor: 2, label: [2, 1] },
+  { factor: 3, label: [3, 1] },
+  { factor: 4, label: [4, 1] },
+  { factor: 5, label: [5, 1] },
+  { factor: 8, label: [8, 1] },
+  { factor: 10, label: [10, 1] },
+  { factor: 20, label: [20, 1] }
+];
+
+const MAX_PROBLEMS = 20;
+
+// Stored history counts as covering a range if it starts and ends within this many days of it
+const COVERAGE_SLACK_DAYS = 5;
+
+const INTRADAY_RANGES = new Set(['1d', '5d']);
+
+// "<TICKER>", "Adj Close" and "Vol" all become the same keys as their Yahoo/Stooq counterparts
+const normalizeColumn = (column: string) => {
+  const key = column.trim().replace(/^"|"$/g, '').replace(/[<>\s_]/g, '').toLowerCase();
+  return key === 'vol' ? 'volume' : key;
+};
+
+// "aapl.us" (Stooq) and "AAPL" both become AAPL
+const normalizeTicker = (ticker: string) => ticker.trim().toUpperCase().replace(/\.US$/, '');
+
+const toIsoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const addDays = (date: string, days: number) => toIsoDate(Date.parse(date) + days * DAY_MS);
+
+/**
+ * YYYY-MM-DD (Yahoo, Stooq daily) or YYYYMMDD (Stooq bulk), rejecting dates that don't exist
+ */
+function parseDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})(?:$|[T\s])/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  const time = Date.parse(date);
+  return Number.isNaN(time) || toIsoDate(time) !== date ? null : date;
+}
+
+// Yahoo writes "null" for days without a price
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '' || value.trim().toLowerCase() === 'null') return null;
+  const num = Number(value.replace(/,/g, ''));
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * The first day of a chart range, or null for the whole history
+ */
+export function getRangeStart(range: string, now: Date = new Date()): string | null {
+  const date = new Date(now);
+  switch (range) {
+    case '1d': date.setDate(date.getDate() - 1); break;
+    case '5d': date.setDate(date.getDate() - 5); break;
+    case '1mo': date.setMonth(date.getMonth() - 1); break;
+    case '3mo': date.setMonth(date.getMonth() - 3); break;
+    case '6mo': date.setMonth(date.getMonth() - 6); break;
+    case '1y': date.setFullYear(date.getFullYear() - 1); break;
+    case '2y': date.setFullYear(date.getFullYear() - 2); break;
+    case '3y': date.setFullYear(date.getFullYear() - 3); break;
+    case '5y': date.setFullYear(date.getFullYear() - 5); break;
+    case '10y': date.setFullYear(date.getFullYear() - 10); break;
+    case 'ytd': return `${now.getFullYear()}-01-01`;
+    case 'max': return null;
+    default: date.setMonth(date.getMonth() - 1);
+  }
+  return toIsoDate(date.getTime());
+}
+
+export class PriceHistoryService {
+  /**
+   * Parse a CSV file and merge its prices (or dividends) into each ticker's stock_data row.
+   * Rows with bad dates or prices are skipped, duplicate dates keep the last row, and
+   * gaps and suspected splits are reported but imported as they are.
+   * @throws PriceHistoryError if the file isn't a format the importer understands
+   */
+  async importCsv(text: string, options: ImportOptions = {}): Promise<PriceHistoryImportSummary[]> {
+    const { format, series } = this.parseCsv(text, options);
+    const universe = new Set(await universeService.listTickers());
+
+    const summaries: PriceHistoryImportSummary[] = [];
+    for (const parsed of series) {
+      summaries.push(await this.storeSeries(format, parsed, universe));
+    }
+    return summaries;
+  }
+
+  /**
+   * Imported history for a chart request, or null if there isn't any.
+   * With requireCoverage, history is only used when it spans the whole range up to
+   * the last few days, and never for intraday ranges.
+   */
+  async getChart(symbol: string, range: string, interval: string, requireCoverage: boolean): Promise<StoredChartData | null> {
+    if (requireCoverage && INTRADAY_RANGES.has(range)) return null;
+
+    const ticker = symbol.trim().toUpperCase();
+    const [data] = await storage.getStockDetailedData([ticker]);
+    const history = toClosingHistory(data?.closingHistory);
+    if (history.length === 0) return null;
+
+    const start = getRangeStart(range);
+    if (requireCoverage) {
+      const firstDate = history[0].date;
+      const lastDate = history[history.length - 1].date;
+      if (start && daysBetween(start, firstDate) > COVERAGE_SLACK_DAYS) return null;
+      if (daysBetween(lastDate, toIsoDate(Date.now())) > COVERAGE_SLACK_DAYS) return null;
+    }
+
+    const firstIndex = start ? history.findIndex(point => point.date >= start) : 0;
+    if (firstIndex === -1) return null;
+    const points = history.slice(firstIndex);
+    const last = points[points.length - 1];
+    const previous = history[history.length - 2] ?? last;
+
+    return {
+      meta: {
+        currency: 'USD',
+        symbol: ticker,
+        regularMarketPrice: last.close,
+        chartPreviousClose: (history[firstIndex - 1] ?? points[0]).close,
+        previousClose: previous.close,
+        dataGranularity: interval,
+        range,
+        dataSource: 'history'
+      },
+      quotes: this.toQuotes(points, interval),
+      events: {
+        dividends: toDividendHistory(data?.dividends)
+          .filter(dividend => !start || dividend.date >= start)
+          .map(dividend => ({ date: new Date(dividend.date), amount: dividend.amount }))
+      }
+    };
+  }
+
+  /**
+   * Split a CSV file into validated, date-ordered series, one per ticker
+   */
+  parseCsv(text: string, options: ImportOptions = {}): { format: PriceHistoryFormat; series: ParsedSeries[] } {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) {
+      throw new PriceHistoryError('The file is empty');
+    }
+
+    const columns = lines[0].split(',').map(normalizeColumn);
+    const format = this.detectFormat(columns);
+    const fileTicker = options.ticker ?? (options.fileName ? path.basename(options.fileName).split('.')[0] : '');
+    if (format !== 'stooq-bulk' && !normalizeTicker(fileTicker)) {
+      throw new PriceHistoryError('Pass the ticker for this file, or name the file after it (e.g. AAPL.csv)');
+    }
+
+    const rowsByTicker = new Map<string, { line: number; row: Row }[]>();
+    lines.slice(1).forEach((line, index) => {
+      const values = line.split(',');
+      const row: Row = Object.fromEntries(columns.map((column, i) => [column, (values[i] ?? '').trim()]));
+      const ticker = normalizeTicker(format === 'stooq-bulk' ? row.ticker : fileTicker);
+      const rows = rowsByTicker.get(ticker);
+      if (rows) rows.push({ line: index + 2, row });
+      else rowsByTicker.set(ticker, [{ line: index + 2, row }]);
+    });
+
+    const series = Array.from(rowsByTicker.entries()).map(([ticker, rows]) =>
+      format === 'yahoo-dividends' ? this.parseDividends(ticker, rows) : this.parseBars(ticker, format, rows)
+    );
+    return { format, series };
+  }
+
+  /**
+   * Calendar gaps between consecutive bars longer than a holiday weekend
+   */
+  detectGaps(bars: ClosingPricePoint[]): PriceGap[] {
+    const gaps: PriceGap[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      const calendarDays = daysBetween(bars[i - 1].date, bars[i].date);
+      if (calendarDays > MAX_NORMAL_GAP_DAYS) {
+        gaps.push({ from: bars[i - 1].date, to: bars[i].date, calendarDays });
+      }
+    }
+    return gaps;
+  }
+
+  /**
+   * Day-over-day moves that look like an unadjusted split rather than a price change
+   */
+  detectSplits(bars: ClosingPricePoint[]): SuspectedSplit[] {
+    const splits: SuspectedSplit[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      const previousClose = bars[i - 1].close;
+      const { date, close } = bars[i];
+      const change = previousClose / close;
+      const factor = change >= 1 ? change : 1 / change;
+      const match = SPLIT_RATIOS.find(ratio => Math.abs(factor / ratio.factor - 1) <= SPLIT_TOLERANCE);
+      if (match) {
+        const [shares, per] = change >= 1 ? match.label : [...match.label].reverse();
+        splits.push({ date, ratio: `${shares}:${per}`, previousClose, close });
+      }
+    }
+    return splits;
+  }
+
+  private detectFormat(columns: string[]): PriceHistoryFormat {
+    const has = (...names: string[]) => names.every(name => columns.includes(name));
+    if (has('ticker', 'date', 'close')) return 'stooq-bulk';
+    if (has('date', 'dividends')) return 'yahoo-dividends';
+    if (has('date', 'close', 'adjclose')) return 'yahoo';
+    if (has('date', 'close')) return 'stooq';
+    throw new PriceHistoryError(`Unrecognized CSV header "${columns.join(',')}", expected a Yahoo Finance or Stooq export`);
+  }
+
+  private parseBars(ticker: string, format: PriceHistoryFormat, rows: { line: number; row: Row }[]): ParsedSeries {
+    const series: ParsedSeries = { ticker, rows: rows.length, bars: [], dividends: [], skipped: 0, problems: [] };
+    const skip = (line: number, reason: string) => {
+      series.skipped++;
+      if (series.problems.length < MAX_PROBLEMS) series.problems.push(`Line ${line}: ${reason}`);
+    };
+    const today = toIsoDate(Date.now());
+    const barsByDate = new Map<string, ClosingPricePoint>();
+
+    for (const { line, row } of rows) {
+      // Stooq bulk files can mix in weekly, monthly or intraday bars
+      if (format === 'stooq-bulk' && row.per && row.per.toUpperCase() !== 'D') {
+        skip(line, `not a daily bar (period ${row.per})`);
+        continue;
+      }
+
+      const date = parseDate(row.date ?? '');
+      if (!date) {
+        skip(line, `invalid date "${row.date ?? ''}"`);
+        continue;
+      }
+      if (date > today) {
+        skip(line, `date ${date} is in the future`);
+        continue;
+      }
+
+      const close = parseNumber(row.close);
+      const open = parseNumber(row.open) ?? close;
+      const high = parseNumber(row.high) ?? Math.max(open ?? 0, close ?? 0);
+      const low = parseNumber(row.low) ?? Math.min(open ?? Infinity, close ?? Infinity);
+      const adjClose = parseNumber(row.adjclose);
+      const volume = parseNumber(row.volume);
+      if (close === null || open === null || close <= 0 || open <= 0 || low <= 0) {
+        skip(line, `missing or non-positive price on ${date}`);
+        continue;
+      }
+      if (high < low) {
+        skip(line, `high ${high} is below low ${low} on ${date}`);
+        continue;
+      }
+      if (volume !== null && volume < 0) {
+        skip(line, `negative volume on ${date}`);
+        continue;
+      }
+
+      if (barsByDate.has(date)) {
+        skip(line, `duplicate date ${date}, kept this row`);
+      }
+      barsByDate.set(date, {
+        date,
+        open,
+        high,
+        low,
+        close,
+        ...(adjClose !== null && adjClose > 0 ? { adjClose } : {}),
+        ...(volume !== null ? { volume } : {})
+      });
+    }
+
+    series.bars = Array.from(barsByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    return series;
+  }
+
+  private parseDividends(ticker: string, rows: { line: number; row: Row }[]): ParsedSeries {
+    const series: ParsedSeries = { ticker, rows: rows.length, bars: [], dividends: [], skipped: 0, problems: [] };
+    const dividendsByDate = new Map<string, DividendPoint>();
+
+    for (const { line, row } of rows) {
+      const date = parseDate(row.date ?? '');
+      const amount = parseNumber(row.dividends);
+      if (!date || amount === null || amount <= 0) {
+        series.skipped++;
+        if (series.problems.length < MAX_PROBLEMS) {
+          series.problems.push(`Line ${line}: ${date ? `invalid dividend "${row.dividends ?? ''}"` : `invalid date "${row.date ?? ''}"`}`);
+        }
+        continue;
+      }
+      dividendsByDate.set(date, { date, amount });
+    }
+
+    series.dividends = Array.from(dividendsByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    return series;
+  }
+
+  // Merge the parsed series into stock_data; imported dates replace stored ones
+  private async storeSeries(format: PriceHistoryFormat, series: ParsedSeries, universe: Set<string>): Promise<PriceHistoryImportSummary> {
+    const dates = (format === 'yahoo-dividends' ? series.dividends : series.bars).map(point => point.date);
+    const summary: PriceHistoryImportSummary = {
+      ticker: series.ticker,
+      format,
+      rows: series.rows,
+      imported: 0,
+      skipped: series.skipped,
+      firstDate: dates[0] ?? null,
+      lastDate: dates[dates.length - 1] ?? null,
+      gaps: this.detectGaps(series.bars),
+      splits: this.detectSplits(series.bars),
+      dividends: series.dividends.length,
+      storedDays: 0,
+      problems: series.problems
+    };
+
+    // stock_data rows hang off the stocks table
+    if (!universe.has(series.ticker)) {
+      return { ...summary, error: `${series.ticker} is not in the stock universe` };
+    }
+    if (dates.length === 0) {
+      return { ...summary, error: 'No valid rows to import' };
+    }
+
+    const [existing] = await storage.getStockDetailedData([series.ticker]);
+    const closingHistory = this.mergeByDate(toClosingHistory(existing?.closingHistory), series.bars);
+    const dividends = this.mergeByDate(toDividendHistory(existing?.dividends), series.dividends);
+
+    await storage.upsertStockDetailedData({
+      ticker: series.ticker,
+      ...(series.bars.length ? { closingHistory } : {}),
+      ...(series.dividends.length ? { dividends } : {})
+    });
+
+    return { ...summary, imported: dates.length, storedDays: closingHistory.length };
+  }
+
+  private mergeByDate<T extends { date: string }>(stored: T[], imported: T[]): T[] {
+    const byDate = new Map(stored.map(point => [point.date, point]));
+    imported.forEach(point => byDate.set(point.date, point));
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Daily points, or weekly/monthly/quarterly bars built from them
+  private toQuotes(points: ClosingPricePoint[], interval: string): StoredChartQuote[] {
+    const periodOf = (date: string): string => {
+      switch (interval) {
+        case '1wk': {
+          // Weeks start on Monday
+          const day = (new Date(date).getUTCDay() + 6) % 7;
+          return addDays(date, -day);
+        }
+        case '1mo': return date.slice(0, 7);
+        case '3mo': return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3)}`;
+        default: return date;
+      }
+    };
+
+    const periods = new Map<string, ClosingPricePoint[]>();
+    points.forEach(point => {
+      const period = periodOf(point.date);
+      const days = periods.get(period);
+      if (days) days.push(point);
+      else periods.set(period, [point]);
+    });
+
+    return Array.from(periods.values()).map(days => {
+      const first = days[0];
+      const last = days[days.length - 1];
+      return {
+        date: new Date(first.date),
+        open: first.open ?? first.close,
+        high: Math.max(...days.map(day => day.high ?? day.close)),
+        low: Math.min(...days.map(day => day.low ?? day.close)),
+        close: last.close,
+        volume: days.reduce((sum, day) => sum + (day.volume ?? 0), 0),
+        adjclose: last.adjClose ?? last.close
+      };
+    });
+  }
+}
+
+export const priceHistoryService = new PriceHistoryService();
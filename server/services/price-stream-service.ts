@@ -0,0 +1,356 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import {
+  priceStreamClientMessageSchema,
+  type PriceStreamServerMessage,
+  type PriceTick,
+  type PriceTickSource as PriceTickSourceName
+} from '@shared/schema';
+import { storage } from '../storage';
+import { yahooFinanceService } from './yahoo-finance-service';
+
+/**
+ * Path the price stream WebSocket is served on
+ */
+export const PRICE_STREAM_PATH = '/ws/prices';
+
+/**
+ * Most symbols one connection can be subscribed to
+ */
+const MAX_SUBSCRIPTIONS = 50;
+
+/**
+ * Most symbols requested from the tick source at once
+ */
+const POLL_BATCH_SIZE = 50;
+
+/**
+ * A client is sent at most one message per this many milliseconds; ticks in between are merged
+ */
+const CLIENT_THROTTLE_MS = 1000;
+
+/**
+ * Connections that don't answer a ping within this long are closed
+ */
+const HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Most open connections from one IP address; further upgrades are refused with 429
+ */
+const MAX_CONNECTIONS_PER_IP = Number(process.env.PRICE_STREAM_MAX_CONNECTIONS_PER_IP) || 5;
+
+/**
+ * Where the stream's prices come from
+ */
+export interface PriceTickSource {
+  name: PriceTickSourceName;
+  // How often subscribed symbols are polled
+  pollIntervalMs: number;
+  // Latest prices; symbols without one are left out
+  fetchTicks(symbols: string[]): Promise<PriceTick[]>;
+}
+
+// "None" (a missing value in the Alpha Vantage quote layout) becomes null
+const parseQuoteNumber = (value: string | undefined) => {
+  const num = parseFloat(value ?? '');
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Real-time quotes from Yahoo Finance
+ */
+export class YahooPriceTickSource implements PriceTickSource {
+  name = 'yahoo' as const;
+
+  constructor(public pollIntervalMs: number = 15 * 1000) {}
+
+  async fetchTicks(symbols: string[]): Promise<PriceTick[]> {
+    const quotes = await yahooFinanceService.getQuotes(symbols);
+    const time = new Date().toISOString();
+
+    return Array.from(quotes.entries()).flatMap(([symbol, quote]) => {
+      const price = parseQuoteNumber(quote['05. price']);
+      if (price === null) return [];
+      return [{
+        symbol,
+        price,
+        change: parseQuoteNumber(quote['09. change']),
+        changePercent: parseQuoteNumber(quote['10. change percent']),
+        time,
+        source: this.name
+      }];
+    });
+  }
+}
+
+/**
+ * Random-walk prices starting from each stock's stored price, for working offline
+ */
+export class SimulatedPriceTickSource implements PriceTickSource {
+  name = 'simulated' as const;
+  // Opening and latest simulated price per symbol
+  private prices = new Map<string, { open: number; price: number }>();
+
+  constructor(public pollIntervalMs: number = 2 * 1000, private volatility: number = 0.002) {}
+
+  async fetchTicks(symbols: string[]): Promise<PriceTick[]> {
+    const time = new Date().toISOString();
+
+    return Promise.all(symbols.map(async symbol => {
+      const current = this.prices.get(symbol) ?? await this.startPrice(symbol);
+      // Normally distributed move (Box-Muller), so most ticks are small
+      const shock = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+      const price = Math.max(0.01, Number((current.price * (1 + shock * this.volatility)).toFixed(2)));
+      this.prices.set(symbol, { ...current, price });
+
+      const change = Number((price - current.open).toFixed(2));
+      return {
+        symbol,
+        price,
+        change,
+        changePercent: Number(((change / current.open) * 100).toFixed(2)),
+        time,
+        source: this.name
+      };
+    }));
+  }
+
+  private async startPrice(symbol: string) {
+    const stock = await storage.getStock(symbol).catch(() => undefined);
+    const stored = Number(stock?.currentPrice);
+    const open = Number.isFinite(stored) && stored > 0 ? stored : 100;
+    return { open, price: open };
+  }
+}
+
+/**
+ * PRICE_STREAM_SOURCE is yahoo or simulated. Without it, prices are simulated when
+ * market data is served from fixtures, since recorded quotes never move.
+ */
+function createPriceTickSource(): PriceTickSource {
+  const source = process.env.PRICE_STREAM_SOURCE
+    || (process.env.MARKET_DATA_PROVIDER === 'fixtures' ? 'simulated' : 'yahoo');
+  const pollIntervalMs = Number(process.env.PRICE_STREAM_POLL_MS) || undefined;
+
+  switch (source) {
+    case 'yahoo':
+      return new YahooPriceTickSource(pollIntervalMs);
+    case 'simulated':
+      console.log('[price-stream] Streaming simulated prices');
+      return new SimulatedPriceTickSource(pollIntervalMs);
+    default:
+      throw new Error(`Unknown PRICE_STREAM_SOURCE "${source}", expected "yahoo" or "simulated"`);
+  }
+}
+
+// The caller's address as Express sees it with "trust proxy" set to one hop
+function getClientIp(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] || req.socket.remoteAddress || 'unknown';
+}
+
+interface StreamClient {
+  symbols: Set<string>;
+  // Ticks waiting for the throttle, latest per symbol
+  pending: Map<string, PriceTick>;
+  flushTimer: NodeJS.Timeout | null;
+  lastSentAt: number;
+  alive: boolean;
+}
+
+/**
+ * Pushes price ticks to WebSocket clients for the symbols they subscribe to.
+ * Subscribed symbols are polled from the tick source only while someone is listening.
+ */
+export class PriceStreamService {
+  private wss = new WebSocketServer({ noServer: true });
+  private clients = new Map<WebSocket, StreamClient>();
+  // Last tick per symbol, sent straight away to new subscribers
+  private latest = new Map<string, PriceTick>();
+  private connectionsByIp = new Map<string, number>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  // Set while a poll is running, so a second poll loop never starts alongside it
+  private polling = false;
+  // A subscription arrived mid-poll and wants its symbols polled as soon as this one ends
+  private pollAgain = false;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(private source: PriceTickSource = createPriceTickSource()) {
+    this.wss.on('connection', (socket: WebSocket, req: IncomingMessage) => this.handleConnection(socket, getClientIp(req)));
+  }
+
+  /**
+   * Serve the stream on the HTTP server. Other upgrade requests (e.g. Vite's HMR socket) are left alone.
+   */
+  attach(server: Server) {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url || '/', 'http://localhost').pathname !== PRICE_STREAM_PATH) return;
+
+      const ip = getClientIp(req);
+      if ((this.connectionsByIp.get(ip) ?? 0) >= MAX_CONNECTIONS_PER_IP) {
+        console.warn(`[price-stream] Refused connection from ${ip}: ${MAX_CONNECTIONS_PER_IP} already open`);
+        socket.end('HTTP/1.1 429 Too Many Requests\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, ws => this.wss.emit('connection', ws, req));
+    });
+
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), HEARTBEAT_MS);
+    }
+  }
+
+  stop() {
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.pollTimer = null;
+    this.heartbeatTimer = null;
+    this.clients.forEach((_, socket) => socket.terminate());
+  }
+
+  private handleConnection(socket: WebSocket, ip: string) {
+    const client: StreamClient = { symbols: new Set(), pending: new Map(), flushTimer: null, lastSentAt: 0, alive: true };
+    this.clients.set(socket, client);
+    this.connectionsByIp.set(ip, (this.connectionsByIp.get(ip) ?? 0) + 1);
+
+    socket.on('pong', () => { client.alive = true; });
+    socket.on('message', data => this.handleMessage(socket, client, data));
+    socket.on('close', () => {
+      if (client.flushTimer) clearTimeout(client.flushTimer);
+      this.clients.delete(socket);
+
+      const open = (this.connectionsByIp.get(ip) ?? 1) - 1;
+      if (open > 0) this.connectionsByIp.set(ip, open);
+      else this.connectionsByIp.delete(ip);
+    });
+    socket.on('error', error => console.warn('[price-stream] Connection error:', error.message));
+  }
+
+  private handleMessage(socket: WebSocket, client: StreamClient, data: RawData) {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch {
+      return this.send(socket, { type: 'error', message: 'Messages must be JSON' });
+    }
+
+    const parsed = priceStreamClientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      return this.send(socket, {
+        type: 'error',
+        message: 'Expected { "type": "subscribe" | "unsubscribe", "symbols": [...] } with 1 to 50 symbols'
+      });
+    }
+
+    const message = parsed.data;
+    if (message.type === 'unsubscribe') {
+      message.symbols.forEach(symbol => {
+        client.symbols.delete(symbol);
+        client.pending.delete(symbol);
+      });
+      return;
+    }
+
+    const added = message.symbols.filter(symbol => !client.symbols.has(symbol));
+    if (client.symbols.size + added.length > MAX_SUBSCRIPTIONS) {
+      return this.send(socket, { type: 'error', message: `At most ${MAX_SUBSCRIPTIONS} symbols can be streamed at once` });
+    }
+    added.forEach(symbol => client.symbols.add(symbol));
+
+    // New subscribers get the last known prices now, and unknown symbols are polled right away
+    const known = added.flatMap(symbol => this.latest.get(symbol) ?? []);
+    this.queue(socket, client, known);
+    this.schedulePoll(known.length < added.length ? 0 : this.source.pollIntervalMs);
+  }
+
+  // One poll loop at a time: while a poll runs, an immediate request just asks for another right after it
+  private schedulePoll(delayMs: number) {
+    if (this.polling) {
+      if (delayMs === 0) this.pollAgain = true;
+      return;
+    }
+    if (this.pollTimer) {
+      if (delayMs > 0) return;
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.polling = true;
+      this.poll().finally(() => {
+        this.polling = false;
+        const delay = this.pollAgain ? 0 : this.source.pollIntervalMs;
+        this.pollAgain = false;
+        if (this.subscribedSymbols().length > 0) this.schedulePoll(delay);
+      });
+    }, delayMs);
+  }
+
+  private async poll() {
+    const symbols = this.subscribedSymbols();
+
+    for (let start = 0; start < symbols.length; start += POLL_BATCH_SIZE) {
+      const batch = symbols.slice(start, start + POLL_BATCH_SIZE);
+      let ticks: PriceTick[];
+      try {
+        ticks = await this.source.fetchTicks(batch);
+      } catch (error) {
+        console.warn(`[price-stream] Failed to fetch ${this.source.name} prices:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      // Only prices that moved are pushed
+      const changed = ticks.filter(tick => this.latest.get(tick.symbol)?.price !== tick.price);
+      changed.forEach(tick => this.latest.set(tick.symbol, tick));
+
+      this.clients.forEach((client, socket) => {
+        this.queue(socket, client, changed.filter(tick => client.symbols.has(tick.symbol)));
+      });
+    }
+  }
+
+  private subscribedSymbols(): string[] {
+    const symbols = new Set<string>();
+    this.clients.forEach(client => client.symbols.forEach(symbol => symbols.add(symbol)));
+    return Array.from(symbols);
+  }
+
+  // Hold ticks until the client's throttle allows another message
+  private queue(socket: WebSocket, client: StreamClient, ticks: PriceTick[]) {
+    if (ticks.length === 0) return;
+    ticks.forEach(tick => client.pending.set(tick.symbol, tick));
+    if (client.flushTimer) return;
+
+    const waitMs = Math.max(0, client.lastSentAt + CLIENT_THROTTLE_MS - Date.now());
+    client.flushTimer = setTimeout(() => {
+      client.flushTimer = null;
+      if (client.pending.size === 0) return;
+      client.lastSentAt = Date.now();
+      this.send(socket, { type: 'prices', ticks: Array.from(client.pending.values()) });
+      client.pending.clear();
+    }, waitMs);
+  }
+
+  private send(socket: WebSocket, message: PriceStreamServerMessage) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private checkHeartbeats() {
+    this.clients.forEach((client, socket) => {
+      if (!client.alive) {
+        socket.terminate();
+        return;
+      }
+      client.alive = false;
+      socket.ping();
+    });
+  }
+}
+
+export const priceStreamService = new PriceStreamService();
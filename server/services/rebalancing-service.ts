@@ -0,0 +1,62 @@
+import { storage } from '../storage';
+import type { Portfolio, RebalanceTargets } from '@shared/schema';
+import { planRebalance, type RebalancePlan, type RebalancePosition } from '@shared/scoring/rebalancing';
+
+/**
+ * Industry for stocks the universe doesn't classify
+ */
+const UNCLASSIFIED_INDUSTRY = 'Other';
+
+/**
+ * Plans rebalancing trades at the universe's stored prices (kept current by the
+ * intraday-prices job), so the preview and the executed batch trade at the same prices.
+ */
+export class RebalancingService {
+  /**
+   * Plan the trades that bring the portfolio back to its targets.
+   * Holdings without a stored price can't be traded and are left out of the plan.
+   */
+  async getPlan(portfolio: Portfolio, targets: RebalanceTargets, tradeFee: number): Promise<RebalancePlan> {
+    const holdings = await storage.getHoldingsByPortfolioId(portfolio.id);
+    const heldTickers = new Set(holdings.map(holding => holding.ticker));
+    const targetTickers = targets.basis === 'ticker'
+      ? Object.keys(targets.weights).filter(ticker => !heldTickers.has(ticker))
+      : [];
+
+    const [heldStocks, targetStocks] = await Promise.all([
+      Promise.all(holdings.map(holding => storage.getStock(holding.ticker))),
+      Promise.all(targetTickers.map(ticker => storage.getStock(ticker)))
+    ]);
+
+    const unpriced: string[] = [];
+    const positions: RebalancePosition[] = [];
+    holdings.forEach((holding, i) => {
+      const stock = heldStocks[i];
+      const price = Number(stock?.currentPrice);
+      if (!stock || stock.currentPrice === null || !(price > 0)) {
+        unpriced.push(holding.ticker);
+        return;
+      }
+      positions.push({
+        ticker: holding.ticker,
+        industry: stock.industry ?? UNCLASSIFIED_INDUSTRY,
+        shares: holding.shares,
+        price
+      });
+    });
+
+    const prices: Record<string, number> = {};
+    targetStocks.forEach(stock => {
+      const price = Number(stock?.currentPrice);
+      if (stock && stock.currentPrice !== null && price > 0) prices[stock.ticker] = price;
+    });
+
+    const plan = planRebalance({ positions, cash: portfolio.cash, targets, prices, tradeFee });
+    if (unpriced.length > 0) {
+      plan.warnings.unshift(`No current price for ${unpriced.join(', ')}, so left out of the plan`);
+    }
+    return plan;
+  }
+}
+
+export const rebalancingService = new RebalancingService();
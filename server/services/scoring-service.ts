@@ -0,0 +1,70 @@
+import { scoreStock } from '@shared/scoring/advanced-metric-scoring';
+import type { StockData, StockScores } from '@shared/scoring/types';
+import { universeService } from './universe-service';
+
+/**
+ * Most tickers that can be scored in one batch request
+ */
+export const MAX_BATCH_TICKERS = 50;
+
+/**
+ * Error raised for score requests that can't be served, carrying the HTTP status to respond with
+ */
+export class ScoringError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ScoringError';
+  }
+}
+
+export interface BatchScores {
+  scores: StockScores[];
+  // Requested tickers Swipefolio doesn't score
+  missing: string[];
+}
+
+export class ScoringService {
+  /**
+   * Find a stock in the Swipefolio universe by ticker, case-insensitively
+   */
+  findStock(ticker: string): Promise<StockData | undefined> {
+    return universeService.findStock(ticker);
+  }
+
+  /**
+   * @throws ScoringError (404) if the ticker isn't one Swipefolio scores
+   */
+  async getScores(ticker: string): Promise<StockScores> {
+    const stock = await this.findStock(ticker);
+    if (!stock) {
+      throw new ScoringError(`${ticker.toUpperCase()} is not one of the stocks Swipefolio scores`, 404);
+    }
+    return scoreStock(stock);
+  }
+
+  /**
+   * Score several tickers at once. Unknown tickers are listed in missing rather than failing the batch.
+   */
+  async getBatchScores(tickers: string[]): Promise<BatchScores> {
+    const unique = Array.from(new Set(tickers.map(ticker => ticker.trim().toUpperCase()).filter(Boolean)));
+    if (unique.length === 0) {
+      throw new ScoringError('At least one ticker is required');
+    }
+    if (unique.length > MAX_BATCH_TICKERS) {
+      throw new ScoringError(`At most ${MAX_BATCH_TICKERS} tickers can be scored at once`);
+    }
+
+    const result: BatchScores = { scores: [], missing: [] };
+    for (const ticker of unique) {
+      const stock = await this.findStock(ticker);
+      if (stock) {
+        result.scores.push(scoreStock(stock));
+      } else {
+        result.missing.push(ticker);
+      }
+    }
+    return result;
+  }
+}
+
+export const scoringService = new ScoringService();
@@ -0,0 +1,146 @@
+import type { Stock, StockDetailedData } from '@shared/schema';
+import type { StockData } from '@shared/scoring/types';
+import { deriveStockData } from '@shared/scoring/statement-metrics';
+import { storage } from '../storage';
+import { getAllStocks } from '../../client/src/lib/stock-data';
+
+/**
+ * Error raised for universe requests that can't be served, carrying the HTTP status to respond with
+ */
+export class UniverseError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'UniverseError';
+  }
+}
+
+export interface SeedResult {
+  stocks: number;
+  industries: string[];
+}
+
+const toNumeric = (value: number | string | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? String(value) : null;
+
+/**
+ * Store the original hardcoded swipe cards in the stocks and stock_data tables.
+ * Existing rows are updated, so this is safe to run again after editing the cards.
+ */
+export async function seedUniverse(): Promise<SeedResult> {
+  const cards = getAllStocks();
+
+  for (const card of cards) {
+    await storage.upsertStock({
+      ticker: card.ticker,
+      companyName: card.name,
+      industry: card.industry,
+      currentPrice: toNumeric(card.price),
+      dividendYield: toNumeric(card.metrics.value.details.dividendYield),
+      beta: toNumeric(card.metrics.stability.details.beta),
+      peRatio: toNumeric(card.metrics.value.details.peRatio),
+      description: card.description
+    });
+    await storage.upsertStockDetailedData({ ticker: card.ticker, swipeCard: card });
+  }
+
+  return {
+    stocks: cards.length,
+    industries: Array.from(new Set(cards.map(card => card.industry)))
+  };
+}
+
+export class UniverseService {
+  private seeded: Promise<void> | null = null;
+
+  async listStocks(industry?: string): Promise<StockData[]> {
+    await this.ensureSeeded();
+    const stocks = await storage.getStocks(industry);
+    return this.toStockData(stocks);
+  }
+
+  /**
+   * Every ticker in the universe, for jobs that refresh its data
+   */
+  async listTickers(): Promise<string[]> {
+    await this.ensureSeeded();
+    return (await storage.getStocks()).map(stock => stock.ticker);
+  }
+
+  /**
+   * Industries in the universe with how many stocks each has
+   */
+  async listIndustries(): Promise<{ industry: string; count: number }[]> {
+    await this.ensureSeeded();
+    const counts = new Map<string, number>();
+    (await storage.getStocks()).forEach(stock => {
+      const industry = stock.industry || 'Other';
+      counts.set(industry, (counts.get(industry) || 0) + 1);
+    });
+    return Array.from(counts.entries()).map(([industry, count]) => ({ industry, count }));
+  }
+
+  async findStock(ticker: string): Promise<StockData | undefined> {
+    await this.ensureSeeded();
+    const stock = await storage.getStock(ticker.trim().toUpperCase());
+    if (!stock) return undefined;
+    const [stockData] = await this.toStockData([stock]);
+    return stockData;
+  }
+
+  /**
+   * @throws UniverseError (404) if the ticker isn't in the universe
+   */
+  async getStock(ticker: string): Promise<StockData> {
+    const stock = await this.findStock(ticker);
+    if (!stock) {
+      throw new UniverseError(`${ticker.toUpperCase()} is not in the Swipefolio universe`, 404);
+    }
+    return stock;
+  }
+
+  /**
+   * Stored swipe cards are used as written, with the latest price and profile
+   * from the stocks row. Stocks without one are derived from their statements.
+   */
+  private async toStockData(stocks: Stock[]): Promise<StockData[]> {
+    const details = await storage.getStockDetailedData(stocks.map(stock => stock.ticker));
+    const detailsByTicker = new Map(details.map(data => [data.ticker, data] as [string, StockDetailedData]));
+
+    return stocks.map(stock => {
+      const data = detailsByTicker.get(stock.ticker);
+      const card = data?.swipeCard as StockData | null | undefined;
+      if (!card) {
+        return deriveStockData(stock, data);
+      }
+
+      const price = Number(stock.currentPrice);
+      return {
+        ...card,
+        ticker: stock.ticker,
+        name: stock.companyName,
+        price: Number.isFinite(price) && price > 0 ? price : card.price,
+        description: stock.description || card.description,
+        industry: stock.industry || card.industry
+      };
+    });
+  }
+
+  // A fresh database or the in-memory store starts with the original universe
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeded) {
+      this.seeded = (async () => {
+        const [existing] = await storage.getStocks();
+        if (existing) return;
+        const result = await seedUniverse();
+        console.log(`[universe] Seeded ${result.stocks} stocks across ${result.industries.length} industries`);
+      })().catch(error => {
+        // Try again on the next request
+        this.seeded = null;
+        throw error;
+      });
+    }
+    return this.seeded;
+  }
+}
+
+export const universeService = new UniverseService();
@@ -1,5 +1,9 @@
-import yahooFinance from 'yahoo-finance2';
 import { Request, Response } from 'express';
+import { marketDataCache, type CachedData } from './market-data-cache';
+import { marketDataProvider, type Quote } from '../market-data-provider';
+import { getAnalystData } from '../../shared/services/analystRatingsService';
+import { chartSources, type ChartSource } from '@shared/schema';
+import { priceHistoryService, type StoredChartData } from './price-history-service';
 
 // Define interfaces based on Yahoo Finance API
 interface YahooNewsItem {
@@ -51,6 +55,102 @@ interface UpgradeHistoryItem {
   epochGradeDate: number;
 }
 
+// Real-time quote in the Alpha Vantage GLOBAL_QUOTE layout the client hooks expect
+interface RealTimeQuote {
+  "01. symbol": string;
+  "02. open": string;
+  "03. high": string;
+  "04. low": string;
+  "05. price": string;
+  "06. volume": string;
+  "07. latest trading day": string;
+  "08. previous close": string;
+  "09. change": string;
+  "10. change percent": string;
+}
+
+// A single intraday bar
+interface IntradayDataPoint {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// A chart from imported price history, or from Yahoo Finance through the cache
+type ChartFromSource =
+  | { source: 'history'; data: StoredChartData }
+  | { source: 'live'; result: CachedData<unknown> };
+
+// Company overview in the Alpha Vantage OVERVIEW layout; missing values are "None"
+interface CompanyOverview {
+  Symbol: string;
+  AssetType: string;
+  Name: string;
+  Description: string;
+  Exchange: string;
+  Currency: string;
+  Country: string;
+  Sector: string;
+  Industry: string;
+  MarketCapitalization: string;
+  PERatio: string;
+  PEGRatio: string;
+  BookValue: string;
+  DividendPerShare: string;
+  DividendYield: string;
+  EPS: string;
+  ProfitMargin: string;
+  OperatingMarginTTM: string;
+  ReturnOnAssetsTTM: string;
+  ReturnOnEquityTTM: string;
+  RevenueTTM: string;
+  GrossProfitTTM: string;
+  Beta: string;
+  [key: string]: string | number;
+}
+
+// A symbol search match in the Alpha Vantage SYMBOL_SEARCH layout
+interface SymbolSearchMatch {
+  "1. symbol": string;
+  "2. name": string;
+  "3. type": string;
+  "4. region": string;
+  "8. currency": string;
+  "9. matchScore": string;
+}
+
+/**
+ * Error raised when Yahoo Finance has no data for a symbol, as opposed to
+ * the upstream request itself failing
+ */
+class SymbolNotFoundError extends Error {
+  constructor(symbol: string) {
+    super(`No data found for symbol ${symbol}`);
+    this.name = 'SymbolNotFoundError';
+  }
+}
+
+// Alpha Vantage style intraday intervals mapped to Yahoo Finance chart intervals
+const INTRADAY_INTERVALS: Record<string, '1m' | '5m' | '15m' | '30m' | '60m'> = {
+  '1min': '1m',
+  '5min': '5m',
+  '15min': '15m',
+  '30min': '30m',
+  '60min': '60m'
+};
+
+// Yahoo Finance quote types mapped to Alpha Vantage asset types
+const ASSET_TYPES: Record<string, string> = {
+  EQUITY: 'Common Stock',
+  ETF: 'ETF',
+  MUTUALFUND: 'Mutual Fund',
+  INDEX: 'Index',
+  CRYPTOCURRENCY: 'Cryptocurrency'
+};
+
 class YahooFinanceService {
   /**
    * Initialize the Yahoo Finance service
@@ -59,10 +159,41 @@ class YahooFinanceService {
     console.log('[yahoo-finance] Yahoo Finance Service initialized');
   }
 
+  /**
+   * Chart data for a stock symbol, served from the market data cache
+   */
+  getChartData(symbol: string, range: string = '1mo', interval: string = '1d') {
+    const endpoint = range === '1d' || range === '5d' ? 'chart-intraday' : 'chart';
+    return marketDataCache.read(endpoint, symbol, { range, interval }, () => this.fetchChartData(symbol, range, interval));
+  }
+
+  /**
+   * Chart data from imported price history or Yahoo Finance. "auto" uses history when it covers
+   * the whole range, then Yahoo Finance, then whatever history there is if Yahoo Finance fails.
+   * @returns null if source is "history" and nothing was imported for the symbol
+   */
+  async getChartFromSource(symbol: string, range: string, interval: string, source: ChartSource): Promise<ChartFromSource | null> {
+    if (source !== 'live') {
+      const stored = await priceHistoryService.getChart(symbol, range, interval, source === 'auto');
+      if (stored) return { source: 'history', data: stored };
+      if (source === 'history') return null;
+    }
+
+    try {
+      return { source: 'live', result: await this.getChartData(symbol, range, interval) };
+    } catch (error) {
+      // Partial history is better than no chart when Yahoo Finance is down
+      const stored = source === 'auto' && await priceHistoryService.getChart(symbol, range, interval, false);
+      if (!stored) throw error;
+      console.warn(`Serving imported history for ${symbol} after chart error:`, error);
+      return { source: 'history', data: stored };
+    }
+  }
+
   /**
    * Fetch chart data for a stock symbol
    */
-  async getChartData(symbol: string, range: string = '1mo', interval: string = '1d') {
+  private async fetchChartData(symbol: string, range: string, interval: string) {
     try {
       console.log(`Fetching chart data for ${symbol} with range: ${range}, interval: ${interval}`);
       
@@ -73,7 +204,7 @@ class YahooFinanceService {
         const intradayInterval = range === '1d' ? '5m' : '60m';
         console.log(`Using intraday interval ${intradayInterval} for ${range} range`);
         
-        const result = await yahooFinance.chart(symbol, {
+        const result = await marketDataProvider.chart(symbol, {
           period1: this.getDateFromRange(range),
           interval: intradayInterval as any,
           includePrePost: true,
@@ -85,7 +216,7 @@ class YahooFinanceService {
         // For non-intraday data, use the regular interval
         const validInterval = this.getValidInterval(interval);
         
-        const result = await yahooFinance.chart(symbol, {
+        const result = await marketDataProvider.chart(symbol, {
           period1: this.getDateFromRange(range),
           interval: validInterval,
           includePrePost: true,
@@ -124,18 +255,23 @@ class YahooFinanceService {
     return intervalMap[interval] || '1d';
   }
 
+  /**
+   * Analyst recommendations for a stock symbol, served from the market data cache
+   */
+  getRecommendations(symbol: string): Promise<CachedData<AnalystRecommendation | null>> {
+    return marketDataCache.read('recommendations', symbol, {}, () => this.fetchRecommendations(symbol));
+  }
+
   /**
    * Fetch analyst recommendations for a stock symbol
    * Uses the quoteSummary endpoint with recommendationTrend module
    */
-  async getRecommendations(symbol: string): Promise<AnalystRecommendation | null> {
+  private async fetchRecommendations(symbol: string): Promise<AnalystRecommendation | null> {
     try {
       console.log(`Fetching analyst recommendations for ${symbol}`);
       
       // Get the recommendation trend from quoteSummary
-      const quoteSummary = await yahooFinance.quoteSummary(symbol, {
-        modules: ['recommendationTrend']
-      });
+      const quoteSummary = await marketDataProvider.quoteSummary(symbol, ['recommendationTrend']);
       
       if (!quoteSummary?.recommendationTrend?.trend || 
           !Array.isArray(quoteSummary.recommendationTrend.trend) || 
@@ -222,20 +358,27 @@ class YahooFinanceService {
       };
     } catch (error) {
       console.error(`Error fetching recommendations for ${symbol}:`, error);
-      return null;
+      throw error;
     }
   }
   
+  /**
+   * News for a stock symbol, served from the market data cache
+   */
+  getNewsData(symbol: string, count: number = 5) {
+    return marketDataCache.read('news', symbol, { count }, () => this.fetchNewsData(symbol, count));
+  }
+
   /**
    * Fetch news data for a stock symbol
    * Uses quoteSummary with 'assetProfile' module and additional search
    */
-  async getNewsData(symbol: string, count: number = 5) {
+  private async fetchNewsData(symbol: string, count: number) {
     try {
       console.log(`Fetching news data for ${symbol}, count: ${count}`);
       
       // First get the quote to confirm symbol
-      const quote = await yahooFinance.quote(symbol);
+      const quote = await marketDataProvider.quote(symbol);
       
       if (!quote) {
         throw new Error(`No quote data found for ${symbol}`);
@@ -243,7 +386,7 @@ class YahooFinanceService {
       
       // Get news through a search for the symbol
       // This gives us the most recent news articles related to the symbol
-      const searchResults = await yahooFinance.search(symbol);
+      const searchResults = await marketDataProvider.search(symbol);
       
       // Extract news items from the search results
       let newsItems: YahooNewsItem[] = [];
@@ -276,9 +419,7 @@ class YahooFinanceService {
       // Also try to get news from the quoteSummary with assetProfile if search didn't yield results
       if (newsItems.length === 0) {
         try {
-          const summary = await yahooFinance.quoteSummary(symbol, {
-            modules: ['assetProfile']
-          });
+          const summary = await marketDataProvider.quoteSummary(symbol, ['assetProfile']);
           
           if (summary.assetProfile && summary.assetProfile.companyOfficers) {
             // Create a news item about company officers
@@ -323,18 +464,23 @@ class YahooFinanceService {
     }
   }
   
+  /**
+   * Analyst upgrade/downgrade history for a stock symbol, served from the market data cache
+   */
+  getUpgradeHistory(symbol: string): Promise<CachedData<UpgradeHistoryItem[] | null>> {
+    return marketDataCache.read('upgrade-history', symbol, {}, () => this.fetchUpgradeHistory(symbol));
+  }
+
   /**
    * Fetch analyst upgrade/downgrade history for a stock symbol
    * Uses the quoteSummary endpoint with upgradeDowngradeHistory module
    */
-  async getUpgradeHistory(symbol: string): Promise<UpgradeHistoryItem[] | null> {
+  private async fetchUpgradeHistory(symbol: string): Promise<UpgradeHistoryItem[] | null> {
     try {
       console.log(`Fetching upgrade/downgrade history for ${symbol}`);
       
       // Get the upgrade/downgrade history from quoteSummary
-      const quoteSummary = await yahooFinance.quoteSummary(symbol, {
-        modules: ['upgradeDowngradeHistory']
-      });
+      const quoteSummary = await marketDataProvider.quoteSummary(symbol, ['upgradeDowngradeHistory']);
       
       if (!quoteSummary?.upgradeDowngradeHistory?.history || 
           !Array.isArray(quoteSummary.upgradeDowngradeHistory.history) || 
@@ -423,7 +569,234 @@ class YahooFinanceService {
       return historyItems.sort((a, b) => Number(b.epochGradeDate) - Number(a.epochGradeDate));
     } catch (error) {
       console.error(`Error fetching upgrade/downgrade history for ${symbol}:`, error);
-      return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Analyst ratings, price targets and rating history, processed for the analyst ratings panel
+   * @returns null if the data couldn't be fetched
+   */
+  getAnalystData(symbol: string) {
+    return getAnalystData(symbol, (symbol, modules) => marketDataProvider.quoteSummary(symbol, [...modules]));
+  }
+
+  /**
+   * Fetch the latest quote for a stock symbol
+   * @throws SymbolNotFoundError if Yahoo Finance does not know the symbol
+   */
+  async getQuote(symbol: string): Promise<RealTimeQuote> {
+    console.log(`Fetching quote for ${symbol}`);
+
+    const quote = await this.withNotFound(symbol, () => marketDataProvider.quote(symbol));
+    if (!quote || quote.regularMarketPrice === undefined) {
+      throw new SymbolNotFoundError(symbol);
+    }
+
+    return this.toRealTimeQuote(quote);
+  }
+
+  /**
+   * Fetch real-time quotes for several symbols in one Yahoo Finance call
+   * @returns quotes by symbol; symbols Yahoo Finance has no price for are left out
+   */
+  async getQuotes(symbols: string[]): Promise<Map<string, RealTimeQuote>> {
+    console.log(`Fetching quotes for ${symbols.join(', ')}`);
+
+    const quotes = await marketDataProvider.quotes(symbols);
+    return new Map(quotes
+      .filter(quote => quote.regularMarketPrice !== undefined)
+      .map(quote => [quote.symbol, this.toRealTimeQuote(quote)] as [string, RealTimeQuote]));
+  }
+
+  private toRealTimeQuote(quote: Quote): RealTimeQuote {
+    const tradingDay = quote.regularMarketTime ? new Date(quote.regularMarketTime) : new Date();
+
+    return {
+      "01. symbol": quote.symbol,
+      "02. open": this.formatNumber(quote.regularMarketOpen, 4),
+      "03. high": this.formatNumber(quote.regularMarketDayHigh, 4),
+      "04. low": this.formatNumber(quote.regularMarketDayLow, 4),
+      "05. price": this.formatNumber(quote.regularMarketPrice, 4),
+      "06. volume": String(quote.regularMarketVolume ?? 0),
+      "07. latest trading day": tradingDay.toISOString().slice(0, 10),
+      "08. previous close": this.formatNumber(quote.regularMarketPreviousClose, 4),
+      "09. change": this.formatNumber(quote.regularMarketChange, 4),
+      "10. change percent": `${this.formatNumber(quote.regularMarketChangePercent, 4)}%`
+    };
+  }
+
+  /**
+   * Fetch intraday bars for the most recent trading session
+   * @param interval Alpha Vantage style interval (1min, 5min, 15min, 30min, 60min)
+   * @throws SymbolNotFoundError if Yahoo Finance has no bars for the symbol
+   */
+  async getIntradayData(symbol: string, interval: string = '5min'): Promise<IntradayDataPoint[]> {
+    const yahooInterval = INTRADAY_INTERVALS[interval] || '5m';
+    console.log(`Fetching intraday data for ${symbol} with interval: ${yahooInterval}`);
+
+    // Look back a few days so weekends and holidays still return the last session
+    const result = await this.withNotFound(symbol, () => marketDataProvider.chart(symbol, {
+      period1: this.getDateFromRange('5d'),
+      interval: yahooInterval
+    }));
+
+    const bars = (result?.quotes || []).filter(bar =>
+      bar.open !== null && bar.high !== null && bar.low !== null && bar.close !== null
+    );
+
+    if (bars.length === 0) {
+      throw new SymbolNotFoundError(symbol);
+    }
+
+    // Group by the exchange's local calendar day and keep only the latest session
+    const gmtOffset = result.meta.gmtoffset || 0;
+    const sessionDay = (date: Date) => new Date(date.getTime() + gmtOffset * 1000).toISOString().slice(0, 10);
+    const latestSession = sessionDay(bars[bars.length - 1].date);
+
+    return bars
+      .filter(bar => sessionDay(bar.date) === latestSession)
+      .map(bar => ({
+        timestamp: bar.date.toISOString(),
+        open: bar.open as number,
+        high: bar.high as number,
+        low: bar.low as number,
+        close: bar.close as number,
+        volume: bar.volume ?? 0
+      }));
+  }
+
+  /**
+   * Fetch a company profile with key valuation and profitability figures
+   * @throws SymbolNotFoundError if Yahoo Finance does not know the symbol
+   */
+  async getCompanyOverview(symbol: string): Promise<CompanyOverview> {
+    console.log(`Fetching company overview for ${symbol}`);
+
+    const summary = await this.withNotFound(symbol, () => marketDataProvider.quoteSummary(symbol, [
+      'assetProfile', 'price', 'summaryDetail', 'defaultKeyStatistics', 'financialData', 'quoteType'
+    ]));
+
+    if (!summary?.price) {
+      throw new SymbolNotFoundError(symbol);
+    }
+
+    const { assetProfile, price, summaryDetail, defaultKeyStatistics, financialData, quoteType } = summary;
+
+    return {
+      Symbol: price.symbol,
+      AssetType: ASSET_TYPES[quoteType?.quoteType || price.quoteType] || price.quoteType || 'None',
+      Name: price.longName || price.shortName || symbol,
+      Description: assetProfile?.longBusinessSummary || 'None',
+      Exchange: price.exchangeName || price.exchange || 'None',
+      Currency: price.currency || 'None',
+      Country: assetProfile?.country || 'None',
+      Sector: assetProfile?.sector || 'None',
+      Industry: assetProfile?.industry || 'None',
+      MarketCapitalization: this.formatNumber(price.marketCap),
+      PERatio: this.formatNumber(summaryDetail?.trailingPE, 2),
+      PEGRatio: this.formatNumber(defaultKeyStatistics?.pegRatio, 3),
+      BookValue: this.formatNumber(defaultKeyStatistics?.bookValue, 2),
+      DividendPerShare: this.formatNumber(summaryDetail?.dividendRate, 2),
+      DividendYield: this.formatNumber(summaryDetail?.dividendYield, 4),
+      EPS: this.formatNumber(defaultKeyStatistics?.trailingEps, 2),
+      ProfitMargin: this.formatNumber(financialData?.profitMargins, 3),
+      OperatingMarginTTM: this.formatNumber(financialData?.operatingMargins, 3),
+      ReturnOnAssetsTTM: this.formatNumber(financialData?.returnOnAssets, 3),
+      ReturnOnEquityTTM: this.formatNumber(financialData?.returnOnEquity, 3),
+      RevenueTTM: this.formatNumber(financialData?.totalRevenue),
+      GrossProfitTTM: this.formatNumber(financialData?.grossProfits),
+      Beta: this.formatNumber(summaryDetail?.beta, 3),
+      "52WeekHigh": this.formatNumber(summaryDetail?.fiftyTwoWeekHigh, 2),
+      "52WeekLow": this.formatNumber(summaryDetail?.fiftyTwoWeekLow, 2),
+      AnalystTargetPrice: this.formatNumber(financialData?.targetMeanPrice, 2)
+    };
+  }
+
+  /**
+   * Search for symbols matching a company name or ticker fragment
+   */
+  async searchSymbols(keywords: string): Promise<SymbolSearchMatch[]> {
+    console.log(`Searching symbols for "${keywords}"`);
+
+    const results = await marketDataProvider.search(keywords, { newsCount: 0 });
+    const quotes = (results?.quotes || []) as Array<Record<string, any>>;
+
+    // Only Yahoo's own listings carry a symbol; skip the news/entity results
+    return quotes
+      .filter(quote => quote.isYahooFinance && quote.symbol)
+      .map(quote => ({
+        "1. symbol": quote.symbol,
+        "2. name": quote.longname || quote.shortname || quote.symbol,
+        "3. type": ASSET_TYPES[quote.quoteType] || quote.quoteType || 'None',
+        "4. region": quote.exchDisp || quote.exchange || 'None',
+        "8. currency": quote.currency || 'USD',
+        "9. matchScore": this.formatNumber(typeof quote.score === 'number' ? Math.min(quote.score / 100000, 1) : undefined, 4)
+      }));
+  }
+
+  /**
+   * Handle real-time quote request
+   */
+  async handleQuoteRequest(req: Request, res: Response) {
+    const symbol = this.getSymbolParam(req, res);
+    if (!symbol) return;
+
+    try {
+      res.json(await this.getQuote(symbol));
+    } catch (error) {
+      this.sendUpstreamError(res, 'quote', symbol, error);
+    }
+  }
+
+  /**
+   * Handle intraday data request
+   */
+  async handleIntradayRequest(req: Request, res: Response) {
+    const symbol = this.getSymbolParam(req, res);
+    if (!symbol) return;
+
+    const { interval = '5min' } = req.query;
+
+    try {
+      res.json(await this.getIntradayData(symbol, interval as string));
+    } catch (error) {
+      this.sendUpstreamError(res, 'intraday data', symbol, error);
+    }
+  }
+
+  /**
+   * Handle company overview request
+   */
+  async handleOverviewRequest(req: Request, res: Response) {
+    const symbol = this.getSymbolParam(req, res);
+    if (!symbol) return;
+
+    try {
+      res.json(await this.getCompanyOverview(symbol));
+    } catch (error) {
+      this.sendUpstreamError(res, 'company overview', symbol, error);
+    }
+  }
+
+  /**
+   * Handle symbol search request. The shared query function sends the
+   * search terms as `symbol`, so `keywords` is accepted as an alias.
+   */
+  async handleSearchRequest(req: Request, res: Response) {
+    const keywords = String(req.query.keywords || req.query.symbol || '').trim();
+
+    if (!keywords) {
+      return res.status(400).json({
+        error: 'Missing search keywords',
+        message: 'Provide keywords to search for'
+      });
+    }
+
+    try {
+      res.json(await this.searchSymbols(keywords));
+    } catch (error) {
+      this.sendUpstreamError(res, 'search results', keywords, error);
     }
   }
 
@@ -432,16 +805,36 @@ class YahooFinanceService {
    */
   async handleChartRequest(req: Request, res: Response) {
     const { symbol } = req.params;
-    const { range = '1mo', interval = '1d' } = req.query;
+    const { range = '1mo', interval = '1d', source = 'auto' } = req.query;
+
+    if (!chartSources.includes(source as ChartSource)) {
+      return res.status(400).json({
+        error: 'Invalid source',
+        message: `source must be one of ${chartSources.join(', ')}`
+      });
+    }
     
     try {
-      const data = await this.getChartData(
+      const chart = await this.getChartFromSource(
         symbol, 
         range as string, 
-        interval as string
+        interval as string,
+        source as ChartSource
       );
+
+      if (!chart) {
+        return res.status(404).json({
+          error: 'No price history',
+          message: `No imported price history for ${symbol.toUpperCase()}`
+        });
+      }
+      if (chart.source === 'history') {
+        // X-Data-Source tells imported history apart from Yahoo Finance responses
+        res.set('X-Data-Source', 'history');
+        return res.json(chart.data);
+      }
       
-      res.json(data);
+      this.sendCached(res, chart.result);
     } catch (error) {
       console.error(`Failed to fetch chart data for ${symbol}:`, error);
       res.status(500).json({
@@ -459,12 +852,12 @@ class YahooFinanceService {
     const { count = 5 } = req.query;
     
     try {
-      const data = await this.getNewsData(
+      const result = await this.getNewsData(
         symbol, 
         parseInt(count as string, 10) || 5
       );
       
-      res.json(data);
+      this.sendCached(res, result);
     } catch (error) {
       console.error(`Failed to fetch news data for ${symbol}:`, error);
       res.status(500).json({
@@ -481,16 +874,16 @@ class YahooFinanceService {
     const { symbol } = req.params;
     
     try {
-      const data = await this.getRecommendations(symbol);
+      const result = await this.getRecommendations(symbol);
       
-      if (!data) {
+      if (!result.data) {
         return res.status(404).json({
           error: 'No recommendations found',
           message: `No analyst recommendations available for ${symbol}`
         });
       }
       
-      res.json(data);
+      this.sendCached(res, result);
     } catch (error) {
       console.error(`Failed to fetch recommendations for ${symbol}:`, error);
       res.status(500).json({
@@ -507,16 +900,16 @@ class YahooFinanceService {
     const { symbol } = req.params;
     
     try {
-      const data = await this.getUpgradeHistory(symbol);
+      const result = await this.getUpgradeHistory(symbol);
       
-      if (!data) {
+      if (!result.data) {
         return res.status(404).json({
           error: 'No upgrade/downgrade history found',
           message: `No analyst upgrade/downgrade history available for ${symbol}`
         });
       }
       
-      res.json(data);
+      this.sendCached(res, result);
     } catch (error) {
       console.error(`Failed to fetch upgrade/downgrade history for ${symbol}:`, error);
       res.status(500).json({
@@ -526,6 +919,75 @@ class YahooFinanceService {
     }
   }
 
+  /**
+   * Respond with cached data. X-Cache is HIT, MISS or STALE, where STALE means Yahoo Finance
+   * failed and the last good response (fetched at X-Cache-Updated-At) was served instead.
+   */
+  private sendCached<T>(res: Response, result: CachedData<T>) {
+    res.set('X-Cache', result.status.toUpperCase());
+    res.set('X-Cache-Updated-At', result.updatedAt.toISOString());
+    res.json(result.data);
+  }
+
+  /**
+   * Read and normalize the `symbol` query parameter, responding with 400 if it is missing
+   */
+  private getSymbolParam(req: Request, res: Response): string | null {
+    const symbol = String(req.query.symbol || '').trim().toUpperCase();
+
+    if (!symbol) {
+      res.status(400).json({
+        error: 'Symbol is required',
+        message: 'Provide a stock symbol with ?symbol='
+      });
+      return null;
+    }
+
+    return symbol;
+  }
+
+  /**
+   * Respond with 404 for unknown symbols and 502 when Yahoo Finance itself fails
+   */
+  private sendUpstreamError(res: Response, resource: string, symbol: string, error: unknown) {
+    if (error instanceof SymbolNotFoundError) {
+      return res.status(404).json({
+        error: `No ${resource} found`,
+        message: `No ${resource} available for ${symbol}`
+      });
+    }
+
+    console.error(`Failed to fetch ${resource} for ${symbol}:`, error);
+    res.status(502).json({
+      error: `Failed to fetch ${resource}`,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+
+  /**
+   * Run a Yahoo Finance call, translating its "not found" failures into SymbolNotFoundError
+   */
+  private async withNotFound<T>(symbol: string, request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      if (error instanceof Error && /not found|no data found|delisted/i.test(error.message)) {
+        throw new SymbolNotFoundError(symbol);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Format an optional number as a string, using "None" for missing values
+   */
+  private formatNumber(value: number | null | undefined, decimals?: number): string {
+    if (value === null || value === undefined || !isFinite(value)) {
+      return 'None';
+    }
+    return decimals === undefined ? String(Math.round(value)) : value.toFixed(decimals);
+  }
+
   /**
    * Helper to convert range string to Date object
    */
@@ -564,4 +1026,14 @@ class YahooFinanceService {
 }
 
 export const yahooFinanceService = new YahooFinanceService();
-export type { YahooNewsItem, AnalystRecommendation, UpgradeHistoryItem };
\ No newline at end of file
+export { SymbolNotFoundError };
+export type {
+  YahooNewsItem,
+  AnalystRecommendation,
+  UpgradeHistoryItem,
+  RealTimeQuote,
+  IntradayDataPoint,
+  CompanyOverview,
+  SymbolSearchMatch,
+  ChartFromSource
+};
\ No newline at end of file
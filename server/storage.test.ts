@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import type * as DrizzleKit from "drizzle-kit/api";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import type { Database } from "./db";
+import { createRequire } from "module";
+
+const MemoryStore = createMemoryStore(session);
+
+// drizzle-kit's ESM build can't load its own dependencies, so take the CommonJS one
+const { generateDrizzleJson, generateMigration }: typeof DrizzleKit = createRequire(import.meta.url)("drizzle-kit/api");
+
+// DDL for the shared schema, generated once as if migrating from an empty database
+const schemaStatements = generateMigration(
+  generateDrizzleJson({}),
+  generateDrizzleJson(schema as unknown as Record<string, unknown>),
+);
+
+async function createDatabaseStorage(): Promise<DatabaseStorage> {
+  const client = new PGlite();
+  for (const statement of await schemaStatements) {
+    await client.exec(statement);
+  }
+  const db = drizzle(client, { schema }) as unknown as Database;
+  return new DatabaseStorage(db, new MemoryStore({}));
+}
+
+const at = (time: string) => new Date(time);
+
+/**
+ * Each scenario runs against both storages and returns what it read back, so
+ * DatabaseStorage has to behave exactly like MemStorage.
+ */
+const scenarios: Record<string, (storage: IStorage) => Promise<unknown>> = {
+  "users and progress": async storage => {
+    const user = await storage.createUser({ username: "alice", password: "hash", displayName: "Alice" });
+    const renamed = await storage.updateUser(user.id, { username: "alice2", xp: 40 });
+    const unchanged = await storage.updateUser(user.id, {});
+
+    const [stack] = await storage.getStacks();
+    const progress = await storage.createUserProgress({
+      userId: user.id, stackId: stack.id, currentCardIndex: 0, completed: false, earnedXp: 0, lastAccessed: at("2026-10-19T10:00:00Z")
+    });
+    const advanced = await storage.updateUserProgress(progress.id, { currentCardIndex: 3 });
+    const sameProgress = await storage.updateUserProgress(progress.id, {});
+
+    const daily = await storage.createUserDailyProgress({
+      userId: user.id, date: at("2026-10-19T08:00:00Z"), lessonsCompleted: 1, xpEarned: 10, goalCompleted: false
+    });
+    const sameDaily = await storage.updateUserDailyProgress(daily.id, {});
+    const today = await storage.getUserDailyProgress(user.id, at("2026-10-19T23:00:00Z"));
+    const tomorrow = await storage.getUserDailyProgress(user.id, at("2026-10-20T01:00:00Z"));
+
+    return {
+      renamed: [renamed?.username, renamed?.xp],
+      unchanged: unchanged?.username,
+      byName: (await storage.getUserByUsername("alice2"))?.id,
+      progress: [advanced?.currentCardIndex, sameProgress?.currentCardIndex],
+      daily: [sameDaily?.lessonsCompleted, today?.id, tomorrow]
+    };
+  },
+
+  "portfolio, ledger and tax lots": async storage => {
+    const portfolio = await storage.createPortfolio({
+      userId: 1, cash: 100, lotMethod: "fifo", rebalanceTargets: null, createdAt: at("2026-10-01T00:00:00Z"), updatedAt: at("2026-10-01T00:00:00Z")
+    });
+    const holding = await storage.createHolding({
+      portfolioId: portfolio.id, ticker: "AAA", shares: 2, purchasePrice: 10, purchaseDate: at("2026-10-02T00:00:00Z")
+    });
+    await storage.updateHolding(holding.id, { shares: 3 });
+    await storage.createHolding({
+      portfolioId: portfolio.id, ticker: "BBB", shares: 1, purchasePrice: 5, purchaseDate: at("2026-10-02T00:00:00Z")
+    });
+
+    const trade = { portfolioId: portfolio.id, ticker: "AAA", side: "buy", shares: 1, price: 10, fees: 0, amount: 10, costBasis: null, realizedGain: null, lotMethod: null };
+    const first = await storage.createTransaction({ ...trade, executedAt: at("2026-10-02T00:00:00Z") });
+    const second = await storage.createTransaction({ ...trade, executedAt: at("2026-10-03T00:00:00Z") });
+    await storage.createTransaction({ ...trade, executedAt: at("2026-10-03T00:00:00Z") });
+
+    const lot = { portfolioId: portfolio.id, ticker: "AAA", shares: 1, costPerShare: 10 };
+    const closed = await storage.createTaxLot({ ...lot, transactionId: first.id, remainingShares: 1, acquiredAt: at("2026-10-02T00:00:00Z") });
+    await storage.createTaxLot({ ...lot, transactionId: second.id, remainingShares: 1, acquiredAt: at("2026-10-03T00:00:00Z") });
+    await storage.updateTaxLot(closed.id, { remainingShares: 0 });
+
+    await storage.upsertPortfolioSnapshot({ portfolioId: portfolio.id, date: "2026-10-02", cash: 90, holdingsValue: 10, totalValue: 100, netFlow: 0, updatedAt: at("2026-10-02T00:00:00Z") });
+    await storage.upsertPortfolioSnapshot({ portfolioId: portfolio.id, date: "2026-10-02", cash: 80, holdingsValue: 25, totalValue: 105, netFlow: 0, updatedAt: at("2026-10-02T00:00:00Z") });
+    await storage.upsertPortfolioSnapshot({ portfolioId: portfolio.id, date: "2026-10-01", cash: 100, holdingsValue: 0, totalValue: 100, netFlow: 100, updatedAt: at("2026-10-01T00:00:00Z") });
+
+    const bbb = await storage.getHolding(portfolio.id, "BBB");
+    await storage.deleteHolding(bbb!.id);
+    await storage.updatePortfolio(portfolio.id, { cash: 70, rebalanceTargets: { basis: "ticker", weights: { AAA: 50 }, tolerance: 5 } });
+
+    return {
+      portfolio: await storage.getPortfolioByUserId(1),
+      holdings: (await storage.getHoldingsByPortfolioId(portfolio.id)).map(h => [h.ticker, h.shares]),
+      ledger: (await storage.getTransactionsByPortfolioId(portfolio.id)).map(t => t.id),
+      lots: (await storage.getTaxLotsByPortfolioId(portfolio.id)).map(l => [l.id, l.remainingShares]),
+      openLots: (await storage.getOpenTaxLots(portfolio.id, "AAA")).map(l => l.id),
+      snapshots: (await storage.getPortfolioSnapshots(portfolio.id)).map(s => [s.date, s.totalValue]),
+      fromSnapshots: (await storage.getPortfolioSnapshots(portfolio.id, "2026-10-02")).length
+    };
+  },
+
+  "orders and investment plans": async storage => {
+    const created = at("2026-10-19T10:00:00Z");
+    await storage.createPortfolio({ userId: 1, cash: 100, lotMethod: "fifo", rebalanceTargets: null, createdAt: created, updatedAt: created });
+    const order = {
+      portfolioId: 1, ticker: "AAA", type: "limit_buy", triggerPrice: 9, amount: 20, shares: null, timeInForce: "gtc", status: "open",
+      statusReason: null, expiresAt: null, fillPrice: null, transactionId: null, createdAt: created, updatedAt: created, closedAt: null
+    };
+    const first = await storage.createOrder(order);
+    const second = await storage.createOrder({ ...order, createdAt: at("2026-10-19T11:00:00Z") });
+    await storage.updateOrder(first.id, { status: "cancelled", closedAt: created });
+    // Closed orders are left alone by conditional updates
+    const fillCancelled = await storage.updateOpenOrder(first.id, { status: "filled" });
+    const amendOpen = await storage.updateOpenOrder(second.id, { triggerPrice: 8 });
+
+    const plan = {
+      portfolioId: 1, name: "AAA", allocations: [{ ticker: "AAA", weight: 100 }], amount: 10, frequency: "weekly",
+      startDate: "2026-10-19", active: true, createdAt: created, updatedAt: created
+    };
+    const due = await storage.createInvestmentPlan({ ...plan, nextRunDate: "2026-10-19" });
+    await storage.createInvestmentPlan({ ...plan, nextRunDate: "2026-10-26" });
+    await storage.createInvestmentPlan({ ...plan, nextRunDate: "2026-10-01", active: false });
+    await storage.createInvestmentPlanRun({ planId: due.id, runDate: "2026-10-26", status: "skipped", purchases: [], reason: "Not enough cash", executedAt: created });
+    await storage.createInvestmentPlanRun({ planId: due.id, runDate: "2026-10-19", status: "executed", purchases: [], reason: null, executedAt: created });
+    const runs = (await storage.getInvestmentPlanRuns(due.id)).map(r => r.runDate);
+    // A run can only be claimed while the plan is still due on that date
+    const claimed = await storage.updateDueInvestmentPlan(due.id, "2026-10-19", { nextRunDate: "2026-10-26" });
+    const claimedAgain = await storage.updateDueInvestmentPlan(due.id, "2026-10-19", { nextRunDate: "2026-10-26" });
+    await storage.deleteInvestmentPlan(due.id);
+
+    return {
+      orders: (await storage.getOrdersByPortfolioId(1)).map(o => [o.id, o.status]),
+      open: (await storage.getOpenOrders()).map(o => o.id),
+      conditional: [fillCancelled, amendOpen?.triggerPrice, claimed?.nextRunDate, claimedAgain],
+      due: (await storage.getDueInvestmentPlans("2026-10-19")).map(p => p.id),
+      plans: (await storage.getInvestmentPlansByPortfolioId(1)).map(p => p.id),
+      runs,
+      deleted: [await storage.getInvestmentPlan(due.id), (await storage.getInvestmentPlanRuns(due.id)).length]
+    };
+  },
+
+  "AI threads and usage": async storage => {
+    const now = at("2026-10-19T10:00:00Z");
+    await storage.createUser({ username: "alice", password: "hash", displayName: "Alice" });
+    const thread = { userId: 1, title: "AAA", scope: "ticker", ticker: "AAA", summary: null, summarizedCount: 0, createdAt: now };
+    const older = await storage.createAIThread({ ...thread, updatedAt: now });
+    await storage.createAIThread({ ...thread, scope: "portfolio", ticker: null, updatedAt: at("2026-10-19T11:00:00Z") });
+    await storage.updateAIThread(older.id, { updatedAt: at("2026-10-19T12:00:00Z") });
+    await storage.createAIMessage({ threadId: older.id, role: "user", content: "Hi", createdAt: now });
+    await storage.createAIMessage({ threadId: older.id, role: "assistant", content: "Hello", createdAt: at("2026-10-19T10:01:00Z") });
+
+    const usage = { endpoint: "ask-stock", model: "mock", promptTokens: 10, completionTokens: 5, cached: false, createdAt: now };
+    await storage.createAIUsage({ ...usage, userId: 1, ip: null });
+    await storage.createAIUsage({ ...usage, userId: 1, ip: null, cached: true });
+    await storage.createAIUsage({ ...usage, userId: null, ip: "1.2.3.4" });
+    await storage.createAIUsage({ ...usage, userId: 1, ip: null, createdAt: at("2026-10-18T10:00:00Z") });
+
+    return {
+      threads: (await storage.getAIThreadsByUserId(1)).map(t => t.id),
+      stockThreads: (await storage.getAIThreadsByUserId(1, { scope: "ticker", ticker: "AAA" })).map(t => t.id),
+      messages: (await storage.getAIMessagesByThreadId(older.id)).map(m => m.role),
+      userTokens: await storage.getAITokensUsedSince({ userId: 1 }, at("2026-10-19T00:00:00Z")),
+      guestTokens: await storage.getAITokensUsedSince({ ip: "1.2.3.4" }, at("2026-10-19T00:00:00Z"))
+    };
+  },
+
+  "portfolio locks": async storage => {
+    const portfolio = await storage.createPortfolio({
+      userId: 1, cash: 100, lotMethod: "fifo", rebalanceTargets: null, createdAt: at("2026-10-01T00:00:00Z"), updatedAt: at("2026-10-01T00:00:00Z")
+    });
+
+    // Each spend reads the cash, yields, then writes it back; unlocked they would both read 100
+    const spend = (amount: number) => storage.withPortfolioLock(portfolio.id, async locked => {
+      const cash = (await locked.getPortfolioByUserId(1))?.cash ?? 0;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await locked.updatePortfolio(portfolio.id, { cash: cash - amount });
+      return cash;
+    });
+    const seen = await Promise.all([spend(10), spend(20)]);
+
+    // Everything failed work wrote is undone
+    const failed = await storage.withPortfolioLock(portfolio.id, async locked => {
+      await locked.updatePortfolio(portfolio.id, { cash: 0 });
+      await locked.createHolding({ portfolioId: portfolio.id, ticker: "AAA", shares: 1, purchasePrice: 10, purchaseDate: at("2026-10-02T00:00:00Z") });
+      throw new Error("trade rejected");
+    }).catch((error: Error) => error.message);
+    const afterFailure = await spend(5);
+
+    return {
+      seen,
+      failed,
+      afterFailure,
+      cash: (await storage.getPortfolioByUserId(1))?.cash,
+      holdings: await storage.getHoldingsByPortfolioId(portfolio.id)
+    };
+  },
+
+  "stocks, market data and job runs": async storage => {
+    await storage.upsertStock({ ticker: "BBB", companyName: "B Corp", industry: "Tech", currentPrice: "20" });
+    await storage.upsertStock({ ticker: "AAA", companyName: "A Corp", industry: "Retail" });
+    await storage.upsertStock({ ticker: "AAA", companyName: "A Corp", currentPrice: "10" });
+    await storage.updateStock("AAA", { peRatio: "12.5" });
+    await storage.upsertStockDetailedData({ ticker: "AAA", closingHistory: [["2026-10-16", 9.5]] });
+    await storage.upsertStockDetailedData({ ticker: "AAA", recommendations: [{ period: "0m", buy: 3 }] });
+
+    const cached = { cacheKey: "chart:AAA", symbol: "AAA", endpoint: "chart", data: '{"points":1}', updatedAt: at("2026-10-19T10:00:00Z") };
+    const firstEntry = await storage.setStockCacheEntry(cached);
+    const secondEntry = await storage.setStockCacheEntry({ ...cached, data: '{"points":2}' });
+
+    const run = { job: "fundamentals", trigger: "manual", status: "running", startedAt: at("2026-10-19T10:00:00Z"), finishedAt: null, durationMs: null, summary: null, error: null };
+    const jobRun = await storage.createJobRun(run);
+    await storage.createJobRun({ ...run, job: "intraday-prices" });
+    await storage.updateJobRun(jobRun.id, { status: "succeeded", summary: { updated: 2, failed: [] } });
+
+    const stock = await storage.getStock("AAA");
+    const [detailed] = await storage.getStockDetailedData(["AAA", "ZZZ"]);
+    return {
+      tickers: (await storage.getStocks()).map(s => s.ticker),
+      tech: (await storage.getStocks("Tech")).map(s => s.ticker),
+      stock: [stock?.industry, stock?.currentPrice, stock?.peRatio],
+      detailed: [detailed.closingHistory, detailed.recommendations],
+      cache: [secondEntry.id === firstEntry.id, (await storage.getStockCacheEntry("chart:AAA"))?.data],
+      runs: (await storage.getJobRuns(undefined, 10)).map(r => [r.job, r.status, r.summary]),
+      fundamentalRuns: (await storage.getJobRuns("fundamentals", 1)).length
+    };
+  }
+};
+
+describe("DatabaseStorage matches MemStorage", () => {
+  let memory: MemStorage;
+  let database: DatabaseStorage;
+
+  beforeEach(async () => {
+    memory = new MemStorage();
+    database = await createDatabaseStorage();
+  });
+
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    it(name, async () => {
+      const expected = await scenario(memory);
+      expect(await scenario(database)).toEqual(expected);
+    });
+  }
+});
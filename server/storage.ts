@@ -1,9 +1,24 @@
-import { users, stacks, cards, userProgress, userBadges, userDailyProgress } from "@shared/schema";
-import type { User, InsertUser, Stack, Card, UserProgress, UserBadge, UserDailyProgress } from "@shared/schema";
+import { users, stacks, cards, userProgress, userBadges, userDailyProgress, portfolios, holdings, transactions, taxLots, portfolioSnapshots, orders, investmentPlans, investmentPlanRuns, aiThreads, aiMessages, aiUsage, stocks, stockData, stockCache, sectors, marketData, jobRuns } from "@shared/schema";
+import type { User, InsertUser, Stack, Card, UserProgress, UserBadge, UserDailyProgress, Portfolio, Holding, Transaction, TaxLot, PortfolioSnapshot, Order, InvestmentPlan, InvestmentPlanRun, AIThread, AIMessage, AIThreadScope, AIUsage, Stock, InsertStock, StockDetailedData, StockCache, Sector, MarketData, JobRun } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lt, lte, sql } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Who made an AI request: a signed-in user, or a guest by IP
+export interface AIUsageOwner {
+  userId?: number;
+  ip?: string;
+}
+
+export interface AIThreadFilter {
+  scope?: AIThreadScope;
+  ticker?: string;
+}
 
 // modify the interface with any CRUD methods
 // you might need
@@ -39,8 +54,278 @@ export interface IStorage {
   createUserDailyProgress(dailyProgress: Omit<UserDailyProgress, "id">): Promise<UserDailyProgress>;
   updateUserDailyProgress(id: number, dailyProgressData: Partial<UserDailyProgress>): Promise<UserDailyProgress | undefined>;
   
+  // Portfolio methods
+  getPortfolios(): Promise<Portfolio[]>;
+  getPortfolioByUserId(userId: number): Promise<Portfolio | undefined>;
+  createPortfolio(portfolio: Omit<Portfolio, "id">): Promise<Portfolio>;
+  updatePortfolio(id: number, portfolioData: Partial<Portfolio>): Promise<Portfolio | undefined>;
+  // Runs work with the portfolio locked against other locked work on it, passing the storage
+  // to write through. Postgres runs it in one transaction holding the portfolio row FOR UPDATE;
+  // MemStorage runs one portfolio's work at a time. Either way the portfolio's rows are put
+  // back as they were if work throws.
+  withPortfolioLock<T>(portfolioId: number, work: (storage: IStorage) => Promise<T>): Promise<T>;
+  
+  // Holding methods
+  getHoldingsByPortfolioId(portfolioId: number): Promise<Holding[]>;
+  getHolding(portfolioId: number, ticker: string): Promise<Holding | undefined>;
+  createHolding(holding: Omit<Holding, "id">): Promise<Holding>;
+  updateHolding(id: number, holdingData: Partial<Holding>): Promise<Holding | undefined>;
+  deleteHolding(id: number): Promise<void>;
+  
+  // Trade ledger methods (transactions are append-only)
+  getTransactionsByPortfolioId(portfolioId: number): Promise<Transaction[]>;
+  createTransaction(transaction: Omit<Transaction, "id">): Promise<Transaction>;
+  
+  // Tax lot methods
+  getTaxLotsByPortfolioId(portfolioId: number): Promise<TaxLot[]>;
+  getOpenTaxLots(portfolioId: number, ticker: string): Promise<TaxLot[]>;
+  createTaxLot(taxLot: Omit<TaxLot, "id">): Promise<TaxLot>;
+  updateTaxLot(id: number, taxLotData: Partial<TaxLot>): Promise<TaxLot | undefined>;
+  
+  // Portfolio snapshot methods (one per portfolio per day, listed oldest first)
+  getPortfolioSnapshots(portfolioId: number, fromDate?: string): Promise<PortfolioSnapshot[]>;
+  upsertPortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id">): Promise<PortfolioSnapshot>;
+  
+  // Pending order methods (a portfolio's orders are listed newest first)
+  getOrdersByPortfolioId(portfolioId: number): Promise<Order[]>;
+  getOpenOrders(): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  createOrder(order: Omit<Order, "id">): Promise<Order>;
+  updateOrder(id: number, orderData: Partial<Order>): Promise<Order | undefined>;
+  // Updates the order only while it is still open; undefined if it was closed first
+  updateOpenOrder(id: number, orderData: Partial<Order>): Promise<Order | undefined>;
+  
+  // Investment plan methods (plans and their runs are listed oldest first)
+  getInvestmentPlansByPortfolioId(portfolioId: number): Promise<InvestmentPlan[]>;
+  getDueInvestmentPlans(date: string): Promise<InvestmentPlan[]>;
+  getInvestmentPlan(id: number): Promise<InvestmentPlan | undefined>;
+  createInvestmentPlan(plan: Omit<InvestmentPlan, "id">): Promise<InvestmentPlan>;
+  updateInvestmentPlan(id: number, planData: Partial<InvestmentPlan>): Promise<InvestmentPlan | undefined>;
+  // Updates the plan only while it is active and next due on runDate, so one run can be claimed once;
+  // undefined if the plan has moved on or been paused
+  updateDueInvestmentPlan(id: number, runDate: string, planData: Partial<InvestmentPlan>): Promise<InvestmentPlan | undefined>;
+  deleteInvestmentPlan(id: number): Promise<void>;
+  getInvestmentPlanRuns(planId: number): Promise<InvestmentPlanRun[]>;
+  createInvestmentPlanRun(run: Omit<InvestmentPlanRun, "id">): Promise<InvestmentPlanRun>;
+  
+  // AI assistant thread methods (threads are listed most recently updated first)
+  getAIThreadsByUserId(userId: number, filter?: AIThreadFilter): Promise<AIThread[]>;
+  getAIThread(id: number): Promise<AIThread | undefined>;
+  createAIThread(thread: Omit<AIThread, "id">): Promise<AIThread>;
+  updateAIThread(id: number, threadData: Partial<AIThread>): Promise<AIThread | undefined>;
+  deleteAIThread(id: number): Promise<void>;
+  getAIMessagesByThreadId(threadId: number): Promise<AIMessage[]>;
+  createAIMessage(message: Omit<AIMessage, "id">): Promise<AIMessage>;
+  
+  // AI usage methods
+  createAIUsage(usage: Omit<AIUsage, "id">): Promise<AIUsage>;
+  // Prompt + completion tokens since a time, not counting cached responses
+  getAITokensUsedSince(owner: AIUsageOwner, since: Date): Promise<number>;
+  
+  // Stock universe methods (listed by ticker)
+  getStocks(industry?: string): Promise<Stock[]>;
+  getStock(ticker: string): Promise<Stock | undefined>;
+  upsertStock(stock: InsertStock): Promise<Stock>;
+  updateStock(ticker: string, stockFields: Partial<Stock>): Promise<Stock | undefined>;
+  getStockDetailedData(tickers: string[]): Promise<StockDetailedData[]>;
+  // Creates the row if needed; only the columns given are changed
+  upsertStockDetailedData(data: Partial<StockDetailedData> & { ticker: string }): Promise<StockDetailedData>;
+  
+  // Market data cache methods (one entry per cache key, replaced on refresh)
+  getStockCacheEntry(cacheKey: string): Promise<StockCache | undefined>;
+  setStockCacheEntry(entry: Omit<StockCache, "id">): Promise<StockCache>;
+  
+  // Sector and market metrics methods
+  getSectors(): Promise<Sector[]>;
+  upsertSector(sector: Sector): Promise<Sector>;
+  upsertMarketData(data: MarketData): Promise<MarketData>;
+  
+  // Job run methods (listed newest first)
+  createJobRun(run: Omit<JobRun, "id">): Promise<JobRun>;
+  updateJobRun(id: number, runFields: Partial<JobRun>): Promise<JobRun | undefined>;
+  getJobRuns(job: string | undefined, limit: number): Promise<JobRun[]>;
+  
   // Session store
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
+}
+
+// Tech Industry stack
+const techStack: Omit<Stack, "id"> = {
+  title: "Tech Giants",
+  description: "Explore leading technology companies and their market impact",
+  cardCount: 12,
+  estimatedMinutes: 15,
+  industry: "Tech",
+  iconName: "cpu-line",
+  color: "from-blue-600 to-blue-400",
+  difficulty: "Beginner",
+  rating: 48,
+};
+
+const retailStack: Omit<Stack, "id"> = {
+  title: "Consumer & Retail",
+  description: "Analyze major retail and consumer goods companies",
+  cardCount: 10,
+  estimatedMinutes: 12,
+  industry: "Retail",
+  iconName: "shopping-bag-line",
+  color: "from-orange-500 to-orange-400",
+  difficulty: "Beginner",
+  rating: 45,
+};
+
+// Real Estate stack
+const realEstateStack: Omit<Stack, "id"> = {
+  title: "Real Estate",
+  description: "Learn about real estate investment fundamentals",
+  cardCount: 8,
+  estimatedMinutes: 12,
+  industry: "Real Estate",
+  iconName: "building-line",
+  color: "from-blue-500 to-blue-400",
+  difficulty: "Intermediate",
+  rating: 46,
+};
+
+// Crypto Basics stack
+const cryptoStack: Omit<Stack, "id"> = {
+  title: "Crypto Basics",
+  description: "Understand cryptocurrency fundamentals",
+  cardCount: 12,
+  estimatedMinutes: 20,
+  industry: "Cryptocurrency",
+  iconName: "coins-line",
+  color: "from-accent-500 to-yellow-400",
+  difficulty: "Beginner",
+  rating: 47,
+};
+
+// Healthcare stack
+const healthcareStack: Omit<Stack, "id"> = {
+  title: "Healthcare",
+  description: "Financial aspects of the healthcare industry",
+  cardCount: 8,
+  estimatedMinutes: 14,
+  industry: "Healthcare",
+  iconName: "heart-pulse-line",
+  color: "from-purple-500 to-purple-400",
+  difficulty: "Intermediate",
+  rating: 45,
+};
+
+const esgStack: Omit<Stack, "id"> = {
+  title: "Green Giants",
+  description: "Explore sustainable and environmentally conscious investments",
+  cardCount: 10,
+  estimatedMinutes: 15,
+  industry: "ESG",
+  iconName: "leaf-line",
+  color: "from-green-500 to-green-400",
+  difficulty: "Hard",
+  rating: 47,
+};
+
+const sampleStacks: Omit<Stack, "id">[] = [techStack, retailStack, realEstateStack, cryptoStack, healthcareStack, esgStack];
+
+// Cards for the Tech stack, which is always the first sample stack
+const sampleTechCards: Omit<Card, "id" | "stackId">[] = [
+  {
+    type: "info",
+    title: "Revenue Models in Tech",
+    subtitle: "Understanding how tech companies make money",
+    content: {
+      text: "Tech companies typically use one of these revenue models: E-commerce, Subscription, or Advertising.",
+      models: [
+        {
+          icon: "shopping-cart-line",
+          name: "E-commerce",
+          description: "Direct sales of products through online platforms"
+        },
+        {
+          icon: "calendar-check-line",
+          name: "Subscription",
+          description: "Recurring revenue from regular payments"
+        },
+        {
+          icon: "advertisement-line",
+          name: "Advertising",
+          description: "Monetizing user attention through targeted ads"
+        }
+      ],
+      funFact: "Companies with subscription models typically have 2-3x higher valuations than those with one-time purchases."
+    },
+    order: 1
+  },
+  {
+    type: "data-viz",
+    title: "Revenue Distribution",
+    subtitle: "How tech giants generate their income",
+    content: {
+      companies: [
+        {
+          name: "Apple",
+          revenue: "$366B (2021)",
+          segments: [
+            { name: "iPhone", percentage: 52, color: "bg-blue-500" },
+            { name: "Mac", percentage: 11, color: "bg-green-500" },
+            { name: "iPad", percentage: 9, color: "bg-purple-500" },
+            { name: "Services", percentage: 21, color: "bg-yellow-500" },
+            { name: "Wearables", percentage: 7, color: "bg-red-500" }
+          ]
+        },
+        {
+          name: "Google",
+          revenue: "$258B (2021)",
+          segments: [
+            { name: "Advertising", percentage: 81, color: "bg-red-500" },
+            { name: "Cloud", percentage: 11, color: "bg-blue-500" },
+            { name: "Other", percentage: 8, color: "bg-green-500" }
+          ]
+        }
+      ],
+      insight: "Tech companies with diversified revenue streams are generally more resilient to market changes and economic downturns.",
+      keyPoint: "Apple's services revenue (App Store, Apple Music, etc.) is growing at 2x the rate of their product revenue."
+    },
+    order: 2
+  },
+  {
+    type: "quiz",
+    title: "Quick Quiz",
+    subtitle: "Test your knowledge on tech revenue models",
+    content: {
+      question: "Which revenue model is Google primarily known for?",
+      options: [
+        { text: "Advertising", value: "advertising", isCorrect: true },
+        { text: "Subscription", value: "subscription", isCorrect: false },
+        { text: "E-commerce", value: "ecommerce", isCorrect: false },
+        { text: "Licensing", value: "licensing", isCorrect: false }
+      ],
+      correctFeedback: "Google makes over 80% of its revenue from online advertising.",
+      incorrectFeedback: "Google's primary revenue comes from advertising, making up over 80% of its total income."
+    },
+    order: 3
+  }
+];
+
+// A stock_data row with every column empty
+function emptyStockDetailedData(ticker: string): StockDetailedData {
+  return {
+    ticker,
+    closingHistory: null,
+    dividends: null,
+    incomeStatement: null,
+    balanceSheet: null,
+    cashFlow: null,
+    recommendations: null,
+    earningsDates: null,
+    earningsHistory: null,
+    earningsTrend: null,
+    upgradesDowngrades: null,
+    financialData: null,
+    institutionalHolders: null,
+    majorHolders: null,
+    swipeCard: null
+  };
 }
 
 export class MemStorage implements IStorage {
@@ -50,6 +335,25 @@ export class MemStorage implements IStorage {
   private userProgress: Map<number, UserProgress>;
   private userBadges: Map<number, UserBadge>;
   private userDailyProgress: Map<number, UserDailyProgress>;
+  private portfolios: Map<number, Portfolio>;
+  private holdings: Map<number, Holding>;
+  private transactions: Map<number, Transaction>;
+  private taxLots: Map<number, TaxLot>;
+  private portfolioSnapshots: Map<number, PortfolioSnapshot>;
+  private orders: Map<number, Order>;
+  private investmentPlans: Map<number, InvestmentPlan>;
+  private investmentPlanRuns: Map<number, InvestmentPlanRun>;
+  // Tail of each portfolio's queue of locked work
+  private portfolioLocks: Map<number, Promise<unknown>>;
+  private aiThreads: Map<number, AIThread>;
+  private aiMessages: Map<number, AIMessage>;
+  private aiUsage: Map<number, AIUsage>;
+  private stocks: Map<string, Stock>;
+  private stockData: Map<string, StockDetailedData>;
+  private stockCache: Map<string, StockCache>;
+  private sectors: Map<string, Sector>;
+  private marketData: Map<string, MarketData>;
+  private jobRuns: Map<number, JobRun>;
   
   currentUserId: number;
   currentStackId: number;
@@ -57,8 +361,21 @@ export class MemStorage implements IStorage {
   currentProgressId: number;
   currentBadgeId: number;
   currentDailyProgressId: number;
+  currentPortfolioId: number;
+  currentHoldingId: number;
+  currentTransactionId: number;
+  currentTaxLotId: number;
+  currentPortfolioSnapshotId: number;
+  currentOrderId: number;
+  currentInvestmentPlanId: number;
+  currentInvestmentPlanRunId: number;
+  currentAIThreadId: number;
+  currentAIMessageId: number;
+  currentAIUsageId: number;
+  currentStockCacheId: number;
+  currentJobRunId: number;
   
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
@@ -67,6 +384,24 @@ export class MemStorage implements IStorage {
     this.userProgress = new Map();
     this.userBadges = new Map();
     this.userDailyProgress = new Map();
+    this.portfolios = new Map();
+    this.holdings = new Map();
+    this.transactions = new Map();
+    this.taxLots = new Map();
+    this.portfolioSnapshots = new Map();
+    this.orders = new Map();
+    this.investmentPlans = new Map();
+    this.investmentPlanRuns = new Map();
+    this.portfolioLocks = new Map();
+    this.aiThreads = new Map();
+    this.aiMessages = new Map();
+    this.aiUsage = new Map();
+    this.stocks = new Map();
+    this.stockData = new Map();
+    this.stockCache = new Map();
+    this.sectors = new Map();
+    this.marketData = new Map();
+    this.jobRuns = new Map();
     
     this.currentUserId = 1;
     this.currentStackId = 1;
@@ -74,6 +409,19 @@ export class MemStorage implements IStorage {
     this.currentProgressId = 1;
     this.currentBadgeId = 1;
     this.currentDailyProgressId = 1;
+    this.currentPortfolioId = 1;
+    this.currentHoldingId = 1;
+    this.currentTransactionId = 1;
+    this.currentTaxLotId = 1;
+    this.currentPortfolioSnapshotId = 1;
+    this.currentOrderId = 1;
+    this.currentInvestmentPlanId = 1;
+    this.currentInvestmentPlanRunId = 1;
+    this.currentAIThreadId = 1;
+    this.currentAIMessageId = 1;
+    this.currentAIUsageId = 1;
+    this.currentStockCacheId = 1;
+    this.currentJobRunId = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // One day in ms
@@ -84,172 +432,10 @@ export class MemStorage implements IStorage {
   }
 
   private initSampleData() {
-    // Tech Industry stack
-    const techStack: Omit<Stack, "id"> = {
-      title: "Tech Giants",
-      description: "Explore leading technology companies and their market impact",
-      cardCount: 12,
-      estimatedMinutes: 15,
-      industry: "Tech",
-      iconName: "cpu-line",
-      color: "from-blue-600 to-blue-400",
-      difficulty: "Beginner",
-      rating: 48,
-    };
-
-    const retailStack: Omit<Stack, "id"> = {
-      title: "Consumer & Retail",
-      description: "Analyze major retail and consumer goods companies",
-      cardCount: 10,
-      estimatedMinutes: 12,
-      industry: "Retail",
-      iconName: "shopping-bag-line",
-      color: "from-orange-500 to-orange-400",
-      difficulty: "Beginner",
-      rating: 45,
-    };
-    
-    
-    // Real Estate stack
-    const realEstateStack: Omit<Stack, "id"> = {
-      title: "Real Estate",
-      description: "Learn about real estate investment fundamentals",
-      cardCount: 8,
-      estimatedMinutes: 12,
-      industry: "Real Estate",
-      iconName: "building-line",
-      color: "from-blue-500 to-blue-400",
-      difficulty: "Intermediate",
-      rating: 46,
-    };
-    
-    // Crypto Basics stack
-    const cryptoStack: Omit<Stack, "id"> = {
-      title: "Crypto Basics",
-      description: "Understand cryptocurrency fundamentals",
-      cardCount: 12,
-      estimatedMinutes: 20,
-      industry: "Cryptocurrency",
-      iconName: "coins-line",
-      color: "from-accent-500 to-yellow-400",
-      difficulty: "Beginner",
-      rating: 47,
-    };
-    
-    // Healthcare stack
-    const healthcareStack: Omit<Stack, "id"> = {
-      title: "Healthcare",
-      description: "Financial aspects of the healthcare industry",
-      cardCount: 8,
-      estimatedMinutes: 14,
-      industry: "Healthcare",
-      iconName: "heart-pulse-line",
-      color: "from-purple-500 to-purple-400",
-      difficulty: "Intermediate",
-      rating: 45,
-    };
-    
-    const esgStack: Omit<Stack, "id"> = {
-      title: "Green Giants",
-      description: "Explore sustainable and environmentally conscious investments",
-      cardCount: 10,
-      estimatedMinutes: 15,
-      industry: "ESG",
-      iconName: "leaf-line",
-      color: "from-green-500 to-green-400",
-      difficulty: "Hard",
-      rating: 47,
-    };
-
-    this.createStack(techStack);
-    this.createStack(retailStack);
-    this.createStack(realEstateStack);
-    this.createStack(cryptoStack);
-    this.createStack(healthcareStack);
-    this.createStack(esgStack);
+    sampleStacks.forEach(stack => this.createStack(stack));
     
     // Create some cards for the Tech stack
-    this.createCard({
-      stackId: 1,
-      type: "info",
-      title: "Revenue Models in Tech",
-      subtitle: "Understanding how tech companies make money",
-      content: {
-        text: "Tech companies typically use one of these revenue models: E-commerce, Subscription, or Advertising.",
-        models: [
-          {
-            icon: "shopping-cart-line",
-            name: "E-commerce",
-            description: "Direct sales of products through online platforms"
-          },
-          {
-            icon: "calendar-check-line",
-            name: "Subscription",
-            description: "Recurring revenue from regular payments"
-          },
-          {
-            icon: "advertisement-line",
-            name: "Advertising",
-            description: "Monetizing user attention through targeted ads"
-          }
-        ],
-        funFact: "Companies with subscription models typically have 2-3x higher valuations than those with one-time purchases."
-      },
-      order: 1
-    });
-    
-    this.createCard({
-      stackId: 1,
-      type: "data-viz",
-      title: "Revenue Distribution",
-      subtitle: "How tech giants generate their income",
-      content: {
-        companies: [
-          {
-            name: "Apple",
-            revenue: "$366B (2021)",
-            segments: [
-              { name: "iPhone", percentage: 52, color: "bg-blue-500" },
-              { name: "Mac", percentage: 11, color: "bg-green-500" },
-              { name: "iPad", percentage: 9, color: "bg-purple-500" },
-              { name: "Services", percentage: 21, color: "bg-yellow-500" },
-              { name: "Wearables", percentage: 7, color: "bg-red-500" }
-            ]
-          },
-          {
-            name: "Google",
-            revenue: "$258B (2021)",
-            segments: [
-              { name: "Advertising", percentage: 81, color: "bg-red-500" },
-              { name: "Cloud", percentage: 11, color: "bg-blue-500" },
-              { name: "Other", percentage: 8, color: "bg-green-500" }
-            ]
-          }
-        ],
-        insight: "Tech companies with diversified revenue streams are generally more resilient to market changes and economic downturns.",
-        keyPoint: "Apple's services revenue (App Store, Apple Music, etc.) is growing at 2x the rate of their product revenue."
-      },
-      order: 2
-    });
-    
-    this.createCard({
-      stackId: 1,
-      type: "quiz",
-      title: "Quick Quiz",
-      subtitle: "Test your knowledge on tech revenue models",
-      content: {
-        question: "Which revenue model is Google primarily known for?",
-        options: [
-          { text: "Advertising", value: "advertising", isCorrect: true },
-          { text: "Subscription", value: "subscription", isCorrect: false },
-          { text: "E-commerce", value: "ecommerce", isCorrect: false },
-          { text: "Licensing", value: "licensing", isCorrect: false }
-        ],
-        correctFeedback: "Google makes over 80% of its revenue from online advertising.",
-        incorrectFeedback: "Google's primary revenue comes from advertising, making up over 80% of its total income."
-      },
-      order: 3
-    });
+    sampleTechCards.forEach(card => this.createCard({ ...card, stackId: 1 }));
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -274,7 +460,8 @@ export class MemStorage implements IStorage {
       dailyGoal: 3,
       interests: [],
       experienceLevel: "beginner",
-      onboarded: false
+      onboarded: false,
+      aiTier: "free"
     };
     this.users.set(id, user);
     return user;
@@ -385,6 +572,1037 @@ export class MemStorage implements IStorage {
     this.userDailyProgress.set(id, updatedDailyProgress);
     return updatedDailyProgress;
   }
+  
+  async getPortfolios(): Promise<Portfolio[]> {
+    return Array.from(this.portfolios.values());
+  }
+  
+  async getPortfolioByUserId(userId: number): Promise<Portfolio | undefined> {
+    return Array.from(this.portfolios.values())
+      .find(portfolio => portfolio.userId === userId);
+  }
+  
+  async createPortfolio(portfolio: Omit<Portfolio, "id">): Promise<Portfolio> {
+    const id = this.currentPortfolioId++;
+    const newPortfolio: Portfolio = { ...portfolio, id };
+    this.portfolios.set(id, newPortfolio);
+    return newPortfolio;
+  }
+  
+  async updatePortfolio(id: number, portfolioData: Partial<Portfolio>): Promise<Portfolio | undefined> {
+    const portfolio = this.portfolios.get(id);
+    if (!portfolio) return undefined;
+    
+    const updatedPortfolio = { ...portfolio, ...portfolioData };
+    this.portfolios.set(id, updatedPortfolio);
+    return updatedPortfolio;
+  }
+  
+  async withPortfolioLock<T>(portfolioId: number, work: (storage: IStorage) => Promise<T>): Promise<T> {
+    const previous = this.portfolioLocks.get(portfolioId) ?? Promise.resolve();
+    const run = previous.then(async () => {
+      const rollback = this.savePortfolioRows(portfolioId);
+      try {
+        return await work(this);
+      } catch (error) {
+        rollback();
+        throw error;
+      }
+    });
+    const tail = run.catch(() => undefined);
+    this.portfolioLocks.set(portfolioId, tail);
+    
+    try {
+      return await run;
+    } finally {
+      if (this.portfolioLocks.get(portfolioId) === tail) this.portfolioLocks.delete(portfolioId);
+    }
+  }
+  
+  // Copy a portfolio's rows, returning a function that puts them back the way they were
+  private savePortfolioRows(portfolioId: number): () => void {
+    const tables = [
+      this.holdings, this.transactions, this.taxLots, this.portfolioSnapshots, this.orders, this.investmentPlans
+    ] as Map<number, { id: number; portfolioId: number }>[];
+    const portfolio = this.portfolios.get(portfolioId);
+    const saved = tables.map(rows => Array.from(rows.values())
+      .filter(row => row.portfolioId === portfolioId)
+      .map(row => ({ ...row })));
+    const planIds = () => new Set(Array.from(this.investmentPlans.values())
+      .filter(plan => plan.portfolioId === portfolioId)
+      .map(plan => plan.id));
+    const savedPlanIds = planIds();
+    const savedRuns = Array.from(this.investmentPlanRuns.values())
+      .filter(run => savedPlanIds.has(run.planId))
+      .map(run => ({ ...run }));
+    
+    return () => {
+      const touchedPlanIds = planIds();
+      savedPlanIds.forEach(id => touchedPlanIds.add(id));
+      this.investmentPlanRuns.forEach((run, id) => {
+        if (touchedPlanIds.has(run.planId)) this.investmentPlanRuns.delete(id);
+      });
+      savedRuns.forEach(run => this.investmentPlanRuns.set(run.id, run));
+      
+      tables.forEach((rows, index) => {
+        rows.forEach((row, id) => {
+          if (row.portfolioId === portfolioId) rows.delete(id);
+        });
+        saved[index].forEach(row => rows.set(row.id, row));
+      });
+      if (portfolio) this.portfolios.set(portfolioId, portfolio);
+    };
+  }
+  
+  async getHoldingsByPortfolioId(portfolioId: number): Promise<Holding[]> {
+    return Array.from(this.holdings.values())
+      .filter(holding => holding.portfolioId === portfolioId);
+  }
+  
+  async getHolding(portfolioId: number, ticker: string): Promise<Holding | undefined> {
+    return Array.from(this.holdings.values())
+      .find(holding => holding.portfolioId === portfolioId && holding.ticker === ticker);
+  }
+  
+  async createHolding(holding: Omit<Holding, "id">): Promise<Holding> {
+    const id = this.currentHoldingId++;
+    const newHolding: Holding = { ...holding, id };
+    this.holdings.set(id, newHolding);
+    return newHolding;
+  }
+  
+  async updateHolding(id: number, holdingData: Partial<Holding>): Promise<Holding | undefined> {
+    const holding = this.holdings.get(id);
+    if (!holding) return undefined;
+    
+    const updatedHolding = { ...holding, ...holdingData };
+    this.holdings.set(id, updatedHolding);
+    return updatedHolding;
+  }
+  
+  async deleteHolding(id: number): Promise<void> {
+    this.holdings.delete(id);
+  }
+  
+  async getTransactionsByPortfolioId(portfolioId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.portfolioId === portfolioId)
+      .sort((a, b) => b.executedAt.getTime() - a.executedAt.getTime() || b.id - a.id);
+  }
+  
+  async createTransaction(transaction: Omit<Transaction, "id">): Promise<Transaction> {
+    const id = this.currentTransactionId++;
+    const newTransaction: Transaction = { ...transaction, id };
+    this.transactions.set(id, newTransaction);
+    return newTransaction;
+  }
+  
+  async getTaxLotsByPortfolioId(portfolioId: number): Promise<TaxLot[]> {
+    return Array.from(this.taxLots.values())
+      .filter(lot => lot.portfolioId === portfolioId)
+      .sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime() || a.id - b.id);
+  }
+  
+  async getOpenTaxLots(portfolioId: number, ticker: string): Promise<TaxLot[]> {
+    return (await this.getTaxLotsByPortfolioId(portfolioId))
+      .filter(lot => lot.ticker === ticker && lot.remainingShares > 0);
+  }
+  
+  async createTaxLot(taxLot: Omit<TaxLot, "id">): Promise<TaxLot> {
+    const id = this.currentTaxLotId++;
+    const newTaxLot: TaxLot = { ...taxLot, id };
+    this.taxLots.set(id, newTaxLot);
+    return newTaxLot;
+  }
+  
+  async updateTaxLot(id: number, taxLotData: Partial<TaxLot>): Promise<TaxLot | undefined> {
+    const taxLot = this.taxLots.get(id);
+    if (!taxLot) return undefined;
+    
+    const updatedTaxLot = { ...taxLot, ...taxLotData };
+    this.taxLots.set(id, updatedTaxLot);
+    return updatedTaxLot;
+  }
+  
+  async getPortfolioSnapshots(portfolioId: number, fromDate?: string): Promise<PortfolioSnapshot[]> {
+    return Array.from(this.portfolioSnapshots.values())
+      .filter(snapshot => snapshot.portfolioId === portfolioId && (!fromDate || snapshot.date >= fromDate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+  
+  async upsertPortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id">): Promise<PortfolioSnapshot> {
+    const existing = Array.from(this.portfolioSnapshots.values())
+      .find(s => s.portfolioId === snapshot.portfolioId && s.date === snapshot.date);
+    const id = existing?.id ?? this.currentPortfolioSnapshotId++;
+    const upserted: PortfolioSnapshot = { ...snapshot, id };
+    this.portfolioSnapshots.set(id, upserted);
+    return upserted;
+  }
+  
+  async getOrdersByPortfolioId(portfolioId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.portfolioId === portfolioId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getOpenOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'open')
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getOrder(id: number): Promise<Order | undefined> {
+    return this.orders.get(id);
+  }
+  
+  async createOrder(order: Omit<Order, "id">): Promise<Order> {
+    const id = this.currentOrderId++;
+    const newOrder: Order = { ...order, id };
+    this.orders.set(id, newOrder);
+    return newOrder;
+  }
+  
+  async updateOrder(id: number, orderData: Partial<Order>): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    
+    const updatedOrder = { ...order, ...orderData };
+    this.orders.set(id, updatedOrder);
+    return updatedOrder;
+  }
+  
+  async updateOpenOrder(id: number, orderData: Partial<Order>): Promise<Order | undefined> {
+    if (this.orders.get(id)?.status !== 'open') return undefined;
+    return this.updateOrder(id, orderData);
+  }
+  
+  async getInvestmentPlansByPortfolioId(portfolioId: number): Promise<InvestmentPlan[]> {
+    return Array.from(this.investmentPlans.values())
+      .filter(plan => plan.portfolioId === portfolioId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getDueInvestmentPlans(date: string): Promise<InvestmentPlan[]> {
+    return Array.from(this.investmentPlans.values())
+      .filter(plan => plan.active && plan.nextRunDate <= date)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getInvestmentPlan(id: number): Promise<InvestmentPlan | undefined> {
+    return this.investmentPlans.get(id);
+  }
+  
+  async createInvestmentPlan(plan: Omit<InvestmentPlan, "id">): Promise<InvestmentPlan> {
+    const id = this.currentInvestmentPlanId++;
+    const newPlan: InvestmentPlan = { ...plan, id };
+    this.investmentPlans.set(id, newPlan);
+    return newPlan;
+  }
+  
+  async updateInvestmentPlan(id: number, planData: Partial<InvestmentPlan>): Promise<InvestmentPlan | undefined> {
+    const plan = this.investmentPlans.get(id);
+    if (!plan) return undefined;
+    
+    const updatedPlan = { ...plan, ...planData };
+    this.investmentPlans.set(id, updatedPlan);
+    return updatedPlan;
+  }
+  
+  async updateDueInvestmentPlan(id: number, runDate: string, planData: Partial<InvestmentPlan>): Promise<InvestmentPlan | undefined> {
+    const plan = this.investmentPlans.get(id);
+    if (!plan?.active || plan.nextRunDate !== runDate) return undefined;
+    return this.updateInvestmentPlan(id, planData);
+  }
+  
+  async deleteInvestmentPlan(id: number): Promise<void> {
+    Array.from(this.investmentPlanRuns.values())
+      .filter(run => run.planId === id)
+      .forEach(run => this.investmentPlanRuns.delete(run.id));
+    this.investmentPlans.delete(id);
+  }
+  
+  async getInvestmentPlanRuns(planId: number): Promise<InvestmentPlanRun[]> {
+    return Array.from(this.investmentPlanRuns.values())
+      .filter(run => run.planId === planId)
+      .sort((a, b) => a.runDate.localeCompare(b.runDate) || a.id - b.id);
+  }
+  
+  async createInvestmentPlanRun(run: Omit<InvestmentPlanRun, "id">): Promise<InvestmentPlanRun> {
+    const id = this.currentInvestmentPlanRunId++;
+    const newRun: InvestmentPlanRun = { ...run, id };
+    this.investmentPlanRuns.set(id, newRun);
+    return newRun;
+  }
+  
+  async getAIThreadsByUserId(userId: number, filter: AIThreadFilter = {}): Promise<AIThread[]> {
+    return Array.from(this.aiThreads.values())
+      .filter(thread =>
+        thread.userId === userId &&
+        (!filter.scope || thread.scope === filter.scope) &&
+        (!filter.ticker || thread.ticker === filter.ticker)
+      )
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || b.id - a.id);
+  }
+  
+  async getAIThread(id: number): Promise<AIThread | undefined> {
+    return this.aiThreads.get(id);
+  }
+  
+  async createAIThread(thread: Omit<AIThread, "id">): Promise<AIThread> {
+    const id = this.currentAIThreadId++;
+    const newThread: AIThread = { ...thread, id };
+    this.aiThreads.set(id, newThread);
+    return newThread;
+  }
+  
+  async updateAIThread(id: number, threadData: Partial<AIThread>): Promise<AIThread | undefined> {
+    const thread = this.aiThreads.get(id);
+    if (!thread) return undefined;
+    
+    const updatedThread = { ...thread, ...threadData, id };
+    this.aiThreads.set(id, updatedThread);
+    return updatedThread;
+  }
+  
+  async deleteAIThread(id: number): Promise<void> {
+    Array.from(this.aiMessages.values())
+      .filter(message => message.threadId === id)
+      .forEach(message => this.aiMessages.delete(message.id));
+    this.aiThreads.delete(id);
+  }
+  
+  async getAIMessagesByThreadId(threadId: number): Promise<AIMessage[]> {
+    return Array.from(this.aiMessages.values())
+      .filter(message => message.threadId === threadId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+  
+  async createAIMessage(message: Omit<AIMessage, "id">): Promise<AIMessage> {
+    const id = this.currentAIMessageId++;
+    const newMessage: AIMessage = { ...message, id };
+    this.aiMessages.set(id, newMessage);
+    return newMessage;
+  }
+  
+  async createAIUsage(usage: Omit<AIUsage, "id">): Promise<AIUsage> {
+    const id = this.currentAIUsageId++;
+    const newUsage: AIUsage = { ...usage, id };
+    this.aiUsage.set(id, newUsage);
+    return newUsage;
+  }
+  
+  async getAITokensUsedSince(owner: AIUsageOwner, since: Date): Promise<number> {
+    return Array.from(this.aiUsage.values())
+      .filter(usage =>
+        !usage.cached &&
+        usage.createdAt >= since &&
+        (owner.userId !== undefined ? usage.userId === owner.userId : usage.userId === null && usage.ip === owner.ip)
+      )
+      .reduce((total, usage) => total + usage.promptTokens + usage.completionTokens, 0);
+  }
+  
+  async getStocks(industry?: string): Promise<Stock[]> {
+    return Array.from(this.stocks.values())
+      .filter(stock => !industry || stock.industry === industry)
+      .sort((a, b) => a.ticker.localeCompare(b.ticker));
+  }
+  
+  async getStock(ticker: string): Promise<Stock | undefined> {
+    return this.stocks.get(ticker);
+  }
+  
+  async upsertStock(stock: InsertStock): Promise<Stock> {
+    const newStock: Stock = {
+      sector: null,
+      industry: null,
+      currentPrice: null,
+      marketCap: null,
+      dividendYield: null,
+      beta: null,
+      peRatio: null,
+      eps: null,
+      fiftyTwoWeekHigh: null,
+      fiftyTwoWeekLow: null,
+      averageVolume: null,
+      description: null,
+      ...this.stocks.get(stock.ticker),
+      ...stock
+    };
+    this.stocks.set(stock.ticker, newStock);
+    return newStock;
+  }
+  
+  async updateStock(ticker: string, stockFields: Partial<Stock>): Promise<Stock | undefined> {
+    const stock = this.stocks.get(ticker);
+    if (!stock) return undefined;
+    
+    const updatedStock = { ...stock, ...stockFields, ticker };
+    this.stocks.set(ticker, updatedStock);
+    return updatedStock;
+  }
+  
+  async getStockDetailedData(tickers: string[]): Promise<StockDetailedData[]> {
+    return tickers
+      .map(ticker => this.stockData.get(ticker))
+      .filter((data): data is StockDetailedData => !!data);
+  }
+  
+  async upsertStockDetailedData(data: Partial<StockDetailedData> & { ticker: string }): Promise<StockDetailedData> {
+    const existing = this.stockData.get(data.ticker);
+    const newData = {
+      ...(existing || emptyStockDetailedData(data.ticker)),
+      ...data
+    };
+    this.stockData.set(data.ticker, newData);
+    return newData;
+  }
+  
+  async getStockCacheEntry(cacheKey: string): Promise<StockCache | undefined> {
+    return this.stockCache.get(cacheKey);
+  }
+  
+  async setStockCacheEntry(entry: Omit<StockCache, "id">): Promise<StockCache> {
+    const id = this.stockCache.get(entry.cacheKey)?.id ?? this.currentStockCacheId++;
+    const newEntry: StockCache = { ...entry, id };
+    this.stockCache.set(entry.cacheKey, newEntry);
+    return newEntry;
+  }
+  
+  async getSectors(): Promise<Sector[]> {
+    return Array.from(this.sectors.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async upsertSector(sector: Sector): Promise<Sector> {
+    this.sectors.set(sector.sectorKey, sector);
+    return sector;
+  }
+  
+  async upsertMarketData(data: MarketData): Promise<MarketData> {
+    this.marketData.set(data.market, data);
+    return data;
+  }
+  
+  async createJobRun(run: Omit<JobRun, "id">): Promise<JobRun> {
+    const id = this.currentJobRunId++;
+    const newRun: JobRun = { ...run, id };
+    this.jobRuns.set(id, newRun);
+    return newRun;
+  }
+  
+  async updateJobRun(id: number, runFields: Partial<JobRun>): Promise<JobRun | undefined> {
+    const run = this.jobRuns.get(id);
+    if (!run) return undefined;
+    
+    const updatedRun = { ...run, ...runFields, id };
+    this.jobRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+  
+  async getJobRuns(job: string | undefined, limit: number): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter(run => !job || run.job === job)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  
+  // Resolves once the sample stacks have been seeded into an empty database
+  private ready: Promise<void>;
+
+  // Storages scoped to a transaction share the seeding promise rather than seeding again
+  constructor(private db: Database, sessionStore: session.Store, ready?: Promise<void>) {
+    this.sessionStore = sessionStore;
+    this.ready = ready ?? this.initSampleData().catch(error => {
+      console.error("Failed to seed sample stacks:", error);
+    });
+  }
+
+  private async initSampleData() {
+    const [existing] = await this.db.select({ id: stacks.id }).from(stacks).limit(1);
+    if (existing) return;
+    
+    const [techStack] = await this.db.insert(stacks).values(sampleStacks).returning();
+    await this.db.insert(cards).values(
+      sampleTechCards.map(card => ({ ...card, stackId: techStack.id }))
+    );
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, lastActive: new Date() })
+      .returning();
+    return user;
+  }
+  
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = userData;
+    if (Object.keys(changes).length === 0) return this.getUser(id);
+    
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+  
+  async getStacks(): Promise<Stack[]> {
+    await this.ready;
+    return this.db.select().from(stacks).orderBy(asc(stacks.id));
+  }
+  
+  async getStackById(id: number): Promise<Stack | undefined> {
+    await this.ready;
+    const [stack] = await this.db.select().from(stacks).where(eq(stacks.id, id));
+    return stack;
+  }
+  
+  async createStack(stack: Omit<Stack, "id">): Promise<Stack> {
+    const [newStack] = await this.db.insert(stacks).values(stack).returning();
+    return newStack;
+  }
+  
+  async getCardsByStackId(stackId: number): Promise<Card[]> {
+    await this.ready;
+    return this.db.select().from(cards).where(eq(cards.stackId, stackId)).orderBy(asc(cards.order));
+  }
+  
+  async getCardById(id: number): Promise<Card | undefined> {
+    await this.ready;
+    const [card] = await this.db.select().from(cards).where(eq(cards.id, id));
+    return card;
+  }
+  
+  async createCard(card: Omit<Card, "id">): Promise<Card> {
+    const [newCard] = await this.db.insert(cards).values(card).returning();
+    return newCard;
+  }
+  
+  async getUserProgressByUserId(userId: number): Promise<UserProgress[]> {
+    return this.db.select().from(userProgress).where(eq(userProgress.userId, userId));
+  }
+  
+  async getUserProgressByStackId(userId: number, stackId: number): Promise<UserProgress | undefined> {
+    const [progress] = await this.db
+      .select()
+      .from(userProgress)
+      .where(and(eq(userProgress.userId, userId), eq(userProgress.stackId, stackId)));
+    return progress;
+  }
+  
+  async createUserProgress(progress: Omit<UserProgress, "id">): Promise<UserProgress> {
+    const [newProgress] = await this.db.insert(userProgress).values(progress).returning();
+    return newProgress;
+  }
+  
+  async updateUserProgress(id: number, progressData: Partial<UserProgress>): Promise<UserProgress | undefined> {
+    const { id: _id, ...changes } = progressData;
+    if (Object.keys(changes).length === 0) {
+      const [progress] = await this.db.select().from(userProgress).where(eq(userProgress.id, id));
+      return progress;
+    }
+    
+    const [progress] = await this.db
+      .update(userProgress)
+      .set(changes)
+      .where(eq(userProgress.id, id))
+      .returning();
+    return progress;
+  }
+  
+  async getUserBadges(userId: number): Promise<UserBadge[]> {
+    return this.db.select().from(userBadges).where(eq(userBadges.userId, userId));
+  }
+  
+  async createUserBadge(badge: Omit<UserBadge, "id">): Promise<UserBadge> {
+    const [newBadge] = await this.db.insert(userBadges).values(badge).returning();
+    return newBadge;
+  }
+  
+  async getUserDailyProgress(userId: number, date?: Date): Promise<UserDailyProgress | undefined> {
+    // Match MemStorage, which compares the UTC calendar day
+    const today = date || new Date();
+    const dayStart = new Date(today.toISOString().split('T')[0]);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+    
+    const [dailyProgress] = await this.db
+      .select()
+      .from(userDailyProgress)
+      .where(and(
+        eq(userDailyProgress.userId, userId),
+        gte(userDailyProgress.date, dayStart),
+        lt(userDailyProgress.date, dayEnd)
+      ));
+    return dailyProgress;
+  }
+  
+  async createUserDailyProgress(dailyProgress: Omit<UserDailyProgress, "id">): Promise<UserDailyProgress> {
+    const [newDailyProgress] = await this.db.insert(userDailyProgress).values(dailyProgress).returning();
+    return newDailyProgress;
+  }
+  
+  async updateUserDailyProgress(id: number, dailyProgressData: Partial<UserDailyProgress>): Promise<UserDailyProgress | undefined> {
+    const { id: _id, ...changes } = dailyProgressData;
+    if (Object.keys(changes).length === 0) {
+      const [dailyProgress] = await this.db.select().from(userDailyProgress).where(eq(userDailyProgress.id, id));
+      return dailyProgress;
+    }
+    
+    const [dailyProgress] = await this.db
+      .update(userDailyProgress)
+      .set(changes)
+      .where(eq(userDailyProgress.id, id))
+      .returning();
+    return dailyProgress;
+  }
+  
+  async getPortfolios(): Promise<Portfolio[]> {
+    return this.db.select().from(portfolios).orderBy(asc(portfolios.id));
+  }
+  
+  async getPortfolioByUserId(userId: number): Promise<Portfolio | undefined> {
+    const [portfolio] = await this.db.select().from(portfolios).where(eq(portfolios.userId, userId));
+    return portfolio;
+  }
+  
+  async createPortfolio(portfolio: Omit<Portfolio, "id">): Promise<Portfolio> {
+    const [newPortfolio] = await this.db.insert(portfolios).values(portfolio).returning();
+    return newPortfolio;
+  }
+  
+  async updatePortfolio(id: number, portfolioData: Partial<Portfolio>): Promise<Portfolio | undefined> {
+    const { id: _id, ...changes } = portfolioData;
+    const [portfolio] = await this.db
+      .update(portfolios)
+      .set(changes)
+      .where(eq(portfolios.id, id))
+      .returning();
+    return portfolio;
+  }
+  
+  async withPortfolioLock<T>(portfolioId: number, work: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async tx => {
+      await tx.select({ id: portfolios.id }).from(portfolios).where(eq(portfolios.id, portfolioId)).for("update");
+      return work(new DatabaseStorage(tx, this.sessionStore, this.ready));
+    });
+  }
+  
+  async getHoldingsByPortfolioId(portfolioId: number): Promise<Holding[]> {
+    return this.db.select().from(holdings).where(eq(holdings.portfolioId, portfolioId)).orderBy(asc(holdings.id));
+  }
+  
+  async getHolding(portfolioId: number, ticker: string): Promise<Holding | undefined> {
+    const [holding] = await this.db
+      .select()
+      .from(holdings)
+      .where(and(eq(holdings.portfolioId, portfolioId), eq(holdings.ticker, ticker)));
+    return holding;
+  }
+  
+  async createHolding(holding: Omit<Holding, "id">): Promise<Holding> {
+    const [newHolding] = await this.db.insert(holdings).values(holding).returning();
+    return newHolding;
+  }
+  
+  async updateHolding(id: number, holdingData: Partial<Holding>): Promise<Holding | undefined> {
+    const { id: _id, ...changes } = holdingData;
+    const [holding] = await this.db
+      .update(holdings)
+      .set(changes)
+      .where(eq(holdings.id, id))
+      .returning();
+    return holding;
+  }
+  
+  async deleteHolding(id: number): Promise<void> {
+    await this.db.delete(holdings).where(eq(holdings.id, id));
+  }
+  
+  async getTransactionsByPortfolioId(portfolioId: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.portfolioId, portfolioId))
+      .orderBy(desc(transactions.executedAt), desc(transactions.id));
+  }
+  
+  async createTransaction(transaction: Omit<Transaction, "id">): Promise<Transaction> {
+    const [newTransaction] = await this.db.insert(transactions).values(transaction).returning();
+    return newTransaction;
+  }
+  
+  async getTaxLotsByPortfolioId(portfolioId: number): Promise<TaxLot[]> {
+    return this.db
+      .select()
+      .from(taxLots)
+      .where(eq(taxLots.portfolioId, portfolioId))
+      .orderBy(asc(taxLots.acquiredAt), asc(taxLots.id));
+  }
+  
+  async getOpenTaxLots(portfolioId: number, ticker: string): Promise<TaxLot[]> {
+    return this.db
+      .select()
+      .from(taxLots)
+      .where(and(
+        eq(taxLots.portfolioId, portfolioId),
+        eq(taxLots.ticker, ticker),
+        gt(taxLots.remainingShares, 0)
+      ))
+      .orderBy(asc(taxLots.acquiredAt), asc(taxLots.id));
+  }
+  
+  async createTaxLot(taxLot: Omit<TaxLot, "id">): Promise<TaxLot> {
+    const [newTaxLot] = await this.db.insert(taxLots).values(taxLot).returning();
+    return newTaxLot;
+  }
+  
+  async updateTaxLot(id: number, taxLotData: Partial<TaxLot>): Promise<TaxLot | undefined> {
+    const { id: _id, ...changes } = taxLotData;
+    const [taxLot] = await this.db
+      .update(taxLots)
+      .set(changes)
+      .where(eq(taxLots.id, id))
+      .returning();
+    return taxLot;
+  }
+  
+  async getPortfolioSnapshots(portfolioId: number, fromDate?: string): Promise<PortfolioSnapshot[]> {
+    const conditions = [eq(portfolioSnapshots.portfolioId, portfolioId)];
+    if (fromDate) conditions.push(gte(portfolioSnapshots.date, fromDate));
+    return this.db
+      .select()
+      .from(portfolioSnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(portfolioSnapshots.date));
+  }
+  
+  async upsertPortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id">): Promise<PortfolioSnapshot> {
+    const { portfolioId: _portfolioId, date: _date, ...updates } = snapshot;
+    const [upserted] = await this.db
+      .insert(portfolioSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({ target: [portfolioSnapshots.portfolioId, portfolioSnapshots.date], set: updates })
+      .returning();
+    return upserted;
+  }
+  
+  async getOrdersByPortfolioId(portfolioId: number): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.portfolioId, portfolioId))
+      .orderBy(desc(orders.createdAt), desc(orders.id));
+  }
+  
+  async getOpenOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).where(eq(orders.status, 'open')).orderBy(asc(orders.id));
+  }
+  
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+  
+  async createOrder(order: Omit<Order, "id">): Promise<Order> {
+    const [newOrder] = await this.db.insert(orders).values(order).returning();
+    return newOrder;
+  }
+  
+  async updateOrder(id: number, orderData: Partial<Order>): Promise<Order | undefined> {
+    const { id: _id, ...changes } = orderData;
+    const [order] = await this.db
+      .update(orders)
+      .set(changes)
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+  
+  async updateOpenOrder(id: number, orderData: Partial<Order>): Promise<Order | undefined> {
+    const { id: _id, ...changes } = orderData;
+    const [order] = await this.db
+      .update(orders)
+      .set(changes)
+      .where(and(eq(orders.id, id), eq(orders.status, 'open')))
+      .returning();
+    return order;
+  }
+  
+  async getInvestmentPlansByPortfolioId(portfolioId: number): Promise<InvestmentPlan[]> {
+    return this.db
+      .select()
+      .from(investmentPlans)
+      .where(eq(investmentPlans.portfolioId, portfolioId))
+      .orderBy(asc(investmentPlans.id));
+  }
+  
+  async getDueInvestmentPlans(date: string): Promise<InvestmentPlan[]> {
+    return this.db
+      .select()
+      .from(investmentPlans)
+      .where(and(eq(investmentPlans.active, true), lte(investmentPlans.nextRunDate, date)))
+      .orderBy(asc(investmentPlans.id));
+  }
+  
+  async getInvestmentPlan(id: number): Promise<InvestmentPlan | undefined> {
+    const [plan] = await this.db.select().from(investmentPlans).where(eq(investmentPlans.id, id));
+    return plan;
+  }
+  
+  async createInvestmentPlan(plan: Omit<InvestmentPlan, "id">): Promise<InvestmentPlan> {
+    const [newPlan] = await this.db.insert(investmentPlans).values(plan).returning();
+    return newPlan;
+  }
+  
+  async updateInvestmentPlan(id: number, planData: Partial<InvestmentPlan>): Promise<InvestmentPlan | undefined> {
+    const { id: _id, ...changes } = planData;
+    const [plan] = await this.db
+      .update(investmentPlans)
+      .set(changes)
+      .where(eq(investmentPlans.id, id))
+      .returning();
+    return plan;
+  }
+  
+  async updateDueInvestmentPlan(id: number, runDate: string, planData: Partial<InvestmentPlan>): Promise<InvestmentPlan | undefined> {
+    const { id: _id, ...changes } = planData;
+    const [plan] = await this.db
+      .update(investmentPlans)
+      .set(changes)
+      .where(and(
+        eq(investmentPlans.id, id),
+        eq(investmentPlans.active, true),
+        eq(investmentPlans.nextRunDate, runDate)
+      ))
+      .returning();
+    return plan;
+  }
+  
+  async deleteInvestmentPlan(id: number): Promise<void> {
+    await this.db.delete(investmentPlanRuns).where(eq(investmentPlanRuns.planId, id));
+    await this.db.delete(investmentPlans).where(eq(investmentPlans.id, id));
+  }
+  
+  async getInvestmentPlanRuns(planId: number): Promise<InvestmentPlanRun[]> {
+    return this.db
+      .select()
+      .from(investmentPlanRuns)
+      .where(eq(investmentPlanRuns.planId, planId))
+      .orderBy(asc(investmentPlanRuns.runDate), asc(investmentPlanRuns.id));
+  }
+  
+  async createInvestmentPlanRun(run: Omit<InvestmentPlanRun, "id">): Promise<InvestmentPlanRun> {
+    const [newRun] = await this.db.insert(investmentPlanRuns).values(run).returning();
+    return newRun;
+  }
+  
+  async getAIThreadsByUserId(userId: number, filter: AIThreadFilter = {}): Promise<AIThread[]> {
+    const conditions = [eq(aiThreads.userId, userId)];
+    if (filter.scope) conditions.push(eq(aiThreads.scope, filter.scope));
+    if (filter.ticker) conditions.push(eq(aiThreads.ticker, filter.ticker));
+    
+    return this.db
+      .select()
+      .from(aiThreads)
+      .where(and(...conditions))
+      .orderBy(desc(aiThreads.updatedAt), desc(aiThreads.id));
+  }
+  
+  async getAIThread(id: number): Promise<AIThread | undefined> {
+    const [thread] = await this.db.select().from(aiThreads).where(eq(aiThreads.id, id));
+    return thread;
+  }
+  
+  async createAIThread(thread: Omit<AIThread, "id">): Promise<AIThread> {
+    const [newThread] = await this.db.insert(aiThreads).values(thread).returning();
+    return newThread;
+  }
+  
+  async updateAIThread(id: number, threadData: Partial<AIThread>): Promise<AIThread | undefined> {
+    const { id: _id, ...changes } = threadData;
+    const [thread] = await this.db
+      .update(aiThreads)
+      .set(changes)
+      .where(eq(aiThreads.id, id))
+      .returning();
+    return thread;
+  }
+  
+  async deleteAIThread(id: number): Promise<void> {
+    // Messages go with it via ON DELETE CASCADE
+    await this.db.delete(aiThreads).where(eq(aiThreads.id, id));
+  }
+  
+  async getAIMessagesByThreadId(threadId: number): Promise<AIMessage[]> {
+    return this.db
+      .select()
+      .from(aiMessages)
+      .where(eq(aiMessages.threadId, threadId))
+      .orderBy(asc(aiMessages.createdAt), asc(aiMessages.id));
+  }
+  
+  async createAIMessage(message: Omit<AIMessage, "id">): Promise<AIMessage> {
+    const [newMessage] = await this.db.insert(aiMessages).values(message).returning();
+    return newMessage;
+  }
+  
+  async createAIUsage(usage: Omit<AIUsage, "id">): Promise<AIUsage> {
+    const [newUsage] = await this.db.insert(aiUsage).values(usage).returning();
+    return newUsage;
+  }
+  
+  async getAITokensUsedSince(owner: AIUsageOwner, since: Date): Promise<number> {
+    const ownerCondition = owner.userId !== undefined
+      ? eq(aiUsage.userId, owner.userId)
+      : and(isNull(aiUsage.userId), eq(aiUsage.ip, owner.ip ?? ""));
+    
+    const [row] = await this.db
+      .select({ total: sql<string>`coalesce(sum(${aiUsage.promptTokens} + ${aiUsage.completionTokens}), 0)` })
+      .from(aiUsage)
+      .where(and(ownerCondition, eq(aiUsage.cached, false), gte(aiUsage.createdAt, since)));
+    return Number(row?.total ?? 0);
+  }
+  
+  async getStocks(industry?: string): Promise<Stock[]> {
+    return this.db
+      .select()
+      .from(stocks)
+      .where(industry ? eq(stocks.industry, industry) : undefined)
+      .orderBy(asc(stocks.ticker));
+  }
+  
+  async getStock(ticker: string): Promise<Stock | undefined> {
+    const [stock] = await this.db.select().from(stocks).where(eq(stocks.ticker, ticker));
+    return stock;
+  }
+  
+  async upsertStock(stock: InsertStock): Promise<Stock> {
+    const { ticker, ...updates } = stock;
+    const [upserted] = await this.db
+      .insert(stocks)
+      .values(stock)
+      .onConflictDoUpdate({ target: stocks.ticker, set: updates })
+      .returning();
+    return upserted;
+  }
+  
+  async updateStock(ticker: string, stockFields: Partial<Stock>): Promise<Stock | undefined> {
+    const { ticker: _ticker, ...updates } = stockFields;
+    const [stock] = await this.db
+      .update(stocks)
+      .set(updates)
+      .where(eq(stocks.ticker, ticker))
+      .returning();
+    return stock;
+  }
+  
+  async getStockDetailedData(tickers: string[]): Promise<StockDetailedData[]> {
+    if (tickers.length === 0) return [];
+    return this.db.select().from(stockData).where(inArray(stockData.ticker, tickers));
+  }
+  
+  async upsertStockDetailedData(data: Partial<StockDetailedData> & { ticker: string }): Promise<StockDetailedData> {
+    const { ticker, ...updates } = data;
+    const [upserted] = await this.db
+      .insert(stockData)
+      .values(data)
+      .onConflictDoUpdate({ target: stockData.ticker, set: Object.keys(updates).length ? updates : { ticker } })
+      .returning();
+    return upserted;
+  }
+  
+  async getStockCacheEntry(cacheKey: string): Promise<StockCache | undefined> {
+    const [entry] = await this.db.select().from(stockCache).where(eq(stockCache.cacheKey, cacheKey));
+    return entry;
+  }
+  
+  async setStockCacheEntry(entry: Omit<StockCache, "id">): Promise<StockCache> {
+    const { cacheKey, ...updates } = entry;
+    const [upserted] = await this.db
+      .insert(stockCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: stockCache.cacheKey, set: updates })
+      .returning();
+    return upserted;
+  }
+  
+  async getSectors(): Promise<Sector[]> {
+    return this.db.select().from(sectors).orderBy(asc(sectors.name));
+  }
+  
+  async upsertSector(sector: Sector): Promise<Sector> {
+    const { sectorKey, ...updates } = sector;
+    const [upserted] = await this.db
+      .insert(sectors)
+      .values(sector)
+      .onConflictDoUpdate({ target: sectors.sectorKey, set: updates })
+      .returning();
+    return upserted;
+  }
+  
+  async upsertMarketData(data: MarketData): Promise<MarketData> {
+    const { market, ...updates } = data;
+    const [upserted] = await this.db
+      .insert(marketData)
+      .values(data)
+      .onConflictDoUpdate({ target: marketData.market, set: updates })
+      .returning();
+    return upserted;
+  }
+  
+  async createJobRun(run: Omit<JobRun, "id">): Promise<JobRun> {
+    const [newRun] = await this.db.insert(jobRuns).values(run).returning();
+    return newRun;
+  }
+  
+  async updateJobRun(id: number, runFields: Partial<JobRun>): Promise<JobRun | undefined> {
+    const { id: _id, ...updates } = runFields;
+    const [run] = await this.db
+      .update(jobRuns)
+      .set(updates)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run;
+  }
+  
+  async getJobRuns(job: string | undefined, limit: number): Promise<JobRun[]> {
+    return this.db
+      .select()
+      .from(jobRuns)
+      .where(job ? eq(jobRuns.job, job) : undefined)
+      .orderBy(desc(jobRuns.id))
+      .limit(limit);
+  }
+}
+
+/**
+ * Picks the storage backend from STORAGE_DRIVER ("postgres" or "memory").
+ * Defaults to Postgres whenever DATABASE_URL is configured.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+  
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+  
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
+  
+  const { pool, db } = createDatabase();
+  const sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  return new DatabaseStorage(db, sessionStore);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
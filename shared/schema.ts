@@ -14,7 +14,8 @@ export const users = pgTable("users", {
   dailyGoal: integer("daily_goal").notNull().default(3),
   interests: text("interests").array().notNull().default([]),
   experienceLevel: text("experience_level").notNull().default("beginner"),
-  onboarded: boolean("onboarded").notNull().default(false)
+  onboarded: boolean("onboarded").notNull().default(false),
+  aiTier: text("ai_tier").notNull().default("free"), // free, plus - sets AI rate limits
 });
 
 export const stacks = pgTable("stacks", {
@@ -68,9 +69,13 @@ export const userDailyProgress = pgTable("user_daily_progress", {
   goalCompleted: boolean("goal_completed").notNull().default(false),
 });
 
+// Read-through cache of Yahoo Finance responses, one row per symbol, endpoint and params.
+// Older databases keyed it by symbol alone: run scripts/push-db.ts to clear those rows before db:push.
 export const stockCache = pgTable("stock_cache", {
   id: serial("id").primaryKey(),
-  symbol: varchar("symbol", { length: 20 }).notNull().unique(),
+  cacheKey: text("cache_key").notNull().unique(), // endpoint:SYMBOL:params
+  symbol: varchar("symbol", { length: 20 }).notNull(),
+  endpoint: varchar("endpoint", { length: 50 }).notNull(),
   data: text("data").notNull(), // JSON string of the stock data
   updatedAt: timestamp("updated_at").notNull().default(new Date()),
 });
@@ -108,6 +113,7 @@ export const stockData = pgTable("stock_data", {
   financialData: jsonb("financial_data"), // JSON object with financial metrics
   institutionalHolders: jsonb("institutional_holders"), // JSON array of institutional holders
   majorHolders: jsonb("major_holders"), // JSON array of major holders
+  swipeCard: jsonb("swipe_card"), // Swipe card content (metric details, explanations, synopsis) when not derived from statements
 });
 
 export const sectors = pgTable("sectors", {
@@ -124,6 +130,163 @@ export const marketData = pgTable("market_data", {
   lastUpdated: timestamp("last_updated").notNull().default(new Date()),
 });
 
+// Paper-trading portfolios, one per user
+export const portfolios = pgTable("portfolios", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  cash: doublePrecision("cash").notNull().default(100),
+  lotMethod: text("lot_method").notNull().default("fifo"), // fifo, lifo, average
+  rebalanceTargets: jsonb("rebalance_targets"), // JSON object with target weights, see rebalanceTargetsSchema
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const holdings = pgTable("holdings", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id),
+  ticker: varchar("ticker", { length: 10 }).notNull(),
+  shares: doublePrecision("shares").notNull(),
+  purchasePrice: doublePrecision("purchase_price").notNull(), // Average cost per share
+  purchaseDate: timestamp("purchase_date").notNull().defaultNow(),
+}, (table) => [
+  unique("holdings_portfolio_ticker_unique").on(table.portfolioId, table.ticker),
+]);
+
+// Immutable trade ledger - rows are only ever inserted
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id),
+  ticker: varchar("ticker", { length: 10 }).notNull(),
+  side: text("side").notNull(), // buy, sell
+  shares: doublePrecision("shares").notNull(),
+  price: doublePrecision("price").notNull(),
+  fees: doublePrecision("fees").notNull().default(0),
+  amount: doublePrecision("amount").notNull(), // Cash debited (buy) or credited (sell), net of fees
+  costBasis: doublePrecision("cost_basis"), // Sells only: cost of the lots relieved
+  realizedGain: doublePrecision("realized_gain"), // Sells only: amount - costBasis
+  lotMethod: text("lot_method"), // Sells only: relief method used
+  executedAt: timestamp("executed_at").notNull().defaultNow(),
+});
+
+// Tax lots opened by buys and relieved by sells
+export const taxLots = pgTable("tax_lots", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id),
+  ticker: varchar("ticker", { length: 10 }).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id), // Null for lots backfilled from pre-ledger holdings
+  shares: doublePrecision("shares").notNull(),
+  remainingShares: doublePrecision("remaining_shares").notNull(),
+  costPerShare: doublePrecision("cost_per_share").notNull(), // Includes fees
+  acquiredAt: timestamp("acquired_at").notNull().defaultNow(),
+});
+
+// Daily portfolio valuations for performance reporting, one row per portfolio per day
+export const portfolioSnapshots = pgTable("portfolio_snapshots", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id),
+  date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD
+  cash: doublePrecision("cash").notNull(),
+  holdingsValue: doublePrecision("holdings_value").notNull(),
+  totalValue: doublePrecision("total_value").notNull(),
+  netFlow: doublePrecision("net_flow").notNull().default(0), // Cash deposited (+) or withdrawn (-) that day; trades are not flows
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("portfolio_snapshots_portfolio_date_unique").on(table.portfolioId, table.date),
+]);
+
+// Pending paper-trading orders, filled by the pending-orders job once their trigger price is reached
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id),
+  ticker: varchar("ticker", { length: 10 }).notNull(),
+  type: text("type").notNull(), // limit_buy, limit_sell, stop_loss, take_profit
+  triggerPrice: doublePrecision("trigger_price").notNull(),
+  amount: doublePrecision("amount"), // Buys only: dollars to invest, fee included
+  shares: doublePrecision("shares"), // Sells only: shares to sell
+  timeInForce: text("time_in_force").notNull().default("gtc"), // gtc, day
+  status: text("status").notNull().default("open"), // open, filled, cancelled, expired, rejected
+  statusReason: text("status_reason"), // Why a fill was rejected
+  expiresAt: timestamp("expires_at"), // Day orders: the market close they lapse at
+  fillPrice: doublePrecision("fill_price"),
+  transactionId: integer("transaction_id").references(() => transactions.id), // The ledger row a fill posted
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  closedAt: timestamp("closed_at"), // When the order was filled, cancelled, expired or rejected
+});
+
+// Recurring buys (dollar-cost averaging) of one ticker or a weighted basket
+export const investmentPlans = pgTable("investment_plans", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id),
+  name: text("name").notNull(),
+  allocations: jsonb("allocations").notNull(), // JSON array of PlanAllocation, weights adding up to 100
+  amount: doublePrecision("amount").notNull(), // Dollars invested per run, split by weight
+  frequency: text("frequency").notNull(), // weekly, biweekly, monthly
+  startDate: varchar("start_date", { length: 10 }).notNull(), // YYYY-MM-DD; runs fall on this weekday or day of the month
+  nextRunDate: varchar("next_run_date", { length: 10 }).notNull(), // YYYY-MM-DD
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// What each scheduled run of an investment plan bought, or why it didn't
+export const investmentPlanRuns = pgTable("investment_plan_runs", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").notNull().references(() => investmentPlans.id),
+  runDate: varchar("run_date", { length: 10 }).notNull(), // The scheduled date, YYYY-MM-DD
+  status: text("status").notNull(), // executed, partial, skipped
+  purchases: jsonb("purchases").notNull(), // JSON array of PlanPurchase
+  reason: text("reason"), // Why tickers were skipped
+  executedAt: timestamp("executed_at").notNull().defaultNow(),
+});
+
+// AI assistant conversations, optionally scoped to a ticker or to the portfolio
+export const aiThreads = pgTable("ai_threads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  scope: text("scope").notNull().default("general"), // general, portfolio, ticker
+  ticker: varchar("ticker", { length: 10 }), // Only set for ticker threads
+  title: text("title").notNull(),
+  summary: text("summary"), // Rolling summary of turns that no longer fit the context window
+  summarizedCount: integer("summarized_count").notNull().default(0), // Messages folded into the summary
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const aiMessages = pgTable("ai_messages", {
+  id: serial("id").primaryKey(),
+  threadId: integer("thread_id").notNull().references(() => aiThreads.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // user, assistant
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per AI request, used for daily allowances. Guests are tracked by IP.
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  ip: text("ip"),
+  endpoint: text("endpoint").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  cached: boolean("cached").notNull().default(false), // Served from the response cache, not counted
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Scheduled and manually triggered market data job runs
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job: text("job").notNull(),
+  trigger: text("trigger").notNull(), // schedule, manual
+  status: text("status").notNull(), // running, succeeded, failed
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  summary: jsonb("summary"), // JSON object with what the job updated, e.g. { updated: 48, failed: ["XYZ"] }
+  error: text("error"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -163,6 +326,346 @@ export const insertStockDataSchema = createInsertSchema(stockData);
 export const insertSectorsSchema = createInsertSchema(sectors);
 export const insertMarketDataSchema = createInsertSchema(marketData);
 
+export const insertPortfolioSchema = createInsertSchema(portfolios).omit({
+  id: true,
+});
+
+export const insertHoldingSchema = createInsertSchema(holdings).omit({
+  id: true,
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions).omit({
+  id: true,
+});
+
+export const insertTaxLotSchema = createInsertSchema(taxLots).omit({
+  id: true,
+});
+
+export const insertPortfolioSnapshotSchema = createInsertSchema(portfolioSnapshots).omit({
+  id: true,
+});
+
+export const insertOrderSchema = createInsertSchema(orders).omit({
+  id: true,
+});
+
+export const insertInvestmentPlanSchema = createInsertSchema(investmentPlans).omit({
+  id: true,
+});
+
+export const insertInvestmentPlanRunSchema = createInsertSchema(investmentPlanRuns).omit({
+  id: true,
+});
+
+export const insertAIThreadSchema = createInsertSchema(aiThreads).omit({
+  id: true,
+});
+
+export const insertAIMessageSchema = createInsertSchema(aiMessages).omit({
+  id: true,
+});
+
+export const insertAIUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+});
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).omit({
+  id: true,
+});
+
+// Trade request schemas for the paper-trading routes. Trades are priced on the server.
+export const lotMethods = ["fifo", "lifo", "average"] as const;
+
+export const buyStockSchema = z.object({
+  ticker: z.string().trim().min(1).max(10).transform(ticker => ticker.toUpperCase()),
+  amount: z.number().positive("Investment amount must be positive"),
+});
+
+export const sellStockSchema = z.object({
+  ticker: z.string().trim().min(1).max(10).transform(ticker => ticker.toUpperCase()),
+  shares: z.number().positive("Shares to sell must be positive"),
+  lotMethod: z.enum(lotMethods).optional(), // Overrides the portfolio's default relief method
+});
+
+export const portfolioSettingsSchema = z.object({
+  lotMethod: z.enum(lotMethods),
+});
+
+// Ranges the portfolio performance report covers
+export const performanceRanges = ["1mo", "3mo", "6mo", "1y", "max"] as const;
+
+// Pending orders: buys trigger at or below their price, take-profits and limit sells
+// at or above it, and stop-losses at or below it. Day orders lapse at the market close.
+export const orderTypes = ["limit_buy", "limit_sell", "stop_loss", "take_profit"] as const;
+export const orderTimesInForce = ["gtc", "day"] as const;
+export const orderStatuses = ["open", "filled", "cancelled", "expired", "rejected"] as const;
+
+export const placeOrderSchema = z.object({
+  ticker: z.string().trim().min(1).max(10).transform(ticker => ticker.toUpperCase()),
+  type: z.enum(orderTypes),
+  triggerPrice: z.number().positive("Trigger price must be positive"),
+  amount: z.number().positive("Investment amount must be positive").optional(), // limit_buy
+  shares: z.number().positive("Shares to sell must be positive").optional(), // Every other type
+  timeInForce: z.enum(orderTimesInForce).default("gtc"),
+}).refine(
+  order => order.type === "limit_buy" ? order.amount !== undefined : order.shares !== undefined,
+  order => ({ message: order.type === "limit_buy" ? "Limit buys need an amount to invest" : "Sell orders need a number of shares" })
+);
+
+// Open orders can be amended; the type and ticker can't change
+export const amendOrderSchema = z.object({
+  triggerPrice: z.number().positive("Trigger price must be positive").optional(),
+  amount: z.number().positive("Investment amount must be positive").optional(),
+  shares: z.number().positive("Shares to sell must be positive").optional(),
+  timeInForce: z.enum(orderTimesInForce).optional(),
+}).refine(changes => Object.values(changes).some(value => value !== undefined), "Nothing to change");
+
+// Recurring investment plans: a dollar amount split across up to 10 tickers by weight
+export const planFrequencies = ["weekly", "biweekly", "monthly"] as const;
+export const planRunStatuses = ["executed", "partial", "skipped"] as const;
+
+const planAllocationsSchema = z.array(z.object({
+  ticker: z.string().trim().min(1).max(10).transform(ticker => ticker.toUpperCase()),
+  weight: z.number().positive().max(100),
+})).min(1, "Choose at least one stock").max(10, "Plans can hold at most 10 stocks")
+  .refine(
+    allocations => new Set(allocations.map(allocation => allocation.ticker)).size === allocations.length,
+    "Each stock can only appear once in a plan"
+  )
+  .refine(
+    allocations => Math.abs(allocations.reduce((sum, allocation) => sum + allocation.weight, 0) - 100) < 0.01,
+    "Weights must add up to 100%"
+  );
+
+export const createInvestmentPlanSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(), // Defaults to the tickers
+  allocations: planAllocationsSchema,
+  amount: z.number().positive("Amount must be positive"),
+  frequency: z.enum(planFrequencies),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be YYYY-MM-DD").optional(), // Defaults to today
+});
+
+// Pausing sets active to false; the schedule picks up from the next date after resuming
+export const updateInvestmentPlanSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  allocations: planAllocationsSchema.optional(),
+  amount: z.number().positive("Amount must be positive").optional(),
+  frequency: z.enum(planFrequencies).optional(),
+  active: z.boolean().optional(),
+}).refine(changes => Object.values(changes).some(value => value !== undefined), "Nothing to change");
+
+// Rebalancing targets: percent weights per ticker or per industry. Holdings without a
+// target are left as they are, and cash is whatever the targets leave over.
+export const allocationBases = ["ticker", "industry"] as const;
+
+export const rebalanceTargetsSchema = z.object({
+  basis: z.enum(allocationBases),
+  weights: z.record(z.string().trim().min(1).max(50), z.number().min(0).max(100))
+    .refine(weights => Object.keys(weights).length > 0, "Set at least one target weight")
+    .refine(
+      weights => Object.values(weights).reduce((sum, weight) => sum + weight, 0) <= 100.0001,
+      "Target weights can't add up to more than 100%"
+    ),
+  tolerance: z.number().min(0).max(50).default(5), // Percentage points a weight may drift before it is traded back
+}).transform(targets => targets.basis === "ticker"
+  ? { ...targets, weights: Object.fromEntries(Object.entries(targets.weights).map(([ticker, weight]) => [ticker.toUpperCase(), weight])) }
+  : targets);
+
+// Market data refresh jobs (plus portfolio valuation, order matching and recurring buys) and how a run was started
+export const jobNames = ["intraday-prices", "fundamentals", "analyst-data", "earnings-dates", "portfolio-snapshots", "pending-orders", "investment-plans"] as const;
+export const jobTriggers = ["schedule", "manual"] as const;
+export const jobRunStatuses = ["running", "succeeded", "failed"] as const;
+
+// Where chart data comes from: imported price history, Yahoo Finance, or history when it covers the range
+export const chartSources = ["auto", "live", "history"] as const;
+
+// Live price stream (WebSocket /ws/prices): what clients send, and where ticks come from
+export const priceTickSources = ["yahoo", "simulated"] as const;
+
+const priceStreamSymbols = z.array(
+  z.string().trim().min(1).max(15).transform(symbol => symbol.toUpperCase())
+).min(1).max(50);
+
+export const priceStreamClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), symbols: priceStreamSymbols }),
+  z.object({ type: z.literal("unsubscribe"), symbols: priceStreamSymbols }),
+]);
+
+// AI rate limit tiers; guests are everyone who isn't signed in
+export const aiTiers = ["guest", "free", "plus"] as const;
+
+// AI assistant thread schemas
+export const aiThreadScopes = ["general", "portfolio", "ticker"] as const;
+
+const aiThreadScopeFields = {
+  scope: z.enum(aiThreadScopes).default("general"),
+  ticker: z.string().trim().min(1).max(10).transform(ticker => ticker.toUpperCase()).optional(),
+};
+
+// Ticker threads must say which ticker they are about
+const hasTickerWhenScoped = (thread: { scope: AIThreadScope; ticker?: string }) =>
+  thread.scope !== "ticker" || !!thread.ticker;
+const missingTickerError = { message: "A ticker is required for ticker threads", path: ["ticker"] };
+
+// Which conversation a request belongs to, e.g. { scope: "ticker", ticker: "AAPL" }
+export const aiThreadScopeSchema = z.object(aiThreadScopeFields).refine(hasTickerWhenScoped, missingTickerError);
+
+export const createAIThreadSchema = z.object({
+  ...aiThreadScopeFields,
+  title: z.string().trim().min(1).max(100).optional(),
+}).refine(hasTickerWhenScoped, missingTickerError);
+
+export const renameAIThreadSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(100),
+});
+
+// Guests have no saved threads, so they send their own recent turns with each question.
+// Only user and assistant turns are accepted so a guest can't inject system or tool messages.
+export const GUEST_HISTORY_MESSAGES = 4;
+export const GUEST_MESSAGE_MAX_LENGTH = 4000;
+
+export const guestMessagesSchema = z.array(z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(GUEST_MESSAGE_MAX_LENGTH, `Messages can be at most ${GUEST_MESSAGE_MAX_LENGTH} characters`),
+})).max(GUEST_HISTORY_MESSAGES, `At most ${GUEST_HISTORY_MESSAGES} previous messages can be sent`);
+
+// Bodies of the streaming assistant routes. Guests can call these too, so every field the
+// prompt builders read is checked here.
+const promptValueSchema = z.union([z.number(), z.string().max(50)]);
+
+export const askStockRequestSchema = z.object({
+  userQuestion: z.string().trim().min(1, "userQuestion is required").max(GUEST_MESSAGE_MAX_LENGTH),
+  stockContext: z.object({
+    name: z.string().max(200),
+    ticker: z.string().trim().min(1).max(20),
+    description: z.string().max(GUEST_MESSAGE_MAX_LENGTH).optional(),
+    price: z.number().optional(),
+    industry: z.string().max(100).optional(),
+    metrics: z.object({
+      performance: promptValueSchema.optional(),
+      value: promptValueSchema.optional(),
+    }).optional(),
+  }),
+});
+
+export const portfolioAnalysisRequestSchema = z.object({
+  query: z.string().trim().min(1, "query is required").max(GUEST_MESSAGE_MAX_LENGTH),
+  portfolioData: z.array(z.object({
+    name: z.string().max(200).optional(),
+    symbol: z.string().max(20).optional(),
+    ticker: z.string().max(20).optional(),
+    value: promptValueSchema.optional(),
+    currentValue: promptValueSchema.optional(),
+    allocation: promptValueSchema.optional(),
+    return: promptValueSchema.optional(),
+  })).max(200),
+  totalValue: z.number().optional(),
+  overallReturn: z.number().optional(),
+  portfolioQuality: z.number().optional(),
+});
+
+// Board Room game schemas, shared by the AI routes and the game client
+export const narrativeStages = [
+  "Company Establishment",
+  "Market Expansion",
+  "Competitive Challenge",
+  "Innovation Decision",
+  "Economic Downturn",
+  "Regulatory Issue",
+  "Talent Management",
+  "Acquisition Opportunity",
+  "International Expansion",
+  "Legacy Planning"
+] as const;
+
+export const metricCategories = ["Growth", "Stability", "Momentum", "Value"] as const;
+
+export const companyMetricsSchema = z.object({
+  EPS: z.number(),
+  PE_Ratio: z.number(),
+  DebtLoad: z.number(),
+  PB_Ratio: z.number(),
+  Beta: z.number(),
+  Volatility: z.number(),
+  RevenueGrowth: z.number(),
+  ProfitMargin: z.number(),
+  RSI: z.number(),
+  ROI: z.number(),
+  ReturnOnCapital: z.number(),
+  DividendYield: z.number(),
+  Growth: z.number(),
+  Stability: z.number(),
+  Momentum: z.number(),
+  Value: z.number(),
+});
+
+export const metricImpactSchema = z.object({
+  metric: z.string().trim().min(1),
+  value: z.number().min(-30).max(30),
+  category: z.enum(metricCategories),
+});
+
+export const boardRoomDecisionSchema = z.object({
+  id: z.string().trim().min(1),
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  stage: z.enum(narrativeStages),
+  learningObjective: z.string().optional(),
+  options: z.array(z.object({
+    id: z.string().trim().min(1),
+    text: z.string().trim().min(1),
+    impacts: z.array(metricImpactSchema).min(1).max(4),
+    explanation: z.string().optional(),
+  })).min(2).max(3),
+});
+
+export const aiScenarioRequestSchema = z.object({
+  playerName: z.string().trim().min(1).max(50),
+  companyName: z.string().trim().min(1).max(80),
+  industry: z.string().trim().min(1).max(80),
+  stage: z.enum(narrativeStages),
+  metrics: companyMetricsSchema,
+  decisions: z.array(z.object({
+    title: z.string(),
+    selectedOptionId: z.string(),
+    impacts: z.array(metricImpactSchema),
+  })).default([]),
+});
+
+export const aiInsightRequestSchema = z.object({
+  metric: z.string().trim().min(1).max(80),
+  change: z.number(),
+  playerChoice: z.string().trim().min(1).max(300),
+});
+
+// Structured portfolio analysis returned by the AI and rendered section by section
+export const analysisSentiments = ["positive", "neutral", "negative"] as const;
+export const riskSeverities = ["low", "medium", "high"] as const;
+export const tradeActions = ["buy", "sell"] as const;
+
+export const portfolioAnalysisSchema = z.object({
+  summary: z.string().trim().min(1),
+  diversificationScore: z.coerce.number().min(0).max(100),
+  holdingNotes: z.array(z.object({
+    ticker: z.string().trim().min(1).transform(ticker => ticker.toUpperCase()),
+    note: z.string().trim().min(1),
+    sentiment: z.enum(analysisSentiments),
+  })).default([]),
+  strengths: z.array(z.string().trim().min(1)).default([]),
+  risks: z.array(z.object({
+    title: z.string().trim().min(1),
+    detail: z.string().trim().min(1),
+    severity: z.enum(riskSeverities),
+  })).default([]),
+  suggestedTrades: z.array(z.object({
+    action: z.enum(tradeActions),
+    ticker: z.string().trim().min(1).max(10).transform(ticker => ticker.toUpperCase()),
+    amount: z.coerce.number().positive(), // Dollars to buy or sell
+    rationale: z.string().trim().min(1),
+  })).max(5).default([]),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -174,5 +677,140 @@ export type UserDailyProgress = typeof userDailyProgress.$inferSelect;
 export type StockCache = typeof stockCache.$inferSelect;
 export type Stock = typeof stocks.$inferSelect;
 export type StockDetailedData = typeof stockData.$inferSelect;
+export type InsertStock = z.infer<typeof insertStocksSchema>;
 export type Sector = typeof sectors.$inferSelect;
 export type MarketData = typeof marketData.$inferSelect;
+export type Portfolio = typeof portfolios.$inferSelect;
+export type Holding = typeof holdings.$inferSelect;
+export type BuyStockRequest = z.infer<typeof buyStockSchema>;
+export type SellStockRequest = z.infer<typeof sellStockSchema>;
+export type PortfolioWithHoldings = Portfolio & { holdings: Holding[] };
+export type Transaction = typeof transactions.$inferSelect;
+export type TaxLot = typeof taxLots.$inferSelect;
+export type LotMethod = typeof lotMethods[number];
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+export type PerformanceRange = typeof performanceRanges[number];
+export type AllocationBasis = typeof allocationBases[number];
+export type RebalanceTargets = z.infer<typeof rebalanceTargetsSchema>;
+export type Order = typeof orders.$inferSelect;
+export type OrderType = typeof orderTypes[number];
+export type OrderTimeInForce = typeof orderTimesInForce[number];
+export type OrderStatus = typeof orderStatuses[number];
+export type PlaceOrderRequest = z.infer<typeof placeOrderSchema>;
+export type AmendOrderRequest = z.infer<typeof amendOrderSchema>;
+export type InvestmentPlan = typeof investmentPlans.$inferSelect;
+export type InvestmentPlanRun = typeof investmentPlanRuns.$inferSelect;
+export type PlanFrequency = typeof planFrequencies[number];
+export type PlanRunStatus = typeof planRunStatuses[number];
+export type CreateInvestmentPlanRequest = z.infer<typeof createInvestmentPlanSchema>;
+export type UpdateInvestmentPlanRequest = z.infer<typeof updateInvestmentPlanSchema>;
+export type AIThread = typeof aiThreads.$inferSelect;
+export type AIMessage = typeof aiMessages.$inferSelect;
+export type AIThreadScope = typeof aiThreadScopes[number];
+export type AIThreadWithMessages = AIThread & { messages: AIMessage[] };
+export type AIUsage = typeof aiUsage.$inferSelect;
+export type AITier = typeof aiTiers[number];
+export type JobRun = typeof jobRuns.$inferSelect;
+export type JobName = typeof jobNames[number];
+export type JobTrigger = typeof jobTriggers[number];
+export type JobRunStatus = typeof jobRunStatuses[number];
+export type ChartSource = typeof chartSources[number];
+export type PriceTickSource = typeof priceTickSources[number];
+export type PriceStreamClientMessage = z.infer<typeof priceStreamClientMessageSchema>;
+export type NarrativeStage = typeof narrativeStages[number];
+export type BoardRoomDecisionPayload = z.infer<typeof boardRoomDecisionSchema>;
+export type AIScenarioRequest = z.infer<typeof aiScenarioRequestSchema>;
+export type AIInsightRequest = z.infer<typeof aiInsightRequestSchema>;
+export type PortfolioAnalysis = z.infer<typeof portfolioAnalysisSchema>;
+export type SuggestedTrade = PortfolioAnalysis["suggestedTrades"][number];
+
+// Per-ticker realized gains and open cost basis. Unrealized gains are left to
+// the caller since they depend on the live price.
+export interface TickerGains {
+  ticker: string;
+  openShares: number;
+  costBasis: number;
+  realizedGain: number;
+  fees: number;
+  lots: TaxLot[];
+}
+
+// A booked trade: its ledger row and the portfolio after it
+export interface TradeResult {
+  portfolio: PortfolioWithHoldings;
+  transaction: Transaction;
+}
+
+// One ticker of an investment plan and its percent of each run's amount
+export interface PlanAllocation {
+  ticker: string;
+  weight: number;
+}
+
+// One buy made by an investment plan run, as posted to the trade ledger
+export interface PlanPurchase {
+  ticker: string;
+  amount: number;
+  shares: number;
+  price: number;
+  transactionId: number | null;
+}
+
+// A tool the AI assistant called while answering, shown under the answer
+export interface AssistantToolUse {
+  name: string;
+  label: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+}
+
+// What a caller has left of their AI limits, from GET /api/ai/usage
+export interface AIAllowance {
+  tier: AITier;
+  daily: {
+    limit: number;
+    used: number;
+    remaining: number;
+    resetsAt: string;
+  };
+  rate: {
+    requestsPerMinute: number;
+    burst: number;
+    available: number;
+  };
+}
+
+// One day in stockData.closingHistory, oldest first. Dates are YYYY-MM-DD.
+export interface ClosingPricePoint {
+  date: string;
+  close: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  // Split and dividend adjusted close, when the source provides one
+  adjClose?: number;
+}
+
+// One payment in stockData.dividends, per share
+export interface DividendPoint {
+  date: string;
+  amount: number;
+}
+
+// The latest price for a symbol on the live price stream
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  // Since the previous close
+  change: number | null;
+  changePercent: number | null;
+  // ISO timestamp of the price
+  time: string;
+  source: PriceTickSource;
+}
+
+// Messages the price stream sends: ticks for subscribed symbols, or why a message was rejected
+export type PriceStreamServerMessage =
+  | { type: "prices"; ticks: PriceTick[] }
+  | { type: "error"; message: string };
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateOverallSwipefolioScore,
+  calculatePortfolioScore,
+  scoreStock
+} from "./advanced-metric-scoring";
+import type { ScorableStock, ScoreCategory } from "./types";
+
+/**
+ * Stocks with every input the engine reads, chosen to land in different parts of
+ * the 0-100 range. The scores below are pinned so a change to any weight, scale
+ * factor or industry average shows up here first.
+ */
+const growthTech: ScorableStock = {
+  ticker: "GRWT",
+  industry: "Tech",
+  price: 120,
+  oneYearReturn: "28.5%",
+  predictedPrice: "$150.00",
+  metrics: {
+    performance: { details: { revenueGrowth: 24, profitMargin: 22, returnOnCapital: 18 } },
+    stability: { details: { volatility: 1.4, beta: 1.3, dividendConsistency: "Low" } },
+    value: { details: { peRatio: 38, pbRatio: 9, dividendYield: 0.2 } },
+    momentum: { details: { threeMonthReturn: 9, relativePerformance: 6, rsi: 64 } }
+  }
+};
+
+const steadyHealthcare: ScorableStock = {
+  ticker: "STDY",
+  industry: "Healthcare",
+  price: 58,
+  oneYearReturn: "6.1%",
+  predictedPrice: "$61.50",
+  metrics: {
+    performance: { details: { revenueGrowth: 5, profitMargin: 14, returnOnCapital: 11 } },
+    stability: { details: { volatility: 0.6, beta: 0.7, dividendConsistency: "High" } },
+    value: { details: { peRatio: 17, pbRatio: 2.8, dividendYield: 2.9 } },
+    momentum: { details: { threeMonthReturn: 1.5, relativePerformance: -0.5, rsi: 52 } }
+  }
+};
+
+const strugglingConsumer: ScorableStock = {
+  ticker: "SLMP",
+  industry: "Consumer",
+  price: 14,
+  oneYearReturn: "-22%",
+  predictedPrice: "$12.00",
+  metrics: {
+    performance: { details: { revenueGrowth: -8, profitMargin: 1.5, returnOnCapital: 2 } },
+    stability: { details: { volatility: 2.2, beta: 1.6, dividendConsistency: "Poor" } },
+    value: { details: { peRatio: 55, pbRatio: 4.5, dividendYield: "N/A" } },
+    momentum: { details: { threeMonthReturn: -12, relativePerformance: -9, rsi: 31 } }
+  }
+};
+
+const categories: ScoreCategory[] = ["performance", "stability", "value", "momentum", "potential"];
+
+describe("calculateOverallSwipefolioScore", () => {
+  it("pins the overall score of each fixture stock", () => {
+    expect(calculateOverallSwipefolioScore(growthTech)).toBe(66);
+    expect(calculateOverallSwipefolioScore(steadyHealthcare)).toBe(57);
+    expect(calculateOverallSwipefolioScore(strugglingConsumer)).toBe(26);
+  });
+
+  it("matches the overall score scoreStock reports", () => {
+    for (const stock of [growthTech, steadyHealthcare, strugglingConsumer]) {
+      expect(scoreStock(stock).overall).toBe(calculateOverallSwipefolioScore(stock));
+    }
+  });
+});
+
+describe("calculatePortfolioScore", () => {
+  const holdings = [
+    { stock: growthTech, value: 600 },
+    { stock: steadyHealthcare, value: 300 },
+    { stock: strugglingConsumer, value: 100 }
+  ];
+
+  it("pins each category score of a fixture portfolio", () => {
+    const scores = Object.fromEntries(categories.map(category => [category, calculatePortfolioScore(holdings, category)]));
+    expect(scores).toEqual({ performance: 51, stability: 78, value: 56, momentum: 53, potential: 61 });
+  });
+
+  it("is the holding's own score for a single holding", () => {
+    for (const category of categories) {
+      expect(calculatePortfolioScore([{ stock: steadyHealthcare, value: 50 }], category))
+        .toBe(scoreStock(steadyHealthcare).scores[category]);
+    }
+  });
+
+  it("ignores holdings with no value and scores an empty portfolio as 0", () => {
+    expect(calculatePortfolioScore([...holdings, { stock: strugglingConsumer, value: 0 }], "value"))
+      .toBe(calculatePortfolioScore(holdings, "value"));
+    expect(calculatePortfolioScore([], "performance")).toBe(0);
+  });
+});
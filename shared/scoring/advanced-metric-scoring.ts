@@ -1,12 +1,16 @@
-import {
+/**
+ * Swipefolio's 0-100 category and overall scores. Pure functions shared by the
+ * client and the server so both always produce the same numbers.
+ */
+import type {
   PerformanceDetails,
   StabilityDetails,
-  ValueDetails,
-  MomentumDetails,
-  StockData
-} from './stock-data';
-import { getIndustryAverages } from './industry-data'; // Needs oneYearReturnAvg added
-import { marketAverages, getDividendConsistencyScore } from './market-averages'; // Needs oneYearReturnAvg added
+  ScorableStock,
+  ScoreCategory,
+  StockScores
+} from './types';
+import { getIndustryAverages } from './industry-averages';
+import { marketAverages, getDividendConsistencyScore } from './market-averages';
 
 // --- Configuration ---
 /**
@@ -130,7 +134,6 @@ export const calculatePerformanceScore = (
       weights.profitMargin * (profitMarginScore * (1 + (profitMarginIndustryStrength - 0.5) * INDUSTRY_STRENGTH_MODIFIER_WEIGHT)) +
       weights.returnOnCapital * (rocScore * (1 + (rocIndustryStrength - 0.5) * INDUSTRY_STRENGTH_MODIFIER_WEIGHT));
 
-  console.log(`Performance (v5) (${stockMetrics.revenueGrowth}%, ${stockMetrics.profitMargin}%, ${stockMetrics.returnOnCapital}%): Scores(Rg:${revGrowthScore}, Pm:${profitMarginScore}, Roc:${rocScore}) -> Final ${capScore(finalScore)}`);
   return capScore(finalScore);
 };
 
@@ -154,13 +157,12 @@ export const calculateStabilityScore = (
       weights.beta * betaScore +
       weights.dividendConsistency * divConsistencyScore;
 
-  console.log(`Stability (v5) (${stockMetrics.volatility}%, ${stockMetrics.beta}, ${stockMetrics.dividendConsistency}): Scores(Vol:${volatilityScore}, Beta:${betaScore}, Div:${divConsistencyScore}) -> Final ${capScore(finalScore)}`);
   return capScore(finalScore);
 };
 
 // Value calculation remains the same as v4
 export const calculateValueScore = (
-  stock: StockData,
+  stock: ScorableStock,
   industry: string
 ): number => {
   const stockMetrics = stock.metrics.value.details;
@@ -215,7 +217,6 @@ export const calculateValueScore = (
   const upsideIndustryStrength = calculateIndustryStrengthFactor(industryAvgs.predictedUpside, marketAvgs.predictedUpside, SCALE_FACTORS.predictedUpside);
   score += weights.predictedUpside * (predictedUpsideScore * (1 + (upsideIndustryStrength - 0.5) * INDUSTRY_STRENGTH_MODIFIER_WEIGHT));
 
-  console.log(`Value (v5) (${stockMetrics.peRatio}, ${stockMetrics.pbRatio}, ${stockMetrics.dividendYield}%, Upside:${stockPredictedUpside.toFixed(1)}%): Scores(PE:${peScore}, PB:${pbScore}, Div:${divYieldScore}, Upside:${predictedUpsideScore}) -> Final ${capScore(score)}`);
   return capScore(score);
 };
 
@@ -226,7 +227,7 @@ export const calculateValueScore = (
  * @returns A score from 0-100
  */
 export const calculateMomentumScore = (
-  stock: StockData, // Pass full stock data to get oneYearReturn
+  stock: ScorableStock, // Pass full stock data to get oneYearReturn
   industry: string
 ): number => {
   const stockMetrics = stock.metrics.momentum.details;
@@ -264,7 +265,6 @@ export const calculateMomentumScore = (
   // RSI is absolute, no industry strength modifier applied here
   score += weights.rsi * rsiScore;
 
-  console.log(`Momentum (v5) (1Y:${stockOneYearReturn}%, 3M:${stockMetrics.threeMonthReturn}%, Rel:${stockMetrics.relativePerformance}%, RSI:${stockMetrics.rsi}): Scores(1Y:${oneYearReturnScore}, Rel:${relativePerfScore}, 3M:${threeMonthScore}, RSI:${rsiScore}) -> Final ${capScore(score)}`);
   return capScore(score);
 };
 
@@ -276,7 +276,7 @@ export const calculateMomentumScore = (
  * @returns A score from 0-100
  */
 export const calculatePotentialScore = (
-  stock: StockData,
+  stock: ScorableStock,
   industry: string
 ): number => {
   const industryAvgs = getIndustryAverages(industry);
@@ -328,7 +328,6 @@ export const calculatePotentialScore = (
   );
   score += weights.relativePerformance * (relativePerformanceScore * (1 + (relativePerformanceIndustryStrength - 0.5) * INDUSTRY_STRENGTH_MODIFIER_WEIGHT));
   
-  console.log(`Potential (v5) (Upside:${stockPredictedUpside.toFixed(1)}%, RevGrowth:${revenueGrowth}%, RelPerf:${relativePerformance}%): Scores(Upside:${predictedUpsideScore}, RevGrowth:${revenueGrowthScore}, RelPerf:${relativePerformanceScore}) -> Final ${capScore(score)}`);
   return capScore(score);
 };
 
@@ -337,7 +336,7 @@ export const calculatePotentialScore = (
  * @param stock The stock data
  * @returns A score from 0-100
  */
-export const calculateOverallSwipefolioScore = (stock: StockData): number => {
+export const calculateOverallSwipefolioScore = (stock: ScorableStock): number => {
   try {
     // Get the five category scores
     const performanceScore = getAdvancedMetricScore(stock, 'performance');
@@ -354,7 +353,6 @@ export const calculateOverallSwipefolioScore = (stock: StockData): number => {
       (momentumScore * OVERALL_SCORE_WEIGHTS.momentum) +
       (potentialScore * OVERALL_SCORE_WEIGHTS.potential);
     
-    console.log(`Overall Swipefolio Score (v5) - ${stock.ticker}: Performance:${performanceScore}, Stability:${stabilityScore}, Value:${valueScore}, Momentum:${momentumScore}, Potential:${potentialScore} -> Final Score: ${capScore(overallScore)}`);
     return capScore(overallScore);
   } catch (error) {
     console.error(`Error calculating overall score for ${stock.ticker}:`, error);
@@ -371,8 +369,8 @@ export const calculateOverallSwipefolioScore = (stock: StockData): number => {
  * @returns A score from 0-100
  */
 export const getAdvancedMetricScore = (
-  stock: StockData,
-  metricName: "performance" | "stability" | "value" | "momentum" | "potential"
+  stock: ScorableStock,
+  metricName: ScoreCategory
 ): number => {
   if (!stock || !stock.metrics || !stock.metrics[metricName]?.details) {
       console.warn(`Missing metric details for ${stock?.ticker} in category ${metricName}`);
@@ -409,14 +407,13 @@ export const getAdvancedMetricScore = (
  * @returns A score from 0-100
  */
 export const calculatePortfolioScore = (
-  holdings: Array<{ stock: StockData, value: number }>,
-  metricName: "performance" | "stability" | "value" | "momentum" | "potential"
+  holdings: Array<{ stock: ScorableStock, value: number }>,
+  metricName: ScoreCategory
 ): number => {
   if (!holdings || holdings.length === 0) return 0;
   let weightedScoreSum = 0;
   let totalValue = 0;
 
-  console.log(`\nCalculating weighted ${metricName} score for portfolio with ${holdings.length} holdings:`);
 
   holdings.forEach(holding => {
     const holdingValue = (holding && typeof holding.value === 'number' && Number.isFinite(holding.value)) ? holding.value : 0;
@@ -436,7 +433,6 @@ export const calculatePortfolioScore = (
 
   if (totalValue === 0) return 0;
   const finalScore = weightedScoreSum / totalValue;
-  console.log(`Advanced portfolio ${metricName} score: ${capScore(finalScore)}`);
   return capScore(finalScore);
 };
 
@@ -446,7 +442,7 @@ export const calculatePortfolioScore = (
  * @returns A score from 0-100
  */
 export const calculateOverallPortfolioScore = (
-  holdings: Array<{ stock: StockData, value: number }>
+  holdings: Array<{ stock: ScorableStock, value: number }>
 ): number => {
   if (!holdings || holdings.length === 0) return 0;
   
@@ -466,10 +462,49 @@ export const calculateOverallPortfolioScore = (
       (momentumScore * OVERALL_SCORE_WEIGHTS.momentum) +
       (potentialScore * OVERALL_SCORE_WEIGHTS.potential);
     
-    console.log(`Overall Portfolio Score (v5): Performance:${performanceScore}, Stability:${stabilityScore}, Value:${valueScore}, Momentum:${momentumScore}, Potential:${potentialScore} -> Final Score: ${capScore(overallScore)}`);
     return capScore(overallScore);
   } catch (error) {
     console.error(`Error calculating overall portfolio score:`, error);
     return 0;
   }
 };
+
+// Percent strings like "13.27%" or "$128.79" as numbers, or null when missing
+const parseNumber = (value?: string): number | null => {
+  if (!value) return null;
+  const parsed = parseFloat(String(value).replace(/[$%,]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Scores a stock in every category, with the overall score and the inputs used
+ * @param stock The stock data
+ * @returns The category scores, overall score and inputs
+ */
+export const scoreStock = (stock: ScorableStock): StockScores => {
+  const predictedPrice = parseNumber(stock.predictedPrice);
+
+  return {
+    ticker: stock.ticker,
+    industry: stock.industry,
+    scores: {
+      performance: getAdvancedMetricScore(stock, 'performance'),
+      stability: getAdvancedMetricScore(stock, 'stability'),
+      value: getAdvancedMetricScore(stock, 'value'),
+      momentum: getAdvancedMetricScore(stock, 'momentum'),
+      potential: calculatePotentialScore(stock, stock.industry)
+    },
+    overall: calculateOverallSwipefolioScore(stock),
+    inputs: {
+      price: stock.price,
+      oneYearReturn: parseNumber(stock.oneYearReturn),
+      predictedUpside: predictedPrice !== null && stock.price > 0
+        ? ((predictedPrice - stock.price) / stock.price) * 100
+        : null,
+      performance: stock.metrics.performance.details,
+      stability: stock.metrics.stability.details,
+      value: stock.metrics.value.details,
+      momentum: stock.metrics.momentum.details
+    }
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { compareWithLumpSum, nextScheduledDate, scheduledDate } from "./dollar-cost-averaging";
+import type { PlanPurchase } from "../schema";
+
+describe("scheduledDate", () => {
+  it("keeps a monthly plan's day, falling back to the end of shorter months", () => {
+    expect([0, 1, 2, 3].map(n => scheduledDate("2024-01-31", "monthly", n)))
+      .toEqual(["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30"]);
+    expect(scheduledDate("2024-11-15", "monthly", 2)).toBe("2025-01-15");
+  });
+
+  it("steps weekly and biweekly plans by whole weeks", () => {
+    expect(scheduledDate("2024-12-25", "weekly", 1)).toBe("2025-01-01");
+    expect(scheduledDate("2024-03-01", "biweekly", 2)).toBe("2024-03-29");
+  });
+});
+
+describe("nextScheduledDate", () => {
+  it("is the first run date after the given date, and never before the start", () => {
+    expect(nextScheduledDate("2024-01-31", "monthly", "2024-02-29")).toBe("2024-03-31");
+    expect(nextScheduledDate("2024-01-31", "monthly", "2024-02-10")).toBe("2024-02-29");
+    expect(nextScheduledDate("2024-06-03", "weekly", "2024-01-01")).toBe("2024-06-03");
+  });
+});
+
+describe("compareWithLumpSum", () => {
+  const purchase = (amount: number, price: number): PlanPurchase =>
+    ({ ticker: "AAA", amount, shares: amount / price, price, transactionId: null });
+
+  // $100 at $10, then $100 at $5 after the price halves
+  const runs = [
+    { runDate: "2024-02-01", purchases: [purchase(100, 5)] },
+    { runDate: "2024-01-01", purchases: [purchase(100, 10)] },
+    { runDate: "2024-01-15", purchases: [] }
+  ];
+  const history = {
+    AAA: [
+      { date: "2024-01-01", open: 10, high: 10, low: 10, close: 10 },
+      { date: "2024-02-01", open: 5, high: 5, low: 5, close: 5 }
+    ]
+  };
+
+  it("compares the plan's buys with investing everything on the first run", () => {
+    const comparison = compareWithLumpSum({ runs, history, prices: { AAA: 8 } });
+
+    expect(comparison).toMatchObject({ startDate: "2024-01-01", runs: 2, invested: 200, value: 240, return: 20 });
+    expect(comparison.lumpSum).toEqual({ date: "2024-01-01", value: 160, return: -20 });
+    expect(comparison.tickers).toEqual([{
+      ticker: "AAA",
+      invested: 200,
+      shares: 30,
+      averageCost: 200 / 30,
+      price: 8,
+      value: 240,
+      lumpSumShares: 20,
+      lumpSumValue: 160
+    }]);
+  });
+
+  it("values both approaches at the close on each run date", () => {
+    const { timeline } = compareWithLumpSum({ runs, history, prices: { AAA: 8 } });
+    expect(timeline).toEqual([
+      { date: "2024-01-01", invested: 100, value: 100, lumpSumValue: 200 },
+      { date: "2024-02-01", invested: 200, value: 150, lumpSumValue: 100 }
+    ]);
+  });
+
+  it("charges the lump sum one trade fee per ticker", () => {
+    const comparison = compareWithLumpSum({ runs, history, prices: { AAA: 8 }, tradeFee: 1 });
+    expect(comparison.tickers[0].lumpSumShares).toBeCloseTo(19.9, 10);
+  });
+
+  it("has no lump sum without a close on or before the first run", () => {
+    const comparison = compareWithLumpSum({ runs, history: {}, prices: { AAA: 8 } });
+    expect(comparison.lumpSum).toBeNull();
+    expect(comparison.value).toBe(240);
+    expect(comparison.timeline.map(point => point.lumpSumValue)).toEqual([null, null]);
+  });
+
+  it("is empty for a plan that hasn't bought anything", () => {
+    const comparison = compareWithLumpSum({ runs: [{ runDate: "2024-01-01", purchases: [] }], history, prices: {} });
+    expect(comparison).toEqual({
+      startDate: null,
+      runs: 0,
+      invested: 0,
+      value: 0,
+      return: null,
+      lumpSum: null,
+      tickers: [],
+      timeline: []
+    });
+  });
+});
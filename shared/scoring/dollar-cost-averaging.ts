@@ -0,0 +1,191 @@
+/**
+ * Schedules for recurring investment plans, and how a plan's regular buys
+ * compare with investing the same money all at once on its first run.
+ *
+ * The lump sum buys each ticker with everything the plan has put into it so
+ * far, at the stored close on the first run date, and pays one trade fee per
+ * ticker. Both are valued at today's prices, so the comparison shows what
+ * spreading the buys out gained or cost.
+ */
+import type { ClosingPricePoint, InvestmentPlan, InvestmentPlanRun, PlanFrequency, PlanPurchase } from '../schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month: month - 1, day };
+};
+
+const formatDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * The plan's nth run date (the first is n = 0). Monthly plans keep the start
+ * date's day of the month, falling back to the last day of shorter months.
+ */
+export function scheduledDate(startDate: string, frequency: PlanFrequency, n: number): string {
+  const { year, month, day } = parseDate(startDate);
+
+  if (frequency === 'monthly') {
+    const daysInMonth = new Date(Date.UTC(year, month + n + 1, 0)).getUTCDate();
+    return formatDate(Date.UTC(year, month + n, Math.min(day, daysInMonth)));
+  }
+
+  const stepDays = frequency === 'weekly' ? 7 : 14;
+  return formatDate(Date.UTC(year, month, day) + n * stepDays * DAY_MS);
+}
+
+/**
+ * The first run date after a date, never before the start date
+ */
+export function nextScheduledDate(startDate: string, frequency: PlanFrequency, after: string): string {
+  let n = 0;
+  let date = scheduledDate(startDate, frequency, n);
+  while (date <= after) {
+    date = scheduledDate(startDate, frequency, ++n);
+  }
+  return date;
+}
+
+export interface PlanTickerComparison {
+  ticker: string;
+  invested: number;
+  shares: number;
+  // Cost per share of the plan's buys, fees included
+  averageCost: number;
+  price: number | null;
+  value: number;
+  lumpSumShares: number | null;
+  lumpSumValue: number | null;
+}
+
+export interface PlanTimelinePoint {
+  date: string;
+  // Cumulative amount the plan had invested after this run
+  invested: number;
+  value: number;
+  lumpSumValue: number | null;
+}
+
+export interface PlanComparison {
+  startDate: string | null;
+  runs: number;
+  invested: number;
+  value: number;
+  // Percent gain on the money invested
+  return: number | null;
+  // Null when there is no stored close on or before the first run date
+  lumpSum: {
+    date: string;
+    value: number;
+    return: number;
+  } | null;
+  tickers: PlanTickerComparison[];
+  // Both approaches valued at the close on each run date
+  timeline: PlanTimelinePoint[];
+}
+
+// Response from GET /api/portfolio/plans/:id/history
+export interface InvestmentPlanHistory {
+  plan: InvestmentPlan;
+  // Oldest first
+  runs: InvestmentPlanRun[];
+  comparison: PlanComparison;
+}
+
+export interface PlanComparisonInput {
+  runs: Pick<InvestmentPlanRun, 'runDate' | 'purchases'>[];
+  // Stored price history per ticker, oldest first
+  history: Record<string, ClosingPricePoint[]>;
+  // Current price per ticker
+  prices: Record<string, number>;
+  tradeFee?: number;
+}
+
+// Latest close on or before a date
+function closeOnOrBefore(history: ClosingPricePoint[] | undefined, date: string): number | null {
+  if (!history) return null;
+  let close: number | null = null;
+  for (const point of history) {
+    if (point.date > date) break;
+    close = point.close;
+  }
+  return close;
+}
+
+const percentGain = (value: number, invested: number) => invested > 0 ? ((value - invested) / invested) * 100 : null;
+
+/**
+ * Compare a plan's buys so far with a lump sum of the same money on its first run date
+ */
+export function compareWithLumpSum({ runs, history, prices, tradeFee = 0 }: PlanComparisonInput): PlanComparison {
+  const ordered = runs
+    .map(run => ({ date: run.runDate, purchases: (run.purchases ?? []) as PlanPurchase[] }))
+    .filter(run => run.purchases.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const startDate = ordered[0]?.date ?? null;
+
+  const byTicker = new Map<string, { invested: number; shares: number; lastPrice: number }>();
+  ordered.forEach(run => run.purchases.forEach(purchase => {
+    const entry = byTicker.get(purchase.ticker) ?? { invested: 0, shares: 0, lastPrice: purchase.price };
+    entry.invested += purchase.amount;
+    entry.shares += purchase.shares;
+    entry.lastPrice = purchase.price;
+    byTicker.set(purchase.ticker, entry);
+  }));
+
+  const tickers: PlanTickerComparison[] = Array.from(byTicker.entries()).map(([ticker, entry]) => {
+    const price = prices[ticker] ?? closeOnOrBefore(history[ticker], '9999-12-31');
+    const startClose = startDate ? closeOnOrBefore(history[ticker], startDate) : null;
+    const lumpSumShares = startClose ? Math.max(0, entry.invested - tradeFee) / startClose : null;
+    const valuePrice = price ?? entry.lastPrice;
+    return {
+      ticker,
+      invested: entry.invested,
+      shares: entry.shares,
+      averageCost: entry.shares > 0 ? entry.invested / entry.shares : 0,
+      price,
+      value: entry.shares * valuePrice,
+      lumpSumShares,
+      lumpSumValue: lumpSumShares === null ? null : lumpSumShares * valuePrice
+    };
+  });
+
+  const invested = tickers.reduce((total, ticker) => total + ticker.invested, 0);
+  const value = tickers.reduce((total, ticker) => total + ticker.value, 0);
+  const hasLumpSum = tickers.length > 0 && tickers.every(ticker => ticker.lumpSumShares !== null);
+  const lumpSumValue = tickers.reduce((total, ticker) => total + (ticker.lumpSumValue ?? 0), 0);
+
+  // Shares held after each run, valued at that day's close (or the last price the plan paid)
+  const held = new Map<string, number>();
+  const lastPaid = new Map<string, number>();
+  let investedSoFar = 0;
+  const timeline = ordered.map(run => {
+    run.purchases.forEach(purchase => {
+      held.set(purchase.ticker, (held.get(purchase.ticker) ?? 0) + purchase.shares);
+      lastPaid.set(purchase.ticker, purchase.price);
+      investedSoFar += purchase.amount;
+    });
+
+    const closeOn = (ticker: string) => closeOnOrBefore(history[ticker], run.date) ?? lastPaid.get(ticker) ?? null;
+    const runValue = Array.from(held.entries())
+      .reduce((total, [ticker, shares]) => total + shares * (closeOn(ticker) ?? 0), 0);
+    const runLumpSumValue = hasLumpSum
+      ? tickers.reduce((total, ticker) => total + ticker.lumpSumShares! * (closeOn(ticker.ticker) ?? 0), 0)
+      : null;
+
+    return { date: run.date, invested: investedSoFar, value: runValue, lumpSumValue: runLumpSumValue };
+  });
+
+  return {
+    startDate,
+    runs: ordered.length,
+    invested,
+    value,
+    return: percentGain(value, invested),
+    lumpSum: hasLumpSum && startDate
+      ? { date: startDate, value: lumpSumValue, return: percentGain(lumpSumValue, invested)! }
+      : null,
+    tickers,
+    timeline
+  };
+}
@@ -0,0 +1,248 @@
+// Industry average constants based on provided real estate data
+export const industryAverages: Record<string, {
+  performance: {
+    revenueGrowth: number;
+    profitMargin: number;
+    returnOnCapital: number;
+  };
+  stability: {
+    volatility: number;
+    beta: number;
+    dividendConsistency: "High" | "Medium" | "Low" | "N/A";
+  };
+  value: {
+    peRatio: number;
+    pbRatio: number;
+    dividendYield: number;
+    predictedUpside?: number; // Added for new scoring system
+  };
+  momentum: {
+    threeMonthReturn: number;
+    relativePerformance: number;
+    rsi: number;
+    oneYearReturnAvg: number; 
+    oneYearReturn?: number; // Added for new scoring system
+  };
+  potential?: {
+    predictedUpside?: number;
+    revenueGrowth?: number;
+    relativePerformance?: number;
+  };
+}> = {
+  "Tech": {
+    performance: {
+      revenueGrowth: 21.74,
+      profitMargin: 12.38,
+      returnOnCapital: 22.74
+    },
+    stability: {
+      volatility: 44.3,
+      beta: 1.54,
+      dividendConsistency: "Medium"
+    },
+    value: {
+      peRatio: 36.4,
+      pbRatio: 19.4,
+      dividendYield: 0.38,
+      predictedUpside: 15.0
+    },
+    momentum: {
+      threeMonthReturn: -13.62,
+      relativePerformance: 19.0,
+      rsi: 39.5,
+      oneYearReturnAvg: 18,
+      oneYearReturn: 18.0
+    },
+    potential: {
+      predictedUpside: 15.0,
+      revenueGrowth: 21.74,
+      relativePerformance: 19.0
+    }
+  },
+  "ESG": {
+    performance: {
+      revenueGrowth: 7.0,
+      profitMargin: 5.0,
+      returnOnCapital: 4.0
+    },
+    stability: {
+      volatility: 47,
+      beta: 1.5,
+      dividendConsistency: "Medium"
+    },
+    value: {
+      peRatio: 24.0,
+      pbRatio: 3.0,
+      dividendYield: 2.0,
+      predictedUpside: 18.0
+    },
+    momentum: {
+      threeMonthReturn: -12.0,
+      relativePerformance: -10.0,
+      rsi: 45,
+      oneYearReturnAvg: 15,
+      oneYearReturn: 15.0
+    },
+    potential: {
+      predictedUpside: 18.0,
+      revenueGrowth: 7.0,
+      relativePerformance: -10.0
+    }
+  },
+  "Healthcare": {
+    performance: {
+      revenueGrowth: 8.0,
+      profitMargin: 14.0,
+      returnOnCapital: 10.0
+    },
+    stability: {
+      volatility: 24.0,
+      beta: 1.0,
+      dividendConsistency: "Medium"
+    },
+    value: {
+      peRatio: 37.0,
+      pbRatio: 4.0,
+      dividendYield: 1.5,
+      predictedUpside: 12.0
+    },
+    momentum: {
+      threeMonthReturn: 4.0,
+      relativePerformance: 5.0,
+      rsi: 44,
+      oneYearReturnAvg: 10,
+      oneYearReturn: 10.0
+    },
+    potential: {
+      predictedUpside: 12.0,
+      revenueGrowth: 8.0,
+      relativePerformance: 5.0
+    }
+  },
+  "Financial Planning": {
+    performance: {
+      revenueGrowth: 7,
+      profitMargin: 16,
+      returnOnCapital: 15
+    },
+    stability: {
+      volatility: 1.1,
+      beta: 1.05,
+      dividendConsistency: "High"
+    },
+    value: {
+      peRatio: 17.0,
+      pbRatio: 2.5,
+      dividendYield: 2.2,
+      predictedUpside: 9.0
+    },
+    momentum: {
+      threeMonthReturn: 3.5,
+      relativePerformance: 1.0,
+      rsi: 51,
+      oneYearReturnAvg: 10,
+      oneYearReturn: 10.0
+    },
+    potential: {
+      predictedUpside: 9.0,
+      revenueGrowth: 7.0,
+      relativePerformance: 1.0
+    }
+  },
+  "Consumer": {
+    performance: {
+      revenueGrowth: 5,
+      profitMargin: 12,
+      returnOnCapital: 11
+    },
+    stability: {
+      volatility: 0.95,
+      beta: 0.9,
+      dividendConsistency: "Medium"
+    },
+    value: {
+      peRatio: 19.0,
+      pbRatio: 2.5,
+      dividendYield: 1.8,
+      predictedUpside: 8.0
+    },
+    momentum: {
+      threeMonthReturn: 3.0,
+      relativePerformance: 1.0,
+      rsi: 54,
+      oneYearReturnAvg: 11,
+      oneYearReturn: 11.0
+    },
+    potential: {
+      predictedUpside: 8.0,
+      revenueGrowth: 5.0,
+      relativePerformance: 1.0
+    }
+  },
+  "Real Estate": {
+    performance: {
+      revenueGrowth: 5.0,
+      profitMargin: 25.0,
+      returnOnCapital: 4.5
+    },
+    stability: {
+      volatility: 8.6,
+      beta: 0.8,
+      dividendConsistency: "Medium"
+    },
+    value: {
+      peRatio: 36.0,
+      pbRatio: 2.5,
+      dividendYield: 4.0,
+      predictedUpside: 11.0
+    },
+    momentum: {
+      threeMonthReturn: 2.0,
+      relativePerformance: -5,
+      rsi: 49,
+      oneYearReturnAvg: 10.6,
+      oneYearReturn: 10.6
+    },
+    potential: {
+      predictedUpside: 11.0,
+      revenueGrowth: 5.0,
+      relativePerformance: -5.0
+    }
+  },
+  // Default values for other categories
+  "Default": {
+    performance: {
+      revenueGrowth: 7,
+      profitMargin: 15,
+      returnOnCapital: 12
+    },
+    stability: {
+      volatility: 1.0,
+      beta: 1.0,
+      dividendConsistency: "Medium"
+    },
+    value: {
+      peRatio: 18.0,
+      pbRatio: 2.5,
+      dividendYield: 1.5,
+      predictedUpside: 10.0
+    },
+    momentum: {
+      threeMonthReturn: 3.5,
+      relativePerformance: 1.2,
+      rsi: 52,
+      oneYearReturnAvg: 9,
+      oneYearReturn: 9.0
+    },
+    potential: {
+      predictedUpside: 10.0,
+      revenueGrowth: 7.0,
+      relativePerformance: 1.2
+    }
+  }
+};
+
+// Helper to get industry averages for a specific industry or default if not found
+export const getIndustryAverages = (industry: string) => {
+  return industryAverages[industry] || industryAverages["Real Estate"];
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculatePerformance,
+  growthCurve,
+  internalRateOfReturn,
+  periodReturns,
+  type ValuationPoint
+} from "./portfolio-performance";
+
+/**
+ * A portfolio that gains 10%, takes a $100 deposit, then gains another 10%.
+ * The deposit must not count as a gain in the time-weighted figures.
+ */
+const withDeposit: ValuationPoint[] = [
+  { date: "2024-01-01", value: 100 },
+  { date: "2024-01-02", value: 110 },
+  { date: "2024-01-03", value: 231, flow: 100 }
+];
+
+describe("periodReturns and growthCurve", () => {
+  it("counts a day's flow as invested from the start of that day", () => {
+    const returns = periodReturns(withDeposit);
+    expect(returns[0]).toBeCloseTo(0.1, 10);
+    expect(returns[1]).toBeCloseTo(0.1, 10);
+  });
+
+  it("compounds period returns from 0%", () => {
+    const curve = growthCurve(withDeposit);
+    expect(curve.map(point => point.date)).toEqual(["2024-01-01", "2024-01-02", "2024-01-03"]);
+    expect(curve[0].return).toBe(0);
+    expect(curve[2].return).toBeCloseTo(21, 10);
+  });
+});
+
+describe("internalRateOfReturn", () => {
+  it("annualizes the rate that discounts the flows to zero", () => {
+    const irr = internalRateOfReturn([
+      { date: "2023-01-01", amount: -100 },
+      { date: "2024-01-01", amount: 110 }
+    ]);
+    expect(irr).toBeCloseTo(Math.pow(1.1, 365.25 / 365) - 1, 6);
+  });
+
+  it("is null when the flows never change sign or span less than a day", () => {
+    expect(internalRateOfReturn([{ date: "2024-01-01", amount: -100 }, { date: "2024-02-01", amount: -50 }])).toBeNull();
+    expect(internalRateOfReturn([{ date: "2024-01-01", amount: -100 }, { date: "2024-01-01", amount: 110 }])).toBeNull();
+  });
+});
+
+describe("calculatePerformance", () => {
+  it("separates the time-weighted return from deposits", () => {
+    const metrics = calculatePerformance(withDeposit);
+    expect(metrics.startValue).toBe(100);
+    expect(metrics.endValue).toBe(231);
+    expect(metrics.netFlows).toBe(100);
+    expect(metrics.timeWeightedReturn).toBeCloseTo(21, 10);
+    expect(metrics.maxDrawdown).toBe(0);
+    // Under a year, so nothing is annualized
+    expect(metrics.annualizedReturn).toBeNull();
+  });
+
+  it("weights the money-weighted return by when money was added", () => {
+    // The deposit arrives just before a 50% fall, so most of the money saw only the loss
+    const metrics = calculatePerformance([
+      { date: "2024-01-01", value: 100 },
+      { date: "2024-01-11", value: 200 },
+      { date: "2024-01-21", value: 250, flow: 300 },
+      { date: "2024-01-31", value: 250 }
+    ]);
+    expect(metrics.timeWeightedReturn).toBeCloseTo(0, 10);
+    expect(metrics.moneyWeightedReturn!).toBeLessThan(-20);
+  });
+
+  it("matches the simple return when there are no flows", () => {
+    const metrics = calculatePerformance([
+      { date: "2024-01-01", value: 100 },
+      { date: "2024-01-11", value: 110 }
+    ]);
+    expect(metrics.timeWeightedReturn).toBeCloseTo(10, 10);
+    expect(metrics.moneyWeightedReturn).toBeCloseTo(10, 6);
+  });
+
+  it("measures the deepest fall from a running peak", () => {
+    const metrics = calculatePerformance([
+      { date: "2024-01-01", value: 100 },
+      { date: "2024-01-02", value: 120 },
+      { date: "2024-01-03", value: 90 },
+      { date: "2024-01-04", value: 130 }
+    ]);
+    expect(metrics.maxDrawdown).toBeCloseTo(-25, 10);
+  });
+
+  it("annualizes over a year and needs enough returns for volatility", () => {
+    const yearly = calculatePerformance([
+      { date: "2022-01-01", value: 100 },
+      { date: "2024-01-01", value: 121 }
+    ]);
+    expect(yearly.annualizedReturn).toBeCloseTo((Math.pow(1.21, 365.25 / 730) - 1) * 100, 6);
+    expect(yearly.volatility).toBeNull();
+    expect(yearly.sharpeRatio).toBeNull();
+  });
+
+  it("reports volatility and a Sharpe ratio from evenly spaced returns", () => {
+    const values = [100, 102, 101, 104, 103, 106];
+    const metrics = calculatePerformance(values.map((value, i) => ({ date: `2024-01-0${i + 1}`, value })));
+    expect(metrics.volatility).toBeCloseTo(38.38, 2);
+    expect(metrics.sharpeRatio).toBeCloseTo(11.2, 2);
+  });
+
+  it("has no return figures for fewer than two points", () => {
+    const metrics = calculatePerformance([{ date: "2024-01-01", value: 100 }]);
+    expect(metrics).toMatchObject({
+      startDate: "2024-01-01",
+      endDate: "2024-01-01",
+      timeWeightedReturn: null,
+      moneyWeightedReturn: null,
+      maxDrawdown: null
+    });
+  });
+});
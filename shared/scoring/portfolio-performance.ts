@@ -0,0 +1,211 @@
+/**
+ * Return and risk metrics for a series of dated valuations, shared by the
+ * portfolio performance API and the client's S&P 500 comparison so both sides
+ * are measured the same way.
+ *
+ * A valuation may carry an external cash flow (a deposit or withdrawal) that
+ * is treated as arriving at the start of its day, so the time-weighted return
+ * only measures how the money was invested while the money-weighted return
+ * (IRR) also reflects when it was added.
+ */
+import type { PerformanceRange, PortfolioSnapshot } from '../schema';
+
+/**
+ * Annual risk-free rate used for the Sharpe ratio
+ */
+export const RISK_FREE_RATE = 0.04;
+
+const DAYS_PER_YEAR = 365.25;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Fewer period returns than this are too noisy to annualize
+const MIN_RETURNS = 5;
+
+export interface ValuationPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+  flow?: number; // Cash added (+) or withdrawn (-) that day, included in value
+}
+
+export interface PerformanceMetrics {
+  startDate: string | null;
+  endDate: string | null;
+  startValue: number;
+  endValue: number;
+  // Deposits less withdrawals after the start
+  netFlows: number;
+  // Percent over the whole period, unaffected by deposits and withdrawals
+  timeWeightedReturn: number | null;
+  // Time-weighted return per year, once the period spans a year
+  annualizedReturn: number | null;
+  // IRR of the starting value, flows and ending value, as a percent over the period
+  moneyWeightedReturn: number | null;
+  // Largest peak-to-trough fall in percent (zero or negative)
+  maxDrawdown: number | null;
+  // Annualized standard deviation of period returns, in percent
+  volatility: number | null;
+  sharpeRatio: number | null;
+}
+
+export interface GrowthPoint {
+  date: string;
+  // Cumulative time-weighted return since the first point, in percent
+  return: number;
+}
+
+// Valuations and metrics from GET /api/portfolio/performance
+export interface PortfolioPerformance {
+  range: PerformanceRange;
+  snapshots: PortfolioSnapshot[];
+  metrics: PerformanceMetrics;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const daysBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY;
+
+/**
+ * Return for each period after the first, with that day's flow counted as invested from its start
+ */
+export function periodReturns(points: ValuationPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const invested = points[i - 1].value + (points[i].flow ?? 0);
+    returns.push(invested > 0 ? points[i].value / invested - 1 : 0);
+  }
+  return returns;
+}
+
+/**
+ * Cumulative time-weighted return at every point, starting at 0%
+ */
+export function growthCurve(points: ValuationPoint[]): GrowthPoint[] {
+  if (points.length === 0) return [];
+
+  let growth = 1;
+  const returns = periodReturns(points);
+  return points.map((point, i) => {
+    if (i > 0) growth *= 1 + returns[i - 1];
+    return { date: point.date, return: (growth - 1) * 100 };
+  });
+}
+
+/**
+ * Rate of return over the whole span of dated cash flows that discounts them to zero,
+ * found by bisection. Solving over the span rather than per year keeps short periods
+ * in range. Amounts are from the investor's side: money put in is negative, money
+ * taken out positive.
+ * @returns null if the flows never change sign or span less than a day
+ */
+function periodRateOfReturn(flows: { date: string; amount: number }[]): { rate: number; days: number } | null {
+  if (flows.length < 2) return null;
+  const start = flows[0].date;
+  const offsets = flows.map(flow => daysBetween(start, flow.date));
+  const days = Math.max(...offsets);
+  if (days < 1) return null;
+
+  const npv = (rate: number) =>
+    flows.reduce((total, flow, i) => total + flow.amount / Math.pow(1 + rate, offsets[i] / days), 0);
+
+  let low = -0.9999;
+  let high = 100;
+  let npvLow = npv(low);
+  if (!Number.isFinite(npvLow) || Math.sign(npvLow) === Math.sign(npv(high))) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-9) return { rate: mid, days };
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+  return { rate: (low + high) / 2, days };
+}
+
+/**
+ * Annualized internal rate of return of dated cash flows (see periodRateOfReturn)
+ */
+export function internalRateOfReturn(flows: { date: string; amount: number }[]): number | null {
+  const result = periodRateOfReturn(flows);
+  return result ? Math.pow(1 + result.rate, DAYS_PER_YEAR / result.days) - 1 : null;
+}
+
+/**
+ * Largest fall from a running peak of the growth curve, in percent
+ */
+function maxDrawdown(curve: GrowthPoint[]): number {
+  let peak = 1;
+  let worst = 0;
+  curve.forEach(point => {
+    const growth = 1 + point.return / 100;
+    peak = Math.max(peak, growth);
+    worst = Math.min(worst, growth / peak - 1);
+  });
+  return worst * 100;
+}
+
+/**
+ * Performance of a valuation series over its whole length. Points must be in date order;
+ * the first point's flow is part of the starting value. Annualized figures assume the
+ * points are evenly spaced, so they work for daily snapshots and daily or weekly charts alike.
+ */
+export function calculatePerformance(points: ValuationPoint[], riskFreeRate: number = RISK_FREE_RATE): PerformanceMetrics {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const metrics: PerformanceMetrics = {
+    startDate: first?.date ?? null,
+    endDate: last?.date ?? null,
+    startValue: first?.value ?? 0,
+    endValue: last?.value ?? 0,
+    netFlows: points.slice(1).reduce((total, point) => total + (point.flow ?? 0), 0),
+    timeWeightedReturn: null,
+    annualizedReturn: null,
+    moneyWeightedReturn: null,
+    maxDrawdown: null,
+    volatility: null,
+    sharpeRatio: null
+  };
+  if (points.length < 2) return metrics;
+
+  const curve = growthCurve(points);
+  const days = daysBetween(first.date, last.date);
+  const totalReturn = curve[curve.length - 1].return;
+  metrics.timeWeightedReturn = totalReturn;
+  metrics.maxDrawdown = maxDrawdown(curve);
+  if (days >= DAYS_PER_YEAR) {
+    metrics.annualizedReturn = (Math.pow(1 + totalReturn / 100, DAYS_PER_YEAR / days) - 1) * 100;
+  }
+
+  const irr = periodRateOfReturn([
+    { date: first.date, amount: -first.value },
+    ...points.slice(1).filter(point => point.flow).map(point => ({ date: point.date, amount: -point.flow! })),
+    { date: last.date, amount: last.value }
+  ]);
+  if (irr !== null) {
+    metrics.moneyWeightedReturn = irr.rate * 100;
+  }
+
+  const returns = periodReturns(points);
+  if (returns.length >= MIN_RETURNS && days > 0) {
+    const periodsPerYear = (returns.length / days) * DAYS_PER_YEAR;
+    const avg = mean(returns);
+    const variance = returns.reduce((sum, r) => sum + (r - avg) ** 2, 0) / (returns.length - 1);
+    const volatility = Math.sqrt(variance * periodsPerYear);
+    metrics.volatility = volatility * 100;
+    metrics.sharpeRatio = volatility > 0 ? (avg * periodsPerYear - riskFreeRate) / volatility : null;
+  }
+
+  return metrics;
+}
+
+/**
+ * Valuation points for stored snapshots
+ */
+export function snapshotsToValuations(snapshots: PortfolioSnapshot[]): ValuationPoint[] {
+  return snapshots.map(snapshot => ({ date: snapshot.date, value: snapshot.totalValue, flow: snapshot.netFlow }));
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { calculatePortfolioRisk, correlationMatrix, covarianceMatrix } from "./portfolio-risk";
+import type { ClosingPricePoint } from "../schema";
+
+const DAYS = 30;
+const dates = Array.from({ length: DAYS }, (_, i) => new Date(Date.UTC(2024, 0, i + 1)).toISOString().slice(0, 10));
+
+// Closes starting at 100 that move by the given daily returns
+function history(dailyReturn: (day: number) => number, days: number = DAYS): ClosingPricePoint[] {
+  let close = 100;
+  return dates.slice(0, days).map((date, i) => {
+    if (i > 0) close *= 1 + dailyReturn(i);
+    return { date, open: close, high: close, low: close, close };
+  });
+}
+
+// The market alternates between +1% and -1% days; the second stock moves twice as far
+const swing = (day: number) => (day % 2 === 0 ? 0.01 : -0.01);
+const market = history(swing);
+const steady = history(swing);
+const leveraged = history(day => 2 * swing(day));
+
+describe("covarianceMatrix and correlationMatrix", () => {
+  it("correlates series that move together at 1 and still series at 0", () => {
+    const cov = covarianceMatrix([[0.01, -0.01, 0.01], [0.02, -0.02, 0.02], [0, 0, 0]]);
+    expect(cov[1][1]).toBeCloseTo(4 * cov[0][0], 12);
+    const correlation = correlationMatrix(cov);
+    expect(correlation[0][1]).toBeCloseTo(1, 12);
+    expect(correlation[0][2]).toBe(0);
+    expect(correlation[2][2]).toBe(1);
+  });
+});
+
+describe("calculatePortfolioRisk", () => {
+  const positions = [
+    { ticker: "STDY", value: 500, history: steady },
+    { ticker: "LEVR", value: 500, history: leveraged }
+  ];
+
+  it("measures beta against the benchmark for the portfolio and each holding", () => {
+    const risk = calculatePortfolioRisk({ positions, cash: 0, benchmark: market });
+    expect(risk.observations).toBe(DAYS - 1);
+    expect(risk.asOf).toBe(dates[DAYS - 1]);
+    expect(risk.beta).toBeCloseTo(1.5, 10);
+    expect(risk.holdings.map(holding => holding.beta)).toEqual([
+      expect.closeTo(1, 10),
+      expect.closeTo(2, 10)
+    ]);
+    expect(risk.correlation[0][1]).toBeCloseTo(1, 10);
+  });
+
+  it("splits the variance by weight times covariance, summing to 100%", () => {
+    const risk = calculatePortfolioRisk({ positions, cash: 0 });
+    const contributions = risk.holdings.map(holding => holding.riskContribution);
+    expect(contributions[0]).toBeCloseTo(100 / 3, 8);
+    expect(contributions[1]).toBeCloseTo(200 / 3, 8);
+    expect(risk.beta).toBeNull();
+  });
+
+  it("takes the historical VaR from the tail of today's weights applied to past days", () => {
+    const risk = calculatePortfolioRisk({ positions, cash: 0 });
+    // Every down day is a 1.5% loss for the 50/50 portfolio
+    expect(risk.valueAtRisk!.confidence).toBe(0.95);
+    expect(risk.valueAtRisk!.historical.percent).toBeCloseTo(1.5, 8);
+    expect(risk.valueAtRisk!.historical.amount).toBeCloseTo(15, 8);
+    expect(risk.valueAtRisk!.parametric.percent).toBeGreaterThan(0);
+  });
+
+  it("treats cash as riskless, so half in cash halves the volatility", () => {
+    const invested = calculatePortfolioRisk({ positions, cash: 0 });
+    const halfCash = calculatePortfolioRisk({ positions, cash: 1000 });
+    expect(halfCash.totalValue).toBe(2000);
+    expect(halfCash.volatility!).toBeCloseTo(invested.volatility! / 2, 8);
+    expect(halfCash.holdings[0].weight).toBe(25);
+  });
+
+  it("leaves out holdings without enough history and says why", () => {
+    const risk = calculatePortfolioRisk({
+      positions: [...positions, { ticker: "NEWB", value: 100, history: history(swing, 10) }],
+      cash: 0
+    });
+    expect(risk.tickers).toEqual(["STDY", "LEVR"]);
+    expect(risk.excluded).toEqual([{ ticker: "NEWB", reason: "Only 10 days of price history stored" }]);
+
+    const empty = calculatePortfolioRisk({ positions: [{ ...positions[0], history: history(swing, 5) }], cash: 100 });
+    expect(empty.volatility).toBeNull();
+    expect(empty.valueAtRisk).toBeNull();
+  });
+});
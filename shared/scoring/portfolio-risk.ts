@@ -0,0 +1,230 @@
+/**
+ * Portfolio risk from how holdings actually move together, rather than from
+ * averaging each stock's own scores: a covariance matrix of daily returns over
+ * the days every holding has a close, and the volatility, beta, value-at-risk
+ * and per-holding risk contributions that follow from it at today's weights.
+ *
+ * Cash counts toward the weights as a riskless holding, so a half-invested
+ * portfolio carries half the risk of its stocks.
+ */
+import type { ClosingPricePoint } from '../schema';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Value-at-risk confidence level and its one-sided normal quantile
+ */
+export const VAR_CONFIDENCE = 0.95;
+const VAR_Z_SCORE = 1.6449;
+
+// Fewer daily returns than this are too noisy to estimate risk from
+const MIN_OBSERVATIONS = 20;
+
+export interface RiskPosition {
+  ticker: string;
+  value: number;
+  history: ClosingPricePoint[];
+}
+
+export interface RiskInput {
+  positions: RiskPosition[];
+  cash: number;
+  // S&P 500 closes for beta; beta is left out without them
+  benchmark?: ClosingPricePoint[];
+  // Most trading days of returns to use
+  lookback?: number;
+}
+
+export interface HoldingRisk {
+  ticker: string;
+  value: number;
+  // Share of the whole portfolio, cash included
+  weight: number;
+  // Annualized volatility of the stock on its own, in percent
+  volatility: number;
+  beta: number | null;
+  // Annualized portfolio volatility added per unit of extra weight, in percent
+  marginalContribution: number;
+  // Share of the portfolio's variance this holding is responsible for, in percent; sums to 100
+  riskContribution: number;
+}
+
+export interface ValueAtRisk {
+  // Loss over one trading day that is exceeded with 5% probability, as a percent of the portfolio
+  percent: number;
+  amount: number;
+}
+
+// Risk report from GET /api/portfolio/risk
+export interface PortfolioRisk {
+  totalValue: number;
+  cash: number;
+  // Trading days of returns the estimates are based on, and the last of them
+  observations: number;
+  asOf: string | null;
+  // Annualized, in percent
+  volatility: number | null;
+  beta: number | null;
+  valueAtRisk: {
+    confidence: number;
+    historical: ValueAtRisk;
+    parametric: ValueAtRisk;
+  } | null;
+  holdings: HoldingRisk[];
+  // Correlation of daily returns, rows and columns in the order of tickers
+  tickers: string[];
+  correlation: number[][];
+  // Holdings left out of the estimates and why
+  excluded: { ticker: string; reason: string }[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const covariance = (a: number[], b: number[]) => {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+};
+
+/**
+ * Sample covariance matrix of return series that all cover the same days
+ */
+export function covarianceMatrix(returns: number[][]): number[][] {
+  return returns.map(a => returns.map(b => covariance(a, b)));
+}
+
+/**
+ * Correlations from a covariance matrix; assets that never moved correlate 0 with the rest
+ */
+export function correlationMatrix(cov: number[][]): number[][] {
+  const stdDevs = cov.map((row, i) => Math.sqrt(row[i]));
+  return cov.map((row, i) => row.map((value, j) => {
+    if (i === j) return 1;
+    const scale = stdDevs[i] * stdDevs[j];
+    return scale > 0 ? value / scale : 0;
+  }));
+}
+
+// Split and dividend adjusted closes by date, so splits aren't read as crashes
+function closesByDate(history: ClosingPricePoint[]): Map<string, number> {
+  const closes = new Map<string, number>();
+  history.forEach(point => {
+    const close = point.adjClose ?? point.close;
+    if (Number.isFinite(close) && close > 0) closes.set(point.date, close);
+  });
+  return closes;
+}
+
+// Value lost at the given tail of a return distribution, as a positive percent
+function historicalVaR(returns: number[]): number {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor((1 - VAR_CONFIDENCE) * sorted.length));
+  return Math.max(0, -sorted[index]) * 100;
+}
+
+/**
+ * Risk of holding the positions at their current values over the recent history they share
+ */
+export function calculatePortfolioRisk({ positions, cash, benchmark, lookback = TRADING_DAYS_PER_YEAR }: RiskInput): PortfolioRisk {
+  const totalValue = cash + positions.reduce((total, position) => total + position.value, 0);
+  const risk: PortfolioRisk = {
+    totalValue,
+    cash,
+    observations: 0,
+    asOf: null,
+    volatility: null,
+    beta: null,
+    valueAtRisk: null,
+    holdings: [],
+    tickers: [],
+    correlation: [],
+    excluded: []
+  };
+
+  // Each holding's recent closes; holdings without enough of them are left out
+  const included: { position: RiskPosition; closes: Map<string, number> }[] = [];
+  positions.forEach(position => {
+    const closes = closesByDate(position.history);
+    if (closes.size <= MIN_OBSERVATIONS) {
+      risk.excluded.push({ ticker: position.ticker, reason: `Only ${closes.size} days of price history stored` });
+    } else {
+      included.push({ position, closes });
+    }
+  });
+  if (included.length === 0 || totalValue <= 0) return risk;
+
+  // Days every included holding has a close, most recent lookback + 1 of them
+  const dates = Array.from(included[0].closes.keys())
+    .filter(date => included.every(({ closes }) => closes.has(date)))
+    .sort()
+    .slice(-(lookback + 1));
+  if (dates.length <= MIN_OBSERVATIONS) {
+    included.forEach(({ position }) => risk.excluded.push({
+      ticker: position.ticker,
+      reason: `Holdings only share ${dates.length} days of price history`
+    }));
+    return risk;
+  }
+
+  const returns = included.map(({ closes }) =>
+    dates.slice(1).map((date, i) => closes.get(date)! / closes.get(dates[i])! - 1)
+  );
+  const weights = included.map(({ position }) => position.value / totalValue);
+  const cov = covarianceMatrix(returns);
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  // Portfolio variance w'Σw and each holding's (Σw)_i
+  const covTimesWeights = cov.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+  const variance = weights.reduce((sum, weight, i) => sum + weight * covTimesWeights[i], 0);
+  const dailyVolatility = Math.sqrt(Math.max(0, variance));
+
+  // Benchmark returns over the same pairs of days, where the benchmark has both closes
+  const benchmarkCloses = benchmark ? closesByDate(benchmark) : new Map<string, number>();
+  const benchmarkReturns = dates.slice(1).map((date, i) => {
+    const close = benchmarkCloses.get(date);
+    const previous = benchmarkCloses.get(dates[i]);
+    return close && previous ? close / previous - 1 : null;
+  });
+  const betaDays = benchmarkReturns.flatMap((value, day) => value === null ? [] : [day]);
+  const betaAgainstBenchmark = (series: number[]) => {
+    if (betaDays.length < MIN_OBSERVATIONS) return null;
+    const market = betaDays.map(day => benchmarkReturns[day]!);
+    const marketVariance = covariance(market, market);
+    return marketVariance > 0 ? covariance(betaDays.map(day => series[day]), market) / marketVariance : null;
+  };
+
+  // Today's weights applied to every past day, for historical simulation
+  const portfolioReturns = returns[0].map((_, day) =>
+    returns.reduce((sum, series, i) => sum + series[day] * weights[i], 0)
+  );
+
+  risk.observations = returns[0].length;
+  risk.asOf = dates[dates.length - 1];
+  risk.volatility = dailyVolatility * annualize * 100;
+  risk.beta = betaAgainstBenchmark(portfolioReturns);
+  risk.tickers = included.map(({ position }) => position.ticker);
+  risk.correlation = correlationMatrix(cov);
+
+  const historical = historicalVaR(portfolioReturns);
+  const parametric = Math.max(0, VAR_Z_SCORE * dailyVolatility - mean(portfolioReturns)) * 100;
+  risk.valueAtRisk = {
+    confidence: VAR_CONFIDENCE,
+    historical: { percent: historical, amount: (historical / 100) * totalValue },
+    parametric: { percent: parametric, amount: (parametric / 100) * totalValue }
+  };
+
+  risk.holdings = included.map(({ position }, i) => {
+    const marginal = dailyVolatility > 0 ? covTimesWeights[i] / dailyVolatility : 0;
+    return {
+      ticker: position.ticker,
+      value: position.value,
+      weight: weights[i] * 100,
+      volatility: Math.sqrt(cov[i][i]) * annualize * 100,
+      beta: betaAgainstBenchmark(returns[i]),
+      marginalContribution: marginal * annualize * 100,
+      riskContribution: variance > 0 ? ((weights[i] * covTimesWeights[i]) / variance) * 100 : 0
+    };
+  });
+
+  return risk;
+}
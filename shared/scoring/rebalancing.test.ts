@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { planRebalance, type RebalancePosition } from "./rebalancing";
+
+/**
+ * A $200 portfolio that is 75% Tech and 25% Healthcare, all at $10 a share
+ */
+const positions: RebalancePosition[] = [
+  { ticker: "BIGT", industry: "Tech", shares: 10, price: 10 },
+  { ticker: "SMLT", industry: "Tech", shares: 5, price: 10 },
+  { ticker: "HLTH", industry: "Healthcare", shares: 5, price: 10 }
+];
+
+const industryTargets = (weights: Record<string, number>, tolerance: number = 5) =>
+  ({ basis: "industry" as const, weights, tolerance });
+
+describe("planRebalance", () => {
+  it("sells from the largest holding and buys into the smallest of a drifted target", () => {
+    const plan = planRebalance({ positions, cash: 0, targets: industryTargets({ Tech: 50, Healthcare: 50 }) });
+
+    expect(plan.drift).toEqual([
+      { key: "Healthcare", currentWeight: 25, targetWeight: 50, drift: -25, outOfTolerance: true },
+      { key: "Tech", currentWeight: 75, targetWeight: 50, drift: 25, outOfTolerance: true }
+    ]);
+    expect(plan.trades).toEqual([
+      { ticker: "BIGT", side: "sell", shares: 5, price: 10, amount: 50 },
+      { ticker: "HLTH", side: "buy", shares: 5, price: 10, amount: 50 }
+    ]);
+    expect(plan.cashAfter).toBe(0);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("leaves targets within the tolerance alone", () => {
+    const plan = planRebalance({ positions, cash: 0, targets: industryTargets({ Tech: 72, Healthcare: 28 }) });
+    expect(plan.drift.every(entry => !entry.outOfTolerance)).toBe(true);
+    expect(plan.trades).toEqual([]);
+  });
+
+  it("scales buys down to the cash left after fees", () => {
+    const plan = planRebalance({ positions, cash: 0, targets: industryTargets({ Tech: 50, Healthcare: 50 }), tradeFee: 1 });
+
+    expect(plan.trades).toEqual([
+      { ticker: "BIGT", side: "sell", shares: 5, price: 10, amount: 49 },
+      { ticker: "HLTH", side: "buy", shares: 4.8, price: 10, amount: 49 }
+    ]);
+    expect(plan.cashAfter).toBe(0);
+    expect(plan.warnings).toEqual(["Not enough cash to reach every target; buys are scaled to 96% of what's needed"]);
+  });
+
+  it("sells a whole position for a zero target", () => {
+    const plan = planRebalance({
+      positions,
+      cash: 0,
+      targets: { basis: "ticker", weights: { BIGT: 50, SMLT: 50, HLTH: 0 }, tolerance: 5 }
+    });
+
+    expect(plan.trades).toEqual([
+      { ticker: "HLTH", side: "sell", shares: 5, price: 10, amount: 50 },
+      { ticker: "SMLT", side: "buy", shares: 5, price: 10, amount: 50 }
+    ]);
+  });
+
+  it("buys unheld tickers at their given price and warns when it can't", () => {
+    const byTicker = planRebalance({
+      positions: [],
+      cash: 100,
+      targets: { basis: "ticker", weights: { NEWA: 50, NEWB: 50 }, tolerance: 5 },
+      prices: { NEWA: 20 }
+    });
+    expect(byTicker.trades).toEqual([{ ticker: "NEWA", side: "buy", shares: 2.5, price: 20, amount: 50 }]);
+    expect(byTicker.warnings).toEqual(["No price for NEWB, so it can't be bought"]);
+
+    const byIndustry = planRebalance({ positions, cash: 0, targets: industryTargets({ Tech: 50, Energy: 50 }) });
+    expect(byIndustry.warnings).toContain("No Energy holdings to add to; buy a Energy stock to start that allocation");
+  });
+
+  it("skips trades too small to be worth placing", () => {
+    const plan = planRebalance({
+      positions: [{ ticker: "ONLY", industry: "Tech", shares: 1, price: 10 }],
+      cash: 0.5,
+      targets: { basis: "ticker", weights: { ONLY: 100 }, tolerance: 1 }
+    });
+    expect(plan.drift[0].outOfTolerance).toBe(true);
+    expect(plan.trades).toEqual([]);
+  });
+});
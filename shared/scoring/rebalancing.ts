@@ -0,0 +1,169 @@
+/**
+ * Works out the trades that bring a portfolio back to its target weights.
+ *
+ * Only targets that have drifted further than the tolerance are traded, and
+ * each is traded straight back to its target, so a portfolio that is close
+ * enough is left alone and one drifted target doesn't churn the rest. Sells
+ * come out of a target's largest holdings first and buys go into its smallest,
+ * keeping the number of trades down. Buys are paid for with cash plus the
+ * proceeds of the sells, and are scaled down together when that isn't enough.
+ */
+import type { AllocationBasis, PortfolioWithHoldings, RebalanceTargets } from '../schema';
+
+// Trades smaller than this aren't worth placing
+export const MIN_TRADE_VALUE = 1;
+
+export interface RebalancePosition {
+  ticker: string;
+  industry: string;
+  shares: number;
+  price: number;
+}
+
+export interface RebalanceInput {
+  positions: RebalancePosition[];
+  cash: number;
+  targets: RebalanceTargets;
+  // Prices for target tickers that aren't held yet
+  prices?: Record<string, number>;
+  // Flat fee per trade, as charged by the portfolio
+  tradeFee?: number;
+}
+
+export interface RebalanceTrade {
+  ticker: string;
+  side: 'buy' | 'sell';
+  shares: number;
+  price: number;
+  // Cash debited for a buy (fee included) or credited for a sell (fee deducted)
+  amount: number;
+}
+
+export interface AllocationDrift {
+  // Ticker or industry
+  key: string;
+  currentWeight: number;
+  // Null for holdings without a target, which are left alone
+  targetWeight: number | null;
+  // Current minus target, in percentage points
+  drift: number | null;
+  outOfTolerance: boolean;
+}
+
+export interface RebalancePlan {
+  basis: AllocationBasis;
+  tolerance: number;
+  totalValue: number;
+  cash: number;
+  // Cash left once every trade has been placed
+  cashAfter: number;
+  drift: AllocationDrift[];
+  // Sells first, then buys
+  trades: RebalanceTrade[];
+  warnings: string[];
+}
+
+// Response from POST /api/portfolio/rebalance
+export interface RebalanceResult {
+  portfolio: PortfolioWithHoldings;
+  trades: RebalanceTrade[];
+}
+
+const round = (value: number, digits: number = 2) => Number(value.toFixed(digits));
+
+/**
+ * Plan the trades that rebalance the positions to the targets
+ */
+export function planRebalance({ positions, cash, targets, prices = {}, tradeFee = 0 }: RebalanceInput): RebalancePlan {
+  const bucketOf = (position: RebalancePosition) => targets.basis === 'ticker' ? position.ticker : position.industry;
+  const totalValue = cash + positions.reduce((total, position) => total + position.shares * position.price, 0);
+  const plan: RebalancePlan = {
+    basis: targets.basis,
+    tolerance: targets.tolerance,
+    totalValue,
+    cash,
+    cashAfter: cash,
+    drift: [],
+    trades: [],
+    warnings: []
+  };
+  if (totalValue <= 0) return plan;
+
+  const valueByBucket = new Map<string, number>();
+  positions.forEach(position => {
+    const key = bucketOf(position);
+    valueByBucket.set(key, (valueByBucket.get(key) ?? 0) + position.shares * position.price);
+  });
+
+  const keys = Array.from(new Set([...Object.keys(targets.weights), ...Array.from(valueByBucket.keys())])).sort();
+  plan.drift = keys.map(key => {
+    const currentWeight = ((valueByBucket.get(key) ?? 0) / totalValue) * 100;
+    const targetWeight = targets.weights[key] ?? null;
+    const drift = targetWeight === null ? null : currentWeight - targetWeight;
+    return {
+      key,
+      currentWeight,
+      targetWeight,
+      drift,
+      outOfTolerance: drift !== null && Math.abs(drift) > targets.tolerance
+    };
+  });
+
+  // Value to sell (negative) or buy (positive) in each holding of the drifted targets
+  const sells: { position: RebalancePosition; value: number }[] = [];
+  const buys: { ticker: string; price: number; value: number }[] = [];
+
+  plan.drift.filter(entry => entry.outOfTolerance).forEach(entry => {
+    const held = positions
+      .filter(position => bucketOf(position) === entry.key)
+      .sort((a, b) => b.shares * b.price - a.shares * a.price);
+    let change = ((entry.targetWeight! - entry.currentWeight) / 100) * totalValue;
+
+    if (change < 0) {
+      for (const position of held) {
+        if (change >= 0) break;
+        const value = Math.min(-change, position.shares * position.price);
+        sells.push({ position, value });
+        change += value;
+      }
+      return;
+    }
+
+    const smallest = held[held.length - 1];
+    if (smallest) {
+      buys.push({ ticker: smallest.ticker, price: smallest.price, value: change });
+    } else if (targets.basis === 'ticker' && prices[entry.key] > 0) {
+      buys.push({ ticker: entry.key, price: prices[entry.key], value: change });
+    } else {
+      plan.warnings.push(targets.basis === 'industry'
+        ? `No ${entry.key} holdings to add to; buy a ${entry.key} stock to start that allocation`
+        : `No price for ${entry.key}, so it can't be bought`);
+    }
+  });
+
+  sells.forEach(({ position, value }) => {
+    if (value < MIN_TRADE_VALUE || value <= tradeFee) return;
+    // Selling (almost) a whole position sells exactly its shares
+    const shares = value >= position.shares * position.price - 0.005 ? position.shares : value / position.price;
+    const amount = shares * position.price - tradeFee;
+    plan.trades.push({ ticker: position.ticker, side: 'sell', shares, price: position.price, amount: round(amount) });
+    plan.cashAfter += amount;
+  });
+
+  // Every buy pays its fee on top of the value it adds
+  const wanted = buys.reduce((total, buy) => total + buy.value + tradeFee, 0);
+  const scale = wanted > plan.cashAfter ? Math.max(0, plan.cashAfter) / wanted : 1;
+  if (scale < 1 && buys.length > 0) {
+    plan.warnings.push(`Not enough cash to reach every target; buys are scaled to ${Math.floor(scale * 100)}% of what's needed`);
+  }
+
+  buys.forEach(buy => {
+    const amount = Math.floor((buy.value + tradeFee) * scale * 100) / 100;
+    if (amount - tradeFee < MIN_TRADE_VALUE || amount > plan.cashAfter) return;
+    plan.trades.push({ ticker: buy.ticker, side: 'buy', shares: (amount - tradeFee) / buy.price, price: buy.price, amount });
+    plan.cashAfter -= amount;
+  });
+
+  plan.cashAfter = round(plan.cashAfter);
+  return plan;
+}
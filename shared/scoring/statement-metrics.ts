@@ -0,0 +1,459 @@
+/**
+ * Derives the metric details the scoring engine needs from the raw columns of
+ * the stocks and stock_data tables, so scores follow the latest statements and
+ * prices instead of hand-typed numbers.
+ *
+ * Statements (incomeStatement, balanceSheet, cashFlow) may be stored as an
+ * array of periods ({ date | endDate, ...fields }), as an object keyed by
+ * period date (how yfinance exports a DataFrame), or wrapped in a Yahoo module
+ * object like { incomeStatementHistory: [...] }. Field names are matched
+ * loosely, so "Total Revenue" and "totalRevenue" are the same field, and
+ * Yahoo's { raw, fmt } numbers are unwrapped.
+ */
+import type { Stock, StockDetailedData, ClosingPricePoint, DividendPoint } from '../schema';
+import type { StockData } from './types';
+import { getAdvancedMetricScore, calculateOverallSwipefolioScore } from './advanced-metric-scoring';
+
+const TRADING_DAYS_PER_YEAR = 252;
+const RSI_PERIOD = 14;
+const CHART_POINTS = 12;
+
+const FIELD_ALIASES = {
+  revenue: ['totalRevenue', 'revenue', 'operatingRevenue'],
+  netIncome: ['netIncome', 'netIncomeCommonStockholders', 'netIncomeApplicableToCommonShares'],
+  operatingIncome: ['ebit', 'operatingIncome'],
+  eps: ['dilutedEPS', 'basicEPS', 'trailingEps'],
+  equity: ['totalStockholderEquity', 'stockholdersEquity', 'commonStockEquity', 'totalEquityGrossMinorityInterest'],
+  totalDebt: ['totalDebt'],
+  longTermDebt: ['longTermDebt'],
+  shortTermDebt: ['shortLongTermDebt', 'currentDebt', 'shortTermDebt'],
+  shares: ['sharesOutstanding', 'ordinarySharesNumber', 'shareIssued'],
+  dividendsPaid: ['cashDividendsPaid', 'dividendsPaid', 'commonStockDividendPaid']
+};
+
+export interface DeriveStockDataOptions {
+  // Swipefolio industry to score against, e.g. "Tech". Defaults to the stock's own industry.
+  industry?: string;
+  // Benchmark closes (e.g. the S&P 500) for beta and relative performance
+  benchmarkHistory?: ClosingPricePoint[];
+}
+
+type Period = { date: string; fields: Map<string, number> };
+
+// "Total Revenue", "totalRevenue" and "total_revenue" all become "totalrevenue"
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const toNumber = (value: unknown): number | null => {
+  if (value && typeof value === 'object' && 'raw' in value) {
+    return toNumber((value as { raw: unknown }).raw);
+  }
+  const num = typeof value === 'string' ? parseFloat(value.replace(/[$%,]/g, '')) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+};
+
+const toDateString = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'raw' in value) {
+    // Yahoo dates come as { raw: epochSeconds, fmt: "2024-09-28" }
+    return toDateString((value as { fmt?: unknown; raw: unknown }).fmt ?? Number((value as { raw: unknown }).raw) * 1000);
+  }
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+const round = (value: number, decimals: number = 2) => Number(value.toFixed(decimals));
+
+/**
+ * Normalize a statement column into periods, newest first
+ */
+function toPeriods(statement: unknown): Period[] {
+  if (!statement || typeof statement !== 'object') return [];
+
+  let rows: Array<{ date: unknown; values: Record<string, unknown> }>;
+  if (Array.isArray(statement)) {
+    rows = statement
+      .filter(row => row && typeof row === 'object')
+      .map(row => ({ date: row.date ?? row.endDate ?? row.asOfDate, values: row }));
+  } else {
+    const entries = Object.entries(statement as Record<string, unknown>);
+    const wrapped = entries.find(([, value]) => Array.isArray(value));
+    if (wrapped && entries.length === 1) {
+      return toPeriods(wrapped[1]);
+    }
+    rows = entries
+      .filter(([, values]) => values && typeof values === 'object')
+      .map(([date, values]) => ({ date, values: values as Record<string, unknown> }));
+  }
+
+  return rows
+    .map(({ date, values }) => {
+      const fields = new Map<string, number>();
+      Object.entries(values).forEach(([key, value]) => {
+        const num = toNumber(value);
+        if (num !== null) fields.set(normalizeKey(key), num);
+      });
+      return { date: toDateString(date) || '', fields };
+    })
+    .filter(period => period.date && period.fields.size > 0)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function pick(source: Period | Map<string, number> | undefined, aliases: string[]): number | null {
+  const fields = source instanceof Map ? source : source?.fields;
+  if (!fields) return null;
+  for (const alias of aliases) {
+    const value = fields.get(normalizeKey(alias));
+    if (value !== undefined) return value;
+  }
+  return null;
+}
+
+// Flat numeric view of stockData.financialData for fallbacks
+function toFieldMap(data: unknown): Map<string, number> {
+  const fields = new Map<string, number>();
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    Object.entries(data as Record<string, unknown>).forEach(([key, value]) => {
+      const num = toNumber(value);
+      if (num !== null) fields.set(normalizeKey(key), num);
+    });
+  }
+  return fields;
+}
+
+/**
+ * Normalize closingHistory into ascending { date, close } points.
+ * Accepts ClosingPricePoint[], yfinance-style { Date, Close } rows,
+ * [date, close] tuples or an object keyed by date. Open, high, low,
+ * volume and adjClose are kept when a ClosingPricePoint row has them.
+ */
+export function toClosingHistory(history: unknown): ClosingPricePoint[] {
+  if (!history || typeof history !== 'object') return [];
+
+  const rows: Array<[unknown, unknown, unknown?]> = Array.isArray(history)
+    ? history.map(row => Array.isArray(row)
+        ? [row[0], row[1]] as [unknown, unknown]
+        : [row?.date ?? row?.Date, row?.close ?? row?.Close ?? row?.adjClose ?? row?.['Adj Close'], row] as [unknown, unknown, unknown])
+    : Object.entries(history as Record<string, unknown>);
+
+  return rows
+    .map(([date, close, row]) => ({ ...toBarFields(row), date: toDateString(date), close: toNumber(close) }))
+    .filter((point): point is ClosingPricePoint => !!point.date && point.close !== null && point.close > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const BAR_FIELDS = ['open', 'high', 'low', 'volume', 'adjClose'] as const;
+
+function toBarFields(row: unknown): Partial<ClosingPricePoint> {
+  const fields: Partial<ClosingPricePoint> = {};
+  if (row && typeof row === 'object') {
+    BAR_FIELDS.forEach(field => {
+      const value = toNumber((row as Record<string, unknown>)[field]);
+      if (value !== null) fields[field] = value;
+    });
+  }
+  return fields;
+}
+
+/**
+ * Normalize the dividends column into ascending { date, amount } payments
+ */
+export function toDividendHistory(dividends: unknown): DividendPoint[] {
+  if (!dividends || typeof dividends !== 'object') return [];
+
+  const rows: Array<[unknown, unknown]> = Array.isArray(dividends)
+    ? dividends.map(row => Array.isArray(row)
+        ? [row[0], row[1]] as [unknown, unknown]
+        : [row?.date ?? row?.Date, row?.amount ?? row?.dividends ?? row?.Dividends] as [unknown, unknown])
+    : Object.entries(dividends as Record<string, unknown>);
+
+  return rows
+    .map(([date, amount]) => ({ date: toDateString(date), amount: toNumber(amount) }))
+    .filter((point): point is DividendPoint => !!point.date && point.amount !== null && point.amount > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function shiftDate(date: string, { months = 0, years = 0 }: { months?: number; years?: number }): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() + years, shifted.getUTCMonth() + months);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Last close on or before the date
+function closeOnOrBefore(history: ClosingPricePoint[], date: string): number | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].date <= date) return history[i].close;
+  }
+  return null;
+}
+
+/**
+ * Percent change from the close `period` before the latest close
+ */
+function periodReturn(history: ClosingPricePoint[], period: { months?: number; years?: number }): number | null {
+  if (history.length < 2) return null;
+  const latest = history[history.length - 1];
+  const start = closeOnOrBefore(history, shiftDate(latest.date, { months: -(period.months || 0), years: -(period.years || 0) }));
+  return start ? ((latest.close - start) / start) * 100 : null;
+}
+
+// Daily simple returns keyed by date
+function dailyReturns(history: ClosingPricePoint[]): Map<string, number> {
+  const returns = new Map<string, number>();
+  for (let i = 1; i < history.length; i++) {
+    returns.set(history[i].date, history[i].close / history[i - 1].close - 1);
+  }
+  return returns;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Annualized standard deviation of daily returns over the last year, in percent
+ */
+function annualizedVolatility(history: ClosingPricePoint[]): number | null {
+  const returns = Array.from(dailyReturns(history.slice(-(TRADING_DAYS_PER_YEAR + 1))).values());
+  if (returns.length < 20) return null;
+  const avg = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - avg) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+}
+
+/**
+ * Beta against the benchmark over the last year, using days both have a close
+ */
+function calculateBeta(history: ClosingPricePoint[], benchmark: ClosingPricePoint[]): number | null {
+  const stockReturns = dailyReturns(history.slice(-(TRADING_DAYS_PER_YEAR + 1)));
+  const benchmarkReturns = dailyReturns(benchmark);
+  const pairs = Array.from(stockReturns.entries())
+    .filter(([date]) => benchmarkReturns.has(date))
+    .map(([date, r]) => [r, benchmarkReturns.get(date)!] as [number, number]);
+  if (pairs.length < 20) return null;
+
+  const stockMean = mean(pairs.map(([s]) => s));
+  const benchmarkMean = mean(pairs.map(([, b]) => b));
+  const covariance = pairs.reduce((sum, [s, b]) => sum + (s - stockMean) * (b - benchmarkMean), 0);
+  const variance = pairs.reduce((sum, [, b]) => sum + (b - benchmarkMean) ** 2, 0);
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * 14-day RSI with Wilder's smoothing
+ */
+function calculateRSI(history: ClosingPricePoint[]): number | null {
+  if (history.length <= RSI_PERIOD) return null;
+
+  let gains = 0;
+  let losses = 0;
+  for (let i = 1; i <= RSI_PERIOD; i++) {
+    const change = history[i].close - history[i - 1].close;
+    if (change > 0) gains += change; else losses -= change;
+  }
+  let avgGain = gains / RSI_PERIOD;
+  let avgLoss = losses / RSI_PERIOD;
+
+  for (let i = RSI_PERIOD + 1; i < history.length; i++) {
+    const change = history[i].close - history[i - 1].close;
+    avgGain = (avgGain * (RSI_PERIOD - 1) + Math.max(change, 0)) / RSI_PERIOD;
+    avgLoss = (avgLoss * (RSI_PERIOD - 1) + Math.max(-change, 0)) / RSI_PERIOD;
+  }
+
+  if (avgLoss === 0) return 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * "High" when a dividend was paid in each of the last five years without the
+ * yearly total dropping, "Medium" for regular payers with a cut or a gap,
+ * "Low" for occasional payers and "N/A" for none
+ */
+function dividendConsistency(dividends: DividendPoint[], asOf: string): string {
+  const lastYear = Number(asOf.slice(0, 4)) - 1;
+  const totals = [4, 3, 2, 1, 0].map(back => dividends
+    .filter(d => Number(d.date.slice(0, 4)) === lastYear - back)
+    .reduce((sum, d) => sum + d.amount, 0));
+
+  const yearsPaid = totals.filter(total => total > 0).length;
+  if (yearsPaid === 0) return 'N/A';
+  const neverCut = totals.every((total, i) => i === 0 || total >= totals[i - 1] * 0.99);
+  if (yearsPaid === 5 && neverCut) return 'High';
+  if (yearsPaid >= 3) return 'Medium';
+  return 'Low';
+}
+
+// Yahoo reports ratios like profitMargins as fractions
+const percent = (value: number | null) => value === null ? null : value * 100;
+
+const firstNumber = (...values: Array<number | null | undefined>) => values.find(v => v !== null && v !== undefined && Number.isFinite(v)) ?? null;
+
+function rateScore(score: number): { value: string; color: string } {
+  if (score >= 70) return { value: 'Good', color: 'green' };
+  if (score >= 40) return { value: 'Average', color: 'yellow' };
+  return { value: 'Poor', color: 'red' };
+}
+
+const describe = (value: number | null, suffix: string = '%') => value === null ? 'n/a' : `${round(value, 1)}${suffix}`;
+
+/**
+ * Build a StockData object from a stocks row and its stock_data row, ready for
+ * scoring. Metrics that can't be derived fall back to the stocks row or
+ * financialData, and finally to 0 (which scores as neutral or weak).
+ */
+export function deriveStockData(
+  stock: Stock,
+  data: StockDetailedData | null | undefined,
+  options: DeriveStockDataOptions = {}
+): StockData {
+  const income = toPeriods(data?.incomeStatement);
+  const balance = toPeriods(data?.balanceSheet);
+  const cashFlow = toPeriods(data?.cashFlow);
+  const financial = toFieldMap(data?.financialData);
+  const history = toClosingHistory(data?.closingHistory);
+  const dividends = toDividendHistory(data?.dividends);
+  const benchmark = toClosingHistory(options.benchmarkHistory);
+
+  const latestClose = history.length ? history[history.length - 1] : null;
+  const price = firstNumber(toNumber(stock.currentPrice), pick(financial, ['currentPrice', 'regularMarketPrice']), latestClose?.close) ?? 0;
+  const asOf = latestClose?.date || new Date().toISOString().slice(0, 10);
+
+  // --- Performance ---
+  const [latestIncome, priorIncome] = income;
+  const revenue = pick(latestIncome, FIELD_ALIASES.revenue);
+  const priorRevenue = pick(priorIncome, FIELD_ALIASES.revenue);
+  const netIncome = pick(latestIncome, FIELD_ALIASES.netIncome);
+  const operatingIncome = pick(latestIncome, FIELD_ALIASES.operatingIncome);
+
+  const latestBalance = balance[0];
+  const equity = pick(latestBalance, FIELD_ALIASES.equity);
+  const totalDebt = firstNumber(
+    pick(latestBalance, FIELD_ALIASES.totalDebt),
+    (pick(latestBalance, FIELD_ALIASES.longTermDebt) ?? 0) + (pick(latestBalance, FIELD_ALIASES.shortTermDebt) ?? 0)
+  );
+  const investedCapital = equity !== null ? equity + (totalDebt ?? 0) : null;
+
+  const revenueGrowth = firstNumber(
+    revenue !== null && priorRevenue ? ((revenue - priorRevenue) / Math.abs(priorRevenue)) * 100 : null,
+    percent(pick(financial, ['revenueGrowth']))
+  );
+  const profitMargin = firstNumber(
+    revenue && netIncome !== null ? (netIncome / revenue) * 100 : null,
+    percent(pick(financial, ['profitMargins']))
+  );
+  const returnOnCapital = firstNumber(
+    investedCapital && operatingIncome !== null ? (operatingIncome / investedCapital) * 100 : null,
+    percent(pick(financial, ['returnOnEquity']))
+  );
+
+  // --- Stability ---
+  const volatility = annualizedVolatility(history);
+  const beta = firstNumber(benchmark.length ? calculateBeta(history, benchmark) : null, toNumber(stock.beta), pick(financial, ['beta']));
+  const consistency = dividendConsistency(dividends, asOf);
+
+  // --- Value ---
+  const marketCap = toNumber(stock.marketCap);
+  const shares = firstNumber(
+    pick(financial, FIELD_ALIASES.shares),
+    pick(latestBalance, FIELD_ALIASES.shares),
+    marketCap && price ? marketCap / price : null
+  );
+  const eps = firstNumber(
+    toNumber(stock.eps),
+    pick(latestIncome, FIELD_ALIASES.eps),
+    netIncome !== null && shares ? netIncome / shares : null
+  );
+  const peRatio = firstNumber(eps && eps > 0 && price ? price / eps : null, toNumber(stock.peRatio), pick(financial, ['trailingPE']));
+  const bookPerShare = equity !== null && shares ? equity / shares : null;
+  const pbRatio = firstNumber(bookPerShare && bookPerShare > 0 && price ? price / bookPerShare : null, pick(financial, ['priceToBook']));
+
+  const yearAgo = shiftDate(asOf, { years: -1 });
+  const trailingDividends = dividends.filter(d => d.date > yearAgo).reduce((sum, d) => sum + d.amount, 0);
+  const dividendsPaid = pick(cashFlow[0], FIELD_ALIASES.dividendsPaid);
+  const dividendYield = firstNumber(
+    trailingDividends > 0 && price ? (trailingDividends / price) * 100 : null,
+    dividendsPaid && marketCap ? (Math.abs(dividendsPaid) / marketCap) * 100 : null,
+    toNumber(stock.dividendYield),
+    percent(pick(financial, ['dividendYield']))
+  ) ?? 0;
+
+  const targetPrice = pick(financial, ['targetMeanPrice']);
+  const predictedUpside = targetPrice && price ? ((targetPrice - price) / price) * 100 : undefined;
+
+  // --- Momentum ---
+  const threeMonthReturn = periodReturn(history, { months: 3 });
+  const oneYearReturn = periodReturn(history, { years: 1 });
+  const benchmarkThreeMonth = benchmark.length ? periodReturn(benchmark, { months: 3 }) : null;
+  // Relative performance is the 3-month return over the benchmark's
+  const relativePerformance = threeMonthReturn !== null && benchmarkThreeMonth !== null ? threeMonthReturn - benchmarkThreeMonth : null;
+  const rsi = calculateRSI(history);
+
+  const previousClose = history.length > 1 ? history[history.length - 2].close : null;
+  const step = Math.max(1, Math.floor(Math.min(history.length, TRADING_DAYS_PER_YEAR) / CHART_POINTS));
+  const chartData = history.slice(-step * CHART_POINTS).filter((_, i, recent) => (recent.length - 1 - i) % step === 0).map(p => round(p.close));
+
+  const stockData: StockData = {
+    name: stock.companyName,
+    ticker: stock.ticker,
+    price: round(price),
+    change: previousClose && latestClose ? round(((latestClose.close - previousClose) / previousClose) * 100) : 0,
+    rating: 0,
+    description: stock.description || '',
+    oneYearReturn: oneYearReturn !== null ? `${round(oneYearReturn)}%` : undefined,
+    predictedPrice: targetPrice ? `$${targetPrice.toFixed(2)}` : undefined,
+    metrics: {
+      performance: {
+        value: '',
+        color: '',
+        details: {
+          revenueGrowth: round(revenueGrowth ?? 0),
+          profitMargin: round(profitMargin ?? 0),
+          returnOnCapital: round(returnOnCapital ?? 0)
+        },
+        explanation: `Revenue growth ${describe(revenueGrowth)}, profit margin ${describe(profitMargin)}, return on capital ${describe(returnOnCapital)}.`
+      },
+      stability: {
+        value: '',
+        color: '',
+        details: {
+          volatility: round(volatility ?? 0),
+          beta: round(beta ?? 1),
+          dividendConsistency: consistency
+        },
+        explanation: `Volatility ${describe(volatility)}, beta ${describe(beta, '')}, dividend consistency ${consistency}.`
+      },
+      value: {
+        value: '',
+        color: '',
+        details: {
+          peRatio: round(peRatio ?? 0),
+          pbRatio: round(pbRatio ?? 0),
+          dividendYield: round(dividendYield),
+          ...(predictedUpside !== undefined ? { predictedUpside: round(predictedUpside) } : {})
+        },
+        explanation: `P/E ${describe(peRatio, '')}, P/B ${describe(pbRatio, '')}, dividend yield ${describe(dividendYield)}.`
+      },
+      momentum: {
+        value: '',
+        color: '',
+        details: {
+          threeMonthReturn: round(threeMonthReturn ?? 0),
+          relativePerformance: round(relativePerformance ?? 0),
+          rsi: round(rsi ?? 50),
+          ...(oneYearReturn !== null ? { oneYearReturn: round(oneYearReturn) } : {})
+        },
+        explanation: `3-month return ${describe(threeMonthReturn)}, ${describe(relativePerformance)} versus the benchmark, RSI ${describe(rsi, '')}.`
+      }
+    },
+    synopsis: { price: '', company: '', role: '' },
+    overallAnalysis: '',
+    chartData,
+    industry: options.industry || stock.industry || 'Default'
+  };
+
+  // Fill in the Good / Average / Poor labels from the scores the details produce
+  (['performance', 'stability', 'value', 'momentum'] as const).forEach(category => {
+    Object.assign(stockData.metrics[category], rateScore(getAdvancedMetricScore(stockData, category)));
+  });
+  // Ratings are out of 10
+  stockData.rating = round(calculateOverallSwipefolioScore(stockData) / 10, 1);
+
+  return stockData;
+}
@@ -0,0 +1,147 @@
+// The raw inputs for each metric category
+export interface PerformanceDetails {
+  revenueGrowth: number;
+  profitMargin: number;
+  returnOnCapital: number;
+  // Individual metric 1-liners
+  revenueGrowthExplanation?: string;
+  profitMarginExplanation?: string;
+  returnOnCapitalExplanation?: string;
+}
+
+export interface StabilityDetails {
+  volatility: number;
+  beta: number;
+  dividendConsistency: string;
+  // Individual metric 1-liners
+  volatilityExplanation?: string;
+  betaExplanation?: string;
+  dividendConsistencyExplanation?: string;
+}
+
+export interface ValueDetails {
+  peRatio: number;
+  pbRatio: number;
+  dividendYield: number | string;
+  predictedUpside?: number; // Added for consistency with advanced metric scoring
+  // Individual metric 1-liners
+  peRatioExplanation?: string;
+  pbRatioExplanation?: string;
+  dividendYieldExplanation?: string;
+  predictedUpsideExplanation?: string;
+}
+
+export interface MomentumDetails {
+  threeMonthReturn: number;
+  relativePerformance: number;
+  rsi: number;
+  oneYearReturn?: number; // Added for consistency with advanced metric scoring
+  oneYearReturnAvg?: number; // Added for consistency with industry averages
+  // Individual metric 1-liners
+  threeMonthReturnExplanation?: string;
+  relativePerformanceExplanation?: string;
+  rsiExplanation?: string;
+  oneYearReturnExplanation?: string;
+}
+
+export interface PotentialDetails {
+  predictedUpside?: number;
+  revenueGrowth?: number;
+  relativePerformance?: number;
+  // Individual metric 1-liners
+  predictedUpsideExplanation?: string;
+  revenueGrowthExplanation?: string;
+  relativePerformanceExplanation?: string;
+}
+
+export interface StockData {
+  name: string;
+  ticker: string;
+  price: number;
+  change: number;
+  rating: number;
+  smartScore?: string;
+  description: string;
+  oneYearReturn?: string; // 1-year return percentage (e.g., "13.27%")
+  predictedPrice?: string; // Predicted future price (e.g., "$128.79")
+  metrics: {
+    performance: {
+      value: string;
+      color: string;
+      details: PerformanceDetails;
+      explanation: string;
+    };
+    stability: {
+      value: string;
+      color: string;
+      details: StabilityDetails;
+      explanation: string;
+    };
+    value: {
+      value: string;
+      color: string;
+      details: ValueDetails;
+      explanation: string;
+    };
+    momentum: {
+      value: string;
+      color: string;
+      details: MomentumDetails;
+      explanation: string;
+    };
+    potential?: {
+      value: string;
+      color: string;
+      details: PotentialDetails;
+      explanation: string;
+    };
+  };
+  synopsis: {
+    price: string;
+    company: string;
+    role: string;
+  };
+  overallAnalysis: string;
+  chartData: number[];
+  industry: string;
+}
+
+/**
+ * The parts of a stock the scoring engine reads. The client's StockData and
+ * rows built on the server both satisfy it.
+ */
+export interface ScorableStock {
+  ticker: string;
+  industry: string;
+  price: number;
+  oneYearReturn?: string; // e.g. "13.27%"
+  predictedPrice?: string; // e.g. "$128.79"
+  metrics: {
+    performance: { details: PerformanceDetails };
+    stability: { details: StabilityDetails };
+    value: { details: ValueDetails };
+    momentum: { details: MomentumDetails };
+    potential?: { details: PotentialDetails };
+  };
+}
+
+export type ScoreCategory = "performance" | "stability" | "value" | "momentum" | "potential";
+
+/**
+ * Every category score for a stock, the overall Swipefolio score and the inputs they came from
+ */
+export interface StockScores {
+  ticker: string;
+  industry: string;
+  scores: Record<ScoreCategory, number>;
+  overall: number;
+  inputs: {
+    price: number;
+    oneYearReturn: number | null;
+    predictedUpside: number | null;
+    performance: PerformanceDetails;
+    stability: StabilityDetails;
+    value: ValueDetails;
+    momentum: MomentumDetails;
+  };
+}
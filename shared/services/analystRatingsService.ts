@@ -1,4 +1,3 @@
-import yahooFinance from 'yahoo-finance2';
 import { format, isValid } from 'date-fns';
 
 // --- Helper Functions ---
@@ -157,19 +156,24 @@ function processAnalystData(result: any, symbol: string) {
 
 // --- Main API Fetching Function ---
 
+/**
+ * The quoteSummary modules analyst data is built from.
+ */
+export const ANALYST_DATA_MODULES = ['financialData', 'recommendationTrend', 'upgradeDowngradeHistory'] as const;
+
 /**
  * Fetches and processes analyst data for a given stock symbol.
  * @param symbol The stock ticker (e.g., "AAPL").
+ * @param fetchSummary Fetches the quoteSummary modules, e.g. from the server's market data provider.
  * @returns A promise resolving to the structured analyst data or null.
  */
-export async function getAnalystData(symbol: string): Promise<any | null> {
+export async function getAnalystData(
+  symbol: string,
+  fetchSummary: (symbol: string, modules: typeof ANALYST_DATA_MODULES) => Promise<unknown>
+): Promise<any | null> {
   console.log(`Fetching analyst data for ${symbol}...`);
   try {
-    // Skip type issues for now - cast to any to avoid typescript errors
-    // @ts-ignore - Yahoo Finance typings are difficult to work with
-    const result = await yahooFinance.quoteSummary(symbol, {
-      modules: ['financialData', 'recommendationTrend', 'upgradeDowngradeHistory']
-    });
+    const result = await fetchSummary(symbol, ANALYST_DATA_MODULES);
     return processAnalystData(result, symbol); // Pass result and symbol to processor
 
   } catch (error: any) {
@@ -0,0 +1,26 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["{client,server,shared}/**/*.test.ts"],
+    environment: "node",
+    // Tests never touch a real database, market data or LLM provider
+    env: {
+      STORAGE_DRIVER: "memory",
+      DISABLE_MARKET_DATA_JOBS: "true",
+      MARKET_DATA_PROVIDER: "fixtures",
+      LLM_PROVIDER: "mock",
+    },
+  },
+});